@@ -127,4 +127,1131 @@ CREATE POLICY "Users can view finished goods from their active areas" ON finishe
             WHERE clerk_user_id = auth.jwt() ->> 'sub' 
             AND role = 'superadmin' AND is_active = TRUE
         )
-    );
\ No newline at end of file
+    );
+
+-- 12. Persist iDempiere finished goods server-side (keyed on erp_id = M_Product_ID)
+-- Products owned by organization * (AD_Org_ID = 0) are shared by every area, so area_id becomes optional
+ALTER TABLE finished_goods ALTER COLUMN area_id DROP NOT NULL;
+ALTER TABLE finished_goods ADD COLUMN IF NOT EXISTS product_code VARCHAR(100);
+ALTER TABLE finished_goods ADD COLUMN IF NOT EXISTS category_erp_id INTEGER;
+ALTER TABLE finished_goods ADD COLUMN IF NOT EXISTS category_name VARCHAR(255);
+ALTER TABLE finished_goods ADD COLUMN IF NOT EXISTS parent1 VARCHAR(255);
+ALTER TABLE finished_goods ADD COLUMN IF NOT EXISTS parent2 VARCHAR(255);
+ALTER TABLE finished_goods ADD COLUMN IF NOT EXISTS small_uom VARCHAR(50);
+ALTER TABLE finished_goods ADD COLUMN IF NOT EXISTS big_uom VARCHAR(50);
+ALTER TABLE finished_goods ADD COLUMN IF NOT EXISTS weight NUMERIC(12, 4);
+ALTER TABLE finished_goods ADD COLUMN IF NOT EXISTS is_active BOOLEAN DEFAULT TRUE;
+ALTER TABLE finished_goods ADD COLUMN IF NOT EXISTS erp_updated_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE finished_goods ADD COLUMN IF NOT EXISTS erp_payload JSONB;
+
+CREATE INDEX IF NOT EXISTS idx_finished_goods_is_active ON finished_goods(is_active);
+CREATE INDEX IF NOT EXISTS idx_finished_goods_updated_at ON finished_goods(updated_at);
+
+-- 13. Record every server-side iDempiere sync run
+CREATE TABLE IF NOT EXISTS erp_sync_runs (
+    id SERIAL PRIMARY KEY,
+    entity VARCHAR(50) NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'success', 'failed')),
+    triggered_by VARCHAR(255),
+    records_fetched INTEGER DEFAULT 0,
+    records_upserted INTEGER DEFAULT 0,
+    records_deactivated INTEGER DEFAULT 0,
+    error_message TEXT,
+    started_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    finished_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_erp_sync_runs_entity_started_at ON erp_sync_runs(entity, started_at DESC);
+
+ALTER TABLE erp_sync_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Superadmins can view sync runs" ON erp_sync_runs
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM user_profiles 
+            WHERE clerk_user_id = auth.jwt() ->> 'sub' 
+            AND role = 'superadmin' AND is_active = TRUE
+        )
+    );
+
+-- 14. Append-only stock movement ledger
+-- item_id points at raw_materials.id or finished_goods.id depending on item_type
+CREATE TABLE IF NOT EXISTS stock_movements (
+    id BIGSERIAL PRIMARY KEY,
+    item_type VARCHAR(20) NOT NULL CHECK (item_type IN ('raw_material', 'finished_good')),
+    item_id INTEGER NOT NULL,
+    area_id INTEGER NOT NULL REFERENCES master_areas(id),
+    quantity_delta INTEGER NOT NULL CHECK (quantity_delta <> 0),
+    movement_type VARCHAR(20) NOT NULL CHECK (movement_type IN ('receipt', 'issue', 'transfer', 'adjustment', 'erp_sync')),
+    reference_document VARCHAR(255),
+    transfer_id UUID,
+    notes TEXT,
+    created_by VARCHAR(255),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_stock_movements_item ON stock_movements(item_type, item_id, area_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_stock_movements_area_id ON stock_movements(area_id, created_at DESC);
+
+-- iDempiere-synced finished goods get their stock from per-area erp_sync movements on the next sync run
+UPDATE finished_goods SET current_stock = 0
+WHERE erp_payload IS NOT NULL AND NOT EXISTS (SELECT 1 FROM stock_movements);
+
+-- Opening balances for stock recorded before the ledger existed
+INSERT INTO stock_movements (item_type, item_id, area_id, quantity_delta, movement_type, reference_document, notes)
+SELECT 'raw_material', id, area_id, current_stock, 'adjustment', 'opening-balance', 'Opening balance from current_stock'
+FROM raw_materials
+WHERE current_stock <> 0 AND NOT EXISTS (SELECT 1 FROM stock_movements WHERE reference_document = 'opening-balance');
+
+INSERT INTO stock_movements (item_type, item_id, area_id, quantity_delta, movement_type, reference_document, notes)
+SELECT 'finished_good', id, area_id, current_stock, 'adjustment', 'opening-balance', 'Opening balance from current_stock'
+FROM finished_goods
+WHERE current_stock <> 0 AND area_id IS NOT NULL AND erp_payload IS NULL
+  AND NOT EXISTS (SELECT 1 FROM stock_movements WHERE reference_document = 'opening-balance' AND item_type = 'finished_good');
+
+-- Ledger rows can never be changed; corrections are new adjustment movements
+CREATE OR REPLACE FUNCTION prevent_stock_movement_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'stock_movements is append-only';
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS stock_movements_append_only ON stock_movements;
+CREATE TRIGGER stock_movements_append_only
+BEFORE UPDATE OR DELETE ON stock_movements
+FOR EACH ROW EXECUTE FUNCTION prevent_stock_movement_changes();
+
+-- current_stock is derived from the ledger: every movement is applied to its item
+CREATE OR REPLACE FUNCTION apply_stock_movement()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.item_type = 'raw_material' THEN
+        UPDATE raw_materials SET current_stock = current_stock + NEW.quantity_delta WHERE id = NEW.item_id;
+    ELSE
+        UPDATE finished_goods SET current_stock = current_stock + NEW.quantity_delta WHERE id = NEW.item_id;
+    END IF;
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS apply_stock_movement_to_item ON stock_movements;
+CREATE TRIGGER apply_stock_movement_to_item
+AFTER INSERT ON stock_movements
+FOR EACH ROW EXECUTE FUNCTION apply_stock_movement();
+
+-- The views run with the caller's rights (security_invoker), so the RLS policies
+-- on stock_movements and the item tables apply to them as well
+-- Movements with the running balance of their item in their area
+CREATE OR REPLACE VIEW stock_movements_with_balance WITH (security_invoker = true) AS
+SELECT
+    sm.*,
+    SUM(sm.quantity_delta) OVER (
+        PARTITION BY sm.item_type, sm.item_id, sm.area_id
+        ORDER BY sm.created_at, sm.id
+    ) AS balance_after
+FROM stock_movements sm;
+
+-- Current ledger balance per item and area
+CREATE OR REPLACE VIEW stock_balances WITH (security_invoker = true) AS
+SELECT item_type, item_id, area_id, SUM(quantity_delta)::INTEGER AS balance, MAX(created_at) AS last_movement_at
+FROM stock_movements
+GROUP BY item_type, item_id, area_id;
+
+-- Items whose current_stock no longer matches the ledger (e.g. edited directly)
+CREATE OR REPLACE VIEW stock_ledger_discrepancies WITH (security_invoker = true) AS
+SELECT 'raw_material' AS item_type, rm.id AS item_id, rm.current_stock, COALESCE(SUM(sm.quantity_delta), 0)::INTEGER AS ledger_balance
+FROM raw_materials rm
+LEFT JOIN stock_movements sm ON sm.item_type = 'raw_material' AND sm.item_id = rm.id
+GROUP BY rm.id, rm.current_stock
+HAVING rm.current_stock <> COALESCE(SUM(sm.quantity_delta), 0)
+UNION ALL
+SELECT 'finished_good' AS item_type, fg.id AS item_id, fg.current_stock, COALESCE(SUM(sm.quantity_delta), 0)::INTEGER AS ledger_balance
+FROM finished_goods fg
+LEFT JOIN stock_movements sm ON sm.item_type = 'finished_good' AND sm.item_id = fg.id
+GROUP BY fg.id, fg.current_stock
+HAVING fg.current_stock <> COALESCE(SUM(sm.quantity_delta), 0);
+
+-- Post user movements in one transaction. Each outgoing item/area takes an
+-- advisory lock before its balance is checked, so two concurrent issues cannot
+-- both pass the check and overdraw it. Locks are taken in a fixed order so two
+-- transfers cannot deadlock.
+CREATE OR REPLACE FUNCTION post_stock_movements(p_movements JSONB)
+RETURNS SETOF stock_movements AS $$
+DECLARE
+    v_outgoing RECORD;
+    v_balance INTEGER;
+BEGIN
+    FOR v_outgoing IN
+        SELECT m.item_type, m.item_id, m.area_id, SUM(m.quantity_delta)::INTEGER AS quantity
+        FROM jsonb_to_recordset(p_movements) AS m(item_type VARCHAR, item_id INTEGER, area_id INTEGER, quantity_delta INTEGER)
+        WHERE m.quantity_delta < 0
+        GROUP BY m.item_type, m.item_id, m.area_id
+        ORDER BY m.item_type, m.item_id, m.area_id
+    LOOP
+        PERFORM pg_advisory_xact_lock(
+            hashtext('stock_movements:' || v_outgoing.item_type || ':' || v_outgoing.item_id || ':' || v_outgoing.area_id)
+        );
+
+        SELECT COALESCE(SUM(quantity_delta), 0)::INTEGER INTO v_balance
+        FROM stock_movements
+        WHERE item_type = v_outgoing.item_type
+          AND item_id = v_outgoing.item_id
+          AND area_id = v_outgoing.area_id;
+
+        IF v_balance + v_outgoing.quantity < 0 THEN
+            RAISE EXCEPTION 'Insufficient stock: % available in this area', v_balance USING ERRCODE = '55000';
+        END IF;
+    END LOOP;
+
+    RETURN QUERY
+    WITH inserted AS (
+        INSERT INTO stock_movements (item_type, item_id, area_id, quantity_delta, movement_type, reference_document, transfer_id, notes, created_by)
+        SELECT m.item_type, m.item_id, m.area_id, m.quantity_delta, m.movement_type, m.reference_document, m.transfer_id, m.notes, m.created_by
+        FROM jsonb_to_recordset(p_movements) AS m(
+            item_type VARCHAR, item_id INTEGER, area_id INTEGER, quantity_delta INTEGER, movement_type VARCHAR,
+            reference_document VARCHAR, transfer_id UUID, notes TEXT, created_by VARCHAR
+        )
+        RETURNING *
+    )
+    SELECT * FROM inserted;
+END;
+$$ language 'plpgsql';
+
+ALTER TABLE stock_movements ENABLE ROW LEVEL SECURITY;
+
+-- The select policy follows the area hierarchy, so it is created in section 20
+
+-- 15. Persisted activity feed (replaces the mocked RecentActivity entries)
+-- area_id NULL marks events that concern every area (e.g. iDempiere syncs)
+CREATE TABLE IF NOT EXISTS activity_events (
+    id BIGSERIAL PRIMARY KEY,
+    type VARCHAR(20) NOT NULL CHECK (type IN ('update', 'alert', 'reorder', 'sync')),
+    action VARCHAR(255) NOT NULL,
+    item VARCHAR(255) NOT NULL,
+    area_id INTEGER REFERENCES master_areas(id) ON DELETE SET NULL,
+    actor_clerk_user_id VARCHAR(255),
+    actor_name VARCHAR(255) NOT NULL DEFAULT 'System',
+    metadata JSONB,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_activity_events_created_at ON activity_events(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_activity_events_area_id ON activity_events(area_id, created_at DESC);
+
+ALTER TABLE activity_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view activity from their active areas" ON activity_events
+    FOR SELECT USING (
+        area_id IS NULL OR
+        area_id IN (
+            SELECT ma.id FROM master_areas ma
+            WHERE ma.is_active = TRUE AND (
+                ma.id IN (
+                    SELECT area_id FROM user_profiles 
+                    WHERE clerk_user_id = auth.jwt() ->> 'sub' AND is_active = TRUE
+                ) OR 
+                ma.id IN (
+                    SELECT uam.area_id FROM user_area_mappings uam
+                    JOIN user_profiles up ON uam.user_profile_id = up.id
+                    WHERE up.clerk_user_id = auth.jwt() ->> 'sub' AND up.is_active = TRUE
+                )
+            )
+        ) OR 
+        EXISTS (
+            SELECT 1 FROM user_profiles 
+            WHERE clerk_user_id = auth.jwt() ->> 'sub' 
+            AND role = 'superadmin' AND is_active = TRUE
+        )
+    );
+
+-- 16. Per-item, per-area stock thresholds (replaces the hard-coded 50/100 unit limits)
+-- min_stock is the safety stock, reorder_point triggers replenishment, max_stock caps it
+CREATE TABLE IF NOT EXISTS stock_thresholds (
+    id SERIAL PRIMARY KEY,
+    item_type VARCHAR(20) NOT NULL CHECK (item_type IN ('raw_material', 'finished_good')),
+    item_id INTEGER NOT NULL,
+    area_id INTEGER NOT NULL REFERENCES master_areas(id) ON DELETE CASCADE,
+    min_stock INTEGER NOT NULL DEFAULT 0 CHECK (min_stock >= 0),
+    reorder_point INTEGER NOT NULL CHECK (reorder_point >= 0),
+    max_stock INTEGER CHECK (max_stock IS NULL OR max_stock > 0),
+    updated_by VARCHAR(255),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(item_type, item_id, area_id),
+    CHECK (min_stock <= reorder_point),
+    CHECK (max_stock IS NULL OR reorder_point < max_stock)
+);
+
+CREATE INDEX IF NOT EXISTS idx_stock_thresholds_area_id ON stock_thresholds(area_id);
+
+DROP TRIGGER IF EXISTS update_stock_thresholds_updated_at ON stock_thresholds;
+CREATE TRIGGER update_stock_thresholds_updated_at 
+BEFORE UPDATE ON stock_thresholds 
+FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE stock_thresholds ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view thresholds from their active areas" ON stock_thresholds;
+CREATE POLICY "Users can view thresholds from their active areas" ON stock_thresholds
+    FOR SELECT USING (
+        area_id IN (
+            SELECT ma.id FROM master_areas ma
+            WHERE ma.is_active = TRUE AND (
+                ma.id IN (
+                    SELECT area_id FROM user_profiles 
+                    WHERE clerk_user_id = auth.jwt() ->> 'sub' AND is_active = TRUE
+                ) OR 
+                ma.id IN (
+                    SELECT uam.area_id FROM user_area_mappings uam
+                    JOIN user_profiles up ON uam.user_profile_id = up.id
+                    WHERE up.clerk_user_id = auth.jwt() ->> 'sub' AND up.is_active = TRUE
+                )
+            )
+        ) OR 
+        EXISTS (
+            SELECT 1 FROM user_profiles 
+            WHERE clerk_user_id = auth.jwt() ->> 'sub' 
+            AND role = 'superadmin' AND is_active = TRUE
+        )
+    );
+
+-- 17. Low-stock alerts and in-app notifications
+-- stock_alerts holds the items currently below their thresholds so each drop
+-- notifies once; rows are removed when the item recovers
+CREATE TABLE IF NOT EXISTS stock_alerts (
+    item_type VARCHAR(20) NOT NULL CHECK (item_type IN ('raw_material', 'finished_good')),
+    item_id INTEGER NOT NULL,
+    area_id INTEGER NOT NULL REFERENCES master_areas(id) ON DELETE CASCADE,
+    status VARCHAR(20) NOT NULL CHECK (status IN ('out_of_stock', 'low', 'reorder')),
+    balance INTEGER NOT NULL,
+    raised_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (item_type, item_id, area_id)
+);
+
+CREATE TABLE IF NOT EXISTS notifications (
+    id BIGSERIAL PRIMARY KEY,
+    user_profile_id UUID NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+    type VARCHAR(20) NOT NULL CHECK (type IN ('out_of_stock', 'low', 'reorder')),
+    title VARCHAR(255) NOT NULL,
+    message TEXT NOT NULL,
+    item_type VARCHAR(20),
+    item_id INTEGER,
+    area_id INTEGER REFERENCES master_areas(id) ON DELETE SET NULL,
+    metadata JSONB,
+    read_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_created ON notifications(user_profile_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_notifications_user_unread ON notifications(user_profile_id) WHERE read_at IS NULL;
+
+ALTER TABLE stock_alerts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own notifications" ON notifications
+    FOR SELECT USING (
+        user_profile_id IN (
+            SELECT id FROM user_profiles WHERE clerk_user_id = auth.jwt() ->> 'sub'
+        )
+    );
+
+-- 18. Daily email digest opt-in
+ALTER TABLE user_profiles ADD COLUMN IF NOT EXISTS email_digest_enabled BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE user_profiles ADD COLUMN IF NOT EXISTS email_digest_last_sent_at TIMESTAMP WITH TIME ZONE;
+
+-- 19. Area selected in the dashboard header (NULL = all of the user's areas)
+ALTER TABLE user_profiles ADD COLUMN IF NOT EXISTS selected_area_id INTEGER REFERENCES master_areas(id) ON DELETE SET NULL;
+
+-- 20. Area hierarchy (region -> sales area -> warehouse)
+-- Access granted on an area also covers its active descendants
+ALTER TABLE master_areas ADD COLUMN IF NOT EXISTS parent_id INTEGER REFERENCES master_areas(id) ON DELETE RESTRICT CHECK (parent_id <> id);
+ALTER TABLE master_areas ADD COLUMN IF NOT EXISTS area_type VARCHAR(20) NOT NULL DEFAULT 'area' CHECK (area_type IN ('region', 'area', 'warehouse'));
+
+CREATE INDEX IF NOT EXISTS idx_master_areas_parent_id ON master_areas(parent_id);
+
+-- Stock movements are visible in the user's primary and mapped areas and their active descendants
+DROP POLICY IF EXISTS "Users can view stock movements from their active areas" ON stock_movements;
+CREATE POLICY "Users can view stock movements from their active areas" ON stock_movements
+    FOR SELECT USING (
+        area_id IN (
+            WITH RECURSIVE granted_areas AS (
+                SELECT ma.id FROM master_areas ma
+                WHERE ma.is_active = TRUE AND (
+                    ma.id IN (
+                        SELECT area_id FROM user_profiles 
+                        WHERE clerk_user_id = auth.jwt() ->> 'sub' AND is_active = TRUE
+                    ) OR 
+                    ma.id IN (
+                        SELECT uam.area_id FROM user_area_mappings uam
+                        JOIN user_profiles up ON uam.user_profile_id = up.id
+                        WHERE up.clerk_user_id = auth.jwt() ->> 'sub' AND up.is_active = TRUE
+                    )
+                )
+                UNION
+                SELECT child.id FROM master_areas child
+                JOIN granted_areas parent ON child.parent_id = parent.id
+                WHERE child.is_active = TRUE
+            )
+            SELECT id FROM granted_areas
+        ) OR 
+        EXISTS (
+            SELECT 1 FROM user_profiles 
+            WHERE clerk_user_id = auth.jwt() ->> 'sub' 
+            AND role = 'superadmin' AND is_active = TRUE
+        )
+    );
+
+-- 21. Areas imported from iDempiere warehouses
+-- Organization areas keep erp_id = AD_Org_ID; warehouse areas are linked through
+-- erp_warehouse_id = M_Warehouse_ID and may have no erp_id of their own
+ALTER TABLE master_areas ADD COLUMN IF NOT EXISTS erp_warehouse_id INTEGER UNIQUE;
+ALTER TABLE master_areas ALTER COLUMN erp_id DROP NOT NULL;
+
+ALTER TABLE master_areas DROP CONSTRAINT IF EXISTS master_areas_erp_reference;
+ALTER TABLE master_areas ADD CONSTRAINT master_areas_erp_reference
+    CHECK (erp_id IS NOT NULL OR erp_warehouse_id IS NOT NULL);
+
+-- 22. Snapshots of area deactivation cascades, used to roll a deactivation back
+CREATE TABLE IF NOT EXISTS area_deactivation_snapshots (
+    id BIGSERIAL PRIMARY KEY,
+    area_id INTEGER NOT NULL REFERENCES master_areas(id) ON DELETE CASCADE,
+    removed_mappings JSONB NOT NULL DEFAULT '[]',
+    deactivated_users JSONB NOT NULL DEFAULT '[]',
+    created_by UUID REFERENCES user_profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    restored_by UUID REFERENCES user_profiles(id) ON DELETE SET NULL,
+    restored_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_area_deactivation_snapshots_area ON area_deactivation_snapshots(area_id, created_at DESC);
+
+-- Snapshot whose deactivation made a user inactive; cleared whenever the user's
+-- status is changed any other way, so a rollback only reactivates its own users.
+-- When the column is first added, users that are still inactive are attributed
+-- to the latest open snapshot that deactivated them.
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'user_profiles' AND column_name = 'deactivated_by_snapshot_id'
+    ) THEN
+        ALTER TABLE user_profiles ADD COLUMN deactivated_by_snapshot_id BIGINT
+            REFERENCES area_deactivation_snapshots(id) ON DELETE SET NULL;
+
+        UPDATE user_profiles up
+        SET deactivated_by_snapshot_id = latest.snapshot_id
+        FROM (
+            SELECT DISTINCT ON ((u->>'id')::UUID) (u->>'id')::UUID AS user_profile_id, s.id AS snapshot_id
+            FROM area_deactivation_snapshots s, jsonb_array_elements(s.deactivated_users) u
+            WHERE s.restored_at IS NULL
+            ORDER BY (u->>'id')::UUID, s.created_at DESC, s.id DESC
+        ) latest
+        WHERE up.id = latest.user_profile_id AND up.is_active = FALSE;
+    END IF;
+END $$;
+
+ALTER TABLE area_deactivation_snapshots ENABLE ROW LEVEL SECURITY;
+
+-- 23. Transactional area deactivation with a Clerk lock outbox
+-- Clerk calls cannot take part in a database transaction, so lock/unlock
+-- requests are queued in the same transaction and sent by a retrying worker
+CREATE TABLE IF NOT EXISTS clerk_lock_outbox (
+    id BIGSERIAL PRIMARY KEY,
+    user_profile_id UUID REFERENCES user_profiles(id) ON DELETE CASCADE,
+    clerk_user_id VARCHAR(255) NOT NULL,
+    action VARCHAR(10) NOT NULL CHECK (action IN ('lock', 'unlock')),
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'done', 'failed', 'superseded')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT,
+    next_attempt_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    claimed_at TIMESTAMP WITH TIME ZONE,
+    snapshot_id BIGINT REFERENCES area_deactivation_snapshots(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    processed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_clerk_lock_outbox_pending ON clerk_lock_outbox(next_attempt_at) WHERE status = 'pending';
+
+ALTER TABLE clerk_lock_outbox ENABLE ROW LEVEL SECURITY;
+
+-- Queue a Clerk lock/unlock; a newer request replaces any unsent one for the same user
+CREATE OR REPLACE FUNCTION enqueue_clerk_lock(p_user_profile_id UUID, p_clerk_user_id VARCHAR, p_action VARCHAR, p_snapshot_id BIGINT)
+RETURNS BIGINT AS $$
+DECLARE
+    v_id BIGINT;
+BEGIN
+    UPDATE clerk_lock_outbox
+    SET status = 'superseded', processed_at = CURRENT_TIMESTAMP
+    WHERE clerk_user_id = p_clerk_user_id AND status IN ('pending', 'failed');
+
+    INSERT INTO clerk_lock_outbox (user_profile_id, clerk_user_id, action, snapshot_id)
+    VALUES (p_user_profile_id, p_clerk_user_id, p_action, p_snapshot_id)
+    RETURNING id INTO v_id;
+
+    RETURN v_id;
+END;
+$$ language 'plpgsql';
+
+-- Claim outbox entries for sending: the given ids, or those that are due. Only
+-- the newest entry of a user is sent, and not while an older one is still in
+-- flight, so a late lock can never land after a newer unlock. A claim older
+-- than p_stale_after is assumed abandoned.
+CREATE OR REPLACE FUNCTION claim_clerk_lock_outbox(p_ids BIGINT[], p_limit INTEGER, p_stale_after INTERVAL)
+RETURNS SETOF clerk_lock_outbox AS $$
+BEGIN
+    -- An entry that went back to pending after a newer one was queued is stale
+    UPDATE clerk_lock_outbox o
+    SET status = 'superseded', processed_at = CURRENT_TIMESTAMP
+    WHERE o.status IN ('pending', 'failed')
+      AND EXISTS (SELECT 1 FROM clerk_lock_outbox n WHERE n.clerk_user_id = o.clerk_user_id AND n.id > o.id);
+
+    RETURN QUERY
+    UPDATE clerk_lock_outbox o
+    SET status = 'processing', claimed_at = CURRENT_TIMESTAMP
+    WHERE o.id IN (
+        SELECT c.id
+        FROM clerk_lock_outbox c
+        WHERE (
+              c.status = 'pending'
+              OR (c.status = 'processing' AND c.claimed_at < CURRENT_TIMESTAMP - p_stale_after)
+          )
+          AND (CASE WHEN p_ids IS NULL THEN c.next_attempt_at <= CURRENT_TIMESTAMP ELSE c.id = ANY(p_ids) END)
+          AND NOT EXISTS (
+              SELECT 1 FROM clerk_lock_outbox other
+              WHERE other.clerk_user_id = c.clerk_user_id
+                AND other.id <> c.id
+                AND (
+                    other.id > c.id
+                    OR (other.status = 'processing' AND other.claimed_at >= CURRENT_TIMESTAMP - p_stale_after)
+                )
+          )
+        ORDER BY c.id
+        LIMIT p_limit
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING o.*;
+END;
+$$ language 'plpgsql';
+
+-- What deactivating an area would change: every mapping to it, and active users
+-- whose primary area it is and who have no other active mapped area
+CREATE OR REPLACE FUNCTION plan_area_deactivation(p_area_id INTEGER)
+RETURNS JSONB AS $$
+DECLARE
+    v_area master_areas%ROWTYPE;
+BEGIN
+    SELECT * INTO v_area FROM master_areas WHERE id = p_area_id;
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    RETURN jsonb_build_object(
+        'area', jsonb_build_object('id', v_area.id, 'name', v_area.name, 'is_active', v_area.is_active),
+        'mappingsToRemove', COALESCE((
+            SELECT jsonb_agg(jsonb_build_object(
+                'id', uam.id, 'user_profile_id', uam.user_profile_id, 'area_id', uam.area_id,
+                'created_at', uam.created_at, 'email', up.email, 'full_name', up.full_name
+            ) ORDER BY uam.id)
+            FROM user_area_mappings uam
+            JOIN user_profiles up ON up.id = uam.user_profile_id
+            WHERE uam.area_id = p_area_id
+        ), '[]'::jsonb),
+        'usersToDeactivate', COALESCE((
+            SELECT jsonb_agg(jsonb_build_object(
+                'id', up.id, 'clerk_user_id', up.clerk_user_id, 'email', up.email, 'full_name', up.full_name
+            ) ORDER BY up.email)
+            FROM user_profiles up
+            WHERE up.area_id = p_area_id
+              AND up.is_active = TRUE
+              AND NOT EXISTS (
+                  SELECT 1 FROM user_area_mappings other
+                  JOIN master_areas ma ON ma.id = other.area_id
+                  WHERE other.user_profile_id = up.id AND other.area_id <> p_area_id AND ma.is_active = TRUE
+              )
+        ), '[]'::jsonb)
+    );
+END;
+$$ language 'plpgsql' STABLE;
+
+-- Deactivate an area in one transaction: snapshot, area, mappings, users and
+-- queued Clerk locks either all apply or none do
+CREATE OR REPLACE FUNCTION deactivate_area(p_area_id INTEGER, p_actor_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+    v_plan JSONB;
+    v_snapshot_id BIGINT;
+    v_user JSONB;
+    v_lock_requests JSONB := '[]'::jsonb;
+BEGIN
+    -- Row lock serializes status changes and new mappings for this area
+    PERFORM 1 FROM master_areas WHERE id = p_area_id FOR UPDATE;
+
+    v_plan := plan_area_deactivation(p_area_id);
+    IF v_plan IS NULL THEN
+        RAISE EXCEPTION 'Area not found' USING ERRCODE = 'P0002';
+    END IF;
+    IF (v_plan->'area'->>'is_active')::BOOLEAN IS FALSE THEN
+        RAISE EXCEPTION 'Area is already inactive' USING ERRCODE = '55000';
+    END IF;
+
+    INSERT INTO area_deactivation_snapshots (area_id, removed_mappings, deactivated_users, created_by)
+    VALUES (p_area_id, v_plan->'mappingsToRemove', v_plan->'usersToDeactivate', p_actor_id)
+    RETURNING id INTO v_snapshot_id;
+
+    UPDATE master_areas SET is_active = FALSE WHERE id = p_area_id;
+    DELETE FROM user_area_mappings WHERE area_id = p_area_id;
+
+    FOR v_user IN SELECT * FROM jsonb_array_elements(v_plan->'usersToDeactivate')
+    LOOP
+        UPDATE user_profiles SET is_active = FALSE, deactivated_by_snapshot_id = v_snapshot_id WHERE id = (v_user->>'id')::UUID;
+        v_lock_requests := v_lock_requests || jsonb_build_object(
+            'userProfileId', v_user->>'id',
+            'outboxId', enqueue_clerk_lock((v_user->>'id')::UUID, v_user->>'clerk_user_id', 'lock', v_snapshot_id)
+        );
+    END LOOP;
+
+    RETURN v_plan || jsonb_build_object('snapshotId', v_snapshot_id, 'lockRequests', v_lock_requests);
+END;
+$$ language 'plpgsql';
+
+-- Roll back the latest deactivation of a still inactive area in one transaction
+CREATE OR REPLACE FUNCTION restore_area_deactivation(p_snapshot_id BIGINT, p_actor_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+    v_snapshot area_deactivation_snapshots%ROWTYPE;
+    v_area_active BOOLEAN;
+    v_latest_id BIGINT;
+    v_mappings_restored INTEGER;
+    v_user RECORD;
+    v_unlock_requests JSONB := '[]'::jsonb;
+BEGIN
+    SELECT * INTO v_snapshot FROM area_deactivation_snapshots WHERE id = p_snapshot_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Deactivation snapshot not found' USING ERRCODE = 'P0002';
+    END IF;
+    IF v_snapshot.restored_at IS NOT NULL THEN
+        RAISE EXCEPTION 'This deactivation has already been rolled back' USING ERRCODE = '55000';
+    END IF;
+
+    SELECT is_active INTO v_area_active FROM master_areas WHERE id = v_snapshot.area_id FOR UPDATE;
+    IF v_area_active THEN
+        RAISE EXCEPTION 'The area has been reactivated since this deactivation' USING ERRCODE = '55000';
+    END IF;
+
+    SELECT id INTO v_latest_id FROM area_deactivation_snapshots
+    WHERE area_id = v_snapshot.area_id
+    ORDER BY created_at DESC, id DESC
+    LIMIT 1;
+    IF v_latest_id <> v_snapshot.id THEN
+        RAISE EXCEPTION 'Only the latest deactivation of an area can be rolled back' USING ERRCODE = '55000';
+    END IF;
+
+    UPDATE master_areas SET is_active = TRUE WHERE id = v_snapshot.area_id;
+
+    -- Users deleted since the deactivation cannot get their mappings back
+    INSERT INTO user_area_mappings (user_profile_id, area_id, created_at)
+    SELECT up.id, v_snapshot.area_id, (m->>'created_at')::TIMESTAMP WITH TIME ZONE
+    FROM jsonb_array_elements(v_snapshot.removed_mappings) m
+    JOIN user_profiles up ON up.id = (m->>'user_profile_id')::UUID
+    ON CONFLICT (user_profile_id, area_id) DO NOTHING;
+    GET DIAGNOSTICS v_mappings_restored = ROW_COUNT;
+
+    -- Only users still inactive because of this deactivation are reactivated and
+    -- unlocked; users deactivated again since then for other reasons stay inactive
+    FOR v_user IN
+        SELECT up.id, up.clerk_user_id FROM user_profiles up
+        WHERE up.is_active = FALSE
+          AND up.deactivated_by_snapshot_id = v_snapshot.id
+          AND up.deleted_at IS NULL
+    LOOP
+        UPDATE user_profiles SET is_active = TRUE, deactivated_by_snapshot_id = NULL WHERE id = v_user.id;
+        v_unlock_requests := v_unlock_requests || jsonb_build_object(
+            'userProfileId', v_user.id,
+            'outboxId', enqueue_clerk_lock(v_user.id, v_user.clerk_user_id, 'unlock', v_snapshot.id)
+        );
+    END LOOP;
+
+    UPDATE area_deactivation_snapshots
+    SET restored_at = CURRENT_TIMESTAMP, restored_by = p_actor_id
+    WHERE id = v_snapshot.id;
+
+    RETURN jsonb_build_object(
+        'areaId', v_snapshot.area_id,
+        'mappingsRestored', v_mappings_restored,
+        'mappingsSkipped', jsonb_array_length(v_snapshot.removed_mappings) - v_mappings_restored,
+        'deactivatedUsers', v_snapshot.deactivated_users,
+        'unlockRequests', v_unlock_requests
+    );
+END;
+$$ language 'plpgsql';
+
+-- 24. Capability-based permissions
+-- Roles and their permissions live in the database; application code only asks
+-- whether a role has a permission key (see src/lib/permissions.ts)
+CREATE TABLE IF NOT EXISTS roles (
+    name VARCHAR(50) PRIMARY KEY,
+    label VARCHAR(100) NOT NULL
+);
+
+INSERT INTO roles (name, label) VALUES
+    ('superadmin', 'Super Admin'),
+    ('area sales manager', 'Area Sales Manager'),
+    ('area sales supervisor', 'Area Sales Supervisor')
+ON CONFLICT (name) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS permissions (
+    key VARCHAR(100) PRIMARY KEY,
+    description TEXT NOT NULL
+);
+
+INSERT INTO permissions (key, description) VALUES
+    ('inventory.view', 'View inventory, stock levels and movements in own areas'),
+    ('inventory.adjust', 'Record stock movements in own areas'),
+    ('inventory.sync', 'Run iDempiere syncs'),
+    ('thresholds.manage', 'Edit stock thresholds in own areas'),
+    ('users.manage', 'Manage users and their area assignments'),
+    ('areas.manage', 'Manage areas, imports and deactivations'),
+    ('areas.view_all', 'See every area, not only assigned ones'),
+    ('jobs.run', 'Run scheduled jobs on demand')
+ON CONFLICT (key) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS role_permissions (
+    role VARCHAR(50) NOT NULL REFERENCES roles(name) ON UPDATE CASCADE ON DELETE CASCADE,
+    permission VARCHAR(100) NOT NULL REFERENCES permissions(key) ON UPDATE CASCADE ON DELETE CASCADE,
+    PRIMARY KEY (role, permission)
+);
+
+-- Defaults reproduce the access the hard-coded role checks used to grant
+INSERT INTO role_permissions (role, permission)
+SELECT 'superadmin', key FROM permissions
+ON CONFLICT DO NOTHING;
+
+INSERT INTO role_permissions (role, permission) VALUES
+    ('area sales manager', 'inventory.view'),
+    ('area sales manager', 'inventory.adjust'),
+    ('area sales manager', 'thresholds.manage'),
+    ('area sales supervisor', 'inventory.view'),
+    ('area sales supervisor', 'inventory.adjust')
+ON CONFLICT DO NOTHING;
+
+ALTER TABLE roles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE permissions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE role_permissions ENABLE ROW LEVEL SECURITY;
+
+-- user_profiles.role references roles instead of a hard-coded CHECK list
+ALTER TABLE user_profiles DROP CONSTRAINT IF EXISTS user_profiles_role_check;
+ALTER TABLE user_profiles DROP CONSTRAINT IF EXISTS user_profiles_role_fkey;
+ALTER TABLE user_profiles ADD CONSTRAINT user_profiles_role_fkey
+    FOREIGN KEY (role) REFERENCES roles(name) ON UPDATE CASCADE;
+
+-- 25. Audited role changes
+CREATE TABLE IF NOT EXISTS role_changes (
+    id BIGSERIAL PRIMARY KEY,
+    user_profile_id UUID REFERENCES user_profiles(id) ON DELETE SET NULL,
+    -- Kept so the history stays readable after the user is deleted
+    user_email VARCHAR(255),
+    from_role VARCHAR(50) NOT NULL,
+    to_role VARCHAR(50) NOT NULL,
+    reason TEXT NOT NULL CHECK (length(trim(reason)) > 0),
+    changed_by UUID REFERENCES user_profiles(id) ON DELETE SET NULL,
+    -- TRUE when made with ROLE_BOOTSTRAP_TOKEN on first install
+    via_bootstrap BOOLEAN NOT NULL DEFAULT FALSE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_role_changes_user ON role_changes(user_profile_id, created_at DESC);
+
+ALTER TABLE role_changes ENABLE ROW LEVEL SECURITY;
+
+INSERT INTO permissions (key, description) VALUES
+    ('roles.assign', 'Change user roles')
+ON CONFLICT (key) DO NOTHING;
+
+INSERT INTO role_permissions (role, permission) VALUES
+    ('superadmin', 'roles.assign')
+ON CONFLICT DO NOTHING;
+
+-- Change a user's role and record it. Role changes are serialized so two
+-- concurrent demotions cannot both pass the last-superadmin check.
+CREATE OR REPLACE FUNCTION change_user_role(
+    p_user_profile_id UUID,
+    p_new_role VARCHAR,
+    p_reason TEXT,
+    p_actor_id UUID,
+    p_bootstrap BOOLEAN DEFAULT FALSE
+)
+RETURNS JSONB AS $$
+DECLARE
+    v_user user_profiles%ROWTYPE;
+    v_change role_changes%ROWTYPE;
+BEGIN
+    PERFORM pg_advisory_xact_lock(hashtext('change_user_role'));
+
+    SELECT * INTO v_user FROM user_profiles WHERE id = p_user_profile_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'User not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    IF p_bootstrap AND EXISTS (SELECT 1 FROM user_profiles WHERE role = 'superadmin' AND is_active = TRUE) THEN
+        RAISE EXCEPTION 'The bootstrap token can only be used while there is no active superadmin' USING ERRCODE = '42501';
+    END IF;
+
+    IF v_user.role = p_new_role THEN
+        RAISE EXCEPTION 'User already has this role' USING ERRCODE = '55000';
+    END IF;
+
+    IF v_user.role = 'superadmin' AND v_user.is_active = TRUE AND NOT EXISTS (
+        SELECT 1 FROM user_profiles WHERE role = 'superadmin' AND is_active = TRUE AND id <> v_user.id
+    ) THEN
+        RAISE EXCEPTION 'Cannot demote the last active superadmin' USING ERRCODE = '55000';
+    END IF;
+
+    UPDATE user_profiles SET role = p_new_role WHERE id = v_user.id;
+
+    INSERT INTO role_changes (user_profile_id, user_email, from_role, to_role, reason, changed_by, via_bootstrap)
+    VALUES (v_user.id, v_user.email, v_user.role, p_new_role, trim(p_reason), p_actor_id, p_bootstrap)
+    RETURNING * INTO v_change;
+
+    RETURN to_jsonb(v_change);
+END;
+$$ language 'plpgsql';
+
+-- 26. Area-scoped user administration for area sales managers
+INSERT INTO permissions (key, description) VALUES
+    ('users.manage_area', 'Manage area sales supervisors in own areas')
+ON CONFLICT (key) DO NOTHING;
+
+INSERT INTO role_permissions (role, permission) VALUES
+    ('area sales manager', 'users.manage_area')
+ON CONFLICT DO NOTHING;
+
+-- 27. Invitation-based onboarding
+-- Only the SHA-256 hash of the invite token is stored; the token itself is
+-- shown once to the inviting admin and emailed to the invitee.
+CREATE TABLE IF NOT EXISTS user_invitations (
+    id BIGSERIAL PRIMARY KEY,
+    token_hash VARCHAR(64) NOT NULL UNIQUE,
+    username VARCHAR(255) NOT NULL,
+    email VARCHAR(255),
+    full_name VARCHAR(255),
+    area_id INTEGER REFERENCES master_areas(id) ON DELETE SET NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'revoked')),
+    invited_by UUID REFERENCES user_profiles(id) ON DELETE SET NULL,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    accepted_at TIMESTAMP WITH TIME ZONE,
+    -- Clerk user created when the invitation was accepted
+    clerk_user_id VARCHAR(255),
+    revoked_by UUID REFERENCES user_profiles(id) ON DELETE SET NULL,
+    revoked_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- One open invitation per username
+CREATE UNIQUE INDEX IF NOT EXISTS idx_user_invitations_pending_username
+    ON user_invitations(lower(username)) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_user_invitations_status ON user_invitations(status, created_at DESC);
+
+ALTER TABLE user_invitations ENABLE ROW LEVEL SECURITY;
+
+-- 28. Clerk/Supabase user reconciliation
+-- Each run stores its drift report as a JSON array; items are marked resolved
+-- in place as admins apply fixes.
+CREATE TABLE IF NOT EXISTS user_reconciliation_runs (
+    id BIGSERIAL PRIMARY KEY,
+    status VARCHAR(20) NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'failed')),
+    clerk_user_count INTEGER,
+    profile_count INTEGER,
+    items JSONB NOT NULL DEFAULT '[]'::jsonb,
+    error TEXT,
+    -- Clerk user id of the admin, or 'scheduler'
+    triggered_by VARCHAR(255),
+    started_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    finished_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_reconciliation_runs_started_at ON user_reconciliation_runs(started_at DESC);
+
+ALTER TABLE user_reconciliation_runs ENABLE ROW LEVEL SECURITY;
+
+-- Mark one drift item of a run resolved; the row lock keeps concurrent fixes
+-- from overwriting each other. Returns the run's items.
+CREATE OR REPLACE FUNCTION resolve_reconciliation_item(p_run_id BIGINT, p_key TEXT, p_resolution VARCHAR, p_resolved_by UUID)
+RETURNS JSONB AS $$
+DECLARE
+    v_items JSONB;
+BEGIN
+    UPDATE user_reconciliation_runs
+    SET items = (
+        SELECT COALESCE(jsonb_agg(
+            CASE WHEN item->>'key' = p_key AND item->>'resolvedAt' IS NULL
+                THEN item || jsonb_build_object(
+                    'resolution', p_resolution,
+                    'resolvedAt', CURRENT_TIMESTAMP,
+                    'resolvedBy', p_resolved_by
+                )
+                ELSE item
+            END ORDER BY position
+        ), '[]'::jsonb)
+        FROM jsonb_array_elements(items) WITH ORDINALITY AS elements(item, position)
+    )
+    WHERE id = p_run_id
+    RETURNING items INTO v_items;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Reconciliation run % not found', p_run_id USING ERRCODE = 'P0002';
+    END IF;
+
+    RETURN v_items;
+END;
+$$ language 'plpgsql';
+
+-- 29. Clerk webhook event log
+-- Every verified delivery is stored by its svix id before it is processed, so
+-- redeliveries are recognised and failed events can be replayed.
+CREATE TABLE IF NOT EXISTS webhook_events (
+    id BIGSERIAL PRIMARY KEY,
+    svix_id VARCHAR(255) NOT NULL UNIQUE,
+    event_type VARCHAR(100) NOT NULL,
+    payload JSONB NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'processed', 'failed')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT,
+    received_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    last_attempt_at TIMESTAMP WITH TIME ZONE,
+    processed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_events_status ON webhook_events(status, received_at DESC);
+
+ALTER TABLE webhook_events ENABLE ROW LEVEL SECURITY;
+
+-- Claim an event for processing; returns no row when it is already processed or
+-- being processed. A claim older than p_stale_after is assumed abandoned.
+CREATE OR REPLACE FUNCTION claim_webhook_event(p_id BIGINT, p_stale_after INTERVAL)
+RETURNS SETOF webhook_events AS $$
+    UPDATE webhook_events
+    SET status = 'processing', attempts = attempts + 1, last_attempt_at = CURRENT_TIMESTAMP
+    WHERE id = p_id
+      AND (
+          status IN ('pending', 'failed')
+          OR (status = 'processing' AND last_attempt_at < CURRENT_TIMESTAMP - p_stale_after)
+      )
+    RETURNING *;
+$$ language 'sql';
+
+-- Clerk's updated_at of the latest user.updated applied to a profile
+ALTER TABLE user_profiles ADD COLUMN IF NOT EXISTS clerk_updated_at TIMESTAMP WITH TIME ZONE;
+
+-- Apply a user.updated event unless a newer one was applied already: Clerk may
+-- deliver events out of order, and failed events can be replayed later.
+-- Returns whether it was applied and the lock state it replaced.
+CREATE OR REPLACE FUNCTION apply_clerk_user_update(
+    p_clerk_user_id VARCHAR,
+    p_email VARCHAR,
+    p_full_name VARCHAR,
+    p_locked BOOLEAN,
+    p_updated_at TIMESTAMP WITH TIME ZONE
+)
+RETURNS JSONB AS $$
+DECLARE
+    v_profile user_profiles%ROWTYPE;
+BEGIN
+    SELECT * INTO v_profile FROM user_profiles WHERE clerk_user_id = p_clerk_user_id FOR UPDATE;
+
+    -- Never creates or restores a profile, so a late update cannot revive a deleted user
+    IF NOT FOUND OR v_profile.deleted_at IS NOT NULL THEN
+        RETURN jsonb_build_object('applied', FALSE);
+    END IF;
+
+    IF p_updated_at IS NOT NULL AND v_profile.clerk_updated_at >= p_updated_at THEN
+        RETURN jsonb_build_object('applied', FALSE);
+    END IF;
+
+    UPDATE user_profiles
+    SET email = p_email,
+        full_name = p_full_name,
+        clerk_locked = p_locked,
+        clerk_updated_at = COALESCE(p_updated_at, clerk_updated_at),
+        updated_at = CURRENT_TIMESTAMP
+    WHERE id = v_profile.id;
+
+    RETURN jsonb_build_object('applied', TRUE, 'previous_locked', v_profile.clerk_locked);
+END;
+$$ language 'plpgsql';
+
+-- 30. Sign-in history from Clerk session and lock events
+ALTER TABLE user_profiles ADD COLUMN IF NOT EXISTS last_login_at TIMESTAMP WITH TIME ZONE;
+-- Clerk lock state as of the latest user.updated event, to detect lock/unlock
+ALTER TABLE user_profiles ADD COLUMN IF NOT EXISTS clerk_locked BOOLEAN;
+
+CREATE INDEX IF NOT EXISTS idx_user_profiles_last_login_at ON user_profiles(last_login_at);
+
+CREATE TABLE IF NOT EXISTS user_sign_in_events (
+    id BIGSERIAL PRIMARY KEY,
+    user_profile_id UUID REFERENCES user_profiles(id) ON DELETE CASCADE,
+    clerk_user_id VARCHAR(255) NOT NULL,
+    event_type VARCHAR(30) NOT NULL CHECK (event_type IN (
+        'session.created', 'session.ended', 'session.removed', 'session.revoked', 'user.locked', 'user.unlocked'
+    )),
+    session_id VARCHAR(255),
+    ip_address VARCHAR(64),
+    device VARCHAR(255),
+    location VARCHAR(255),
+    occurred_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    -- One row per webhook event, so a replay cannot record it twice
+    webhook_event_id BIGINT UNIQUE REFERENCES webhook_events(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_sign_in_events_user ON user_sign_in_events(user_profile_id, occurred_at DESC);
+
+ALTER TABLE user_sign_in_events ENABLE ROW LEVEL SECURITY;
+
+-- 31. Archive users deleted in Clerk instead of deleting their profiles
+-- An archived profile keeps its id, role, areas and history so references stay
+-- intact; its personal data is cleared.
+ALTER TABLE user_profiles ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP WITH TIME ZONE;
+-- is_active at the time of archiving, so a restore does not reactivate a deactivated user
+ALTER TABLE user_profiles ADD COLUMN IF NOT EXISTS archived_is_active BOOLEAN;
+
+CREATE INDEX IF NOT EXISTS idx_user_profiles_deleted_at ON user_profiles(deleted_at) WHERE deleted_at IS NOT NULL;
+
+-- Reduce a logged webhook payload to the event type and ids; user.* and
+-- session.* payloads hold email addresses, names and IP addresses
+CREATE OR REPLACE FUNCTION scrub_webhook_payload(p_payload JSONB)
+RETURNS JSONB AS $$
+    SELECT jsonb_build_object(
+        'type', p_payload->'type',
+        'data', jsonb_strip_nulls(jsonb_build_object('id', p_payload->'data'->'id', 'user_id', p_payload->'data'->'user_id'))
+    );
+$$ language 'sql' IMMUTABLE;
+
+-- Archive the profile of a deleted Clerk user; returns its id, or NULL when
+-- there is no profile or it is already archived
+CREATE OR REPLACE FUNCTION archive_user_profile(p_clerk_user_id VARCHAR)
+RETURNS UUID AS $$
+DECLARE
+    v_id UUID;
+BEGIN
+    UPDATE user_profiles
+    SET deleted_at = CURRENT_TIMESTAMP,
+        archived_is_active = is_active,
+        is_active = FALSE,
+        deactivated_by_snapshot_id = NULL,
+        email = NULL,
+        full_name = NULL,
+        email_digest_enabled = FALSE,
+        selected_area_id = NULL,
+        clerk_locked = NULL
+    WHERE clerk_user_id = p_clerk_user_id AND deleted_at IS NULL
+    RETURNING id INTO v_id;
+
+    IF v_id IS NULL THEN
+        RETURN NULL;
+    END IF;
+
+    UPDATE user_sign_in_events SET ip_address = NULL, device = NULL, location = NULL WHERE user_profile_id = v_id;
+    UPDATE user_invitations SET email = NULL, full_name = NULL WHERE clerk_user_id = p_clerk_user_id;
+    UPDATE role_changes SET user_email = NULL WHERE user_profile_id = v_id;
+
+    UPDATE webhook_events
+    SET payload = scrub_webhook_payload(payload)
+    WHERE payload->'data'->>'id' = p_clerk_user_id OR payload->'data'->>'user_id' = p_clerk_user_id;
+
+    -- The Clerk user is gone; nothing left to lock or unlock
+    UPDATE clerk_lock_outbox
+    SET status = 'superseded', processed_at = CURRENT_TIMESTAMP
+    WHERE clerk_user_id = p_clerk_user_id AND status IN ('pending', 'failed');
+
+    RETURN v_id;
+END;
+$$ language 'plpgsql';
+
+-- Scrub a logged event of a user that is already archived; Clerk keeps sending
+-- session events after user.deleted
+CREATE OR REPLACE FUNCTION scrub_archived_webhook_event(p_id BIGINT)
+RETURNS VOID AS $$
+    UPDATE webhook_events e
+    SET payload = scrub_webhook_payload(e.payload)
+    WHERE e.id = p_id
+      AND EXISTS (
+          SELECT 1 FROM user_profiles up
+          WHERE up.deleted_at IS NOT NULL
+            AND up.clerk_user_id IN (e.payload->'data'->>'id', e.payload->'data'->>'user_id')
+      );
+$$ language 'sql';
+
+-- Restore an archived profile for a Clerk account, which may be a new one. A
+-- blank profile the user.created webhook made for that account in the
+-- meantime is merged away; a profile that is already in use is not. Giving
+-- back any role but the default one grants it, so it needs roles.assign
+-- (p_can_assign_roles) and is recorded in role_changes.
+DROP FUNCTION IF EXISTS restore_user_profile(UUID, VARCHAR, VARCHAR, VARCHAR);
+CREATE OR REPLACE FUNCTION restore_user_profile(
+    p_user_profile_id UUID,
+    p_clerk_user_id VARCHAR,
+    p_email VARCHAR,
+    p_full_name VARCHAR,
+    p_actor_id UUID,
+    p_can_assign_roles BOOLEAN
+)
+RETURNS JSONB AS $$
+DECLARE
+    v_profile user_profiles%ROWTYPE;
+    v_other user_profiles%ROWTYPE;
+BEGIN
+    SELECT * INTO v_profile FROM user_profiles WHERE id = p_user_profile_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'User profile not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    IF v_profile.deleted_at IS NULL THEN
+        RAISE EXCEPTION 'User profile is not archived' USING ERRCODE = '55000';
+    END IF;
+
+    IF v_profile.role <> 'area sales supervisor' AND NOT p_can_assign_roles THEN
+        RAISE EXCEPTION 'Restoring a user with the % role requires the roles.assign permission', v_profile.role
+            USING ERRCODE = '42501';
+    END IF;
+
+    IF p_clerk_user_id <> v_profile.clerk_user_id THEN
+        SELECT * INTO v_other FROM user_profiles WHERE clerk_user_id = p_clerk_user_id FOR UPDATE;
+        IF FOUND THEN
+            IF v_other.deleted_at IS NOT NULL
+                OR v_other.role <> 'area sales supervisor'
+                OR v_other.area_id IS NOT NULL
+                OR EXISTS (SELECT 1 FROM user_area_mappings WHERE user_profile_id = v_other.id) THEN
+                RAISE EXCEPTION 'Clerk user % already has a profile in use', p_clerk_user_id USING ERRCODE = '55000';
+            END IF;
+
+            UPDATE user_sign_in_events SET user_profile_id = p_user_profile_id WHERE user_profile_id = v_other.id;
+            DELETE FROM user_profiles WHERE id = v_other.id;
+        END IF;
+    END IF;
+
+    UPDATE user_profiles
+    SET clerk_user_id = p_clerk_user_id,
+        email = p_email,
+        full_name = p_full_name,
+        deleted_at = NULL,
+        -- Profiles archived before archived_is_active existed stay inactive
+        is_active = COALESCE(archived_is_active, FALSE),
+        archived_is_active = NULL,
+        clerk_locked = NULL
+    WHERE id = p_user_profile_id
+    RETURNING * INTO v_profile;
+
+    IF v_profile.role <> 'area sales supervisor' THEN
+        INSERT INTO role_changes (user_profile_id, user_email, from_role, to_role, reason, changed_by)
+        VALUES (v_profile.id, p_email, v_profile.role, v_profile.role, 'Restored archived user with this role', p_actor_id);
+    END IF;
+
+    -- The Clerk account may be new and unlocked; an inactive user must be locked
+    IF NOT v_profile.is_active THEN
+        PERFORM enqueue_clerk_lock(v_profile.id, p_clerk_user_id, 'lock', NULL);
+    END IF;
+
+    RETURN to_jsonb(v_profile);
+END;
+$$ language 'plpgsql';
@@ -2,7 +2,7 @@ import { auth } from '@clerk/nextjs/server';
 import { redirect } from 'next/navigation';
 import { DashboardLayout } from '@/components/layout/DashboardLayout';
 import { AreaManagementTable } from '@/components/admin/AreaManagementTable';
-import { RoleGuard } from '@/components/auth/RoleGuard';
+import { PermissionGuard } from '@/components/auth/PermissionGuard';
 
 export default async function AreaManagementPage() {
   const { userId } = await auth();
@@ -12,7 +12,7 @@ export default async function AreaManagementPage() {
   }
 
   return (
-    <RoleGuard allowedRoles={['superadmin']}>
+    <PermissionGuard permission="areas.manage">
       <DashboardLayout>
         <div className="space-y-6">
           {/* Page header */}
@@ -25,6 +25,6 @@ export default async function AreaManagementPage() {
           <AreaManagementTable />
         </div>
       </DashboardLayout>
-    </RoleGuard>
+    </PermissionGuard>
   );
 }
\ No newline at end of file
@@ -0,0 +1,30 @@
+import { auth } from '@clerk/nextjs/server';
+import { redirect } from 'next/navigation';
+import { DashboardLayout } from '@/components/layout/DashboardLayout';
+import { UserReconciliationReport } from '@/components/admin/UserReconciliationReport';
+import { PermissionGuard } from '@/components/auth/PermissionGuard';
+
+export default async function UserSyncPage() {
+  const { userId } = await auth();
+  
+  if (!userId) {
+    redirect('/sign-in');
+  }
+
+  return (
+    <PermissionGuard permission="users.manage">
+      <DashboardLayout>
+        <div className="space-y-6">
+          {/* Page header */}
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">User Sync</h1>
+            <p className="text-gray-600">Find and fix differences between Clerk users and user profiles</p>
+          </div>
+
+          {/* Drift report */}
+          <UserReconciliationReport />
+        </div>
+      </DashboardLayout>
+    </PermissionGuard>
+  );
+}
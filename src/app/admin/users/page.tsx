@@ -2,7 +2,7 @@ import { auth } from '@clerk/nextjs/server';
 import { redirect } from 'next/navigation';
 import { DashboardLayout } from '@/components/layout/DashboardLayout';
 import { UserManagementTable } from '@/components/admin/UserManagementTable';
-import { RoleGuard } from '@/components/auth/RoleGuard';
+import { PermissionGuard } from '@/components/auth/PermissionGuard';
 
 export default async function UsersManagementPage() {
   const { userId } = await auth();
@@ -12,7 +12,7 @@ export default async function UsersManagementPage() {
   }
 
   return (
-    <RoleGuard allowedRoles={['superadmin']}>
+    <PermissionGuard permission={['users.manage', 'users.manage_area']}>
       <DashboardLayout>
         <div className="space-y-6">
           {/* Page header */}
@@ -25,6 +25,6 @@ export default async function UsersManagementPage() {
           <UserManagementTable />
         </div>
       </DashboardLayout>
-    </RoleGuard>
+    </PermissionGuard>
   );
 }
\ No newline at end of file
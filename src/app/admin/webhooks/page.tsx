@@ -0,0 +1,30 @@
+import { auth } from '@clerk/nextjs/server';
+import { redirect } from 'next/navigation';
+import { DashboardLayout } from '@/components/layout/DashboardLayout';
+import { WebhookEventsTable } from '@/components/admin/WebhookEventsTable';
+import { PermissionGuard } from '@/components/auth/PermissionGuard';
+
+export default async function WebhooksPage() {
+  const { userId } = await auth();
+  
+  if (!userId) {
+    redirect('/sign-in');
+  }
+
+  return (
+    <PermissionGuard permission="jobs.run">
+      <DashboardLayout>
+        <div className="space-y-6">
+          {/* Page header */}
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Webhooks</h1>
+            <p className="text-gray-600">Inspect Clerk webhook deliveries and replay failed events</p>
+          </div>
+
+          {/* Webhook event log */}
+          <WebhookEventsTable />
+        </div>
+      </DashboardLayout>
+    </PermissionGuard>
+  );
+}
@@ -0,0 +1,109 @@
+import { auth } from '@clerk/nextjs/server';
+import { supabaseAdmin, ActivityEvent, ActivityType } from '@/lib/supabase';
+import { NextResponse } from 'next/server';
+import { ACTIVITY_TYPES } from '@/lib/activity';
+import { areaOrSharedFilter, narrowAreaScope, parseAreaIdParam, resolveAreaScope } from '@/lib/area-scope';
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * GET /api/activity
+ * Activity feed for the caller's areas. Events without an area (syncs,
+ * system events) are visible to everyone; superadmins see every area.
+ * Filters: type (comma separated), area_id, since, page, limit
+ */
+export async function GET(request: Request) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Resolve the active areas the user may see (primary area + mapped areas)
+    const scope = await resolveAreaScope(userId);
+    if (!scope) {
+      return NextResponse.json({ error: 'User profile not found' }, { status: 404 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const typeParam = searchParams.get('type');
+    const areaId = parseAreaIdParam(searchParams.get('area_id'));
+    const since = searchParams.get('since');
+    const page = Math.max(parseInt(searchParams.get('page') || '1', 10) || 1, 1);
+    const limit = Math.min(
+      Math.max(parseInt(searchParams.get('limit') || String(DEFAULT_PAGE_SIZE), 10) || DEFAULT_PAGE_SIZE, 1),
+      MAX_PAGE_SIZE
+    );
+
+    const types = typeParam ? typeParam.split(',').map(type => type.trim()) : [];
+    if (types.some(type => !ACTIVITY_TYPES.includes(type as ActivityType))) {
+      return NextResponse.json(
+        { error: `type must be one of: ${ACTIVITY_TYPES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (since && Number.isNaN(Date.parse(since))) {
+      return NextResponse.json({ error: 'since must be an ISO timestamp' }, { status: 400 });
+    }
+
+    let query = supabaseAdmin
+      .from('activity_events')
+      .select('*', { count: 'exact' });
+
+    if (types.length > 0) query = query.in('type', types);
+    if (since) query = query.gte('created_at', since);
+
+    if (areaId === false) {
+      return NextResponse.json({ error: 'area_id must be a positive integer' }, { status: 400 });
+    }
+
+    // Apply area filtering based on the user's area scope
+    const areaIds = narrowAreaScope(scope, areaId);
+    if (areaIds === false) {
+      return NextResponse.json({ error: 'Forbidden: No access to this area' }, { status: 403 });
+    }
+    if (areaIds) {
+      query = query.or(areaOrSharedFilter(areaIds));
+    }
+
+    const { data, error, count } = await query
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .range((page - 1) * limit, page * limit - 1);
+
+    if (error) {
+      console.error('Error fetching activity events:', error);
+      return NextResponse.json({ error: 'Failed to fetch activity' }, { status: 500 });
+    }
+
+    const activities = ((data || []) as ActivityEvent[]).map(event => ({
+      id: String(event.id),
+      user: event.actor_name,
+      action: event.action,
+      item: event.item,
+      timestamp: event.created_at,
+      type: event.type,
+      area_id: event.area_id,
+    }));
+
+    return NextResponse.json({
+      data: activities,
+      pagination: {
+        page,
+        limit,
+        total: count || 0,
+        totalPages: Math.ceil((count || 0) / limit),
+      },
+    }, { status: 200 });
+  } catch (error) {
+    console.error('Activity API error:', error);
+    if (error instanceof Error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    } else {
+      return NextResponse.json({ error: 'Unknown error' }, { status: 500 });
+    }
+  }
+}
@@ -0,0 +1,109 @@
+import { auth } from '@clerk/nextjs/server';
+import { supabaseAdmin } from '@/lib/supabase';
+import { NextResponse } from 'next/server';
+import { hasPermission } from '@/lib/authorization';
+import { recordActivity } from '@/lib/activity';
+import { AreaDeactivationError, listAreaDeactivations, restoreAreaDeactivation } from '@/lib/area-deactivation';
+
+// GET - List area deactivation snapshots (?area_id=, ?restorable=true)
+export async function GET(request: Request) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Check areas.manage permission
+    const allowed = await hasPermission(userId, 'areas.manage');
+    if (!allowed) {
+      return NextResponse.json({ error: 'Forbidden: Missing permission areas.manage' }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const areaIdParam = searchParams.get('area_id');
+    const areaId = areaIdParam ? parseInt(areaIdParam, 10) : undefined;
+
+    if (areaId !== undefined && isNaN(areaId)) {
+      return NextResponse.json({ error: 'area_id must be a number' }, { status: 400 });
+    }
+
+    const data = await listAreaDeactivations({
+      areaId,
+      restorableOnly: searchParams.get('restorable') === 'true',
+    });
+
+    return NextResponse.json({ data }, { status: 200 });
+  } catch (error) {
+    console.error('Admin area deactivations GET API error:', error);
+    if (error instanceof Error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    } else {
+      return NextResponse.json({ error: 'Unknown error' }, { status: 500 });
+    }
+  }
+}
+
+// POST - Roll back an area deactivation from its snapshot
+export async function POST(request: Request) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Check areas.manage permission
+    const allowed = await hasPermission(userId, 'areas.manage');
+    if (!allowed) {
+      return NextResponse.json({ error: 'Forbidden: Missing permission areas.manage' }, { status: 403 });
+    }
+
+    const { snapshotId } = await request.json();
+
+    if (!Number.isInteger(snapshotId)) {
+      return NextResponse.json({ error: 'snapshotId is required' }, { status: 400 });
+    }
+
+    const result = await restoreAreaDeactivation(snapshotId, userId);
+
+    const { data: area } = await supabaseAdmin
+      .from('master_areas')
+      .select('name')
+      .eq('id', result.areaId)
+      .maybeSingle();
+
+    await recordActivity({
+      type: 'update',
+      action: 'Rolled back area deactivation',
+      item: area?.name || `Area ${result.areaId}`,
+      areaId: result.areaId,
+      actorClerkUserId: userId,
+      metadata: {
+        snapshotId,
+        mappingsRestored: result.mappingsRestored,
+        usersReactivated: result.users.length,
+      },
+    });
+
+    const unlockFailures = result.users.filter(user => user.status !== 'done');
+    const unlockWarning = unlockFailures.length > 0
+      ? ` ${unlockFailures.length} Clerk unlocks did not go through yet and will be retried.`
+      : '';
+
+    return NextResponse.json({
+      data: result,
+      message: `Area reactivated. ${result.mappingsRestored} user assignments restored and ${result.users.length} users reactivated.${unlockWarning}`,
+    }, { status: 200 });
+  } catch (error) {
+    console.error('Admin area deactivations POST API error:', error);
+    if (error instanceof AreaDeactivationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    if (error instanceof Error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    } else {
+      return NextResponse.json({ error: 'Unknown error' }, { status: 500 });
+    }
+  }
+}
@@ -0,0 +1,96 @@
+import { auth } from '@clerk/nextjs/server';
+import { NextResponse } from 'next/server';
+import { hasPermission } from '@/lib/authorization';
+import { recordActivity } from '@/lib/activity';
+import { applyAreaImport, getAreaImportDiff } from '@/lib/area-import';
+import { IDempiereAPIError } from '@/lib/idempiere-api';
+
+// GET - Diff iDempiere organizations and warehouses against master_areas
+export async function GET() {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Check areas.manage permission
+    const allowed = await hasPermission(userId, 'areas.manage');
+    if (!allowed) {
+      return NextResponse.json({ error: 'Forbidden: Missing permission areas.manage' }, { status: 403 });
+    }
+
+    const { changes, unchanged } = await getAreaImportDiff();
+
+    return NextResponse.json({
+      data: changes,
+      summary: {
+        new: changes.filter(change => change.type === 'new').length,
+        renamed: changes.filter(change => change.type === 'renamed').length,
+        missing: changes.filter(change => change.type === 'missing').length,
+        unchanged,
+      },
+    }, { status: 200 });
+  } catch (error) {
+    console.error('Admin area import GET API error:', error);
+    if (error instanceof IDempiereAPIError) {
+      return NextResponse.json({ error: error.message }, { status: error.status || 502 });
+    }
+    if (error instanceof Error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    } else {
+      return NextResponse.json({ error: 'Unknown error' }, { status: 500 });
+    }
+  }
+}
+
+// POST - Apply selected new and renamed areas from a fresh diff
+export async function POST(request: Request) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Check areas.manage permission
+    const allowed = await hasPermission(userId, 'areas.manage');
+    if (!allowed) {
+      return NextResponse.json({ error: 'Forbidden: Missing permission areas.manage' }, { status: 403 });
+    }
+
+    const { keys } = await request.json();
+
+    if (!Array.isArray(keys) || keys.length === 0 || keys.some(key => typeof key !== 'string')) {
+      return NextResponse.json({ error: 'keys must be a non-empty array of change keys' }, { status: 400 });
+    }
+
+    const result = await applyAreaImport(keys);
+
+    if (result.created > 0 || result.renamed > 0) {
+      await recordActivity({
+        type: 'sync',
+        action: 'Imported areas from iDempiere',
+        item: `${result.created} created, ${result.renamed} renamed`,
+        metadata: { failed: result.failed.length },
+        actorClerkUserId: userId,
+      });
+    }
+
+    const message = result.failed.length > 0
+      ? `Applied ${result.created + result.renamed} of ${keys.length} changes`
+      : 'Area import applied successfully';
+
+    return NextResponse.json({ data: result, message }, { status: 200 });
+  } catch (error) {
+    console.error('Admin area import POST API error:', error);
+    if (error instanceof IDempiereAPIError) {
+      return NextResponse.json({ error: error.message }, { status: error.status || 502 });
+    }
+    if (error instanceof Error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    } else {
+      return NextResponse.json({ error: 'Unknown error' }, { status: 500 });
+    }
+  }
+}
@@ -1,19 +1,42 @@
 import { auth } from '@clerk/nextjs/server';
 import { supabaseAdmin } from '@/lib/supabase';
 import { NextResponse } from 'next/server';
+import { hasPermission } from '@/lib/authorization';
+import { recordActivity } from '@/lib/activity';
+import { AREA_TYPES, AreaType, wouldCreateCycle } from '@/lib/area-hierarchy';
+import { AreaDeactivationError, executeAreaDeactivation, planAreaDeactivation } from '@/lib/area-deactivation';
+
+// Helper function to validate an area's parent and type; returns an error message or null
+async function validateAreaPlacement(areaId: number | null, parentId: number | null, areaType: string | undefined) {
+  if (areaType !== undefined && !AREA_TYPES.includes(areaType as AreaType)) {
+    return `areaType must be one of: ${AREA_TYPES.join(', ')}`;
+  }
+
+  if (parentId === null) {
+    return null;
+  }
+
+  if (!Number.isInteger(parentId)) {
+    return 'parentId must be an area id or null';
+  }
 
-// Helper function to check if user is superadmin
-async function checkSuperadminAccess(userId: string) {
-  const { data: userProfile, error } = await supabaseAdmin
-    .from('user_profiles')
-    .select('role')
-    .eq('clerk_user_id', userId)
-    .single();
+  const { data: areas, error } = await supabaseAdmin
+    .from('master_areas')
+    .select('id, parent_id');
+
+  if (error) {
+    throw new Error(`Failed to load areas: ${error.message}`);
+  }
+
+  if (!(areas || []).some(area => area.id === parentId)) {
+    return 'Parent area not found';
+  }
 
-  if (error || userProfile?.role !== 'superadmin') {
-    return false;
+  if (areaId !== null && wouldCreateCycle(areas || [], areaId, parentId)) {
+    return 'An area cannot be moved under itself or one of its sub-areas';
   }
-  return true;
+
+  return null;
 }
 
 export async function GET() {
@@ -24,10 +47,10 @@ export async function GET() {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    // Check superadmin access
-    const isSuperadmin = await checkSuperadminAccess(userId);
-    if (!isSuperadmin) {
-      return NextResponse.json({ error: 'Forbidden: Superadmin access required' }, { status: 403 });
+    // Check areas.manage permission
+    const allowed = await hasPermission(userId, 'areas.manage');
+    if (!allowed) {
+      return NextResponse.json({ error: 'Forbidden: Missing permission areas.manage' }, { status: 403 });
     }
 
     // Fetch all areas (including inactive ones for superadmin)
@@ -60,25 +83,32 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    // Check superadmin access
-    const isSuperadmin = await checkSuperadminAccess(userId);
-    if (!isSuperadmin) {
-      return NextResponse.json({ error: 'Forbidden: Superadmin access required' }, { status: 403 });
+    // Check areas.manage permission
+    const allowed = await hasPermission(userId, 'areas.manage');
+    if (!allowed) {
+      return NextResponse.json({ error: 'Forbidden: Missing permission areas.manage' }, { status: 403 });
     }
 
     const body = await request.json();
-    const { name, erpId } = body;
+    const { name, erpId, parentId = null, areaType } = body;
 
     if (!name || !erpId) {
       return NextResponse.json({ error: 'Name and ERP ID are required' }, { status: 400 });
     }
 
+    const placementError = await validateAreaPlacement(null, parentId, areaType);
+    if (placementError) {
+      return NextResponse.json({ error: placementError }, { status: 400 });
+    }
+
     // Create new area (is_active defaults to true)
     const { data, error } = await supabaseAdmin
       .from('master_areas')
       .insert({
         name,
         erp_id: erpId,
+        parent_id: parentId,
+        area_type: areaType || 'area',
         is_active: true
       })
       .select()
@@ -92,6 +122,14 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: 'Failed to create area' }, { status: 500 });
     }
 
+    await recordActivity({
+      type: 'update',
+      action: 'Created area',
+      item: data.name,
+      areaId: data.id,
+      actorClerkUserId: userId,
+    });
+
     return NextResponse.json({ data, message: 'Area created successfully' }, { status: 201 });
   } catch (error) {
     console.error('Admin areas POST API error:', error);
@@ -111,26 +149,36 @@ export async function PUT(request: Request) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    // Check superadmin access
-    const isSuperadmin = await checkSuperadminAccess(userId);
-    if (!isSuperadmin) {
-      return NextResponse.json({ error: 'Forbidden: Superadmin access required' }, { status: 403 });
+    // Check areas.manage permission
+    const allowed = await hasPermission(userId, 'areas.manage');
+    if (!allowed) {
+      return NextResponse.json({ error: 'Forbidden: Missing permission areas.manage' }, { status: 403 });
     }
 
     const body = await request.json();
-    const { id, name, erpId } = body;
+    const { id, name, erpId, parentId, areaType } = body;
 
-    if (!id || !name || !erpId) {
-      return NextResponse.json({ error: 'ID, name and ERP ID are required' }, { status: 400 });
+    // erpId may be null for areas imported from an iDempiere warehouse
+    if (!id || !name || erpId === undefined) {
+      return NextResponse.json({ error: 'ID, name and erpId are required (erpId may be null for warehouse areas)' }, { status: 400 });
     }
 
-    // Update area
+    const placementError = await validateAreaPlacement(id, parentId ?? null, areaType);
+    if (placementError) {
+      return NextResponse.json({ error: placementError }, { status: 400 });
+    }
+
+    // Update area; parent and type are only changed when sent
+    const updates: { name: string; erp_id: number | null; parent_id?: number | null; area_type?: AreaType } = {
+      name,
+      erp_id: erpId
+    };
+    if (parentId !== undefined) updates.parent_id = parentId;
+    if (areaType !== undefined) updates.area_type = areaType;
+
     const { data, error } = await supabaseAdmin
       .from('master_areas')
-      .update({
-        name,
-        erp_id: erpId
-      })
+      .update(updates)
       .eq('id', id)
       .select()
       .single();
@@ -140,9 +188,20 @@ export async function PUT(request: Request) {
       if (error.code === '23505') { // Unique constraint violation
         return NextResponse.json({ error: 'ERP ID already exists' }, { status: 409 });
       }
+      if (error.code === '23514') { // Check constraint violation (master_areas_erp_reference)
+        return NextResponse.json({ error: 'ERP ID is required for areas not linked to an iDempiere warehouse' }, { status: 400 });
+      }
       return NextResponse.json({ error: 'Failed to update area' }, { status: 500 });
     }
 
+    await recordActivity({
+      type: 'update',
+      action: 'Updated area',
+      item: data.name,
+      areaId: data.id,
+      actorClerkUserId: userId,
+    });
+
     return NextResponse.json({ data, message: 'Area updated successfully' }, { status: 200 });
   } catch (error) {
     console.error('Admin areas PUT API error:', error);
@@ -162,23 +221,60 @@ export async function PATCH(request: Request) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    // Check superadmin access
-    const isSuperadmin = await checkSuperadminAccess(userId);
-    if (!isSuperadmin) {
-      return NextResponse.json({ error: 'Forbidden: Superadmin access required' }, { status: 403 });
+    // Check areas.manage permission
+    const allowed = await hasPermission(userId, 'areas.manage');
+    if (!allowed) {
+      return NextResponse.json({ error: 'Forbidden: Missing permission areas.manage' }, { status: 403 });
     }
 
     const body = await request.json();
-    const { id, isActive } = body;
+    const { id, isActive, dryRun } = body;
 
     if (!id || typeof isActive !== 'boolean') {
       return NextResponse.json({ error: 'ID and isActive (boolean) are required' }, { status: 400 });
     }
 
+    if (!isActive) {
+      // A dry run returns the cascade without changing anything
+      if (dryRun === true) {
+        const plan = await planAreaDeactivation(id);
+        if (!plan) {
+          return NextResponse.json({ error: 'Area not found' }, { status: 404 });
+        }
+        return NextResponse.json({ data: plan }, { status: 200 });
+      }
+
+      const result = await executeAreaDeactivation(id, userId);
+      const lockFailures = result.users.filter(user => user.status !== 'done');
+
+      await recordActivity({
+        type: 'update',
+        action: 'Deactivated area',
+        item: result.area.name,
+        areaId: result.area.id,
+        actorClerkUserId: userId,
+        metadata: {
+          snapshotId: result.snapshotId,
+          removedMappings: result.removedMappings.length,
+          deactivatedUsers: result.users.length,
+          lockFailures: lockFailures.length,
+        },
+      });
+
+      const lockWarning = lockFailures.length > 0
+        ? ` ${lockFailures.length} Clerk locks did not go through yet and will be retried.`
+        : '';
+
+      return NextResponse.json({
+        data: result,
+        message: `Area deactivated successfully. ${result.removedMappings.length} user assignments were removed and ${result.users.length} users with no remaining active areas were deactivated.${lockWarning}`,
+      }, { status: 200 });
+    }
+
     // Update area active status
     const { data, error } = await supabaseAdmin
       .from('master_areas')
-      .update({ is_active: isActive })
+      .update({ is_active: true })
       .eq('id', id)
       .select()
       .single();
@@ -188,105 +284,20 @@ export async function PATCH(request: Request) {
       return NextResponse.json({ error: 'Failed to update area status' }, { status: 500 });
     }
 
-    // If area is being deactivated, clean up user-area mappings and check for user deactivation
-    if (!isActive) {
-      // STEP 1: Remove all user-area mappings that reference this deactivated area
-      const { error: mappingDeleteError } = await supabaseAdmin
-        .from('user_area_mappings')
-        .delete()
-        .eq('area_id', id);
-
-      if (mappingDeleteError) {
-        console.error('Error removing user-area mappings:', mappingDeleteError);
-      } else {
-        console.log(`Removed all user-area mappings for deactivated area ${id}`);
-      }
-
-      // STEP 2: Check which users would have NO remaining active areas and need deactivation
-      // Find users who have this area as primary area
-      const { data: primaryAreaUsers, error: primaryError } = await supabaseAdmin
-        .from('user_profiles')
-        .select('id, clerk_user_id, email, area_id')
-        .eq('area_id', id)
-        .eq('is_active', true);
-
-      if (primaryError) {
-        console.error('Error fetching users with primary area:', primaryError);
-      } else if (primaryAreaUsers && primaryAreaUsers.length > 0) {
-        const usersToDeactivate = [];
-        
-        // For each user who had this as primary area, check if they have other active areas
-        for (const user of primaryAreaUsers) {
-          let hasOtherActiveAreas = false;
-          
-          // Check if they have other active areas in mappings (after we removed the deactivated area mappings)
-          const { data: otherMappings } = await supabaseAdmin
-            .from('user_area_mappings')
-            .select(`
-              area_id,
-              master_areas!inner(is_active)
-            `)
-            .eq('user_profile_id', user.id);
-          
-          type OtherMapping = { area_id: number; master_areas: { is_active: boolean } };
-          if (otherMappings && (otherMappings as OtherMapping[]).some((mapping: OtherMapping) => mapping.master_areas?.is_active)) {
-            hasOtherActiveAreas = true;
-          }
-          
-          // If user has no other active areas, mark for deactivation
-          if (!hasOtherActiveAreas) {
-            usersToDeactivate.push(user);
-          }
-        }
-        
-        // Deactivate users who have no remaining active areas
-        if (usersToDeactivate.length > 0) {
-          const userIds = usersToDeactivate.map(u => u.id);
-          
-          // Deactivate users in Supabase
-          const { error: userUpdateError } = await supabaseAdmin
-            .from('user_profiles')
-            .update({ is_active: false })
-            .in('id', userIds)
-            .eq('is_active', true);
-
-          if (userUpdateError) {
-            console.error('Error deactivating users:', userUpdateError);
-          } else {
-            // Also deactivate users in Clerk
-            for (const user of usersToDeactivate) {
-              try {
-                const clerkResponse = await fetch(`https://api.clerk.dev/v1/users/${user.clerk_user_id}/lock`, {
-                  method: 'POST',
-                  headers: {
-                    'Authorization': `Bearer ${process.env.CLERK_SECRET_KEY}`,
-                    'Content-Type': 'application/json',
-                  },
-                });
-
-                if (!clerkResponse.ok) {
-                  const clerkError = await clerkResponse.json();
-                  console.error(`Clerk user lock error for ${user.email}:`, clerkError);
-                }
-              } catch (clerkError) {
-                console.error(`Error locking user ${user.email} in Clerk:`, clerkError);
-              }
-            }
-            
-            console.log(`Deactivated ${usersToDeactivate.length} users who had no remaining active areas`);
-          }
-        }
-      }
-    }
+    await recordActivity({
+      type: 'update',
+      action: 'Activated area',
+      item: data.name,
+      areaId: data.id,
+      actorClerkUserId: userId,
+    });
 
-    const action = isActive ? 'activated' : 'deactivated';
-    const message = !isActive 
-      ? `Area ${action} successfully. All user assignments to this area have been removed and users with no remaining active areas have been deactivated.`
-      : `Area ${action} successfully`;
-    
-    return NextResponse.json({ data, message }, { status: 200 });
+    return NextResponse.json({ data, message: 'Area activated successfully' }, { status: 200 });
   } catch (error) {
     console.error('Admin areas PATCH API error:', error);
+    if (error instanceof AreaDeactivationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
     if (error instanceof Error) {
       return NextResponse.json({ error: error.message }, { status: 500 });
     } else {
@@ -0,0 +1,86 @@
+import { auth } from '@clerk/nextjs/server';
+import { ClerkLockOutboxStatus } from '@/lib/supabase';
+import { NextRequest, NextResponse } from 'next/server';
+import { hasPermission } from '@/lib/authorization';
+import { listClerkLockOutbox, processClerkLockOutbox } from '@/lib/clerk-lock-outbox';
+
+const OUTBOX_STATUSES: ClerkLockOutboxStatus[] = ['pending', 'processing', 'done', 'failed', 'superseded'];
+
+// GET - List queued Clerk lock/unlock requests (?status=pending|processing|done|failed|superseded)
+export async function GET(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Check jobs.run permission
+    const allowed = await hasPermission(userId, 'jobs.run');
+    if (!allowed) {
+      return NextResponse.json({ error: 'Forbidden: Missing permission jobs.run' }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status');
+
+    if (status && !OUTBOX_STATUSES.includes(status as ClerkLockOutboxStatus)) {
+      return NextResponse.json({ error: `status must be one of: ${OUTBOX_STATUSES.join(', ')}` }, { status: 400 });
+    }
+
+    const data = await listClerkLockOutbox((status as ClerkLockOutboxStatus) || undefined);
+
+    return NextResponse.json({ data }, { status: 200 });
+  } catch (error) {
+    console.error('Clerk lock outbox GET API error:', error);
+    if (error instanceof Error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    } else {
+      return NextResponse.json({ error: 'Unknown error' }, { status: 500 });
+    }
+  }
+}
+
+/**
+ * POST /api/admin/clerk-lock-outbox
+ * Send Clerk lock/unlock requests that are due, retrying earlier failures
+ * Requires the jobs.run permission, or `Authorization: Bearer <CLERK_LOCK_OUTBOX_SECRET>`
+ * for schedulers (cron)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const outboxSecret = process.env.CLERK_LOCK_OUTBOX_SECRET;
+    const authHeader = request.headers.get('authorization');
+
+    if (!outboxSecret || authHeader !== `Bearer ${outboxSecret}`) {
+      const { userId } = await auth();
+      if (!userId) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+      }
+
+      const allowed = await hasPermission(userId, 'jobs.run');
+      if (!allowed) {
+        return NextResponse.json({ error: 'Forbidden: Missing permission jobs.run' }, { status: 403 });
+      }
+    }
+
+    const outcomes = await processClerkLockOutbox();
+
+    return NextResponse.json({
+      data: outcomes,
+      summary: {
+        sent: outcomes.filter(outcome => outcome.status === 'done').length,
+        retrying: outcomes.filter(outcome => outcome.status === 'pending').length,
+        failed: outcomes.filter(outcome => outcome.status === 'failed').length,
+      },
+      message: 'Clerk lock outbox processed',
+    }, { status: 200 });
+  } catch (error) {
+    console.error('Clerk lock outbox POST API error:', error);
+    if (error instanceof Error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    } else {
+      return NextResponse.json({ error: 'Unknown error' }, { status: 500 });
+    }
+  }
+}
@@ -1,33 +1,128 @@
 import { auth } from '@clerk/nextjs/server';
 import { supabaseAdmin } from '@/lib/supabase';
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { recordActivity } from '@/lib/activity';
+import { getUserPermissions, isRole } from '@/lib/authorization';
+import { changeUserRole, listRoleChanges, RoleChangeError } from '@/lib/role-changes';
 
-export async function POST(request: Request) {
+const MAX_REASON_LENGTH = 500;
+
+// GET - Role change history (?clerkUserId= for one user)
+export async function GET(request: NextRequest) {
   try {
     const { userId } = await auth();
-    
+
     if (!userId) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
+    const actor = await getUserPermissions(userId);
+    if (!actor?.permissions.includes('roles.assign')) {
+      return NextResponse.json({ error: 'Forbidden: Missing permission roles.assign' }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const clerkUserId = searchParams.get('clerkUserId');
+
+    let userProfileId: string | undefined;
+    if (clerkUserId) {
+      const { data: target, error: targetError } = await supabaseAdmin
+        .from('user_profiles')
+        .select('id')
+        .eq('clerk_user_id', clerkUserId)
+        .maybeSingle();
+
+      if (targetError) {
+        console.error('Error fetching user profile:', targetError);
+        return NextResponse.json({ error: 'Failed to fetch user' }, { status: 500 });
+      }
+      if (!target) {
+        return NextResponse.json({ error: 'User not found' }, { status: 404 });
+      }
+      userProfileId = target.id;
+    }
+
+    const data = await listRoleChanges(userProfileId);
+
+    return NextResponse.json({ data }, { status: 200 });
+  } catch (error) {
+    console.error('Role change history API error:', error);
+    if (error instanceof Error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    } else {
+      return NextResponse.json({ error: 'Unknown error' }, { status: 500 });
+    }
+  }
+}
+
+/**
+ * POST /api/admin/force-role-change
+ * Change a user's role with a recorded reason
+ * Requires the roles.assign permission, or `Authorization: Bearer <ROLE_BOOTSTRAP_TOKEN>`
+ * while there is no active superadmin yet (first install)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+
+    const bootstrapToken = process.env.ROLE_BOOTSTRAP_TOKEN;
+    const authHeader = request.headers.get('authorization');
+    const bootstrap = !!bootstrapToken && authHeader === `Bearer ${bootstrapToken}`;
+
+    if (!userId && !bootstrap) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const actor = userId ? await getUserPermissions(userId) : null;
+    if (!bootstrap && !actor?.permissions.includes('roles.assign')) {
+      return NextResponse.json({ error: 'Forbidden: Missing permission roles.assign' }, { status: 403 });
+    }
+
     const body = await request.json();
-    const { clerkUserId, newRole } = body;
+    const { clerkUserId, newRole, reason } = body;
 
     if (!clerkUserId || !newRole) {
       return NextResponse.json({ error: 'Clerk user ID and new role are required' }, { status: 400 });
     }
 
-    // Validate role
-    const validRoles = ['superadmin', 'area sales manager', 'area sales supervisor'];
-    if (!validRoles.includes(newRole)) {
+    // Validate role against the roles table
+    if (!(await isRole(newRole))) {
       return NextResponse.json({ error: 'Invalid role' }, { status: 400 });
     }
 
-    // Force change the user role
-    const { data, error } = await supabaseAdmin
+    if (typeof reason !== 'string' || reason.trim() === '') {
+      return NextResponse.json({ error: 'A reason for the role change is required' }, { status: 400 });
+    }
+
+    if (reason.length > MAX_REASON_LENGTH) {
+      return NextResponse.json({ error: `Reason must be at most ${MAX_REASON_LENGTH} characters` }, { status: 400 });
+    }
+
+    const { data: target, error: targetError } = await supabaseAdmin
       .from('user_profiles')
-      .update({ role: newRole })
+      .select('id')
       .eq('clerk_user_id', clerkUserId)
+      .maybeSingle();
+
+    if (targetError) {
+      console.error('Error fetching user profile:', targetError);
+      return NextResponse.json({ error: 'Failed to fetch user' }, { status: 500 });
+    }
+
+    if (!target) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const change = await changeUserRole({
+      userProfileId: target.id,
+      newRole,
+      reason,
+      actorProfileId: actor?.userProfileId ?? null,
+      bootstrap,
+    });
+
+    const { data, error } = await supabaseAdmin
+      .from('user_profiles')
       .select(`
         id,
         clerk_user_id,
@@ -35,31 +130,44 @@ export async function POST(request: Request) {
         full_name,
         role,
         area_id,
+        is_active,
+        last_login_at,
         created_at,
         updated_at,
         master_areas(id, name, erp_id)
       `)
+      .eq('id', target.id)
       .single();
 
     if (error) {
-      console.error('Error updating user role:', error);
-      return NextResponse.json({ error: 'Failed to update user role' }, { status: 500 });
+      console.error('Error fetching updated user profile:', error);
+      return NextResponse.json({ error: 'Role changed, but the updated user could not be loaded' }, { status: 500 });
     }
 
-    if (!data) {
-      return NextResponse.json({ error: 'User not found' }, { status: 404 });
-    }
+    await recordActivity({
+      type: 'update',
+      action: `Changed role from ${change.from_role} to ${change.to_role}`,
+      item: data.full_name || data.email || clerkUserId,
+      areaId: data.area_id,
+      actorClerkUserId: userId,
+      actorName: userId ? undefined : 'Bootstrap token',
+      metadata: { roleChangeId: change.id, reason: change.reason, bootstrap },
+    });
 
-    return NextResponse.json({ 
-      data, 
-      message: `User role changed to ${newRole} successfully` 
+    return NextResponse.json({
+      data,
+      change,
+      message: `User role changed to ${newRole} successfully`
     }, { status: 200 });
   } catch (error) {
     console.error('Force role change API error:', error);
+    if (error instanceof RoleChangeError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
     if (error instanceof Error) {
       return NextResponse.json({ error: error.message }, { status: 500 });
     } else {
       return NextResponse.json({ error: 'Unknown error' }, { status: 500 });
     }
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,184 @@
+import { auth } from '@clerk/nextjs/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { recordActivity } from '@/lib/activity';
+import { UserInvitationStatus } from '@/lib/supabase';
+import { canAssignArea, resolveUserAdminScope, UserAdminScope } from '@/lib/user-admin-scope';
+import {
+  createInvitation,
+  getInvitation,
+  getInvitationUrl,
+  InvitationError,
+  listInvitations,
+  revokeInvitation,
+  sendInvitationEmail,
+} from '@/lib/user-invitations';
+
+const FORBIDDEN_MESSAGE = 'Forbidden: Missing permission users.manage or users.manage_area';
+
+const INVITATION_STATUSES: UserInvitationStatus[] = ['pending', 'accepted', 'revoked'];
+
+// Area-scoped admins only see invitations into their own areas
+function canManageInvitation(scope: UserAdminScope, areaId: number | null | undefined): boolean {
+  return scope.global || (!!areaId && canAssignArea(scope, areaId));
+}
+
+// GET - List invitations (?status=pending|accepted|revoked)
+export async function GET(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const scope = await resolveUserAdminScope(userId);
+    if (!scope) {
+      return NextResponse.json({ error: FORBIDDEN_MESSAGE }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status');
+
+    if (status && !INVITATION_STATUSES.includes(status as UserInvitationStatus)) {
+      return NextResponse.json({ error: 'Invalid status' }, { status: 400 });
+    }
+
+    const invitations = await listInvitations((status as UserInvitationStatus) || undefined);
+    const data = invitations.filter(invitation => canManageInvitation(scope, invitation.area_id));
+
+    return NextResponse.json({ data }, { status: 200 });
+  } catch (error) {
+    console.error('Invitations GET API error:', error);
+    if (error instanceof Error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    } else {
+      return NextResponse.json({ error: 'Unknown error' }, { status: 500 });
+    }
+  }
+}
+
+// POST - Invite a new user; the invite link is only returned here
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const scope = await resolveUserAdminScope(userId);
+    if (!scope) {
+      return NextResponse.json({ error: FORBIDDEN_MESSAGE }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const { username, email, fullName, areaId } = body as { username: string; email?: string; fullName?: string; areaId?: number };
+
+    if (!username || !username.trim()) {
+      return NextResponse.json({ error: 'Username is required' }, { status: 400 });
+    }
+
+    // Area-scoped admins can only invite supervisors into one of their own areas
+    if (!scope.global && !areaId) {
+      return NextResponse.json({ error: 'Area is required' }, { status: 400 });
+    }
+    if (areaId && !canAssignArea(scope, areaId)) {
+      return NextResponse.json({ error: 'Forbidden: Area is outside your scope' }, { status: 403 });
+    }
+
+    const { invitation, token } = await createInvitation({
+      username,
+      email,
+      fullName,
+      areaId,
+      invitedBy: scope.actor.userProfileId,
+    });
+
+    const inviteUrl = getInvitationUrl(new URL(request.url).origin, token);
+
+    // The admin can still share the link when the email cannot be sent
+    let emailSent = false;
+    try {
+      emailSent = await sendInvitationEmail(invitation, inviteUrl);
+    } catch (mailError) {
+      console.error('Error sending invitation email:', mailError);
+    }
+
+    await recordActivity({
+      type: 'update',
+      action: 'Invited user',
+      item: invitation.full_name || invitation.email || invitation.username,
+      areaId: invitation.area_id,
+      actorClerkUserId: userId,
+      metadata: { invitationId: invitation.id, emailSent },
+    });
+
+    return NextResponse.json({
+      data: invitation,
+      inviteUrl,
+      emailSent,
+      message: emailSent ? 'Invitation created and emailed' : 'Invitation created'
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Invitations POST API error:', error);
+    if (error instanceof InvitationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    if (error instanceof Error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    } else {
+      return NextResponse.json({ error: 'Unknown error' }, { status: 500 });
+    }
+  }
+}
+
+// DELETE - Revoke a pending invitation
+export async function DELETE(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const scope = await resolveUserAdminScope(userId);
+    if (!scope) {
+      return NextResponse.json({ error: FORBIDDEN_MESSAGE }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const { id } = body;
+
+    if (!id) {
+      return NextResponse.json({ error: 'Invitation ID is required' }, { status: 400 });
+    }
+
+    const existing = await getInvitation(id);
+    if (!existing || !canManageInvitation(scope, existing.area_id)) {
+      return NextResponse.json({ error: 'Invitation not found' }, { status: 404 });
+    }
+
+    const data = await revokeInvitation(id, scope.actor.userProfileId);
+
+    await recordActivity({
+      type: 'update',
+      action: 'Revoked invitation',
+      item: data.full_name || data.email || data.username,
+      areaId: data.area_id,
+      actorClerkUserId: userId,
+      metadata: { invitationId: data.id },
+    });
+
+    return NextResponse.json({ data, message: 'Invitation revoked' }, { status: 200 });
+  } catch (error) {
+    console.error('Invitations DELETE API error:', error);
+    if (error instanceof InvitationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    if (error instanceof Error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    } else {
+      return NextResponse.json({ error: 'Unknown error' }, { status: 500 });
+    }
+  }
+}
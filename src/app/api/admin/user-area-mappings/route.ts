@@ -1,20 +1,16 @@
 import { auth } from '@clerk/nextjs/server';
 import { supabaseAdmin } from '@/lib/supabase';
 import { NextResponse } from 'next/server';
+import { describeUserProfile, recordActivity } from '@/lib/activity';
+import {
+  canAssignArea,
+  canManageUser,
+  isUserInScope,
+  loadUserAreaIds,
+  resolveUserAdminScope,
+} from '@/lib/user-admin-scope';
 
-// Helper function to check if user is superadmin
-async function checkSuperadminAccess(userId: string) {
-  const { data: userProfile, error } = await supabaseAdmin
-    .from('user_profiles')
-    .select('role')
-    .eq('clerk_user_id', userId)
-    .single();
-
-  if (error || userProfile?.role !== 'superadmin') {
-    return false;
-  }
-  return true;
-}
+const FORBIDDEN_MESSAGE = 'Forbidden: Missing permission users.manage or users.manage_area';
 
 // GET - Fetch user-area mappings for a specific user
 export async function GET(request: Request) {
@@ -25,10 +21,9 @@ export async function GET(request: Request) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    // Check superadmin access
-    const isSuperadmin = await checkSuperadminAccess(userId);
-    if (!isSuperadmin) {
-      return NextResponse.json({ error: 'Forbidden: Superadmin access required' }, { status: 403 });
+    const scope = await resolveUserAdminScope(userId);
+    if (!scope) {
+      return NextResponse.json({ error: FORBIDDEN_MESSAGE }, { status: 403 });
     }
 
     const { searchParams } = new URL(request.url);
@@ -38,6 +33,10 @@ export async function GET(request: Request) {
       return NextResponse.json({ error: 'User profile ID is required' }, { status: 400 });
     }
 
+    if (!(await canManageUser(scope, userProfileId))) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
     // Fetch user-area mappings
     const { data, error } = await supabaseAdmin
       .from('user_area_mappings')
@@ -76,10 +75,9 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    // Check superadmin access
-    const isSuperadmin = await checkSuperadminAccess(userId);
-    if (!isSuperadmin) {
-      return NextResponse.json({ error: 'Forbidden: Superadmin access required' }, { status: 403 });
+    const scope = await resolveUserAdminScope(userId);
+    if (!scope) {
+      return NextResponse.json({ error: FORBIDDEN_MESSAGE }, { status: 403 });
     }
 
     const body = await request.json();
@@ -89,6 +87,13 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: 'User profile ID and area ID are required' }, { status: 400 });
     }
 
+    if (!(await canManageUser(scope, userProfileId))) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+    if (!canAssignArea(scope, areaId)) {
+      return NextResponse.json({ error: 'Forbidden: Area is outside your scope' }, { status: 403 });
+    }
+
     // Create user-area mapping
     const { data, error } = await supabaseAdmin
       .from('user_area_mappings')
@@ -113,6 +118,15 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: 'Failed to create mapping' }, { status: 500 });
     }
 
+    const mappedArea = data.master_areas as unknown as { name: string } | null;
+    await recordActivity({
+      type: 'update',
+      action: `Assigned user to ${mappedArea?.name || 'area'}`,
+      item: await describeUserProfile(userProfileId),
+      areaId,
+      actorClerkUserId: userId,
+    });
+
     return NextResponse.json({ data, message: 'User-area mapping created successfully' }, { status: 201 });
   } catch (error) {
     console.error('User-area mappings POST API error:', error);
@@ -133,10 +147,9 @@ export async function DELETE(request: Request) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    // Check superadmin access
-    const isSuperadmin = await checkSuperadminAccess(userId);
-    if (!isSuperadmin) {
-      return NextResponse.json({ error: 'Forbidden: Superadmin access required' }, { status: 403 });
+    const scope = await resolveUserAdminScope(userId);
+    if (!scope) {
+      return NextResponse.json({ error: FORBIDDEN_MESSAGE }, { status: 403 });
     }
 
     const body = await request.json();
@@ -146,6 +159,30 @@ export async function DELETE(request: Request) {
       return NextResponse.json({ error: 'User profile ID and area ID are required' }, { status: 400 });
     }
 
+    if (!scope.global) {
+      if (!(await canManageUser(scope, userProfileId))) {
+        return NextResponse.json({ error: 'User not found' }, { status: 404 });
+      }
+
+      // Removing the user's last area would take them out of the admin's scope
+      const { data: target, error: targetError } = await supabaseAdmin
+        .from('user_profiles')
+        .select('id, role, area_id')
+        .eq('id', userProfileId)
+        .single();
+
+      if (targetError) {
+        console.error('Error fetching user profile:', targetError);
+        return NextResponse.json({ error: 'Failed to fetch user' }, { status: 500 });
+      }
+
+      const remainingAreaIds = ((await loadUserAreaIds([target])).get(target.id) || [])
+        .filter(id => id !== areaId || id === target.area_id);
+      if (!isUserInScope(scope, { role: target.role, areaIds: remainingAreaIds })) {
+        return NextResponse.json({ error: 'The user must keep at least one area within your scope' }, { status: 409 });
+      }
+    }
+
     // Delete user-area mapping
     const { error } = await supabaseAdmin
       .from('user_area_mappings')
@@ -158,6 +195,14 @@ export async function DELETE(request: Request) {
       return NextResponse.json({ error: 'Failed to delete mapping' }, { status: 500 });
     }
 
+    await recordActivity({
+      type: 'update',
+      action: 'Removed user from area',
+      item: await describeUserProfile(userProfileId),
+      areaId,
+      actorClerkUserId: userId,
+    });
+
     return NextResponse.json({ message: 'User-area mapping deleted successfully' }, { status: 200 });
   } catch (error) {
     console.error('User-area mappings DELETE API error:', error);
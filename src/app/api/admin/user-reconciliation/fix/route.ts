@@ -0,0 +1,49 @@
+import { auth } from '@clerk/nextjs/server';
+import { NextResponse } from 'next/server';
+import { getUserPermissions } from '@/lib/authorization';
+import { fixDriftItem, ReconciliationError } from '@/lib/user-reconciliation';
+
+/**
+ * POST /api/admin/user-reconciliation/fix
+ * Apply the one-click fix for a drift item: { runId, key }
+ * Requires the users.manage permission
+ */
+export async function POST(request: Request) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Check users.manage permission
+    const actor = await getUserPermissions(userId);
+    if (!actor?.permissions.includes('users.manage')) {
+      return NextResponse.json({ error: 'Forbidden: Missing permission users.manage' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const { runId, key } = body;
+
+    if (!Number.isInteger(runId) || typeof key !== 'string' || key === '') {
+      return NextResponse.json({ error: 'Run ID and drift item key are required' }, { status: 400 });
+    }
+
+    const { item, message } = await fixDriftItem(runId, key, {
+      clerkUserId: userId,
+      userProfileId: actor.userProfileId,
+    });
+
+    return NextResponse.json({ data: item, message }, { status: 200 });
+  } catch (error) {
+    console.error('User reconciliation fix API error:', error);
+    if (error instanceof ReconciliationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    if (error instanceof Error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    } else {
+      return NextResponse.json({ error: 'Unknown error' }, { status: 500 });
+    }
+  }
+}
@@ -0,0 +1,87 @@
+import { auth } from '@clerk/nextjs/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { hasPermission } from '@/lib/authorization';
+import { getReconciliationRun, runUserReconciliation } from '@/lib/user-reconciliation';
+
+// GET - Latest Clerk/Supabase reconciliation run with its drift report (?runId for a specific run)
+export async function GET(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Check users.manage permission
+    const allowed = await hasPermission(userId, 'users.manage');
+    if (!allowed) {
+      return NextResponse.json({ error: 'Forbidden: Missing permission users.manage' }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const runIdParam = searchParams.get('runId');
+    const runId = runIdParam ? Number(runIdParam) : undefined;
+
+    if (runId !== undefined && !Number.isInteger(runId)) {
+      return NextResponse.json({ error: 'runId must be an integer' }, { status: 400 });
+    }
+
+    const data = await getReconciliationRun(runId);
+
+    if (runId !== undefined && !data) {
+      return NextResponse.json({ error: 'Reconciliation run not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ data }, { status: 200 });
+  } catch (error) {
+    console.error('User reconciliation GET API error:', error);
+    if (error instanceof Error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    } else {
+      return NextResponse.json({ error: 'Unknown error' }, { status: 500 });
+    }
+  }
+}
+
+/**
+ * POST /api/admin/user-reconciliation
+ * Compare all Clerk users with user_profiles and store the drift report
+ * Requires the users.manage permission, or `Authorization: Bearer <USER_RECONCILIATION_SECRET>`
+ * for schedulers (cron)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const reconciliationSecret = process.env.USER_RECONCILIATION_SECRET;
+    const authHeader = request.headers.get('authorization');
+    let triggeredBy = 'scheduler';
+
+    if (!reconciliationSecret || authHeader !== `Bearer ${reconciliationSecret}`) {
+      const { userId } = await auth();
+      if (!userId) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+      }
+
+      const allowed = await hasPermission(userId, 'users.manage');
+      if (!allowed) {
+        return NextResponse.json({ error: 'Forbidden: Missing permission users.manage' }, { status: 403 });
+      }
+      triggeredBy = userId;
+    }
+
+    const data = await runUserReconciliation(triggeredBy);
+
+    return NextResponse.json({
+      data,
+      message: data.items.length === 0
+        ? 'Clerk and Supabase users are in sync'
+        : `Found ${data.items.length} differences between Clerk and Supabase users`,
+    }, { status: 200 });
+  } catch (error) {
+    console.error('User reconciliation POST API error:', error);
+    if (error instanceof Error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    } else {
+      return NextResponse.json({ error: 'Unknown error' }, { status: 500 });
+    }
+  }
+}
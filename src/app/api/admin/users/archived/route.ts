@@ -0,0 +1,91 @@
+import { auth } from '@clerk/nextjs/server';
+import { NextResponse } from 'next/server';
+import { getUserPermissions, hasPermission } from '@/lib/authorization';
+import { recordActivity } from '@/lib/activity';
+import { listArchivedUsers, restoreUserProfile, UserArchiveError } from '@/lib/user-archive';
+
+// GET - List users archived after their Clerk account was deleted
+export async function GET() {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Check users.manage permission
+    const allowed = await hasPermission(userId, 'users.manage');
+    if (!allowed) {
+      return NextResponse.json({ error: 'Forbidden: Missing permission users.manage' }, { status: 403 });
+    }
+
+    const data = await listArchivedUsers();
+
+    return NextResponse.json({ data }, { status: 200 });
+  } catch (error) {
+    console.error('Archived users GET API error:', error);
+    if (error instanceof Error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    } else {
+      return NextResponse.json({ error: 'Unknown error' }, { status: 500 });
+    }
+  }
+}
+
+// POST - Restore an archived user for their Clerk account, or the account with the given username
+export async function POST(request: Request) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Check users.manage permission
+    const actor = await getUserPermissions(userId);
+    if (!actor?.permissions.includes('users.manage')) {
+      return NextResponse.json({ error: 'Forbidden: Missing permission users.manage' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const { userProfileId, username } = body;
+
+    if (!userProfileId) {
+      return NextResponse.json({ error: 'User profile ID is required' }, { status: 400 });
+    }
+
+    if (username !== undefined && username !== null && typeof username !== 'string') {
+      return NextResponse.json({ error: 'Username must be a string' }, { status: 400 });
+    }
+
+    // Restoring a role other than the default one also needs roles.assign
+    const data = await restoreUserProfile(
+      userProfileId,
+      { userProfileId: actor.userProfileId, canAssignRoles: actor.permissions.includes('roles.assign') },
+      username?.trim() || undefined
+    );
+
+    await recordActivity({
+      type: 'update',
+      action: 'Restored archived user',
+      item: data.full_name || data.email || data.clerk_user_id,
+      areaId: data.area_id,
+      actorClerkUserId: userId,
+    });
+
+    return NextResponse.json({
+      data,
+      message: `User ${data.full_name || data.email || data.clerk_user_id} restored successfully`
+    }, { status: 200 });
+  } catch (error) {
+    console.error('Archived users POST API error:', error);
+    if (error instanceof UserArchiveError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    if (error instanceof Error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    } else {
+      return NextResponse.json({ error: 'Unknown error' }, { status: 500 });
+    }
+  }
+}
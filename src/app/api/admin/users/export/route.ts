@@ -0,0 +1,38 @@
+import { auth } from '@clerk/nextjs/server';
+import { NextResponse } from 'next/server';
+import { resolveUserAdminScope } from '@/lib/user-admin-scope';
+import { exportUsersCsv } from '@/lib/user-import';
+
+// GET - Users and their areas as CSV, in the import format
+export async function GET() {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const scope = await resolveUserAdminScope(userId);
+    if (!scope) {
+      return NextResponse.json({ error: 'Forbidden: Missing permission users.manage or users.manage_area' }, { status: 403 });
+    }
+
+    const csv = await exportUsersCsv(scope);
+    const date = new Date().toISOString().slice(0, 10);
+
+    return new NextResponse(csv, {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="users-${date}.csv"`,
+      },
+    });
+  } catch (error) {
+    console.error('User export API error:', error);
+    if (error instanceof Error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    } else {
+      return NextResponse.json({ error: 'Unknown error' }, { status: 500 });
+    }
+  }
+}
@@ -0,0 +1,73 @@
+import { auth } from '@clerk/nextjs/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { recordActivity } from '@/lib/activity';
+import { resolveUserAdminScope } from '@/lib/user-admin-scope';
+import { previewUserImport, runUserImport, UserImportError } from '@/lib/user-import';
+
+/**
+ * POST /api/admin/users/import
+ * Validate a user CSV (`dryRun: true`) or import it
+ * Requires users.manage or users.manage_area
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const scope = await resolveUserAdminScope(userId);
+    if (!scope) {
+      return NextResponse.json({ error: 'Forbidden: Missing permission users.manage or users.manage_area' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const { csv, dryRun } = body as { csv?: string; dryRun?: boolean };
+
+    if (!csv || typeof csv !== 'string') {
+      return NextResponse.json({ error: 'CSV content is required' }, { status: 400 });
+    }
+
+    // Always validated again here; the preview the client saw is not trusted
+    const rows = await previewUserImport(csv, scope);
+
+    if (dryRun) {
+      return NextResponse.json({ data: rows }, { status: 200 });
+    }
+
+    if (rows.some(row => row.errors.length > 0)) {
+      return NextResponse.json({ error: 'Fix the rows with errors before importing', data: rows }, { status: 422 });
+    }
+
+    const outcomes = await runUserImport(rows, scope, new URL(request.url).origin);
+    const created = outcomes.filter(outcome => outcome.status === 'created').length;
+    const failed = outcomes.length - created;
+
+    await recordActivity({
+      type: 'update',
+      action: 'Imported users',
+      item: `${created} of ${outcomes.length} users`,
+      actorClerkUserId: userId,
+      metadata: { created, failed },
+    });
+
+    return NextResponse.json({
+      data: outcomes,
+      summary: { created, failed },
+      message: failed > 0
+        ? `${created} users imported, ${failed} failed`
+        : `${created} users imported`
+    }, { status: 200 });
+  } catch (error) {
+    console.error('User import API error:', error);
+    if (error instanceof UserImportError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    if (error instanceof Error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    } else {
+      return NextResponse.json({ error: 'Unknown error' }, { status: 500 });
+    }
+  }
+}
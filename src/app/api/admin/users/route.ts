@@ -1,20 +1,21 @@
 import { auth } from '@clerk/nextjs/server';
 import { supabaseAdmin } from '@/lib/supabase';
 import { NextResponse } from 'next/server';
+import { recordActivity } from '@/lib/activity';
+import {
+  AREA_MANAGED_ROLES,
+  canAssignArea,
+  canManageUser,
+  isUserInScope,
+  loadUserAreaIds,
+  resolveUserAdminScope,
+} from '@/lib/user-admin-scope';
 
-// Helper function to check if user is superadmin
-async function checkSuperadminAccess(userId: string) {
-  const { data: userProfile, error } = await supabaseAdmin
-    .from('user_profiles')
-    .select('role')
-    .eq('clerk_user_id', userId)
-    .single();
+const FORBIDDEN_MESSAGE = 'Forbidden: Missing permission users.manage or users.manage_area';
 
-  if (error || userProfile?.role !== 'superadmin') {
-    return false;
-  }
-  return true;
-}
+// Fields PUT may update. Roles go through /api/admin/force-role-change, activation
+// through PATCH (which keeps Clerk in step) and archival through /api/admin/users/archived.
+const EDITABLE_FIELDS = ['full_name', 'area_id'] as const;
 
 export async function GET() {
   try {
@@ -24,14 +25,13 @@ export async function GET() {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    // Check superadmin access
-    const isSuperadmin = await checkSuperadminAccess(userId);
-    if (!isSuperadmin) {
-      return NextResponse.json({ error: 'Forbidden: Superadmin access required' }, { status: 403 });
+    const scope = await resolveUserAdminScope(userId);
+    if (!scope) {
+      return NextResponse.json({ error: FORBIDDEN_MESSAGE }, { status: 403 });
     }
 
-    // Fetch all users with their area information (including inactive ones for superadmin)
-    const { data, error } = await supabaseAdmin
+    // Fetch users with their area information (including inactive ones)
+    let query = supabaseAdmin
       .from('user_profiles')
       .select(`
         id,
@@ -41,18 +41,37 @@ export async function GET() {
         role,
         area_id,
         is_active,
+        last_login_at,
         created_at,
         updated_at,
         master_areas(id, name, erp_id)
       `)
+      // Archived users (deleted in Clerk) are listed separately
+      .is('deleted_at', null)
       .order('created_at', { ascending: false });
 
+    if (!scope.global) {
+      query = query.in('role', AREA_MANAGED_ROLES);
+    }
+
+    const { data, error } = await query;
+
     if (error) {
       console.error('Error fetching users:', error);
       return NextResponse.json({ error: 'Failed to fetch users' }, { status: 500 });
     }
 
-    return NextResponse.json({ data }, { status: 200 });
+    if (scope.global) {
+      return NextResponse.json({ data }, { status: 200 });
+    }
+
+    // Area-scoped admins only see users whose areas all lie within their own
+    const areaIdsByUser = await loadUserAreaIds(data || []);
+    const scoped = (data || []).filter(user =>
+      isUserInScope(scope, { role: user.role, areaIds: areaIdsByUser.get(user.id) || [] })
+    );
+
+    return NextResponse.json({ data: scoped }, { status: 200 });
   } catch (error) {
     console.error('Admin users API error:', error);
     if (error instanceof Error) {
@@ -72,16 +91,32 @@ export async function PUT(req: Request) {
     }
 
     const body = await req.json();
-    type UpdatePayload = Partial<{
-      full_name: string;
-      role: string;
-      area_id: number | null;
-      is_active: boolean;
-      email: string | null;
-    }>;
-    const updateData: UpdatePayload = body as UpdatePayload;
-
-    if (!updateData) {
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return NextResponse.json({ error: 'No update data provided' }, { status: 400 });
+    }
+
+    // Role changes need a reason and are audited; see /api/admin/force-role-change
+    if (body.role !== undefined) {
+      return NextResponse.json({ error: 'Use /api/admin/force-role-change to change roles' }, { status: 400 });
+    }
+
+    const disallowed = Object.keys(body).filter(field => !(EDITABLE_FIELDS as readonly string[]).includes(field));
+    if (disallowed.length > 0) {
+      return NextResponse.json({ error: `Cannot update ${disallowed.join(', ')}` }, { status: 400 });
+    }
+
+    if (body.full_name !== undefined && typeof body.full_name !== 'string') {
+      return NextResponse.json({ error: 'full_name must be a string' }, { status: 400 });
+    }
+    if (body.area_id !== undefined && body.area_id !== null && !Number.isInteger(body.area_id)) {
+      return NextResponse.json({ error: 'area_id must be an integer or null' }, { status: 400 });
+    }
+
+    const updateData: Partial<{ full_name: string; area_id: number | null }> = {};
+    if (body.full_name !== undefined) updateData.full_name = body.full_name;
+    if (body.area_id !== undefined) updateData.area_id = body.area_id;
+
+    if (Object.keys(updateData).length === 0) {
       return NextResponse.json({ error: 'No update data provided' }, { status: 400 });
     }
 
@@ -92,15 +127,46 @@ export async function PUT(req: Request) {
       return NextResponse.json({ error: 'Missing clerkUserId parameter' }, { status: 400 });
     }
 
-    const hasAccess = await checkSuperadminAccess(userId);
-    if (!hasAccess) {
-      return NextResponse.json({ error: 'Forbidden: Superadmin access required' }, { status: 403 });
+    const scope = await resolveUserAdminScope(userId);
+    if (!scope) {
+      return NextResponse.json({ error: FORBIDDEN_MESSAGE }, { status: 403 });
+    }
+
+    if (!scope.global) {
+      const { data: target, error: targetError } = await supabaseAdmin
+        .from('user_profiles')
+        .select('id, role, area_id')
+        .eq('clerk_user_id', targetClerkUserId)
+        .is('deleted_at', null)
+        .maybeSingle();
+
+      if (targetError) {
+        console.error('Error fetching user profile:', targetError);
+        return NextResponse.json({ error: 'Failed to fetch user' }, { status: 500 });
+      }
+      if (!target || !(await canManageUser(scope, target.id))) {
+        return NextResponse.json({ error: 'User not found' }, { status: 404 });
+      }
+
+      if (updateData.area_id !== undefined) {
+        if (updateData.area_id !== null && !canAssignArea(scope, updateData.area_id)) {
+          return NextResponse.json({ error: 'Forbidden: Area is outside your scope' }, { status: 403 });
+        }
+
+        // The user must stay within the admin's areas after the change
+        const mappedAreaIds = (await loadUserAreaIds([{ id: target.id }])).get(target.id) || [];
+        const areaIds = updateData.area_id === null ? mappedAreaIds : [...mappedAreaIds, updateData.area_id];
+        if (!isUserInScope(scope, { role: target.role, areaIds })) {
+          return NextResponse.json({ error: 'The user must keep at least one area within your scope' }, { status: 409 });
+        }
+      }
     }
 
     const { data, error } = await supabaseAdmin
       .from('user_profiles')
       .update(updateData)
       .eq('clerk_user_id', targetClerkUserId)
+      .is('deleted_at', null)
       .select(`
         id,
         clerk_user_id,
@@ -109,16 +175,29 @@ export async function PUT(req: Request) {
         role,
         area_id,
         is_active,
+        last_login_at,
         created_at,
         updated_at,
         master_areas(id, name, erp_id)
       `)
-      .single();
+      .maybeSingle();
 
     if (error) {
       console.error('Error updating user profile:', error);
       return NextResponse.json({ error: 'Failed to update user profile' }, { status: 500 });
     }
+    if (!data) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    await recordActivity({
+      type: 'update',
+      action: 'Updated user',
+      item: data.full_name || data.email || targetClerkUserId,
+      areaId: data.area_id,
+      actorClerkUserId: userId,
+      metadata: { changes: Object.keys(updateData) },
+    });
 
     return NextResponse.json({ data, message: 'User updated successfully' });
   } catch (error: unknown) {
@@ -136,10 +215,9 @@ export async function PATCH(request: Request) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    // Check superadmin access
-    const isSuperadmin = await checkSuperadminAccess(userId);
-    if (!isSuperadmin) {
-      return NextResponse.json({ error: 'Forbidden: Superadmin access required' }, { status: 403 });
+    const scope = await resolveUserAdminScope(userId);
+    if (!scope) {
+      return NextResponse.json({ error: FORBIDDEN_MESSAGE }, { status: 403 });
     }
 
     const body = await request.json();
@@ -149,6 +227,10 @@ export async function PATCH(request: Request) {
       return NextResponse.json({ error: 'User profile ID and isActive (boolean) are required' }, { status: 400 });
     }
 
+    if (!(await canManageUser(scope, userProfileId))) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
     // Get user's Clerk ID before updating Supabase
     const { data: userData, error: fetchError } = await supabaseAdmin
       .from('user_profiles')
@@ -186,10 +268,11 @@ export async function PATCH(request: Request) {
       }, { status: 500 });
     }
 
-    // Update user active status in Supabase
+    // Update user active status in Supabase; a manual change means rolling back an
+    // area deactivation no longer touches this user
     const { data, error } = await supabaseAdmin
       .from('user_profiles')
-      .update({ is_active: isActive })
+      .update({ is_active: isActive, deactivated_by_snapshot_id: null })
       .eq('id', userProfileId)
       .select(`
         id,
@@ -199,6 +282,7 @@ export async function PATCH(request: Request) {
         role,
         area_id,
         is_active,
+        last_login_at,
         created_at,
         updated_at,
         master_areas(id, name, erp_id)
@@ -212,6 +296,15 @@ export async function PATCH(request: Request) {
 
     const action = isActive ? 'activated' : 'deactivated';
     const clerkAction = isActive ? 'unlocked' : 'locked';
+
+    await recordActivity({
+      type: 'update',
+      action: isActive ? 'Unlocked user' : 'Locked user',
+      item: data.full_name || data.email || data.clerk_user_id,
+      areaId: data.area_id,
+      actorClerkUserId: userId,
+    });
+
     return NextResponse.json({ 
       data, 
       message: `User ${action} successfully in Supabase and ${clerkAction} in Clerk` 
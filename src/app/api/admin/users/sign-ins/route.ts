@@ -0,0 +1,42 @@
+import { auth } from '@clerk/nextjs/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { canManageUser, resolveUserAdminScope } from '@/lib/user-admin-scope';
+import { listSignInEvents } from '@/lib/sign-in-history';
+
+// GET - Sign-in history of a user, newest first (?userProfileId=)
+export async function GET(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const scope = await resolveUserAdminScope(userId);
+    if (!scope) {
+      return NextResponse.json({ error: 'Forbidden: Missing permission users.manage or users.manage_area' }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const userProfileId = searchParams.get('userProfileId');
+
+    if (!userProfileId) {
+      return NextResponse.json({ error: 'User profile ID is required' }, { status: 400 });
+    }
+
+    if (!(await canManageUser(scope, userProfileId))) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const data = await listSignInEvents(userProfileId);
+
+    return NextResponse.json({ data }, { status: 200 });
+  } catch (error) {
+    console.error('User sign-ins API error:', error);
+    if (error instanceof Error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    } else {
+      return NextResponse.json({ error: 'Unknown error' }, { status: 500 });
+    }
+  }
+}
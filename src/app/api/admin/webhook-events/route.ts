@@ -0,0 +1,85 @@
+import { auth } from '@clerk/nextjs/server';
+import { WebhookEventStatus } from '@/lib/supabase';
+import { NextRequest, NextResponse } from 'next/server';
+import { hasPermission } from '@/lib/authorization';
+import { listWebhookEvents, replayWebhookEvent, WebhookEventError } from '@/lib/clerk-webhooks';
+
+const WEBHOOK_EVENT_STATUSES: WebhookEventStatus[] = ['pending', 'processing', 'processed', 'failed'];
+
+// GET - List logged Clerk webhook events (?status=pending|processing|processed|failed)
+export async function GET(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Check jobs.run permission
+    const allowed = await hasPermission(userId, 'jobs.run');
+    if (!allowed) {
+      return NextResponse.json({ error: 'Forbidden: Missing permission jobs.run' }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status');
+
+    if (status && !WEBHOOK_EVENT_STATUSES.includes(status as WebhookEventStatus)) {
+      return NextResponse.json({ error: `status must be one of: ${WEBHOOK_EVENT_STATUSES.join(', ')}` }, { status: 400 });
+    }
+
+    const data = await listWebhookEvents((status as WebhookEventStatus) || undefined);
+
+    return NextResponse.json({ data }, { status: 200 });
+  } catch (error) {
+    console.error('Webhook events GET API error:', error);
+    if (error instanceof Error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    } else {
+      return NextResponse.json({ error: 'Unknown error' }, { status: 500 });
+    }
+  }
+}
+
+// POST - Replay a pending or failed webhook event
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Check jobs.run permission
+    const allowed = await hasPermission(userId, 'jobs.run');
+    if (!allowed) {
+      return NextResponse.json({ error: 'Forbidden: Missing permission jobs.run' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const { id } = body;
+
+    if (!Number.isInteger(id)) {
+      return NextResponse.json({ error: 'Webhook event ID is required' }, { status: 400 });
+    }
+
+    const data = await replayWebhookEvent(id);
+
+    return NextResponse.json({
+      data,
+      message: data.status === 'processed'
+        ? `Webhook event ${data.event_type} replayed successfully`
+        : `Webhook event ${data.event_type} failed again: ${data.last_error}`,
+    }, { status: 200 });
+  } catch (error) {
+    console.error('Webhook events POST API error:', error);
+    if (error instanceof WebhookEventError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    if (error instanceof Error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    } else {
+      return NextResponse.json({ error: 'Unknown error' }, { status: 500 });
+    }
+  }
+}
@@ -0,0 +1,139 @@
+import { auth } from '@clerk/nextjs/server';
+import { supabaseAdmin } from '@/lib/supabase';
+import { NextResponse } from 'next/server';
+import { AreaScope, canAccessArea, resolveAreaScope } from '@/lib/area-scope';
+import { sortAreasAsTree } from '@/lib/area-hierarchy';
+
+async function getAccessibleAreas(scope: AreaScope) {
+  let query = supabaseAdmin
+    .from('master_areas')
+    .select('id, name, erp_id, parent_id, area_type')
+    .eq('is_active', true);
+
+  if (scope.areaIds) {
+    if (scope.areaIds.length === 0) return [];
+    query = query.in('id', scope.areaIds);
+  }
+
+  const { data, error } = await query.order('name');
+  if (error) {
+    throw new Error(`Failed to load areas: ${error.message}`);
+  }
+  return sortAreasAsTree(data || []);
+}
+
+// GET - Areas the current user can switch between and their current selection
+export async function GET() {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const scope = await resolveAreaScope(userId);
+    if (!scope) {
+      return NextResponse.json({ error: 'User profile not found' }, { status: 404 });
+    }
+
+    const [areas, profileResult] = await Promise.all([
+      getAccessibleAreas(scope),
+      supabaseAdmin
+        .from('user_profiles')
+        .select('selected_area_id')
+        .eq('id', scope.userProfileId)
+        .single(),
+    ]);
+
+    if (profileResult.error) {
+      console.error('Error fetching selected area:', profileResult.error);
+      return NextResponse.json({ error: 'Failed to fetch selected area' }, { status: 500 });
+    }
+
+    // A selection that has since left the user's scope falls back to all areas
+    const storedAreaId = profileResult.data?.selected_area_id ?? null;
+    const selectedAreaId = storedAreaId !== null && areas.some(area => area.id === storedAreaId)
+      ? storedAreaId
+      : null;
+
+    return NextResponse.json({
+      data: {
+        areas,
+        selectedAreaId,
+        primaryAreaId: scope.primaryAreaId,
+        allAreas: scope.allAreas,
+      }
+    }, { status: 200 });
+  } catch (error) {
+    console.error('User areas API error:', error);
+    if (error instanceof Error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    } else {
+      return NextResponse.json({ error: 'Unknown error' }, { status: 500 });
+    }
+  }
+}
+
+// PUT - Persist the area selected in the header (null = all of the user's areas)
+export async function PUT(request: Request) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const scope = await resolveAreaScope(userId);
+    if (!scope) {
+      return NextResponse.json({ error: 'User profile not found' }, { status: 404 });
+    }
+
+    const { selectedAreaId } = await request.json();
+
+    if (selectedAreaId !== null && !Number.isInteger(selectedAreaId)) {
+      return NextResponse.json({ error: 'selectedAreaId must be an area id or null' }, { status: 400 });
+    }
+
+    if (selectedAreaId !== null) {
+      if (!canAccessArea(scope, selectedAreaId)) {
+        return NextResponse.json({ error: 'Forbidden: No access to this area' }, { status: 403 });
+      }
+
+      // Superadmin scopes are unbounded, so make sure the area exists and is active
+      const { data: area, error: areaError } = await supabaseAdmin
+        .from('master_areas')
+        .select('id')
+        .eq('id', selectedAreaId)
+        .eq('is_active', true)
+        .maybeSingle();
+
+      if (areaError) {
+        console.error('Error validating selected area:', areaError);
+        return NextResponse.json({ error: 'Failed to validate area' }, { status: 500 });
+      }
+
+      if (!area) {
+        return NextResponse.json({ error: 'Area not found or inactive' }, { status: 400 });
+      }
+    }
+
+    const { error } = await supabaseAdmin
+      .from('user_profiles')
+      .update({ selected_area_id: selectedAreaId })
+      .eq('id', scope.userProfileId);
+
+    if (error) {
+      console.error('Error saving selected area:', error);
+      return NextResponse.json({ error: 'Failed to save selected area' }, { status: 500 });
+    }
+
+    return NextResponse.json({ data: { selectedAreaId } }, { status: 200 });
+  } catch (error) {
+    console.error('User areas API error:', error);
+    if (error instanceof Error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    } else {
+      return NextResponse.json({ error: 'Unknown error' }, { status: 500 });
+    }
+  }
+}
@@ -0,0 +1,33 @@
+import { auth } from '@clerk/nextjs/server';
+import { NextResponse } from 'next/server';
+import { getUserPermissions } from '@/lib/authorization';
+
+// GET - Role and permissions of the current user
+export async function GET() {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userPermissions = await getUserPermissions(userId);
+    if (!userPermissions) {
+      return NextResponse.json({ error: 'User profile not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      data: {
+        role: userPermissions.role,
+        permissions: userPermissions.permissions,
+      }
+    }, { status: 200 });
+  } catch (error) {
+    console.error('Permissions API error:', error);
+    if (error instanceof Error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    } else {
+      return NextResponse.json({ error: 'Unknown error' }, { status: 500 });
+    }
+  }
+}
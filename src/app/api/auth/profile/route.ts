@@ -20,6 +20,7 @@ export async function GET() {
         full_name,
         role,
         area_id,
+        email_digest_enabled,
         created_at,
         updated_at,
         master_areas(id, name, erp_id)
@@ -52,18 +53,28 @@ export async function PUT(request: Request) {
     }
 
     const body = await request.json();
-    const { fullName } = body;
+    const { fullName, emailDigestEnabled } = body;
 
-    if (!fullName) {
+    if (fullName === undefined && emailDigestEnabled === undefined) {
       return NextResponse.json({ error: 'Full name is required' }, { status: 400 });
     }
 
+    if (fullName !== undefined && !fullName) {
+      return NextResponse.json({ error: 'Full name is required' }, { status: 400 });
+    }
+
+    if (emailDigestEnabled !== undefined && typeof emailDigestEnabled !== 'boolean') {
+      return NextResponse.json({ error: 'emailDigestEnabled must be a boolean' }, { status: 400 });
+    }
+
+    const updates: { full_name?: string; email_digest_enabled?: boolean } = {};
+    if (fullName !== undefined) updates.full_name = fullName;
+    if (emailDigestEnabled !== undefined) updates.email_digest_enabled = emailDigestEnabled;
+
     // Update user profile
     const { data, error } = await supabaseAdmin
       .from('user_profiles')
-      .update({
-        full_name: fullName
-      })
+      .update(updates)
       .eq('clerk_user_id', userId)
       .select(`
         id,
@@ -72,6 +83,7 @@ export async function PUT(request: Request) {
         full_name,
         role,
         area_id,
+        email_digest_enabled,
         created_at,
         updated_at,
         master_areas(id, name, erp_id)
@@ -1,10 +1,31 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
-import { fetchFinishedGoodsFromIDempiere, IDempiereAPIError } from '@/lib/idempiere-api';
+import { hasPermission } from '@/lib/authorization';
+import { recordActivity } from '@/lib/activity';
+import { evaluateLowStockAlerts, StockAlertRunResult } from '@/lib/stock-alerts';
+import {
+  fetchAllPages,
+  fetchFinishedGoodsFromIDempiere,
+  fetchFinishedGoodsPageFromIDempiere,
+  IDempiereAPIError,
+  IDEMPIERE_PAGE_SIZE,
+} from '@/lib/idempiere-api';
+import {
+  fetchFinishedGoodsPageFromSupabase,
+  FINISHED_GOODS_SYNC_ENTITY,
+  getLastSuccessfulSyncRun,
+  persistFinishedGoodsFromIDempiere,
+  SyncInProgressError,
+} from '@/lib/finished-goods-persistence';
 
 /**
  * GET /api/finished-goods/sync
- * Fetch finished goods data from iDempiere API
+ * Fetch finished goods for the browser cache. Once the server-side sync job
+ * has completed, data is read from the Supabase `finished_goods` table;
+ * before that it falls back to iDempiere directly.
+ * With `skip`/`top` query params only that page is returned (client-driven paging),
+ * otherwise every page is fetched server-side
+ * With `updatedSince` (ISO timestamp) only products changed after it are returned
  * Requires authentication
  */
 export async function GET(request: NextRequest) {
@@ -18,12 +39,47 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    // Fetch data from iDempiere
-    const finishedGoodsData = await fetchFinishedGoodsFromIDempiere();
+    const { searchParams } = request.nextUrl;
+    const skipParam = searchParams.get('skip');
+    const topParam = searchParams.get('top');
+    const updatedSince = searchParams.get('updatedSince');
+
+    if (updatedSince !== null && isNaN(new Date(updatedSince).getTime())) {
+      return NextResponse.json(
+        { error: 'updatedSince must be a valid ISO timestamp' },
+        { status: 400 }
+      );
+    }
+
+    const lastRun = await getLastSuccessfulSyncRun(FINISHED_GOODS_SYNC_ENTITY);
+    const fetchPage = lastRun ? fetchFinishedGoodsPageFromSupabase : fetchFinishedGoodsPageFromIDempiere;
+
+    let finishedGoodsData;
+    if (skipParam !== null || topParam !== null) {
+      const skip = parseInt(skipParam || '0', 10);
+      const top = parseInt(topParam || String(IDEMPIERE_PAGE_SIZE), 10);
+
+      if (isNaN(skip) || isNaN(top) || skip < 0 || top < 1) {
+        return NextResponse.json(
+          { error: 'skip must be a non-negative integer and top a positive integer' },
+          { status: 400 }
+        );
+      }
+
+      // Fetch a single page
+      finishedGoodsData = await fetchPage({ skip, top, updatedSince });
+    } else if (lastRun) {
+      // Fetch every persisted page
+      finishedGoodsData = await fetchAllPages(pageOptions => fetchPage({ ...pageOptions, updatedSince }));
+    } else {
+      // Fetch every page from iDempiere
+      finishedGoodsData = await fetchFinishedGoodsFromIDempiere({ updatedSince });
+    }
 
     // Return the data
     return NextResponse.json(finishedGoodsData, {
       headers: {
+        'X-Finished-Goods-Source': lastRun ? 'database' : 'idempiere',
         'Cache-Control': 'no-cache, no-store, must-revalidate',
         'Pragma': 'no-cache',
         'Expires': '0',
@@ -53,33 +109,94 @@ export async function GET(request: NextRequest) {
 
 /**
  * POST /api/finished-goods/sync
- * Manually trigger sync of finished goods data
- * Requires authentication
+ * Run the server-side sync job: fetch finished goods from iDempiere and
+ * persist them into the Supabase `finished_goods` table
+ * Requires the inventory.sync permission, or `Authorization: Bearer <ERP_SYNC_SECRET>`
+ * for schedulers (cron)
  */
 export async function POST(request: NextRequest) {
   try {
-    // Verify authentication
-    const { userId } = await auth();
-    if (!userId) {
-      return NextResponse.json(
-        { error: 'Unauthorized. Please sign in to sync finished goods.' },
-        { status: 401 }
-      );
+    let triggeredBy: string;
+
+    const syncSecret = process.env.ERP_SYNC_SECRET;
+    const authHeader = request.headers.get('authorization');
+
+    if (syncSecret && authHeader === `Bearer ${syncSecret}`) {
+      triggeredBy = 'scheduler';
+    } else {
+      // Verify authentication
+      const { userId } = await auth();
+      if (!userId) {
+        return NextResponse.json(
+          { error: 'Unauthorized. Please sign in to sync finished goods.' },
+          { status: 401 }
+        );
+      }
+
+      const allowed = await hasPermission(userId, 'inventory.sync');
+      if (!allowed) {
+        return NextResponse.json(
+          { error: 'Forbidden. Missing permission inventory.sync.' },
+          { status: 403 }
+        );
+      }
+
+      triggeredBy = userId;
+    }
+
+    let run;
+    try {
+      run = await persistFinishedGoodsFromIDempiere(triggeredBy);
+    } catch (syncError) {
+      if (!(syncError instanceof SyncInProgressError)) {
+        await recordActivity({
+          type: 'alert',
+          action: 'Finished goods sync failed',
+          item: syncError instanceof Error ? syncError.message : 'Unknown error',
+          actorClerkUserId: triggeredBy,
+        });
+      }
+      throw syncError;
     }
 
-    // Fetch fresh data from iDempiere
-    const finishedGoodsData = await fetchFinishedGoodsFromIDempiere();
+    await recordActivity({
+      type: 'sync',
+      action: 'Synced finished goods from iDempiere',
+      item: `${run.records_fetched} products (${run.records_upserted} changed, ${run.records_deactivated} deactivated)`,
+      actorClerkUserId: triggeredBy,
+      metadata: { sync_run_id: run.id },
+    });
+
+    // Raise low-stock alerts for the new balances; a failure here must not fail the sync
+    let alerts: StockAlertRunResult | null = null;
+    try {
+      alerts = await evaluateLowStockAlerts('finished_good');
+    } catch (alertError) {
+      console.error('Error evaluating low stock alerts:', alertError);
+    }
 
-    // Return success response with data
+    // Return success response with the run summary
     return NextResponse.json({
       message: 'Finished goods sync completed successfully',
-      data: finishedGoodsData,
+      run,
+      alerts,
       timestamp: new Date().toISOString(),
     });
 
   } catch (error) {
     console.error('Error in finished goods manual sync:', error);
 
+    if (error instanceof SyncInProgressError) {
+      return NextResponse.json(
+        {
+          error: error.message,
+          run: error.run,
+          timestamp: new Date().toISOString(),
+        },
+        { status: 409 }
+      );
+    }
+
     if (error instanceof IDempiereAPIError) {
       return NextResponse.json(
         { 
@@ -98,4 +215,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
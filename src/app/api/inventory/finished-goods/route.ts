@@ -1,8 +1,15 @@
 import { auth } from '@clerk/nextjs/server';
-import { supabaseAdmin } from '@/lib/supabase';
+import { FinishedGoods } from '@/lib/supabase';
 import { NextResponse } from 'next/server';
+import { narrowAreaScope, parseAreaIdParam, resolveAreaScope, scopeHasPermission } from '@/lib/area-scope';
+import { evaluateStockStatuses } from '@/lib/stock-thresholds';
+import {
+  FINISHED_GOODS_SYNC_ENTITY,
+  getLastSuccessfulSyncRun,
+  loadActiveFinishedGoods,
+} from '@/lib/finished-goods-persistence';
 
-export async function GET() {
+export async function GET(request: Request) {
   try {
     const { userId } = await auth();
     
@@ -10,38 +17,43 @@ export async function GET() {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    // Get user profile to check role and area
-    const { data: userProfile, error: userError } = await supabaseAdmin
-      .from('user_profiles')
-      .select('role, area_id')
-      .eq('clerk_user_id', userId)
-      .single();
-
-    if (userError) {
-      console.error('Error fetching user profile:', userError);
+    // Resolve the active areas the user may see (primary area + mapped areas)
+    const scope = await resolveAreaScope(userId);
+    if (!scope) {
       return NextResponse.json({ error: 'User profile not found' }, { status: 404 });
     }
 
-    let query = supabaseAdmin
-      .from('finished_goods')
-      .select(`
-        *,
-        master_areas!inner(id, name, erp_id)
-      `);
-
-    // Apply area filtering based on user role
-    if (userProfile.role !== 'superadmin' && userProfile.area_id) {
-      query = query.eq('area_id', userProfile.area_id);
+    if (!scopeHasPermission(scope, 'inventory.view')) {
+      return NextResponse.json({ error: 'Forbidden: Missing permission inventory.view' }, { status: 403 });
     }
 
-    const { data, error } = await query.order('name');
+    // Optionally narrow to the area selected in the header
+    const { searchParams } = new URL(request.url);
+    const areaId = parseAreaIdParam(searchParams.get('area_id'));
+    if (areaId === false) {
+      return NextResponse.json({ error: 'area_id must be a positive integer' }, { status: 400 });
+    }
 
-    if (error) {
-      console.error('Error fetching finished goods:', error);
-      return NextResponse.json({ error: 'Failed to fetch finished goods' }, { status: 500 });
+    const areaIds = narrowAreaScope(scope, areaId);
+    if (areaIds === false) {
+      return NextResponse.json({ error: 'Forbidden: No access to this area' }, { status: 403 });
     }
 
-    return NextResponse.json({ data }, { status: 200 });
+    // Apply area filtering based on the user's area scope (products without an area are shared by all areas)
+    const [items, lastSync] = await Promise.all([
+      loadActiveFinishedGoods<FinishedGoods>('*, master_areas(id, name, erp_id)', areaIds),
+      getLastSuccessfulSyncRun(FINISHED_GOODS_SYNC_ENTITY)
+    ]);
+
+    // Evaluate each item against its thresholds in the user's area(s)
+    const statuses = await evaluateStockStatuses('finished_good', items, areaIds);
+    const itemsWithStatus = items.map(item => ({
+      ...item,
+      stock_status: statuses.get(item.id)?.status,
+      area_stock: statuses.get(item.id)?.areas || [],
+    }));
+
+    return NextResponse.json({ data: itemsWithStatus, lastSyncedAt: lastSync?.finished_at || null }, { status: 200 });
   } catch (error) {
     console.error('Finished goods API error:', error);
     if (error instanceof Error) {
@@ -0,0 +1,279 @@
+import { auth } from '@clerk/nextjs/server';
+import { supabaseAdmin, StockMovementType } from '@/lib/supabase';
+import { NextResponse } from 'next/server';
+import { randomUUID } from 'crypto';
+import { recordActivity } from '@/lib/activity';
+import { canAccessArea, narrowAreaScope, parseAreaIdParam, resolveAreaScope, scopeHasPermission } from '@/lib/area-scope';
+import { evaluateLowStockAlerts } from '@/lib/stock-alerts';
+import { isWithinArea } from '@/lib/area-hierarchy';
+import {
+  isStockItemType,
+  NewStockMovement,
+  postStockMovements,
+  STOCK_ITEM_TABLES,
+  StockMovementError,
+  USER_MOVEMENT_TYPES,
+} from '@/lib/stock-ledger';
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+const MOVEMENT_ACTIVITY_LABELS: Partial<Record<StockMovementType, string>> = {
+  receipt: 'Received stock',
+  issue: 'Issued stock',
+  transfer: 'Transferred stock',
+  adjustment: 'Adjusted stock',
+};
+
+/**
+ * GET /api/inventory/movements
+ * Query the stock ledger with the running balance of each item per area
+ * Filters: item_type, item_id, area_id, movement_type, from, to, page, limit
+ */
+export async function GET(request: Request) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const scope = await resolveAreaScope(userId);
+    if (!scope) {
+      return NextResponse.json({ error: 'User profile not found' }, { status: 404 });
+    }
+
+    if (!scopeHasPermission(scope, 'inventory.view')) {
+      return NextResponse.json({ error: 'Forbidden: Missing permission inventory.view' }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const itemType = searchParams.get('item_type');
+    const itemId = searchParams.get('item_id');
+    const areaId = parseAreaIdParam(searchParams.get('area_id'));
+    const movementType = searchParams.get('movement_type');
+    const from = searchParams.get('from');
+    const to = searchParams.get('to');
+    const page = Math.max(parseInt(searchParams.get('page') || '1', 10) || 1, 1);
+    const limit = Math.min(
+      Math.max(parseInt(searchParams.get('limit') || String(DEFAULT_PAGE_SIZE), 10) || DEFAULT_PAGE_SIZE, 1),
+      MAX_PAGE_SIZE
+    );
+
+    if (itemType && !isStockItemType(itemType)) {
+      return NextResponse.json({ error: 'item_type must be raw_material or finished_good' }, { status: 400 });
+    }
+
+    if (itemId !== null && !/^\d+$/.test(itemId)) {
+      return NextResponse.json({ error: 'item_id must be a positive integer' }, { status: 400 });
+    }
+
+    if ((from !== null && isNaN(new Date(from).getTime())) || (to !== null && isNaN(new Date(to).getTime()))) {
+      return NextResponse.json({ error: 'from and to must be valid ISO timestamps' }, { status: 400 });
+    }
+
+    let query = supabaseAdmin
+      .from('stock_movements_with_balance')
+      .select('*', { count: 'exact' });
+
+    if (itemType) query = query.eq('item_type', itemType);
+    if (itemId) query = query.eq('item_id', parseInt(itemId, 10));
+    if (movementType) query = query.eq('movement_type', movementType);
+    if (from) query = query.gte('created_at', from);
+    if (to) query = query.lte('created_at', to);
+
+    if (areaId === false) {
+      return NextResponse.json({ error: 'area_id must be a positive integer' }, { status: 400 });
+    }
+
+    // Apply area filtering based on the user's area scope
+    const areaIds = narrowAreaScope(scope, areaId);
+    if (areaIds === false) {
+      return NextResponse.json({ error: 'Forbidden: No access to this area' }, { status: 403 });
+    }
+    if (areaIds) {
+      query = query.in('area_id', areaIds);
+    }
+
+    const { data, error, count } = await query
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .range((page - 1) * limit, page * limit - 1);
+
+    if (error) {
+      console.error('Error fetching stock movements:', error);
+      return NextResponse.json({ error: 'Failed to fetch stock movements' }, { status: 500 });
+    }
+
+    return NextResponse.json({
+      data,
+      pagination: {
+        page,
+        limit,
+        total: count || 0,
+        totalPages: Math.ceil((count || 0) / limit),
+      },
+    }, { status: 200 });
+  } catch (error) {
+    console.error('Stock movements GET API error:', error);
+    if (error instanceof Error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    } else {
+      return NextResponse.json({ error: 'Unknown error' }, { status: 500 });
+    }
+  }
+}
+
+/**
+ * POST /api/inventory/movements
+ * Post a movement to the ledger. `quantity` is a positive amount for
+ * receipt/issue/transfer (issue and the source leg of a transfer are negated)
+ * and a signed delta for adjustment. Transfers need `to_area_id`.
+ */
+export async function POST(request: Request) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const scope = await resolveAreaScope(userId);
+    if (!scope) {
+      return NextResponse.json({ error: 'User profile not found' }, { status: 404 });
+    }
+
+    if (!scopeHasPermission(scope, 'inventory.adjust')) {
+      return NextResponse.json({ error: 'Forbidden: Missing permission inventory.adjust' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const {
+      item_type,
+      item_id,
+      area_id,
+      to_area_id,
+      quantity,
+      movement_type,
+      reference_document,
+      notes,
+    } = body;
+
+    if (!isStockItemType(item_type)) {
+      return NextResponse.json({ error: 'item_type must be raw_material or finished_good' }, { status: 400 });
+    }
+
+    if (!USER_MOVEMENT_TYPES.includes(movement_type)) {
+      return NextResponse.json(
+        { error: `movement_type must be one of: ${USER_MOVEMENT_TYPES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (!Number.isInteger(item_id) || !Number.isInteger(area_id)) {
+      return NextResponse.json({ error: 'item_id and area_id are required integers' }, { status: 400 });
+    }
+
+    if (!Number.isInteger(quantity) || quantity === 0) {
+      return NextResponse.json({ error: 'quantity must be a non-zero integer' }, { status: 400 });
+    }
+
+    if (movement_type !== 'adjustment' && quantity < 0) {
+      return NextResponse.json({ error: 'quantity must be positive for receipts, issues and transfers' }, { status: 400 });
+    }
+
+    if (movement_type === 'transfer' && (!Number.isInteger(to_area_id) || to_area_id === area_id)) {
+      return NextResponse.json({ error: 'Transfers need a to_area_id different from area_id' }, { status: 400 });
+    }
+
+    // Stock can only be moved out of, into and within areas in the user's scope
+    if (!canAccessArea(scope, area_id)) {
+      return NextResponse.json({ error: 'Forbidden: No access to this area' }, { status: 403 });
+    }
+    if (movement_type === 'transfer' && !canAccessArea(scope, to_area_id)) {
+      return NextResponse.json({ error: 'Forbidden: No access to the destination area' }, { status: 403 });
+    }
+
+    const areaIds = movement_type === 'transfer' ? [area_id, to_area_id] : [area_id];
+    const [itemResult, areasResult] = await Promise.all([
+      supabaseAdmin.from(STOCK_ITEM_TABLES[item_type]).select('id, name, unit, area_id').eq('id', item_id).maybeSingle(),
+      supabaseAdmin.from('master_areas').select('id, parent_id, is_active'),
+    ]);
+
+    if (itemResult.error || areasResult.error) {
+      console.error('Error validating stock movement:', itemResult.error || areasResult.error);
+      return NextResponse.json({ error: 'Failed to validate stock movement' }, { status: 500 });
+    }
+
+    if (!itemResult.data) {
+      return NextResponse.json({ error: 'Item not found' }, { status: 404 });
+    }
+
+    const areas = areasResult.data || [];
+    const activeAreaIds = new Set(areas.filter(area => area.is_active).map(area => area.id));
+    if (!areaIds.every(id => activeAreaIds.has(id))) {
+      return NextResponse.json({ error: 'Area not found or inactive' }, { status: 404 });
+    }
+
+    // Items without an area are shared by all areas; others are stocked in their
+    // own area and its sub-areas (e.g. the warehouses of a sales area)
+    const itemAreaId = itemResult.data.area_id;
+    if (itemAreaId != null && !areaIds.every(id => isWithinArea(areas, id, itemAreaId))) {
+      return NextResponse.json({ error: 'Item does not belong to this area' }, { status: 400 });
+    }
+
+    const base = {
+      item_type,
+      item_id,
+      movement_type: movement_type as StockMovementType,
+      reference_document: reference_document || undefined,
+      notes: notes || undefined,
+      created_by: userId,
+    };
+
+    let movements: NewStockMovement[];
+    if (movement_type === 'transfer') {
+      const transferId = randomUUID();
+      movements = [
+        { ...base, area_id, quantity_delta: -quantity, transfer_id: transferId },
+        { ...base, area_id: to_area_id, quantity_delta: quantity, transfer_id: transferId },
+      ];
+    } else {
+      movements = [{
+        ...base,
+        area_id,
+        quantity_delta: movement_type === 'issue' ? -quantity : quantity,
+      }];
+    }
+
+    // Outgoing movements are checked against the balance in the same transaction
+    const data = await postStockMovements(movements);
+
+    await recordActivity({
+      type: 'update',
+      action: MOVEMENT_ACTIVITY_LABELS[movement_type as StockMovementType] || 'Posted stock movement',
+      item: `${itemResult.data.name} (${quantity} ${itemResult.data.unit})`,
+      areaId: area_id,
+      actorClerkUserId: userId,
+      metadata: { movement_ids: data.map(movement => movement.id), reference_document },
+    });
+
+    try {
+      await evaluateLowStockAlerts(item_type, [item_id]);
+    } catch (alertError) {
+      console.error('Error evaluating low stock alerts:', alertError);
+    }
+
+    return NextResponse.json({ data }, { status: 201 });
+  } catch (error) {
+    console.error('Stock movements POST API error:', error);
+    if (error instanceof StockMovementError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    if (error instanceof Error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    } else {
+      return NextResponse.json({ error: 'Unknown error' }, { status: 500 });
+    }
+  }
+}
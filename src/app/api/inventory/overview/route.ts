@@ -1,8 +1,77 @@
 import { auth } from '@clerk/nextjs/server';
 import { supabaseAdmin } from '@/lib/supabase';
 import { NextResponse } from 'next/server';
+import { narrowAreaScope, parseAreaIdParam, resolveAreaScope, scopeHasPermission } from '@/lib/area-scope';
+import { collectDescendantIds, getChildrenByParent, sortAreasAsTree } from '@/lib/area-hierarchy';
+import { evaluateStockStatuses, ItemStockStatus } from '@/lib/stock-thresholds';
+import { isLowStockStatus } from '@/lib/stock-status';
+import { loadActiveFinishedGoods } from '@/lib/finished-goods-persistence';
 
-export async function GET() {
+interface AreaTotals {
+  rawMaterials: number;
+  rawStock: number;
+  finishedGoods: number;
+  finishedStock: number;
+  lowStockItems: number;
+}
+
+interface AreaOverview extends AreaTotals {
+  areaId: number;
+  areaName: string;
+  areaType: string;
+  parentId: number | null;
+  depth: number;
+}
+
+const emptyTotals = (): AreaTotals => ({
+  rawMaterials: 0,
+  rawStock: 0,
+  finishedGoods: 0,
+  finishedStock: 0,
+  lowStockItems: 0,
+});
+
+/**
+ * Add evaluated item statuses to the per-area `summaries`. An item counts
+ * towards an area when it has stock or a threshold there; items without ledger
+ * data fall back to their own `area_id` and `current_stock`.
+ */
+function summarizeByArea(
+  items: { id: number; current_stock: number; area_id: number | null }[],
+  statuses: Map<number, ItemStockStatus>,
+  kind: 'raw' | 'finished',
+  summaries: Map<number, AreaTotals>
+) {
+  const add = (areaId: number, stock: number, isLow: boolean) => {
+    // Ledger data may reference areas outside the listed (active) ones
+    const summary = summaries.get(areaId);
+    if (!summary) return;
+
+    if (kind === 'raw') {
+      summary.rawMaterials += 1;
+      summary.rawStock += stock;
+    } else {
+      summary.finishedGoods += 1;
+      summary.finishedStock += stock;
+    }
+    if (isLow) summary.lowStockItems += 1;
+  };
+
+  for (const item of items) {
+    const itemStatus = statuses.get(item.id);
+    const tracked = (itemStatus?.areas || []).filter(area => area.balance !== 0 || area.threshold);
+
+    if (tracked.length > 0) {
+      for (const area of tracked) {
+        add(area.area_id, area.balance, isLowStockStatus(area.status));
+      }
+    } else if (item.area_id !== null) {
+      add(item.area_id, item.current_stock || 0, itemStatus ? isLowStockStatus(itemStatus.status) : false);
+    }
+  }
+}
+
+export async function GET(request: Request) {
   try {
     const { userId } = await auth();
     
@@ -10,36 +79,49 @@ export async function GET() {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    // Get user profile to check role and area
-    const { data: userProfile, error: userError } = await supabaseAdmin
-      .from('user_profiles')
-      .select('role, area_id')
-      .eq('clerk_user_id', userId)
-      .single();
-
-    if (userError) {
-      console.error('Error fetching user profile:', userError);
+    // Resolve the active areas the user may see (primary area + mapped areas)
+    const scope = await resolveAreaScope(userId);
+    if (!scope) {
       return NextResponse.json({ error: 'User profile not found' }, { status: 404 });
     }
 
+    if (!scopeHasPermission(scope, 'inventory.view')) {
+      return NextResponse.json({ error: 'Forbidden: Missing permission inventory.view' }, { status: 403 });
+    }
+
+    // Optionally narrow to the area selected in the header
+    const { searchParams } = new URL(request.url);
+    const areaId = parseAreaIdParam(searchParams.get('area_id'));
+    if (areaId === false) {
+      return NextResponse.json({ error: 'area_id must be a positive integer' }, { status: 400 });
+    }
+
+    const areaIds = narrowAreaScope(scope, areaId);
+    if (areaIds === false) {
+      return NextResponse.json({ error: 'Forbidden: No access to this area' }, { status: 403 });
+    }
+
     // Fetch overview data based on user role
     let rawMaterialsQuery = supabaseAdmin
       .from('raw_materials')
       .select('id, current_stock, area_id');
     
-    let finishedGoodsQuery = supabaseAdmin
-      .from('finished_goods')
-      .select('id, current_stock, area_id');
+    let areasQuery = supabaseAdmin
+      .from('master_areas')
+      .select('id, name, parent_id, area_type')
+      .eq('is_active', true)
+      .order('name');
 
-    // Apply area filtering for non-superadmin users
-    if (userProfile.role !== 'superadmin' && userProfile.area_id) {
-      rawMaterialsQuery = rawMaterialsQuery.eq('area_id', userProfile.area_id);
-      finishedGoodsQuery = finishedGoodsQuery.eq('area_id', userProfile.area_id);
+    // Apply area filtering based on the user's area scope
+    if (areaIds) {
+      rawMaterialsQuery = rawMaterialsQuery.in('area_id', areaIds);
+      areasQuery = areasQuery.in('id', areaIds);
     }
 
-    const [rawMaterialsResult, finishedGoodsResult] = await Promise.all([
+    const [rawMaterialsResult, finishedGoods, areasResult] = await Promise.all([
       rawMaterialsQuery,
-      finishedGoodsQuery
+      loadActiveFinishedGoods<{ id: number; current_stock: number; area_id: number | null }>('id, current_stock, area_id', areaIds),
+      areasQuery
     ]);
 
     if (rawMaterialsResult.error) {
@@ -47,23 +129,56 @@ export async function GET() {
       return NextResponse.json({ error: 'Failed to fetch raw materials data' }, { status: 500 });
     }
 
-    if (finishedGoodsResult.error) {
-      console.error('Error fetching finished goods overview:', finishedGoodsResult.error);
-      return NextResponse.json({ error: 'Failed to fetch finished goods data' }, { status: 500 });
+    if (areasResult.error) {
+      console.error('Error fetching areas overview:', areasResult.error);
+      return NextResponse.json({ error: 'Failed to fetch areas' }, { status: 500 });
     }
 
     // Calculate overview statistics
     const rawMaterials = rawMaterialsResult.data || [];
-    const finishedGoods = finishedGoodsResult.data || [];
 
     const totalRawMaterials = rawMaterials.length;
     const totalFinishedGoods = finishedGoods.length;
     const totalRawStock = rawMaterials.reduce((sum, item) => sum + (item.current_stock || 0), 0);
     const totalFinishedStock = finishedGoods.reduce((sum, item) => sum + (item.current_stock || 0), 0);
 
-    // Calculate low stock items (less than 50 units)
-    const lowStockRaw = rawMaterials.filter(item => (item.current_stock || 0) < 50).length;
-    const lowStockFinished = finishedGoods.filter(item => (item.current_stock || 0) < 50).length;
+    // Count items at or below their reorder point in the user's area(s)
+    const [rawStatuses, finishedStatuses] = await Promise.all([
+      evaluateStockStatuses('raw_material', rawMaterials, areaIds),
+      evaluateStockStatuses('finished_good', finishedGoods, areaIds),
+    ]);
+
+    const lowStockRaw = Array.from(rawStatuses.values()).filter(item => isLowStockStatus(item.status)).length;
+    const lowStockFinished = Array.from(finishedStatuses.values()).filter(item => isLowStockStatus(item.status)).length;
+
+    // Totals split by area; each area rolls up the areas below it so a
+    // region shows the aggregate of its sales areas and warehouses
+    const areaRows = areasResult.data || [];
+    const areaTotals = new Map<number, AreaTotals>(areaRows.map(area => [area.id, emptyTotals()]));
+    summarizeByArea(rawMaterials, rawStatuses, 'raw', areaTotals);
+    summarizeByArea(finishedGoods, finishedStatuses, 'finished', areaTotals);
+
+    const childAreaIds = getChildrenByParent(areaRows);
+    const areas: AreaOverview[] = sortAreasAsTree(areaRows).map(area => {
+      const rolledUp = emptyTotals();
+      for (const subAreaId of collectDescendantIds(childAreaIds, [area.id])) {
+        const totals = areaTotals.get(subAreaId)!;
+        rolledUp.rawMaterials += totals.rawMaterials;
+        rolledUp.rawStock += totals.rawStock;
+        rolledUp.finishedGoods += totals.finishedGoods;
+        rolledUp.finishedStock += totals.finishedStock;
+        rolledUp.lowStockItems += totals.lowStockItems;
+      }
+
+      return {
+        ...rolledUp,
+        areaId: area.id,
+        areaName: area.name,
+        areaType: area.area_type,
+        parentId: area.parent_id,
+        depth: area.depth,
+      };
+    });
 
     const overview = {
       totalRawMaterials,
@@ -71,8 +186,14 @@ export async function GET() {
       totalRawStock,
       totalFinishedStock,
       lowStockItems: lowStockRaw + lowStockFinished,
-      userRole: userProfile.role,
-      userAreaId: userProfile.area_id
+      lowStockRawMaterials: lowStockRaw,
+      lowStockFinishedGoods: lowStockFinished,
+      userRole: scope.role,
+      allAreas: scope.allAreas,
+      userAreaId: scope.primaryAreaId,
+      userAreaIds: scope.areaIds,
+      selectedAreaId: areaId,
+      areas
     };
 
     return NextResponse.json({ data: overview }, { status: 200 });
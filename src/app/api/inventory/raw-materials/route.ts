@@ -1,8 +1,10 @@
 import { auth } from '@clerk/nextjs/server';
 import { supabaseAdmin } from '@/lib/supabase';
 import { NextResponse } from 'next/server';
+import { narrowAreaScope, parseAreaIdParam, resolveAreaScope, scopeHasPermission } from '@/lib/area-scope';
+import { evaluateStockStatuses } from '@/lib/stock-thresholds';
 
-export async function GET() {
+export async function GET(request: Request) {
   try {
     const { userId } = await auth();
     
@@ -10,18 +12,28 @@ export async function GET() {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    // Get user profile to check role and area
-    const { data: userProfile, error: userError } = await supabaseAdmin
-      .from('user_profiles')
-      .select('role, area_id')
-      .eq('clerk_user_id', userId)
-      .single();
-
-    if (userError) {
-      console.error('Error fetching user profile:', userError);
+    // Resolve the active areas the user may see (primary area + mapped areas)
+    const scope = await resolveAreaScope(userId);
+    if (!scope) {
       return NextResponse.json({ error: 'User profile not found' }, { status: 404 });
     }
 
+    if (!scopeHasPermission(scope, 'inventory.view')) {
+      return NextResponse.json({ error: 'Forbidden: Missing permission inventory.view' }, { status: 403 });
+    }
+
+    // Optionally narrow to the area selected in the header
+    const { searchParams } = new URL(request.url);
+    const areaId = parseAreaIdParam(searchParams.get('area_id'));
+    if (areaId === false) {
+      return NextResponse.json({ error: 'area_id must be a positive integer' }, { status: 400 });
+    }
+
+    const areaIds = narrowAreaScope(scope, areaId);
+    if (areaIds === false) {
+      return NextResponse.json({ error: 'Forbidden: No access to this area' }, { status: 403 });
+    }
+
     let query = supabaseAdmin
       .from('raw_materials')
       .select(`
@@ -29,9 +41,9 @@ export async function GET() {
         master_areas!inner(id, name, erp_id)
       `);
 
-    // Apply area filtering based on user role
-    if (userProfile.role !== 'superadmin' && userProfile.area_id) {
-      query = query.eq('area_id', userProfile.area_id);
+    // Apply area filtering based on the user's area scope
+    if (areaIds) {
+      query = query.in('area_id', areaIds);
     }
 
     const { data, error } = await query.order('name');
@@ -41,7 +53,16 @@ export async function GET() {
       return NextResponse.json({ error: 'Failed to fetch raw materials' }, { status: 500 });
     }
 
-    return NextResponse.json({ data }, { status: 200 });
+    // Evaluate each item against its thresholds in the user's area(s)
+    const items = data || [];
+    const statuses = await evaluateStockStatuses('raw_material', items, areaIds);
+    const itemsWithStatus = items.map(item => ({
+      ...item,
+      stock_status: statuses.get(item.id)?.status,
+      area_stock: statuses.get(item.id)?.areas || [],
+    }));
+
+    return NextResponse.json({ data: itemsWithStatus }, { status: 200 });
   } catch (error) {
     console.error('Raw materials API error:', error);
     if (error instanceof Error) {
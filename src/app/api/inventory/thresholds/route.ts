@@ -0,0 +1,266 @@
+import { auth } from '@clerk/nextjs/server';
+import { supabaseAdmin } from '@/lib/supabase';
+import { NextResponse } from 'next/server';
+import { recordActivity } from '@/lib/activity';
+import { narrowAreaScope, parseAreaIdParam, resolveAreaScope, scopeHasPermission } from '@/lib/area-scope';
+import { isStockItemType, STOCK_ITEM_TABLES } from '@/lib/stock-ledger';
+import { canEditStockThresholds } from '@/lib/stock-thresholds';
+import { evaluateLowStockAlerts } from '@/lib/stock-alerts';
+import { validateThresholdLevels } from '@/lib/stock-status';
+import { isWithinArea } from '@/lib/area-hierarchy';
+
+/**
+ * GET /api/inventory/thresholds
+ * Thresholds in the caller's area(s), plus the areas they can see and edit
+ * Filters: item_type, item_id, area_id
+ */
+export async function GET(request: Request) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const scope = await resolveAreaScope(userId);
+    if (!scope) {
+      return NextResponse.json({ error: 'User profile not found' }, { status: 404 });
+    }
+
+    if (!scopeHasPermission(scope, 'inventory.view')) {
+      return NextResponse.json({ error: 'Forbidden: Missing permission inventory.view' }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const itemType = searchParams.get('item_type');
+    const itemId = searchParams.get('item_id');
+    const areaId = parseAreaIdParam(searchParams.get('area_id'));
+
+    if (itemType && !isStockItemType(itemType)) {
+      return NextResponse.json({ error: 'item_type must be raw_material or finished_good' }, { status: 400 });
+    }
+
+    let thresholdsQuery = supabaseAdmin.from('stock_thresholds').select('*');
+    let areasQuery = supabaseAdmin.from('master_areas').select('id, name').eq('is_active', true);
+
+    if (itemType) thresholdsQuery = thresholdsQuery.eq('item_type', itemType);
+    if (itemId) thresholdsQuery = thresholdsQuery.eq('item_id', parseInt(itemId, 10));
+
+    if (areaId === false) {
+      return NextResponse.json({ error: 'area_id must be a positive integer' }, { status: 400 });
+    }
+
+    // Apply area filtering based on the user's area scope
+    const areaIds = narrowAreaScope(scope, areaId);
+    if (areaIds === false) {
+      return NextResponse.json({ error: 'Forbidden: No access to this area' }, { status: 403 });
+    }
+    if (areaIds) {
+      thresholdsQuery = thresholdsQuery.in('area_id', areaIds);
+      areasQuery = areasQuery.in('id', areaIds);
+    }
+
+    const [thresholdsResult, areasResult] = await Promise.all([
+      thresholdsQuery.order('item_id').order('area_id'),
+      areasQuery.order('name'),
+    ]);
+
+    if (thresholdsResult.error || areasResult.error) {
+      console.error('Error fetching stock thresholds:', thresholdsResult.error || areasResult.error);
+      return NextResponse.json({ error: 'Failed to fetch stock thresholds' }, { status: 500 });
+    }
+
+    const areas = (areasResult.data || []).map(area => ({
+      ...area,
+      can_edit: canEditStockThresholds(scope, area.id),
+    }));
+
+    return NextResponse.json({ data: thresholdsResult.data, areas }, { status: 200 });
+  } catch (error) {
+    console.error('Stock thresholds GET API error:', error);
+    if (error instanceof Error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    } else {
+      return NextResponse.json({ error: 'Unknown error' }, { status: 500 });
+    }
+  }
+}
+
+/**
+ * PUT /api/inventory/thresholds
+ * Create or replace the thresholds of one item in one area
+ * (superadmins, or area sales managers in their own area)
+ */
+export async function PUT(request: Request) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const scope = await resolveAreaScope(userId);
+    if (!scope) {
+      return NextResponse.json({ error: 'User profile not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const { item_type, item_id, area_id, min_stock, reorder_point } = body;
+    const max_stock = body.max_stock ?? null;
+
+    if (!isStockItemType(item_type)) {
+      return NextResponse.json({ error: 'item_type must be raw_material or finished_good' }, { status: 400 });
+    }
+
+    if (!Number.isInteger(item_id) || !Number.isInteger(area_id)) {
+      return NextResponse.json({ error: 'item_id and area_id are required integers' }, { status: 400 });
+    }
+
+    const validationError = validateThresholdLevels({ min_stock, reorder_point, max_stock });
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    if (!canEditStockThresholds(scope, area_id)) {
+      return NextResponse.json(
+        { error: 'Forbidden: Missing permission thresholds.manage for this area' },
+        { status: 403 }
+      );
+    }
+
+    const [itemResult, areasResult] = await Promise.all([
+      supabaseAdmin.from(STOCK_ITEM_TABLES[item_type]).select('id, name, area_id').eq('id', item_id).maybeSingle(),
+      supabaseAdmin.from('master_areas').select('id, parent_id, is_active'),
+    ]);
+
+    if (itemResult.error || areasResult.error) {
+      console.error('Error validating stock threshold:', itemResult.error || areasResult.error);
+      return NextResponse.json({ error: 'Failed to validate stock threshold' }, { status: 500 });
+    }
+
+    if (!itemResult.data) {
+      return NextResponse.json({ error: 'Item not found' }, { status: 404 });
+    }
+
+    const areas = areasResult.data || [];
+    if (!areas.some(area => area.id === area_id && area.is_active)) {
+      return NextResponse.json({ error: 'Area not found or inactive' }, { status: 404 });
+    }
+
+    // Shared items (no area) can have thresholds anywhere; others only in their area and its sub-areas
+    const itemAreaId = itemResult.data.area_id;
+    if (itemAreaId != null && !isWithinArea(areas, area_id, itemAreaId)) {
+      return NextResponse.json({ error: 'Item does not belong to this area' }, { status: 400 });
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('stock_thresholds')
+      .upsert(
+        { item_type, item_id, area_id, min_stock, reorder_point, max_stock, updated_by: userId },
+        { onConflict: 'item_type,item_id,area_id' }
+      )
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error saving stock threshold:', error);
+      return NextResponse.json({ error: 'Failed to save stock threshold' }, { status: 500 });
+    }
+
+    await recordActivity({
+      type: 'reorder',
+      action: 'Set reorder point',
+      item: `${itemResult.data.name} (min ${min_stock}, reorder at ${reorder_point}${max_stock != null ? `, max ${max_stock}` : ''})`,
+      areaId: area_id,
+      actorClerkUserId: userId,
+    });
+
+    try {
+      await evaluateLowStockAlerts(item_type, [item_id]);
+    } catch (alertError) {
+      console.error('Error evaluating low stock alerts:', alertError);
+    }
+
+    return NextResponse.json({ data, message: 'Stock threshold saved successfully' }, { status: 200 });
+  } catch (error) {
+    console.error('Stock thresholds PUT API error:', error);
+    if (error instanceof Error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    } else {
+      return NextResponse.json({ error: 'Unknown error' }, { status: 500 });
+    }
+  }
+}
+
+/**
+ * DELETE /api/inventory/thresholds?id=
+ * Remove a threshold; the item falls back to "No Threshold" in that area
+ */
+export async function DELETE(request: Request) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const scope = await resolveAreaScope(userId);
+    if (!scope) {
+      return NextResponse.json({ error: 'User profile not found' }, { status: 404 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const id = parseInt(searchParams.get('id') || '', 10);
+
+    if (!Number.isInteger(id)) {
+      return NextResponse.json({ error: 'Threshold ID is required' }, { status: 400 });
+    }
+
+    const { data: threshold, error: fetchError } = await supabaseAdmin
+      .from('stock_thresholds')
+      .select('id, item_type, item_id, area_id')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (fetchError) {
+      console.error('Error fetching stock threshold:', fetchError);
+      return NextResponse.json({ error: 'Failed to fetch stock threshold' }, { status: 500 });
+    }
+
+    if (!threshold) {
+      return NextResponse.json({ error: 'Stock threshold not found' }, { status: 404 });
+    }
+
+    if (!canEditStockThresholds(scope, threshold.area_id)) {
+      return NextResponse.json(
+        { error: 'Forbidden: Missing permission thresholds.manage for this area' },
+        { status: 403 }
+      );
+    }
+
+    const { error } = await supabaseAdmin
+      .from('stock_thresholds')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error deleting stock threshold:', error);
+      return NextResponse.json({ error: 'Failed to delete stock threshold' }, { status: 500 });
+    }
+
+    try {
+      await evaluateLowStockAlerts(threshold.item_type, [threshold.item_id]);
+    } catch (alertError) {
+      console.error('Error evaluating low stock alerts:', alertError);
+    }
+
+    return NextResponse.json({ message: 'Stock threshold deleted successfully' }, { status: 200 });
+  } catch (error) {
+    console.error('Stock thresholds DELETE API error:', error);
+    if (error instanceof Error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    } else {
+      return NextResponse.json({ error: 'Unknown error' }, { status: 500 });
+    }
+  }
+}
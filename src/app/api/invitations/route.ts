@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { recordActivity } from '@/lib/activity';
+import { acceptInvitation, findOpenInvitation, InvitationError } from '@/lib/user-invitations';
+
+const MIN_PASSWORD_LENGTH = 8;
+
+// GET - Public: details of an open invitation (?token=)
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const token = searchParams.get('token');
+
+    if (!token) {
+      return NextResponse.json({ error: 'Token is required' }, { status: 400 });
+    }
+
+    const invitation = await findOpenInvitation(token);
+    if (!invitation) {
+      return NextResponse.json({ error: 'This invitation is invalid, has expired or was already used' }, { status: 410 });
+    }
+
+    return NextResponse.json({
+      data: {
+        username: invitation.username,
+        email: invitation.email,
+        fullName: invitation.full_name,
+        expiresAt: invitation.expires_at,
+      }
+    }, { status: 200 });
+  } catch (error) {
+    console.error('Invitation GET API error:', error);
+    if (error instanceof Error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    } else {
+      return NextResponse.json({ error: 'Unknown error' }, { status: 500 });
+    }
+  }
+}
+
+// POST - Public: accept an invitation by choosing a password
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { token, password } = body as { token?: string; password?: string };
+
+    if (!token || !password) {
+      return NextResponse.json({ error: 'Token and password are required' }, { status: 400 });
+    }
+
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      return NextResponse.json({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` }, { status: 400 });
+    }
+
+    const { invitation } = await acceptInvitation(token, password);
+
+    await recordActivity({
+      type: 'update',
+      action: 'Accepted invitation',
+      item: invitation.full_name || invitation.email || invitation.username,
+      areaId: invitation.area_id,
+      actorClerkUserId: invitation.clerk_user_id,
+      metadata: { invitationId: invitation.id },
+    });
+
+    return NextResponse.json({
+      data: { username: invitation.username },
+      message: 'Account created. You can now sign in.'
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Invitation POST API error:', error);
+    if (error instanceof InvitationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    if (error instanceof Error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    } else {
+      return NextResponse.json({ error: 'Unknown error' }, { status: 500 });
+    }
+  }
+}
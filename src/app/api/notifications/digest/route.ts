@@ -0,0 +1,40 @@
+import { auth } from '@clerk/nextjs/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { hasPermission } from '@/lib/authorization';
+import { sendDailyDigests } from '@/lib/email-digest';
+
+/**
+ * POST /api/notifications/digest
+ * Send the daily email digest to opted-in users
+ * Requires the jobs.run permission, or `Authorization: Bearer <DIGEST_CRON_SECRET>`
+ * for schedulers (cron)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const cronSecret = process.env.DIGEST_CRON_SECRET;
+    const authHeader = request.headers.get('authorization');
+
+    if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+      const { userId } = await auth();
+      if (!userId) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+      }
+
+      const allowed = await hasPermission(userId, 'jobs.run');
+      if (!allowed) {
+        return NextResponse.json({ error: 'Forbidden: Missing permission jobs.run' }, { status: 403 });
+      }
+    }
+
+    const result = await sendDailyDigests();
+
+    return NextResponse.json({ data: result, message: 'Daily digest run completed' }, { status: 200 });
+  } catch (error) {
+    console.error('Daily digest API error:', error);
+    if (error instanceof Error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    } else {
+      return NextResponse.json({ error: 'Unknown error' }, { status: 500 });
+    }
+  }
+}
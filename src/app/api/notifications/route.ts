@@ -0,0 +1,128 @@
+import { auth } from '@clerk/nextjs/server';
+import { supabaseAdmin } from '@/lib/supabase';
+import { NextResponse } from 'next/server';
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+// Helper function to resolve the caller's profile id
+async function getUserProfileId(userId: string) {
+  const { data: userProfile, error } = await supabaseAdmin
+    .from('user_profiles')
+    .select('id')
+    .eq('clerk_user_id', userId)
+    .single();
+
+  if (error) {
+    console.error('Error fetching user profile:', error);
+    return null;
+  }
+  return userProfile.id as string;
+}
+
+/**
+ * GET /api/notifications
+ * The caller's notifications, newest first, with their unread count
+ * Filters: unread=true, limit
+ */
+export async function GET(request: Request) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userProfileId = await getUserProfileId(userId);
+    if (!userProfileId) {
+      return NextResponse.json({ error: 'User profile not found' }, { status: 404 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const unreadOnly = searchParams.get('unread') === 'true';
+    const limit = Math.min(
+      Math.max(parseInt(searchParams.get('limit') || String(DEFAULT_PAGE_SIZE), 10) || DEFAULT_PAGE_SIZE, 1),
+      MAX_PAGE_SIZE
+    );
+
+    let query = supabaseAdmin
+      .from('notifications')
+      .select('*')
+      .eq('user_profile_id', userProfileId);
+
+    if (unreadOnly) query = query.is('read_at', null);
+
+    const [listResult, unreadResult] = await Promise.all([
+      query.order('created_at', { ascending: false }).limit(limit),
+      supabaseAdmin
+        .from('notifications')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_profile_id', userProfileId)
+        .is('read_at', null),
+    ]);
+
+    if (listResult.error || unreadResult.error) {
+      console.error('Error fetching notifications:', listResult.error || unreadResult.error);
+      return NextResponse.json({ error: 'Failed to fetch notifications' }, { status: 500 });
+    }
+
+    return NextResponse.json({ data: listResult.data, unreadCount: unreadResult.count || 0 }, { status: 200 });
+  } catch (error) {
+    console.error('Notifications GET API error:', error);
+    if (error instanceof Error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    } else {
+      return NextResponse.json({ error: 'Unknown error' }, { status: 500 });
+    }
+  }
+}
+
+/**
+ * PATCH /api/notifications
+ * Mark notifications as read: `{ ids: number[] }` or `{ all: true }`
+ */
+export async function PATCH(request: Request) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userProfileId = await getUserProfileId(userId);
+    if (!userProfileId) {
+      return NextResponse.json({ error: 'User profile not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const { ids, all } = body;
+
+    if (all !== true && (!Array.isArray(ids) || ids.length === 0 || !ids.every(Number.isInteger))) {
+      return NextResponse.json({ error: 'Provide ids (integer array) or all: true' }, { status: 400 });
+    }
+
+    let query = supabaseAdmin
+      .from('notifications')
+      .update({ read_at: new Date().toISOString() })
+      .eq('user_profile_id', userProfileId)
+      .is('read_at', null);
+
+    if (all !== true) query = query.in('id', ids);
+
+    const { data, error } = await query.select('id');
+
+    if (error) {
+      console.error('Error marking notifications as read:', error);
+      return NextResponse.json({ error: 'Failed to update notifications' }, { status: 500 });
+    }
+
+    return NextResponse.json({ updated: (data || []).length }, { status: 200 });
+  } catch (error) {
+    console.error('Notifications PATCH API error:', error);
+    if (error instanceof Error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    } else {
+      return NextResponse.json({ error: 'Unknown error' }, { status: 500 });
+    }
+  }
+}
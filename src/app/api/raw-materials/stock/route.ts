@@ -0,0 +1,74 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { resolveAreaScope, scopeHasPermission } from '@/lib/area-scope';
+import { IDempiereAPIError } from '@/lib/idempiere-api';
+import { loadAreaStockLevels } from '@/lib/area-stock';
+
+/**
+ * GET /api/raw-materials/stock
+ * Fetch per-warehouse raw material quantities from iDempiere and join them to
+ * master_areas through the warehouse (M_Warehouse_ID = erp_warehouse_id) or its
+ * organization (AD_Org_ID = erp_id). Stock in deactivated areas is left out.
+ * Requires authentication
+ */
+export async function GET() {
+  try {
+    // Verify authentication
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized. Please sign in to access raw materials stock.' },
+        { status: 401 }
+      );
+    }
+
+    // Resolve the active areas the user may see (primary area + mapped areas)
+    const scope = await resolveAreaScope(userId);
+    if (!scope) {
+      return NextResponse.json({ error: 'User profile not found' }, { status: 404 });
+    }
+
+    if (!scopeHasPermission(scope, 'inventory.view')) {
+      return NextResponse.json({ error: 'Forbidden: Missing permission inventory.view' }, { status: 403 });
+    }
+
+    const { levels: stockLevels, unmatchedRecords, inactiveAreaRecords } = await loadAreaStockLevels('raw_material', scope);
+
+    if (unmatchedRecords > 0) {
+      console.warn(`Skipped ${unmatchedRecords} raw material stock records with no matching master area`);
+    }
+    if (inactiveAreaRecords > 0) {
+      console.warn(`Skipped ${inactiveAreaRecords} raw material stock records in deactivated areas`);
+    }
+
+    return NextResponse.json({
+      data: stockLevels,
+      unmatchedRecords,
+      timestamp: new Date().toISOString(),
+    }, {
+      headers: {
+        'Cache-Control': 'no-cache, no-store, must-revalidate',
+        'Pragma': 'no-cache',
+        'Expires': '0',
+      },
+    });
+
+  } catch (error) {
+    console.error('Error in raw materials stock API:', error);
+
+    if (error instanceof IDempiereAPIError) {
+      return NextResponse.json(
+        {
+          error: error.message,
+          details: error.response ? 'Check server logs for details' : undefined
+        },
+        { status: error.status || 500 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error occurred while fetching raw materials stock' },
+      { status: 500 }
+    );
+  }
+}
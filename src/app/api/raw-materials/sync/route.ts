@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import {
+  fetchRawMaterialsFromIDempiere,
+  fetchRawMaterialsPageFromIDempiere,
+  IDempiereAPIError,
+  IDEMPIERE_PAGE_SIZE,
+} from '@/lib/idempiere-api';
+
+/**
+ * GET /api/raw-materials/sync
+ * Fetch raw materials data from iDempiere API (`vw_product_rm`)
+ * With `skip`/`top` query params only that page is returned (client-driven paging),
+ * otherwise every page is fetched server-side
+ * Requires authentication
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Verify authentication
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized. Please sign in to access raw materials.' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = request.nextUrl;
+    const skipParam = searchParams.get('skip');
+    const topParam = searchParams.get('top');
+
+    let rawMaterialsData;
+    if (skipParam !== null || topParam !== null) {
+      const skip = parseInt(skipParam || '0', 10);
+      const top = parseInt(topParam || String(IDEMPIERE_PAGE_SIZE), 10);
+
+      if (isNaN(skip) || isNaN(top) || skip < 0 || top < 1) {
+        return NextResponse.json(
+          { error: 'skip must be a non-negative integer and top a positive integer' },
+          { status: 400 }
+        );
+      }
+
+      // Fetch a single page from iDempiere
+      rawMaterialsData = await fetchRawMaterialsPageFromIDempiere({ skip, top });
+    } else {
+      // Fetch every page from iDempiere
+      rawMaterialsData = await fetchRawMaterialsFromIDempiere();
+    }
+
+    return NextResponse.json(rawMaterialsData, {
+      headers: {
+        'Cache-Control': 'no-cache, no-store, must-revalidate',
+        'Pragma': 'no-cache',
+        'Expires': '0',
+      },
+    });
+
+  } catch (error) {
+    console.error('Error in raw materials sync API:', error);
+
+    if (error instanceof IDempiereAPIError) {
+      return NextResponse.json(
+        {
+          error: error.message,
+          details: error.response ? 'Check server logs for details' : undefined
+        },
+        { status: error.status || 500 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error occurred while fetching raw materials' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,7 @@
 import { Webhook } from 'svix';
 import { headers } from 'next/headers';
 import { WebhookEvent } from '@clerk/nextjs/server';
-import { supabaseAdmin } from '@/lib/supabase';
+import { processWebhookEvent, recordWebhookEvent } from '@/lib/clerk-webhooks';
 
 export async function POST(req: Request) {
   const WEBHOOK_SECRET = process.env.CLERK_WEBHOOK_SECRET;
@@ -25,7 +25,6 @@ export async function POST(req: Request) {
 
   // Get the body
   const payload = await req.text();
-  const body = JSON.parse(payload);
 
   // Create a new Svix instance with your secret.
   const wh = new Webhook(WEBHOOK_SECRET);
@@ -46,124 +45,32 @@ export async function POST(req: Request) {
     });
   }
 
-  // Handle the webhook
-  const { id } = evt.data;
-  const eventType = evt.type;
-
-  if (eventType === 'user.created') {
-    const { id, email_addresses, first_name, last_name } = evt.data;
-    
-    // Enhanced email extraction
-    let email: string | undefined = email_addresses?.[0]?.email_address;
-    
-    // Fallback: find primary email
-    if (!email) {
-      const primaryEmail = email_addresses?.find(e => e.id === evt.data.primary_email_address_id);
-      email = primaryEmail?.email_address;
-    }
-    
-    // Final fallback: any email
-    if (!email && email_addresses?.length > 0) {
-      email = email_addresses[0].email_address;
-    }
-    
-    const fullName = `${first_name || ''} ${last_name || ''}`.trim();
-
-    console.log('Webhook user.created:', { id, email, fullName, email_addresses });
-
-    // Validate email exists
-    if (!email) {
-      console.error('No email found in webhook data:', evt.data);
-      return new Response('No email address found', { status: 400 });
-    }
-
-    try {
-      // Insert user into Supabase
-      const { error } = await supabaseAdmin
-        .from('user_profiles')
-        .insert({
-          clerk_user_id: id,
-          email: email,
-          full_name: fullName || null,
-          role: 'area sales supervisor', // Default role
-        });
-
-      if (error) {
-        console.error('Error creating user profile via webhook:', error);
-        return new Response('Error creating user profile', { status: 500 });
-      }
+  // Log the delivery by its svix id; redeliveries of a processed event are acknowledged
+  try {
+    const event = await recordWebhookEvent(svix_id, evt);
 
-      console.log('User profile created successfully via webhook for:', email);
-    } catch (error) {
-      console.error('Webhook database error:', error);
-      return new Response('Database error', { status: 500 });
+    if (event.status === 'processed') {
+      console.log(`Webhook ${evt.type} (${svix_id}) already processed`);
+      return new Response('', { status: 200 });
     }
-  }
 
-  if (eventType === 'user.updated') {
-    const { id, email_addresses, first_name, last_name } = evt.data;
-    
-    // Enhanced email extraction
-    let email: string | undefined = email_addresses?.[0]?.email_address;
-    
-    if (!email) {
-      const primaryEmail = email_addresses?.find(e => e.id === evt.data.primary_email_address_id);
-      email = primaryEmail?.email_address;
-    }
-    
-    if (!email && email_addresses?.length > 0) {
-      email = email_addresses[0].email_address;
-    }
-    
-    const fullName = `${first_name || ''} ${last_name || ''}`.trim();
+    const processed = await processWebhookEvent(event.id);
 
-    if (!email) {
-      console.error('No email found in webhook update data:', evt.data);
-      return new Response('No email address found', { status: 400 });
+    // Another delivery of the same event is being processed right now
+    if (!processed) {
+      return new Response('', { status: 200 });
     }
 
-    try {
-      // Update user in Supabase
-      const { error } = await supabaseAdmin
-        .from('user_profiles')
-        .update({
-          email: email,
-          full_name: fullName || null,
-          updated_at: new Date().toISOString(),
-        })
-        .eq('clerk_user_id', id);
-
-      if (error) {
-        console.error('Error updating user profile via webhook:', error);
-        return new Response('Error updating user profile', { status: 500 });
-      }
-
-      console.log('User profile updated successfully via webhook for:', email);
-    } catch (error) {
-      console.error('Webhook update database error:', error);
-      return new Response('Database error', { status: 500 });
+    if (processed.status === 'failed') {
+      // Non-2xx makes Svix retry; the event can also be replayed by an admin
+      return new Response('Error processing webhook', { status: 500 });
     }
-  }
-
-  if (eventType === 'user.deleted') {
-    try {
-      // Delete user from Supabase
-      const { error } = await supabaseAdmin
-        .from('user_profiles')
-        .delete()
-        .eq('clerk_user_id', id);
 
-      if (error) {
-        console.error('Error deleting user profile via webhook:', error);
-        return new Response('Error deleting user profile', { status: 500 });
-      }
-
-      console.log('User profile deleted successfully via webhook for ID:', id);
-    } catch (error) {
-      console.error('Webhook delete database error:', error);
-      return new Response('Database error', { status: 500 });
-    }
+    console.log(`Webhook ${evt.type} (${svix_id}) processed`);
+  } catch (error) {
+    console.error('Webhook database error:', error);
+    return new Response('Database error', { status: 500 });
   }
 
   return new Response('', { status: 200 });
-}
\ No newline at end of file
+}
@@ -1,7 +1,7 @@
 import { auth } from '@clerk/nextjs/server';
 import { redirect } from 'next/navigation';
 import { DashboardLayout } from '@/components/layout/DashboardLayout';
-import { RawMaterialsTable } from '@/components/inventory/RawMaterialsTable';
+import { RawMaterialsPage as RawMaterialsComponent } from '@/components/inventory/RawMaterialsPage';
 
 export default async function RawMaterialsPage() {
   const { userId } = await auth();
@@ -12,16 +12,7 @@ export default async function RawMaterialsPage() {
 
   return (
     <DashboardLayout>
-      <div className="space-y-6">
-        {/* Page header */}
-        <div>
-          <h1 className="text-2xl font-bold text-gray-900">Raw Materials</h1>
-          <p className="text-gray-600">Manage and monitor raw material inventory</p>
-        </div>
-
-        {/* Raw Materials Table */}
-        <RawMaterialsTable />
-      </div>
+      <RawMaterialsComponent />
     </DashboardLayout>
   );
 }
\ No newline at end of file
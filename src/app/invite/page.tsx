@@ -0,0 +1,11 @@
+import { AcceptInvitationForm } from '@/components/auth/AcceptInvitationForm';
+
+export default async function InvitePage({ searchParams }: { searchParams: Promise<{ token?: string }> }) {
+  const { token } = await searchParams;
+
+  return (
+    <main className="min-h-screen flex items-center justify-center bg-gray-50 px-4">
+      <AcceptInvitationForm token={token ?? ''} />
+    </main>
+  );
+}
@@ -1,14 +1,28 @@
 /**
  * Component to manage finished goods data lifecycle
- * Integrates with Clerk authentication to sync/clear data based on user state
+ * Integrates with Clerk authentication to sync data on sign-in. The cache (and its
+ * `last_sync`) survives sign-out so the same user's next sign-in only fetches changes;
+ * it is cleared when a different user signs in.
  */
 
 'use client';
 
 import { useUser } from '@clerk/nextjs';
-import { useEffect, useState, useCallback } from 'react';
-import { finishedGoodsDB } from '@/lib/indexeddb';
-import { fetchFinishedGoodsClient, IDempiereAPIError } from '@/lib/idempiere-api';
+import { useEffect, useState, useCallback, useRef } from 'react';
+import { finishedGoodsDB, FinishedGood } from '@/lib/indexeddb';
+import { rawMaterialsDB } from '@/lib/raw-materials-db';
+import {
+  fetchFinishedGoodsClient,
+  fetchFinishedGoodsStockClient,
+  IDempiereAPIError,
+  IDempierePagedFetchError,
+  PagedFetchState,
+} from '@/lib/idempiere-api';
+import {
+  applyFinishedGoodsSync,
+  FinishedGoodsSyncResume,
+  planFinishedGoodsSync,
+} from '@/lib/finished-goods-sync';
 import { FinishedGoodsLoadingScreen } from './inventory/FinishedGoodsLoadingScreen';
 
 interface SyncProgress {
@@ -27,6 +41,8 @@ export function FinishedGoodsDataManager({ children }: { children: React.ReactNo
     percentage: 0,
   });
   const [error, setError] = useState<string | null>(null);
+  // Plan and pages already fetched before a failure, so a retry resumes instead of restarting
+  const resumeStateRef = useRef<FinishedGoodsSyncResume | null>(null);
 
   const performInitialSync = useCallback(async () => {
     if (!isSignedIn) return;
@@ -37,41 +53,63 @@ export function FinishedGoodsDataManager({ children }: { children: React.ReactNo
       setSyncProgress({
         stage: 'fetching',
         message: 'Initializing finished goods database...',
-        percentage: 10,
+        percentage: 5,
       });
 
       // Initialize IndexedDB
       await finishedGoodsDB.init();
-      
-      setSyncProgress({
-        stage: 'fetching',
-        message: 'Syncing latest data from iDempiere...',
-        percentage: 30,
-      });
 
-      // Perform sync with progress tracking
+      // Only fetch products changed since the last sync when the local cache allows it
+      const plan = resumeStateRef.current?.plan ?? await planFinishedGoodsSync();
+
+      // Fetch product master data page by page (5% - 75%)
+      let data;
+      try {
+        data = await fetchFinishedGoodsClient({
+          updatedSince: plan.updatedSince,
+          resumeFrom: resumeStateRef.current?.state,
+          onProgress: ({ page, pageCount, recordsFetched, totalRecords }) => {
+            setSyncProgress({
+              stage: 'fetching',
+              message: plan.mode === 'delta'
+                ? `Fetching changes page ${page} of ${pageCount} (${recordsFetched} of ${totalRecords} updated products)...`
+                : `Fetching page ${page} of ${pageCount} (${recordsFetched} of ${totalRecords} products)...`,
+              percentage: 5 + Math.round((page / Math.max(pageCount, 1)) * 70),
+            });
+          },
+        });
+      } catch (fetchError) {
+        if (fetchError instanceof IDempierePagedFetchError) {
+          resumeStateRef.current = { plan, state: fetchError.state as PagedFetchState<FinishedGood> };
+        }
+        throw fetchError;
+      }
+      resumeStateRef.current = null;
+
       setSyncProgress({
         stage: 'fetching',
-        message: 'Fetching data from iDempiere API...',
-        percentage: 40,
+        message: 'Fetching stock levels per area...',
+        percentage: 80,
       });
 
-      // Fetch data from API
-      const data = await fetchFinishedGoodsClient();
+      const stockLevels = await fetchFinishedGoodsStockClient();
 
       setSyncProgress({
         stage: 'storing',
-        message: `Storing ${data.records.length} products in local database...`,
-        percentage: 60,
+        message: plan.mode === 'delta'
+          ? `Applying ${data.records.length} changed products to local database...`
+          : `Storing ${data.records.length} products in local database...`,
+        percentage: 90,
       });
 
       // Store in IndexedDB
-      await finishedGoodsDB.storeFinishedGoods(data);
+      const result = await applyFinishedGoodsSync(plan, data);
+      await finishedGoodsDB.storeStockLevels(stockLevels);
 
       setSyncProgress({
         stage: 'processing',
         message: 'Processing categories and finalizing...',
-        percentage: 80,
+        percentage: 95,
       });
 
       // Small delay to show processing stage
@@ -79,11 +117,13 @@ export function FinishedGoodsDataManager({ children }: { children: React.ReactNo
 
       setSyncProgress({
         stage: 'complete',
-        message: `Successfully synced ${data.records.length} finished goods`,
+        message: result.mode === 'delta'
+          ? `Updated ${result.recordsFetched} changed finished goods (${result.recordCount} total)`
+          : `Successfully synced ${result.recordCount} finished goods`,
         percentage: 100,
       });
 
-      console.log(`[FinishedGoodsDataManager] Successfully synced ${data.records.length} finished goods on login`);
+      console.log(`[FinishedGoodsDataManager] ${result.mode} sync on login: ${result.recordsFetched} fetched, ${result.recordsRemoved} removed, ${result.recordCount} stored`);
       
       // Dispatch event to notify other components that sync is complete
       window.dispatchEvent(new CustomEvent('finishedGoodsSyncComplete'));
@@ -133,7 +173,10 @@ export function FinishedGoodsDataManager({ children }: { children: React.ReactNo
       try {
         if (isSignedIn && user && isMounted) {
           console.log('[FinishedGoodsDataManager] User signed in, starting automatic sync for user:', user.id);
-          
+
+          // The cache belongs to whoever signed in last; never show it to someone else
+          await clearCacheOfOtherUser(user.id);
+
           // Check if we need to sync (avoid duplicate syncs)
           const shouldSync = await checkIfSyncNeeded();
           if (shouldSync) {
@@ -142,29 +185,14 @@ export function FinishedGoodsDataManager({ children }: { children: React.ReactNo
             console.log('[FinishedGoodsDataManager] Data already synced recently, skipping automatic sync');
           }
         } else if (isLoaded && !isSignedIn && isMounted) {
-          // User is signed out - clear all finished goods data
-          console.log('[FinishedGoodsDataManager] User signed out, clearing finished goods data');
-          
+          // User is signed out - keep the cache so the next sign-in can run a delta sync
+          console.log('[FinishedGoodsDataManager] User signed out, keeping finished goods cache for the next sign-in');
+
           // Reset states
+          resumeStateRef.current = null;
           setIsInitializing(false);
           setError(null);
           setSyncProgress({ stage: null, message: '', percentage: 0 });
-          
-          try {
-            // Clear data from IndexedDB
-            await finishedGoodsDB.clearAllData();
-            console.log('[FinishedGoodsDataManager] Finished goods data cleared successfully');
-          } catch (error) {
-            console.error('[FinishedGoodsDataManager] Error clearing finished goods data:', error);
-            
-            // If clearing fails, try to delete the entire database as fallback
-            try {
-              await finishedGoodsDB.deleteDatabase();
-              console.log('[FinishedGoodsDataManager] Finished goods database deleted as fallback');
-            } catch (deleteError) {
-              console.error('[FinishedGoodsDataManager] Error deleting finished goods database:', deleteError);
-            }
-          }
         }
       } catch (error) {
         // Only log errors if component is still mounted to avoid memory leaks
@@ -174,6 +202,28 @@ export function FinishedGoodsDataManager({ children }: { children: React.ReactNo
       }
     };
 
+    const clearCacheOfOtherUser = async (userId: string): Promise<void> => {
+      await finishedGoodsDB.init();
+      const owner = await finishedGoodsDB.getCacheOwner();
+      if (owner === userId) return;
+
+      console.log('[FinishedGoodsDataManager] Cache belongs to another user, clearing finished goods data');
+      try {
+        // Clear data from IndexedDB
+        await finishedGoodsDB.clearAllData();
+        await rawMaterialsDB.clearAllData();
+        console.log('[FinishedGoodsDataManager] Finished goods and raw materials data cleared successfully');
+      } catch (error) {
+        console.error('[FinishedGoodsDataManager] Error clearing finished goods data:', error);
+
+        // If clearing fails, delete the entire database as fallback
+        await finishedGoodsDB.deleteDatabase();
+        await rawMaterialsDB.deleteDatabase();
+        console.log('[FinishedGoodsDataManager] Finished goods database deleted as fallback');
+      }
+      await finishedGoodsDB.setCacheOwner(userId);
+    };
+
     const checkIfSyncNeeded = async (): Promise<boolean> => {
       try {
         await finishedGoodsDB.init();
@@ -209,6 +259,7 @@ export function FinishedGoodsDataManager({ children }: { children: React.ReactNo
     const handleBeforeUnload = () => {
       // Close database connection on page unload
       finishedGoodsDB.close();
+      rawMaterialsDB.close();
     };
 
     window.addEventListener('beforeunload', handleBeforeUnload);
@@ -216,25 +267,10 @@ export function FinishedGoodsDataManager({ children }: { children: React.ReactNo
     return () => {
       window.removeEventListener('beforeunload', handleBeforeUnload);
       finishedGoodsDB.close();
+      rawMaterialsDB.close();
     };
   }, []);
 
-  // Add cleanup for visibility change (when user switches tabs or minimizes browser)
-  useEffect(() => {
-    const handleVisibilityChange = () => {
-      if (document.hidden && !isSignedIn) {
-        // If user is not signed in and tab becomes hidden, ensure data is cleared
-        finishedGoodsDB.clearAllData().catch(console.error);
-      }
-    };
-
-    document.addEventListener('visibilitychange', handleVisibilityChange);
-    
-    return () => {
-      document.removeEventListener('visibilitychange', handleVisibilityChange);
-    };
-  }, [isSignedIn]);
-
   return (
     <>
       {/* Global Loading Screen for Finished Goods Sync */}
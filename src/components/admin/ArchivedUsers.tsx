@@ -0,0 +1,198 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { AlertCircle, Archive, RotateCcw } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useRoles } from '@/hooks/useRoles';
+import type { ArchivedUser } from '@/lib/user-archive';
+
+interface ArchivedUsersProps {
+  // Bumped by the parent to reload the list
+  reloadKey: number;
+  // Area names by id, for display
+  areaNames: Map<number, string>;
+  onRestored?: () => void;
+}
+
+export function ArchivedUsers({ reloadKey, areaNames, onRestored }: ArchivedUsersProps) {
+  const { toast } = useToast();
+  const { getRoleLabel } = useRoles();
+  const [users, setUsers] = useState<ArchivedUser[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [restoringUser, setRestoringUser] = useState<ArchivedUser | null>(null);
+  const [username, setUsername] = useState('');
+  const [restoring, setRestoring] = useState(false);
+
+  const fetchUsers = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await fetch('/api/admin/users/archived');
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to load archived users');
+      }
+
+      setUsers(result.data);
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching archived users:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load archived users');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchUsers();
+  }, [fetchUsers, reloadKey]);
+
+  const handleRestoreDialogChange = (isOpen: boolean) => {
+    if (!isOpen) {
+      setRestoringUser(null);
+      setUsername('');
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!restoringUser) return;
+
+    try {
+      setRestoring(true);
+      const response = await fetch('/api/admin/users/archived', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ userProfileId: restoringUser.id, username: username.trim() || undefined }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to restore user');
+      }
+
+      setUsers(users.filter(user => user.id !== restoringUser.id));
+      handleRestoreDialogChange(false);
+      onRestored?.();
+      toast({
+        title: "Success",
+        description: result.message,
+      });
+    } catch (err) {
+      console.error('Error restoring user:', err);
+      toast({
+        title: "Error",
+        description: err instanceof Error ? err.message : 'Failed to restore user',
+        variant: "destructive",
+      });
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <h3 className="flex items-center text-sm font-medium">
+        <Archive className="h-4 w-4 mr-2" />
+        Archived Users
+      </h3>
+      <p className="text-xs text-gray-500">
+        Users whose Clerk account was deleted. Their areas and history are kept; personal data was cleared.
+      </p>
+      {loading ? (
+        <div className="space-y-2">
+          {[1, 2].map((i) => (
+            <Skeleton key={i} className="h-10 w-full" />
+          ))}
+        </div>
+      ) : error ? (
+        <div className="flex items-center text-sm text-red-600">
+          <AlertCircle className="h-4 w-4 mr-2" />
+          <span>{error}</span>
+        </div>
+      ) : users.length === 0 ? (
+        <p className="text-sm text-gray-500">No archived users.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Clerk User</TableHead>
+              <TableHead>Role</TableHead>
+              <TableHead>Primary Area</TableHead>
+              <TableHead>Archived</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {users.map((user) => (
+              <TableRow key={user.id}>
+                <TableCell className="text-sm">
+                  <div className="flex flex-col">
+                    <span className="text-gray-500">Deleted user</span>
+                    <span className="text-xs text-gray-400">{user.clerk_user_id}</span>
+                  </div>
+                </TableCell>
+                <TableCell>
+                  <Badge variant="secondary">{getRoleLabel(user.role)}</Badge>
+                </TableCell>
+                <TableCell className="text-sm">
+                  {user.area_id ? areaNames.get(user.area_id) ?? `#${user.area_id}` : '-'}
+                </TableCell>
+                <TableCell className="text-sm">{new Date(user.deleted_at).toLocaleDateString()}</TableCell>
+                <TableCell className="text-right">
+                  <Button size="sm" variant="outline" onClick={() => setRestoringUser(user)}>
+                    <RotateCcw className="h-4 w-4 mr-1" />
+                    Restore
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      <Dialog open={restoringUser !== null} onOpenChange={handleRestoreDialogChange}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Restore Archived User</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              The profile keeps its role and areas and is linked to a Clerk account again. Email and name are
+              taken from that account.
+            </p>
+            <div className="space-y-2">
+              <Label htmlFor="restore-username">Clerk Username (optional)</Label>
+              <Input
+                id="restore-username"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                placeholder="Leave empty to use the original account"
+              />
+              <p className="text-xs text-gray-500">
+                Give the username of a new Clerk account when the original one no longer exists.
+              </p>
+            </div>
+            <div className="flex justify-end space-x-2">
+              <Button variant="outline" onClick={() => handleRestoreDialogChange(false)} disabled={restoring}>
+                Cancel
+              </Button>
+              <Button onClick={handleRestore} disabled={restoring}>
+                {restoring ? 'Restoring...' : 'Restore User'}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
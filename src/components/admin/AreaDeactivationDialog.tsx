@@ -0,0 +1,240 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Badge } from '@/components/ui/badge';
+import { AlertCircle, AlertTriangle } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import type { AreaDeactivationPlan, AreaDeactivationResult, UserClerkOutcome } from '@/lib/area-deactivation';
+
+interface AreaDeactivationDialogProps {
+  // Area to deactivate; the dialog is open while this is set
+  area: { id: number; name: string } | null;
+  onClose: () => void;
+  onDeactivated?: () => void;
+}
+
+const LOCK_BADGES: Record<UserClerkOutcome['status'], { label: string; color: string }> = {
+  done: { label: 'Locked', color: 'bg-green-100 text-green-800' },
+  pending: { label: 'Retrying', color: 'bg-yellow-100 text-yellow-800' },
+  processing: { label: 'Sending', color: 'bg-blue-100 text-blue-800' },
+  failed: { label: 'Failed', color: 'bg-red-100 text-red-800' },
+  superseded: { label: 'Superseded', color: 'bg-gray-100 text-gray-800' },
+};
+
+export function AreaDeactivationDialog({ area, onClose, onDeactivated }: AreaDeactivationDialogProps) {
+  const { toast } = useToast();
+  const [plan, setPlan] = useState<AreaDeactivationPlan | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [confirming, setConfirming] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Outcome of the confirmed deactivation, shown in place of the preview
+  const [result, setResult] = useState<AreaDeactivationResult | null>(null);
+
+  useEffect(() => {
+    if (!area) return;
+    setResult(null);
+
+    const fetchPlan = async () => {
+      try {
+        setLoading(true);
+        setPlan(null);
+        const response = await fetch('/api/admin/areas', {
+          method: 'PATCH',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ id: area.id, isActive: false, dryRun: true }),
+        });
+        const result = await response.json();
+
+        if (!response.ok) {
+          throw new Error(result.error || 'Failed to preview deactivation');
+        }
+
+        setPlan(result.data);
+        setError(null);
+      } catch (err) {
+        console.error('Error previewing area deactivation:', err);
+        setError(err instanceof Error ? err.message : 'Failed to preview deactivation');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchPlan();
+  }, [area]);
+
+  const handleConfirm = async () => {
+    if (!area) return;
+
+    try {
+      setConfirming(true);
+      const response = await fetch('/api/admin/areas', {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ id: area.id, isActive: false }),
+      });
+
+      const body = await response.json();
+      if (!response.ok) {
+        throw new Error(body.error || 'Failed to deactivate area');
+      }
+
+      const lockPending = (body.data as AreaDeactivationResult).users.some(user => user.status !== 'done');
+      toast({
+        title: lockPending ? "Deactivated with warnings" : "Success",
+        description: body.message,
+        variant: lockPending ? "destructive" : "default",
+      });
+
+      setResult(body.data);
+    } catch (err) {
+      console.error('Error deactivating area:', err);
+      toast({
+        title: "Error",
+        description: err instanceof Error ? err.message : 'Failed to deactivate area',
+        variant: "destructive",
+      });
+    } finally {
+      setConfirming(false);
+    }
+  };
+
+  // The table is refreshed on close; refreshing earlier would unmount the outcome
+  const handleClose = () => {
+    if (result) {
+      onDeactivated?.();
+    }
+    onClose();
+  };
+
+  return (
+    <Dialog open={area !== null} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Deactivate {area?.name}</DialogTitle>
+        </DialogHeader>
+        {loading ? (
+          <div className="space-y-2">
+            {[1, 2, 3].map((i) => (
+              <Skeleton key={i} className="h-10 w-full" />
+            ))}
+          </div>
+        ) : error ? (
+          <div className="flex items-center justify-center p-6 text-red-600">
+            <AlertCircle className="h-5 w-5 mr-2" />
+            <span>{error}</span>
+          </div>
+        ) : result ? (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              {result.removedMappings.length} user assignment{result.removedMappings.length === 1 ? '' : 's'} removed
+              and {result.users.length} user{result.users.length === 1 ? '' : 's'} deactivated.
+            </p>
+            {result.users.length > 0 && (
+              <div className="max-h-96 overflow-y-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>User</TableHead>
+                      <TableHead>Email</TableHead>
+                      <TableHead>Clerk Lock</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {result.users.map((user) => (
+                      <TableRow key={user.id}>
+                        <TableCell className="text-sm">{user.full_name || '-'}</TableCell>
+                        <TableCell className="text-sm">{user.email}</TableCell>
+                        <TableCell>
+                          <Badge className={LOCK_BADGES[user.status].color}>{LOCK_BADGES[user.status].label}</Badge>
+                          {user.error && <span className="block text-xs text-gray-500">{user.error}</span>}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+            <div className="flex justify-end">
+              <Button onClick={handleClose}>Close</Button>
+            </div>
+          </div>
+        ) : plan && (
+          <div className="space-y-4">
+            <div className="flex items-start rounded-md bg-yellow-50 p-3 text-sm text-yellow-800">
+              <AlertTriangle className="h-4 w-4 mr-2 mt-0.5 shrink-0" />
+              <span>
+                {plan.mappingsToRemove.length} user assignment{plan.mappingsToRemove.length === 1 ? '' : 's'} will be
+                removed and {plan.usersToDeactivate.length} user{plan.usersToDeactivate.length === 1 ? '' : 's'} will
+                be deactivated and locked. This can be rolled back from the area table.
+              </span>
+            </div>
+            <div className="max-h-96 overflow-y-auto space-y-4">
+              <div>
+                <h4 className="text-sm font-medium mb-2">Assignments to remove</h4>
+                {plan.mappingsToRemove.length === 0 ? (
+                  <p className="text-sm text-gray-500">No users are assigned to this area.</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>User</TableHead>
+                        <TableHead>Email</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {plan.mappingsToRemove.map((mapping) => (
+                        <TableRow key={mapping.id}>
+                          <TableCell className="text-sm">{mapping.full_name || '-'}</TableCell>
+                          <TableCell className="text-sm">{mapping.email}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </div>
+              <div>
+                <h4 className="text-sm font-medium mb-2">Users to deactivate</h4>
+                {plan.usersToDeactivate.length === 0 ? (
+                  <p className="text-sm text-gray-500">No users lose their last active area.</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>User</TableHead>
+                        <TableHead>Email</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {plan.usersToDeactivate.map((user) => (
+                        <TableRow key={user.id}>
+                          <TableCell className="text-sm">{user.full_name || '-'}</TableCell>
+                          <TableCell className="text-sm">{user.email}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </div>
+            </div>
+            <div className="flex justify-end space-x-2">
+              <Button variant="outline" onClick={handleClose} disabled={confirming}>
+                Cancel
+              </Button>
+              <Button variant="destructive" onClick={handleConfirm} disabled={confirming || !plan.area.is_active}>
+                {confirming ? 'Deactivating...' : 'Deactivate Area'}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,222 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { AlertCircle, RefreshCw } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import type { AreaImportChange } from '@/lib/area-import';
+
+interface ImportSummary {
+  new: number;
+  renamed: number;
+  missing: number;
+  unchanged: number;
+}
+
+interface AreaImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImported?: () => void;
+}
+
+const CHANGE_BADGES: Record<AreaImportChange['type'], { label: string; color: string }> = {
+  new: { label: 'New', color: 'bg-green-100 text-green-800' },
+  renamed: { label: 'Renamed', color: 'bg-blue-100 text-blue-800' },
+  missing: { label: 'Missing in ERP', color: 'bg-gray-100 text-gray-800' },
+};
+
+export function AreaImportDialog({ open, onOpenChange, onImported }: AreaImportDialogProps) {
+  const { toast } = useToast();
+  const [changes, setChanges] = useState<AreaImportChange[]>([]);
+  const [summary, setSummary] = useState<ImportSummary | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(false);
+  const [applying, setApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  useEffect(() => {
+    if (!open) return;
+
+    const fetchDiff = async () => {
+      try {
+        setLoading(true);
+        const response = await fetch('/api/admin/areas/import');
+        const result = await response.json();
+
+        if (!response.ok) {
+          throw new Error(result.error || 'Failed to load areas from iDempiere');
+        }
+
+        setChanges(result.data);
+        setSummary(result.summary);
+        // New and renamed areas are selected by default; missing ones are informational
+        setSelected(new Set(
+          (result.data as AreaImportChange[]).filter(change => change.type !== 'missing').map(change => change.key)
+        ));
+        setError(null);
+      } catch (err) {
+        console.error('Error fetching area import diff:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load areas from iDempiere');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchDiff();
+  }, [open, refreshKey]);
+
+  const toggle = (key: string) => {
+    const next = new Set(selected);
+    if (next.has(key)) {
+      next.delete(key);
+    } else {
+      next.add(key);
+    }
+    setSelected(next);
+  };
+
+  const applicable = changes.filter(change => change.type !== 'missing');
+  const allSelected = applicable.length > 0 && applicable.every(change => selected.has(change.key));
+
+  const handleApply = async () => {
+    try {
+      setApplying(true);
+      const response = await fetch('/api/admin/areas/import', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ keys: Array.from(selected) }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to apply area import');
+      }
+
+      const failed: { key: string; error: string }[] = result.data.failed;
+      toast({
+        title: failed.length > 0 ? "Partially applied" : "Success",
+        description: failed.length > 0
+          ? `${result.message}. Failed: ${failed.map(failure => `${failure.key} (${failure.error})`).join(', ')}`
+          : `${result.data.created} areas created, ${result.data.renamed} renamed`,
+        variant: failed.length > 0 ? "destructive" : "default",
+      });
+
+      onImported?.();
+      setRefreshKey(key => key + 1);
+    } catch (err) {
+      console.error('Error applying area import:', err);
+      toast({
+        title: "Error",
+        description: err instanceof Error ? err.message : 'Failed to apply area import',
+        variant: "destructive",
+      });
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Import Areas from iDempiere</DialogTitle>
+        </DialogHeader>
+        {loading ? (
+          <div className="space-y-2">
+            {[1, 2, 3].map((i) => (
+              <Skeleton key={i} className="h-10 w-full" />
+            ))}
+          </div>
+        ) : error ? (
+          <div className="flex items-center justify-center p-6 text-red-600">
+            <AlertCircle className="h-5 w-5 mr-2" />
+            <span>{error}</span>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {summary && (
+              <p className="text-sm text-gray-600">
+                {summary.new} new, {summary.renamed} renamed, {summary.missing} missing in iDempiere,
+                {' '}{summary.unchanged} unchanged.
+              </p>
+            )}
+            {changes.length === 0 ? (
+              <p className="text-sm text-gray-500">Areas are in sync with iDempiere.</p>
+            ) : (
+              <div className="max-h-96 overflow-y-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-10">
+                        <input
+                          type="checkbox"
+                          className="h-4 w-4"
+                          aria-label="Select all changes"
+                          checked={allSelected}
+                          onChange={() => setSelected(allSelected ? new Set() : new Set(applicable.map(change => change.key)))}
+                          disabled={applicable.length === 0}
+                        />
+                      </TableHead>
+                      <TableHead>Change</TableHead>
+                      <TableHead>Source</TableHead>
+                      <TableHead>iDempiere</TableHead>
+                      <TableHead>Current Area</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {changes.map((change) => (
+                      <TableRow key={change.key}>
+                        <TableCell>
+                          {change.type !== 'missing' && (
+                            <input
+                              type="checkbox"
+                              className="h-4 w-4"
+                              aria-label={`Apply ${change.key}`}
+                              checked={selected.has(change.key)}
+                              onChange={() => toggle(change.key)}
+                            />
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <Badge className={CHANGE_BADGES[change.type].color}>{CHANGE_BADGES[change.type].label}</Badge>
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          {change.source === 'organization' ? 'Organization' : 'Warehouse'}
+                          <span className="block font-mono text-xs text-gray-500">{change.erpId}</span>
+                        </TableCell>
+                        <TableCell className="text-sm">{change.erpName ?? '-'}</TableCell>
+                        <TableCell className="text-sm">{change.areaName ?? '-'}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+            {summary && summary.missing > 0 && (
+              <p className="text-xs text-gray-500">
+                Missing areas are not changed by the import. Deactivate them from the area table so their user
+                assignments are cleaned up.
+              </p>
+            )}
+            <div className="flex justify-end space-x-2">
+              <Button variant="outline" onClick={() => setRefreshKey(key => key + 1)} disabled={applying}>
+                <RefreshCw className="h-4 w-4 mr-2" />
+                Refresh
+              </Button>
+              <Button onClick={handleApply} disabled={applying || selected.size === 0}>
+                {applying ? 'Applying...' : `Apply ${selected.size} Change${selected.size === 1 ? '' : 's'}`}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
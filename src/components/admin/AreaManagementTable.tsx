@@ -11,38 +11,71 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
 import { Badge } from '@/components/ui/badge';
 import { Pagination } from '@/components/ui/pagination';
-import { AlertCircle, MapPin, Plus, Edit, Save, X, MoreHorizontal, Eye, EyeOff } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertCircle, MapPin, Plus, Edit, Save, X, MoreHorizontal, Eye, EyeOff, CornerDownRight, Download, RotateCcw } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { AreaImportDialog } from './AreaImportDialog';
+import { AreaDeactivationDialog } from './AreaDeactivationDialog';
+import { AREA_TYPES, AREA_TYPE_LABELS, AreaType, sortAreasAsTree, wouldCreateCycle } from '@/lib/area-hierarchy';
 
 
 interface Area {
   id: number;
   name: string;
-  erp_id: number;
+  erp_id: number | null;
+  // Set for areas imported from an iDempiere warehouse
+  erp_warehouse_id: number | null;
+  parent_id: number | null;
+  area_type: AreaType;
   is_active: boolean;
   created_at: string;
   updated_at: string;
 }
 
+interface AreaForm {
+  name: string;
+  erpId: string;
+  // 'none' for a top-level area
+  parentId: string;
+  areaType: AreaType;
+}
+
+const EMPTY_AREA_FORM: AreaForm = { name: '', erpId: '', parentId: 'none', areaType: 'area' };
+
+// Default type for a new sub-area of a given type
+const CHILD_AREA_TYPES: Record<AreaType, AreaType> = {
+  region: 'area',
+  area: 'warehouse',
+  warehouse: 'warehouse',
+};
+
 export function AreaManagementTable() {
   const [areas, setAreas] = useState<Area[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [editingArea, setEditingArea] = useState<number | null>(null);
-  const [editForm, setEditForm] = useState<{name: string, erpId: string}>({name: '', erpId: ''});
+  const [editForm, setEditForm] = useState<AreaForm>(EMPTY_AREA_FORM);
   const [saving, setSaving] = useState(false);
   const [showAddDialog, setShowAddDialog] = useState(false);
-  const [addForm, setAddForm] = useState<{name: string, erpId: string}>({name: '', erpId: ''});
+  const [addForm, setAddForm] = useState<AreaForm>(EMPTY_AREA_FORM);
   const [adding, setAdding] = useState(false);
   const [currentPage, setCurrentPage] = useState(1);
   const [pageSize, setPageSize] = useState(5);
+  const [showImportDialog, setShowImportDialog] = useState(false);
+  const [refreshKey, setRefreshKey] = useState(0);
+  const [deactivatingArea, setDeactivatingArea] = useState<Area | null>(null);
+  // Latest deactivation snapshot that can still be rolled back, by area id
+  const [restorableSnapshots, setRestorableSnapshots] = useState<Map<number, number>>(new Map());
   const { toast } = useToast();
 
   useEffect(() => {
     const fetchAreas = async () => {
       try {
         setLoading(true);
-        const response = await fetch('/api/admin/areas');
+        const [response, snapshotsResponse] = await Promise.all([
+          fetch('/api/admin/areas'),
+          fetch('/api/admin/areas/deactivations?restorable=true'),
+        ]);
         
         if (!response.ok) {
           throw new Error('Failed to fetch areas');
@@ -51,6 +84,18 @@ export function AreaManagementTable() {
         const result = await response.json();
         setAreas(result.data);
         setError(null);
+
+        // Rollback is optional; the table still loads without it
+        if (snapshotsResponse.ok) {
+          const snapshots: { id: number; area_id: number }[] = (await snapshotsResponse.json()).data;
+          const latestByArea = new Map<number, number>();
+          for (const snapshot of snapshots) {
+            if (!latestByArea.has(snapshot.area_id)) {
+              latestByArea.set(snapshot.area_id, snapshot.id);
+            }
+          }
+          setRestorableSnapshots(latestByArea);
+        }
       } catch (err) {
         console.error('Error fetching areas:', err);
         setError(err instanceof Error ? err.message : 'Failed to load data');
@@ -60,16 +105,27 @@ export function AreaManagementTable() {
     };
 
     fetchAreas();
-  }, []);
+  }, [refreshKey]);
 
   const handleEdit = (area: Area) => {
     setEditingArea(area.id);
     setEditForm({
       name: area.name,
-      erpId: area.erp_id.toString()
+      erpId: area.erp_id?.toString() ?? '',
+      parentId: area.parent_id ? area.parent_id.toString() : 'none',
+      areaType: area.area_type || 'area'
     });
   };
 
+  const handleAddSubArea = (parent: Area) => {
+    setAddForm({
+      ...EMPTY_AREA_FORM,
+      parentId: parent.id.toString(),
+      areaType: CHILD_AREA_TYPES[parent.area_type || 'area']
+    });
+    setShowAddDialog(true);
+  };
+
   const handleSave = async (areaId: number) => {
     try {
       setSaving(true);
@@ -81,7 +137,10 @@ export function AreaManagementTable() {
         body: JSON.stringify({
           id: areaId,
           name: editForm.name,
-          erpId: parseInt(editForm.erpId)
+          // Warehouse areas may have no organization ERP ID
+          erpId: editForm.erpId ? parseInt(editForm.erpId) : null,
+          parentId: editForm.parentId === 'none' ? null : parseInt(editForm.parentId),
+          areaType: editForm.areaType
         }),
       });
 
@@ -116,7 +175,7 @@ export function AreaManagementTable() {
 
   const handleCancel = () => {
     setEditingArea(null);
-    setEditForm({name: '', erpId: ''});
+    setEditForm(EMPTY_AREA_FORM);
   };
 
   const handleAdd = async () => {
@@ -138,7 +197,9 @@ export function AreaManagementTable() {
         },
         body: JSON.stringify({
           name: addForm.name,
-          erpId: parseInt(addForm.erpId)
+          erpId: parseInt(addForm.erpId),
+          parentId: addForm.parentId === 'none' ? null : parseInt(addForm.parentId),
+          areaType: addForm.areaType
         }),
       });
 
@@ -153,7 +214,7 @@ export function AreaManagementTable() {
       setAreas([...areas, result.data]);
       
       setShowAddDialog(false);
-      setAddForm({name: '', erpId: ''});
+      setAddForm(EMPTY_AREA_FORM);
       
       toast({
         title: "Success",
@@ -171,12 +232,16 @@ export function AreaManagementTable() {
     }
   };
 
+  // Areas in tree order, each sub-area listed under its parent
+  const treeAreas = useMemo(() => sortAreasAsTree(areas), [areas]);
+  const areaNames = useMemo(() => new Map(areas.map(area => [area.id, area.name])), [areas]);
+
   // Pagination logic
   const paginatedAreas = useMemo(() => {
     const startIndex = (currentPage - 1) * pageSize;
     const endIndex = startIndex + pageSize;
-    return areas.slice(startIndex, endIndex);
-  }, [areas, currentPage, pageSize]);
+    return treeAreas.slice(startIndex, endIndex);
+  }, [treeAreas, currentPage, pageSize]);
 
   const totalPages = Math.ceil(areas.length / pageSize);
 
@@ -192,7 +257,13 @@ export function AreaManagementTable() {
     setEditingArea(null); // Cancel any editing when changing page size
   };
 
-  const handleToggleStatus = async (areaId: number, currentStatus: boolean) => {
+  const handleToggleStatus = async (area: Area) => {
+    // Deactivation goes through a dry-run preview before anything changes
+    if (area.is_active) {
+      setDeactivatingArea(area);
+      return;
+    }
+
     try {
       const response = await fetch('/api/admin/areas', {
         method: 'PATCH',
@@ -200,8 +271,8 @@ export function AreaManagementTable() {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          id: areaId,
-          isActive: !currentStatus
+          id: area.id,
+          isActive: true
         }),
       });
 
@@ -213,14 +284,13 @@ export function AreaManagementTable() {
       const result = await response.json();
       
       // Update the local state
-      setAreas(areas.map(area => 
-        area.id === areaId ? result.data : area
+      setAreas(areas.map(existing => 
+        existing.id === area.id ? result.data : existing
       ));
       
-      const action = !currentStatus ? 'activated' : 'deactivated';
       toast({
         title: "Success",
-        description: `Area ${action} successfully`,
+        description: "Area activated successfully",
       });
     } catch (err) {
       console.error('Error updating area status:', err);
@@ -232,6 +302,39 @@ export function AreaManagementTable() {
     }
   };
 
+  const handleRollback = async (snapshotId: number) => {
+    try {
+      const response = await fetch('/api/admin/areas/deactivations', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ snapshotId }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to roll back deactivation');
+      }
+
+      const unlockPending = (result.data.users as { status: string }[]).some(user => user.status !== 'done');
+      toast({
+        title: unlockPending ? "Rolled back with warnings" : "Success",
+        description: result.message,
+        variant: unlockPending ? "destructive" : "default",
+      });
+
+      setRefreshKey(key => key + 1);
+    } catch (err) {
+      console.error('Error rolling back area deactivation:', err);
+      toast({
+        title: "Error",
+        description: err instanceof Error ? err.message : 'Failed to roll back deactivation',
+        variant: "destructive",
+      });
+    }
+  };
+
   if (loading) {
     return (
       <Card>
@@ -277,55 +380,106 @@ export function AreaManagementTable() {
             <MapPin className="h-5 w-5 mr-2" />
             Area Management
           </CardTitle>
-          <Dialog open={showAddDialog} onOpenChange={setShowAddDialog}>
-            <DialogTrigger asChild>
-              <Button>
-                <Plus className="h-4 w-4 mr-2" />
-                Add Area
-              </Button>
-            </DialogTrigger>
-            <DialogContent>
-              <DialogHeader>
-                <DialogTitle>Add New Area</DialogTitle>
-              </DialogHeader>
-              <div className="space-y-4">
-                <div className="space-y-2">
-                  <Label htmlFor="area-name">Area Name</Label>
-                  <Input
-                    id="area-name"
-                    value={addForm.name}
-                    onChange={(e) => setAddForm({...addForm, name: e.target.value})}
-                    placeholder="Enter area name"
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="area-erp-id">ERP ID</Label>
-                  <Input
-                    id="area-erp-id"
-                    type="number"
-                    value={addForm.erpId}
-                    onChange={(e) => setAddForm({...addForm, erpId: e.target.value})}
-                    placeholder="Enter ERP ID"
-                  />
+          <div className="flex items-center space-x-2">
+            <Button variant="outline" onClick={() => setShowImportDialog(true)}>
+              <Download className="h-4 w-4 mr-2" />
+              Import from ERP
+            </Button>
+            <AreaImportDialog
+              open={showImportDialog}
+              onOpenChange={setShowImportDialog}
+              onImported={() => setRefreshKey(key => key + 1)}
+            />
+            <AreaDeactivationDialog
+              area={deactivatingArea}
+              onClose={() => setDeactivatingArea(null)}
+              onDeactivated={() => setRefreshKey(key => key + 1)}
+            />
+            <Dialog open={showAddDialog} onOpenChange={setShowAddDialog}>
+              <DialogTrigger asChild>
+                <Button onClick={() => setAddForm(EMPTY_AREA_FORM)}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Area
+                </Button>
+              </DialogTrigger>
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>Add New Area</DialogTitle>
+                </DialogHeader>
+                <div className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="area-name">Area Name</Label>
+                    <Input
+                      id="area-name"
+                      value={addForm.name}
+                      onChange={(e) => setAddForm({...addForm, name: e.target.value})}
+                      placeholder="Enter area name"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="area-erp-id">ERP ID</Label>
+                    <Input
+                      id="area-erp-id"
+                      type="number"
+                      value={addForm.erpId}
+                      onChange={(e) => setAddForm({...addForm, erpId: e.target.value})}
+                      placeholder="Enter ERP ID"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Area Type</Label>
+                    <Select
+                      value={addForm.areaType}
+                      onValueChange={(value) => setAddForm({...addForm, areaType: value as AreaType})}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {AREA_TYPES.map((type) => (
+                          <SelectItem key={type} value={type}>{AREA_TYPE_LABELS[type]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Parent Area</Label>
+                    <Select
+                      value={addForm.parentId}
+                      onValueChange={(value) => setAddForm({...addForm, parentId: value})}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select parent (optional)" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">No Parent (top level)</SelectItem>
+                        {treeAreas.map((area) => (
+                          <SelectItem key={area.id} value={area.id.toString()}>
+                            <span style={{ paddingLeft: `${area.depth * 0.75}rem` }}>{area.name}</span>
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="flex justify-end space-x-2">
+                    <Button
+                      variant="outline"
+                      onClick={() => {
+                        setShowAddDialog(false);
+                        setAddForm(EMPTY_AREA_FORM);
+                      }}
+                      disabled={adding}
+                    >
+                      Cancel
+                    </Button>
+                    <Button onClick={handleAdd} disabled={adding}>
+                      {adding ? 'Creating...' : 'Create Area'}
+                    </Button>
+                  </div>
                 </div>
-                <div className="flex justify-end space-x-2">
-                  <Button
-                    variant="outline"
-                    onClick={() => {
-                      setShowAddDialog(false);
-                      setAddForm({name: '', erpId: ''});
-                    }}
-                    disabled={adding}
-                  >
-                    Cancel
-                  </Button>
-                  <Button onClick={handleAdd} disabled={adding}>
-                    {adding ? 'Creating...' : 'Create Area'}
-                  </Button>
-                </div>
-              </div>
-            </DialogContent>
-          </Dialog>
+              </DialogContent>
+            </Dialog>
+          </div>
         </div>
       </CardHeader>
       <CardContent>
@@ -341,6 +495,8 @@ export function AreaManagementTable() {
               <TableHeader>
                 <TableRow>
                   <TableHead>Area Name</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Parent Area</TableHead>
                   <TableHead>ERP ID</TableHead>
                   <TableHead>Status</TableHead>
                   <TableHead>Created</TableHead>
@@ -350,15 +506,64 @@ export function AreaManagementTable() {
               <TableBody>
                 {paginatedAreas.map((area) => (
                   <TableRow key={area.id} className="hover:bg-gray-50">
+                    <TableCell>
+                      <div className="flex items-center" style={{ paddingLeft: `${area.depth * 1.25}rem` }}>
+                        {area.depth > 0 && <CornerDownRight className="h-3 w-3 mr-1 text-gray-400" />}
+                        {editingArea === area.id ? (
+                          <Input
+                            value={editForm.name}
+                            onChange={(e) => setEditForm({...editForm, name: e.target.value})}
+                            className="w-48"
+                          />
+                        ) : (
+                          <span className="font-medium">{area.name}</span>
+                        )}
+                      </div>
+                    </TableCell>
                     <TableCell>
                       {editingArea === area.id ? (
-                        <Input
-                          value={editForm.name}
-                          onChange={(e) => setEditForm({...editForm, name: e.target.value})}
-                          className="w-48"
-                        />
+                        <Select
+                          value={editForm.areaType}
+                          onValueChange={(value) => setEditForm({...editForm, areaType: value as AreaType})}
+                        >
+                          <SelectTrigger className="w-36">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {AREA_TYPES.map((type) => (
+                              <SelectItem key={type} value={type}>{AREA_TYPE_LABELS[type]}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
                       ) : (
-                        <span className="font-medium">{area.name}</span>
+                        <Badge variant="outline">{AREA_TYPE_LABELS[area.area_type || 'area']}</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {editingArea === area.id ? (
+                        <Select
+                          value={editForm.parentId}
+                          onValueChange={(value) => setEditForm({...editForm, parentId: value})}
+                        >
+                          <SelectTrigger className="w-44">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="none">No Parent (top level)</SelectItem>
+                            {/* An area cannot move under itself or its own sub-areas */}
+                            {treeAreas
+                              .filter((option) => !wouldCreateCycle(areas, area.id, option.id))
+                              .map((option) => (
+                                <SelectItem key={option.id} value={option.id.toString()}>
+                                  <span style={{ paddingLeft: `${option.depth * 0.75}rem` }}>{option.name}</span>
+                                </SelectItem>
+                              ))}
+                          </SelectContent>
+                        </Select>
+                      ) : (
+                        <span className="text-sm text-gray-600">
+                          {area.parent_id ? areaNames.get(area.parent_id) || `#${area.parent_id}` : '-'}
+                        </span>
                       )}
                     </TableCell>
                     <TableCell>
@@ -370,7 +575,12 @@ export function AreaManagementTable() {
                           className="w-32"
                         />
                       ) : (
-                        <span className="font-mono">{area.erp_id}</span>
+                        <span className="font-mono">
+                          {area.erp_id ?? '-'}
+                          {area.erp_warehouse_id != null && (
+                            <span className="block text-xs text-gray-500">WH {area.erp_warehouse_id}</span>
+                          )}
+                        </span>
                       )}
                     </TableCell>
                     <TableCell>
@@ -416,8 +626,12 @@ export function AreaManagementTable() {
                               <Edit className="h-4 w-4 mr-2" />
                               Edit
                             </DropdownMenuItem>
+                            <DropdownMenuItem onClick={() => handleAddSubArea(area)}>
+                              <Plus className="h-4 w-4 mr-2" />
+                              Add Sub-Area
+                            </DropdownMenuItem>
                             <DropdownMenuItem 
-                              onClick={() => handleToggleStatus(area.id, area.is_active)}
+                              onClick={() => handleToggleStatus(area)}
                               className={area.is_active ? "text-red-600" : "text-green-600"}
                             >
                               {area.is_active ? (
@@ -432,6 +646,12 @@ export function AreaManagementTable() {
                                 </>
                               )}
                             </DropdownMenuItem>
+                            {!area.is_active && restorableSnapshots.has(area.id) && (
+                              <DropdownMenuItem onClick={() => handleRollback(restorableSnapshots.get(area.id)!)}>
+                                <RotateCcw className="h-4 w-4 mr-2" />
+                                Roll Back Deactivation
+                              </DropdownMenuItem>
+                            )}
                           </DropdownMenuContent>
                         </DropdownMenu>
                       )}
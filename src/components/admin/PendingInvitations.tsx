@@ -0,0 +1,156 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { AlertCircle, Mail, XCircle } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import type { UserInvitation } from '@/lib/supabase';
+
+interface PendingInvitationsProps {
+  // Bumped by the parent after creating an invitation to reload the list
+  reloadKey: number;
+  // Area names by id, for display
+  areaNames: Map<number, string>;
+}
+
+export function PendingInvitations({ reloadKey, areaNames }: PendingInvitationsProps) {
+  const { toast } = useToast();
+  const [invitations, setInvitations] = useState<UserInvitation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [revokingId, setRevokingId] = useState<number | null>(null);
+
+  const fetchInvitations = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await fetch('/api/admin/invitations?status=pending');
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to load invitations');
+      }
+
+      setInvitations(result.data);
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching invitations:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load invitations');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchInvitations();
+  }, [fetchInvitations, reloadKey]);
+
+  const handleRevoke = async (invitation: UserInvitation) => {
+    try {
+      setRevokingId(invitation.id);
+      const response = await fetch('/api/admin/invitations', {
+        method: 'DELETE',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ id: invitation.id }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to revoke invitation');
+      }
+
+      setInvitations(invitations.filter(i => i.id !== invitation.id));
+      toast({
+        title: "Success",
+        description: `Invitation for ${invitation.username} revoked`,
+      });
+    } catch (err) {
+      console.error('Error revoking invitation:', err);
+      toast({
+        title: "Error",
+        description: err instanceof Error ? err.message : 'Failed to revoke invitation',
+        variant: "destructive",
+      });
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <h3 className="flex items-center text-sm font-medium">
+        <Mail className="h-4 w-4 mr-2" />
+        Pending Invitations
+      </h3>
+      {loading ? (
+        <div className="space-y-2">
+          {[1, 2].map((i) => (
+            <Skeleton key={i} className="h-10 w-full" />
+          ))}
+        </div>
+      ) : error ? (
+        <div className="flex items-center text-sm text-red-600">
+          <AlertCircle className="h-4 w-4 mr-2" />
+          <span>{error}</span>
+        </div>
+      ) : invitations.length === 0 ? (
+        <p className="text-sm text-gray-500">No pending invitations.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Username</TableHead>
+              <TableHead>Email</TableHead>
+              <TableHead>Area</TableHead>
+              <TableHead>Expires</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {invitations.map((invitation) => {
+              const expired = new Date(invitation.expires_at) <= new Date();
+              return (
+                <TableRow key={invitation.id}>
+                  <TableCell>
+                    <div className="flex flex-col">
+                      <span className="font-medium">{invitation.username}</span>
+                      {invitation.full_name && (
+                        <span className="text-sm text-gray-500">{invitation.full_name}</span>
+                      )}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-sm">{invitation.email || '-'}</TableCell>
+                  <TableCell className="text-sm">
+                    {invitation.area_id ? areaNames.get(invitation.area_id) ?? `#${invitation.area_id}` : '-'}
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {expired ? (
+                      <Badge variant="secondary">Expired</Badge>
+                    ) : (
+                      new Date(invitation.expires_at).toLocaleDateString()
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleRevoke(invitation)}
+                      disabled={revokingId === invitation.id}
+                    >
+                      <XCircle className="h-4 w-4 mr-1" />
+                      {revokingId === invitation.id ? 'Revoking...' : 'Revoke'}
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+}
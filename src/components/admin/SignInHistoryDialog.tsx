@@ -0,0 +1,110 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { AlertCircle } from 'lucide-react';
+import type { SignInEventType, UserSignInEvent } from '@/lib/supabase';
+
+const EVENT_LABELS: Record<SignInEventType, { label: string; className: string }> = {
+  'session.created': { label: 'Signed in', className: 'bg-green-100 text-green-800' },
+  'session.ended': { label: 'Signed out', className: 'bg-gray-100 text-gray-800' },
+  'session.removed': { label: 'Session removed', className: 'bg-gray-100 text-gray-800' },
+  'session.revoked': { label: 'Session revoked', className: 'bg-yellow-100 text-yellow-800' },
+  'user.locked': { label: 'Locked', className: 'bg-red-100 text-red-800' },
+  'user.unlocked': { label: 'Unlocked', className: 'bg-blue-100 text-blue-800' },
+};
+
+interface SignInHistoryDialogProps {
+  // User whose history is shown; the dialog is closed when null
+  user: { id: string; full_name?: string; email: string } | null;
+  onClose: () => void;
+}
+
+export function SignInHistoryDialog({ user, onClose }: SignInHistoryDialogProps) {
+  const [events, setEvents] = useState<UserSignInEvent[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const fetchEvents = async () => {
+      try {
+        setLoading(true);
+        const response = await fetch(`/api/admin/users/sign-ins?userProfileId=${encodeURIComponent(user.id)}`);
+        const result = await response.json();
+
+        if (!response.ok) {
+          throw new Error(result.error || 'Failed to load sign-in history');
+        }
+
+        setEvents(result.data);
+        setError(null);
+      } catch (err) {
+        console.error('Error fetching sign-in history:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load sign-in history');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchEvents();
+  }, [user]);
+
+  return (
+    <Dialog open={user !== null} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Sign-in History: {user?.full_name || user?.email}</DialogTitle>
+        </DialogHeader>
+        {loading ? (
+          <div className="space-y-2">
+            {[1, 2, 3].map((i) => (
+              <Skeleton key={i} className="h-10 w-full" />
+            ))}
+          </div>
+        ) : error ? (
+          <div className="flex items-center text-sm text-red-600">
+            <AlertCircle className="h-4 w-4 mr-2" />
+            <span>{error}</span>
+          </div>
+        ) : events.length === 0 ? (
+          <p className="text-center py-6 text-gray-500">No sign-ins recorded.</p>
+        ) : (
+          <div className="max-h-96 overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>When</TableHead>
+                  <TableHead>Event</TableHead>
+                  <TableHead>Device</TableHead>
+                  <TableHead>Location</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {events.map((event) => (
+                  <TableRow key={event.id}>
+                    <TableCell className="text-sm">{new Date(event.occurred_at).toLocaleString()}</TableCell>
+                    <TableCell>
+                      <Badge className={EVENT_LABELS[event.event_type].className}>
+                        {EVENT_LABELS[event.event_type].label}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-sm">{event.device || '-'}</TableCell>
+                    <TableCell className="text-sm">
+                      {event.location || '-'}
+                      {event.ip_address && <span className="block text-xs text-gray-500">{event.ip_address}</span>}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,272 @@
+'use client';
+
+import { useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Download } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { toCsv } from '@/lib/csv';
+import { useRoles } from '@/hooks/useRoles';
+import type { UserImportOutcome, UserImportRow } from '@/lib/user-import';
+
+interface UserImportDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onImported?: () => void;
+  // Area labels by id, for the preview
+  areaNames: Map<number, string>;
+}
+
+export function UserImportDialog({ open, onClose, onImported, areaNames }: UserImportDialogProps) {
+  const { toast } = useToast();
+  const { getRoleLabel } = useRoles();
+  const [csv, setCsv] = useState<string | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [rows, setRows] = useState<UserImportRow[] | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+  const [importing, setImporting] = useState(false);
+  // Outcome of the import, shown in place of the preview
+  const [outcomes, setOutcomes] = useState<UserImportOutcome[] | null>(null);
+
+  const errorCount = rows?.filter(row => row.errors.length > 0).length ?? 0;
+
+  const postImport = async (content: string, dryRun: boolean) => {
+    const response = await fetch('/api/admin/users/import', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ csv: content, dryRun }),
+    });
+    const result = await response.json();
+
+    // A 422 carries the rows that failed validation
+    if (!response.ok && !(response.status === 422 && result.data)) {
+      throw new Error(result.error || 'Failed to import users');
+    }
+    return { ok: response.ok, result };
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    setRows(null);
+    setOutcomes(null);
+    if (!file) {
+      setCsv(null);
+      return;
+    }
+
+    const content = await file.text();
+    setCsv(content);
+    setFileName(file.name);
+
+    try {
+      setPreviewing(true);
+      const { result } = await postImport(content, true);
+      setRows(result.data);
+    } catch (err) {
+      console.error('Error previewing user import:', err);
+      toast({
+        title: "Error",
+        description: err instanceof Error ? err.message : 'Failed to read CSV',
+        variant: "destructive",
+      });
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!csv) return;
+
+    try {
+      setImporting(true);
+      const { ok, result } = await postImport(csv, false);
+
+      if (!ok) {
+        // Something changed since the preview, e.g. a username was taken
+        setRows(result.data);
+        throw new Error(result.error);
+      }
+
+      setOutcomes(result.data);
+      toast({
+        title: result.summary.failed > 0 ? "Imported with errors" : "Success",
+        description: result.message,
+        variant: result.summary.failed > 0 ? "destructive" : "default",
+      });
+    } catch (err) {
+      console.error('Error importing users:', err);
+      toast({
+        title: "Error",
+        description: err instanceof Error ? err.message : 'Failed to import users',
+        variant: "destructive",
+      });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleDownloadReport = () => {
+    if (!outcomes) return;
+
+    const report = toCsv([
+      ['line', 'username', 'status', 'invite_url', 'email_sent', 'error'],
+      ...outcomes.map(outcome => [
+        outcome.line,
+        outcome.username,
+        outcome.status,
+        outcome.inviteUrl,
+        outcome.emailSent,
+        outcome.error,
+      ]),
+    ]);
+    const url = URL.createObjectURL(new Blob([report], { type: 'text/csv;charset=utf-8' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `user-import-report-${new Date().toISOString().slice(0, 10)}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // The table is refreshed on close; refreshing earlier would unmount the outcome
+  const handleClose = () => {
+    if (outcomes) {
+      onImported?.();
+    }
+    setCsv(null);
+    setFileName('');
+    setRows(null);
+    setOutcomes(null);
+    onClose();
+  };
+
+  const areaLabel = (areaId: number | null) => (areaId ? areaNames.get(areaId) ?? `#${areaId}` : '-');
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && handleClose()}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Import Users from CSV</DialogTitle>
+        </DialogHeader>
+        {outcomes ? (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              {outcomes.filter(o => o.status === 'created').length} of {outcomes.length} users created. Each user
+              chooses a password through their invite link; the links are in the report and are not shown again.
+            </p>
+            <div className="max-h-96 overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Line</TableHead>
+                    <TableHead>Username</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Details</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {outcomes.map((outcome) => (
+                    <TableRow key={outcome.line}>
+                      <TableCell className="text-sm">{outcome.line}</TableCell>
+                      <TableCell className="text-sm">{outcome.username}</TableCell>
+                      <TableCell>
+                        <Badge className={outcome.status === 'created' ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}>
+                          {outcome.status === 'created' ? 'Created' : 'Failed'}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-xs text-gray-500">
+                        {outcome.error || (outcome.emailSent ? 'Invitation emailed' : 'Share the invite link from the report')}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+            <div className="flex justify-end space-x-2">
+              <Button variant="outline" onClick={handleDownloadReport}>
+                <Download className="h-4 w-4 mr-2" />
+                Download Report
+              </Button>
+              <Button onClick={handleClose}>Close</Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="user-import-file">CSV File</Label>
+              <Input id="user-import-file" type="file" accept=".csv,text/csv" onChange={handleFileChange} />
+              <p className="text-xs text-gray-500">
+                Columns: username, email, full_name, role, primary_area_erp_id, mapped_area_erp_ids (separated by
+                &quot;;&quot;). Use &quot;Export CSV&quot; for a file in this format.
+              </p>
+            </div>
+            {previewing && <p className="text-sm text-gray-500">Validating {fileName}...</p>}
+            {rows && (
+              <>
+                <p className={`text-sm ${errorCount > 0 ? 'text-red-600' : 'text-gray-600'}`}>
+                  {rows.length} rows, {errorCount} with errors.
+                  {errorCount > 0 && ' Fix them in the file and select it again.'}
+                </p>
+                <p className="text-xs text-gray-500">
+                  Users are created one row at a time, not as a single batch. A row that fails is rolled back on its
+                  own and the remaining rows are still imported; the result lists each row&apos;s outcome.
+                </p>
+                <div className="max-h-96 overflow-y-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Line</TableHead>
+                        <TableHead>Username</TableHead>
+                        <TableHead>Email</TableHead>
+                        <TableHead>Role</TableHead>
+                        <TableHead>Areas</TableHead>
+                        <TableHead>Errors</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {rows.map((row) => (
+                        <TableRow key={row.line} className={row.errors.length > 0 ? 'bg-red-50' : ''}>
+                          <TableCell className="text-sm">{row.line}</TableCell>
+                          <TableCell className="text-sm">
+                            <div className="flex flex-col">
+                              <span>{row.username || '-'}</span>
+                              {row.fullName && <span className="text-xs text-gray-500">{row.fullName}</span>}
+                            </div>
+                          </TableCell>
+                          <TableCell className="text-sm">{row.email || '-'}</TableCell>
+                          <TableCell className="text-sm">{getRoleLabel(row.role)}</TableCell>
+                          <TableCell className="text-sm">
+                            {areaLabel(row.primaryAreaId)}
+                            {row.mappedAreaIds.length > 0 && (
+                              <span className="block text-xs text-gray-500">
+                                + {row.mappedAreaIds.map(areaLabel).join(', ')}
+                              </span>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-xs text-red-600">{row.errors.join('; ')}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </>
+            )}
+            <div className="flex justify-end space-x-2">
+              <Button variant="outline" onClick={handleClose} disabled={importing}>
+                Cancel
+              </Button>
+              <Button onClick={handleImport} disabled={!rows || errorCount > 0 || importing || previewing}>
+                {importing ? 'Importing...' : `Import ${rows?.length ?? 0} Users`}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect, useMemo } from 'react';
+import { useState, useEffect, useMemo, useCallback } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Button } from '@/components/ui/button';
@@ -12,8 +12,14 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Pagination } from '@/components/ui/pagination';
-import { AlertCircle, Users, Edit, Save, X, Plus, MoreHorizontal, Eye, EyeOff, UserPlus, MapPin, RefreshCw } from 'lucide-react';
+import { AlertCircle, Users, Edit, Save, X, Plus, MoreHorizontal, Eye, EyeOff, UserPlus, MapPin, RefreshCw, Copy, Upload, Download, History } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { invalidatePermissions, usePermissions } from '@/hooks/usePermission';
+import { useRoles } from '@/hooks/useRoles';
+import { PendingInvitations } from './PendingInvitations';
+import { ArchivedUsers } from './ArchivedUsers';
+import { UserImportDialog } from './UserImportDialog';
+import { SignInHistoryDialog } from './SignInHistoryDialog';
 
 interface UserProfile {
   id: string;
@@ -23,6 +29,7 @@ interface UserProfile {
   role: string;
   area_id?: number;
   is_active: boolean;
+  last_login_at?: string | null;
   master_areas?: {
     id: number;
     name: string;
@@ -50,12 +57,6 @@ interface UserAreaMapping {
   };
 }
 
-const ROLES = [
-  { value: 'superadmin', label: 'Super Admin' },
-  { value: 'area sales manager', label: 'Area Sales Manager' },
-  { value: 'area sales supervisor', label: 'Area Sales Supervisor' }
-];
-
 function getRoleBadgeColor(role: string) {
   switch (role) {
     case 'superadmin': return 'bg-purple-100 text-purple-800';
@@ -73,19 +74,32 @@ export function UserManagementTable() {
   const [refreshing, setRefreshing] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [editingUser, setEditingUser] = useState<string | null>(null);
-  const [editForm, setEditForm] = useState<{role: string, areaId: number | null}>({role: '', areaId: null});
+  const [editForm, setEditForm] = useState<{role: string, areaId: number | null, reason: string}>({role: '', areaId: null, reason: ''});
   const [saving, setSaving] = useState(false);
   const [showAddDialog, setShowAddDialog] = useState(false);
   const [addForm, setAddForm] = useState<{username: string, email: string, fullName: string, areaId: number | null}>({username: '', email: '', fullName: '', areaId: null});
   const [adding, setAdding] = useState(false);
+  // Invite link of the invitation just created; shown once in the add dialog
+  const [inviteResult, setInviteResult] = useState<{username: string, inviteUrl: string, emailSent: boolean} | null>(null);
+  const [invitationsVersion, setInvitationsVersion] = useState(0);
+  const [archivedVersion, setArchivedVersion] = useState(0);
+  const [showImportDialog, setShowImportDialog] = useState(false);
   const [showAreasDialog, setShowAreasDialog] = useState(false);
   const [selectedUserId, setSelectedUserId] = useState<string | null>(null);
   const [managingAreas, setManagingAreas] = useState(false);
   const [currentPage, setCurrentPage] = useState(1);
   const [pageSize, setPageSize] = useState(5);
+  // Only users who have not signed in for this many days; empty shows everyone
+  const [inactiveDays, setInactiveDays] = useState('');
+  const [historyUser, setHistoryUser] = useState<UserProfile | null>(null);
   const { toast } = useToast();
+  const { can, loading: permissionsLoading } = usePermissions();
+  const { roles, getRoleLabel } = useRoles();
+  // Without users.manage the user only manages supervisors in their own areas
+  const manageAllUsers = can('users.manage');
+  const canAssignRoles = can('roles.assign');
 
-  const fetchData = async (isRefresh = false) => {
+  const fetchData = useCallback(async (isRefresh = false) => {
     try {
       if (isRefresh) {
         setRefreshing(true);
@@ -93,9 +107,11 @@ export function UserManagementTable() {
         setLoading(true);
       }
       
+      // Admins without areas.manage can only assign the active areas in their own scope
+      const allAreas = can('areas.manage');
       const [usersResponse, areasResponse] = await Promise.all([
         fetch('/api/admin/users'),
-        fetch('/api/admin/areas')
+        fetch(allAreas ? '/api/admin/areas' : '/api/auth/areas')
       ]);
       
       if (!usersResponse.ok || !areasResponse.ok) {
@@ -108,7 +124,9 @@ export function UserManagementTable() {
       ]);
       
       setUsers(usersResult.data);
-      setAreas(areasResult.data);
+      setAreas(allAreas
+        ? areasResult.data
+        : areasResult.data.areas.map((area: Omit<Area, 'is_active'>) => ({ ...area, is_active: true })));
       
       // Fetch user-area mappings for all users
       const mappingsPromises = usersResult.data.map(async (user: UserProfile) => {
@@ -135,48 +153,89 @@ export function UserManagementTable() {
       setLoading(false);
       setRefreshing(false);
     }
-  };
+  }, [can]);
 
   useEffect(() => {
-    fetchData();
-  }, []);
+    if (!permissionsLoading) {
+      fetchData();
+    }
+  }, [permissionsLoading, fetchData]);
 
   const handleRefresh = () => {
     fetchData(true);
+    setArchivedVersion(version => version + 1);
   };
 
   const handleEdit = (user: UserProfile) => {
     setEditingUser(user.id);
     setEditForm({
       role: user.role,
-      areaId: user.area_id || null
+      areaId: user.area_id || null,
+      reason: ''
     });
   };
 
-  const handleSave = async (userId: string) => {
+  const handleSave = async (user: UserProfile) => {
+    const roleChanged = editForm.role !== user.role;
+    const areaChanged = editForm.areaId !== (user.area_id || null);
+
+    if (roleChanged && !editForm.reason.trim()) {
+      toast({
+        title: "Error",
+        description: "A reason is required to change the role",
+        variant: "destructive",
+      });
+      return;
+    }
+
     try {
       setSaving(true);
-      const response = await fetch('/api/admin/users', {
-        method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          userProfileId: userId,
-          role: editForm.role,
-          areaId: editForm.areaId
-        }),
-      });
+      let updated: UserProfile = user;
 
-      if (!response.ok) {
-        throw new Error('Failed to update user');
+      // Role changes are audited separately and need a reason
+      if (roleChanged) {
+        const response = await fetch('/api/admin/force-role-change', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            clerkUserId: user.clerk_user_id,
+            newRole: editForm.role,
+            reason: editForm.reason.trim()
+          }),
+        });
+
+        const result = await response.json();
+        if (!response.ok) {
+          throw new Error(result.error || 'Failed to change role');
+        }
+        updated = result.data;
+        // The change may be to the signed-in user's own role
+        invalidatePermissions();
+      }
+
+      if (areaChanged) {
+        const response = await fetch(`/api/admin/users?clerkUserId=${encodeURIComponent(user.clerk_user_id)}`, {
+          method: 'PUT',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            area_id: editForm.areaId
+          }),
+        });
+
+        const result = await response.json();
+        if (!response.ok) {
+          throw new Error(result.error || 'Failed to update user');
+        }
+        updated = result.data;
       }
 
-      const result = await response.json();
-      
       // Update the local state
-      setUsers(users.map(user => 
-        user.id === userId ? result.data : user
+      setUsers(users.map(u => 
+        u.id === user.id ? updated : u
       ));
       
       setEditingUser(null);
@@ -198,7 +257,7 @@ export function UserManagementTable() {
 
   const handleCancel = () => {
     setEditingUser(null);
-    setEditForm({role: '', areaId: null});
+    setEditForm({role: '', areaId: null, reason: ''});
   };
 
   const handleAddUser = async () => {
@@ -211,9 +270,18 @@ export function UserManagementTable() {
       return;
     }
 
+    if (!manageAllUsers && !addForm.areaId) {
+      toast({
+        title: "Error",
+        description: "Area is required",
+        variant: "destructive",
+      });
+      return;
+    }
+
     try {
       setAdding(true);
-      const response = await fetch('/api/admin/create-user', {
+      const response = await fetch('/api/admin/invitations', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -228,26 +296,25 @@ export function UserManagementTable() {
 
       if (!response.ok) {
         const errorData = await response.json();
-        throw new Error(errorData.error || 'Failed to create user');
+        throw new Error(errorData.error || 'Failed to invite user');
       }
 
       const result = await response.json();
-      
-      // Add to local state
-      setUsers([result.data, ...users]);
-      
-      setShowAddDialog(false);
+
+      // The user appears in the table once they accept the invitation
+      setInviteResult({ username: result.data.username, inviteUrl: result.inviteUrl, emailSent: result.emailSent });
       setAddForm({username: '', email: '', fullName: '', areaId: null});
+      setInvitationsVersion(version => version + 1);
       
       toast({
         title: "Success",
-        description: `User created successfully. Temporary password: ${result.tempPassword}`,
+        description: result.message,
       });
     } catch (err) {
-      console.error('Error creating user:', err);
+      console.error('Error inviting user:', err);
       toast({
         title: "Error",
-        description: err instanceof Error ? err.message : 'Failed to create user',
+        description: err instanceof Error ? err.message : 'Failed to invite user',
         variant: "destructive",
       });
     } finally {
@@ -255,6 +322,28 @@ export function UserManagementTable() {
     }
   };
 
+  const handleCopyInviteUrl = async () => {
+    if (!inviteResult) return;
+
+    try {
+      await navigator.clipboard.writeText(inviteResult.inviteUrl);
+      toast({
+        title: "Copied",
+        description: "Invite link copied to clipboard",
+      });
+    } catch (err) {
+      console.error('Error copying invite link:', err);
+    }
+  };
+
+  const handleAddDialogChange = (open: boolean) => {
+    setShowAddDialog(open);
+    if (!open) {
+      setInviteResult(null);
+      setAddForm({username: '', email: '', fullName: '', areaId: null});
+    }
+  };
+
   const handleToggleUserStatus = async (userId: string, currentStatus: boolean) => {
     try {
       const response = await fetch('/api/admin/users', {
@@ -388,14 +477,31 @@ export function UserManagementTable() {
     }
   };
 
+  // Users who never signed in count as inactive
+  const filteredUsers = useMemo(() => {
+    const days = parseInt(inactiveDays);
+    if (!days || days < 1) return users;
+
+    const cutoff = Date.now() - days * 24 * 60 * 60 * 1000;
+    return users.filter(user => !user.last_login_at || new Date(user.last_login_at).getTime() < cutoff);
+  }, [users, inactiveDays]);
+
   // Pagination logic
   const paginatedUsers = useMemo(() => {
     const startIndex = (currentPage - 1) * pageSize;
     const endIndex = startIndex + pageSize;
-    return users.slice(startIndex, endIndex);
-  }, [users, currentPage, pageSize]);
+    return filteredUsers.slice(startIndex, endIndex);
+  }, [filteredUsers, currentPage, pageSize]);
+
+  const areaNames = useMemo(() => new Map(areas.map(area => [area.id, area.name])), [areas]);
+
+  const totalPages = Math.ceil(filteredUsers.length / pageSize);
 
-  const totalPages = Math.ceil(users.length / pageSize);
+  const handleInactiveDaysChange = (value: string) => {
+    setInactiveDays(value);
+    setCurrentPage(1);
+    setEditingUser(null);
+  };
 
   const handlePageChange = (page: number) => {
     setCurrentPage(page);
@@ -465,17 +571,48 @@ export function UserManagementTable() {
               <RefreshCw className={`h-4 w-4 mr-2 ${refreshing ? 'animate-spin' : ''}`} />
               {refreshing ? 'Refreshing...' : 'Refresh'}
             </Button>
-            <Dialog open={showAddDialog} onOpenChange={setShowAddDialog}>
+            <Button variant="outline" size="sm" asChild>
+              <a href="/api/admin/users/export" download>
+                <Download className="h-4 w-4 mr-2" />
+                Export CSV
+              </a>
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setShowImportDialog(true)}>
+              <Upload className="h-4 w-4 mr-2" />
+              Import CSV
+            </Button>
+            <Dialog open={showAddDialog} onOpenChange={handleAddDialogChange}>
             <DialogTrigger asChild>
               <Button>
                 <UserPlus className="h-4 w-4 mr-2" />
-                Add User
+                Invite User
               </Button>
             </DialogTrigger>
             <DialogContent>
               <DialogHeader>
-                <DialogTitle>Add New User</DialogTitle>
+                <DialogTitle>Invite New User</DialogTitle>
               </DialogHeader>
+              {inviteResult ? (
+              <div className="space-y-4">
+                <p className="text-sm text-gray-600">
+                  {inviteResult.emailSent
+                    ? `The invitation for ${inviteResult.username} was emailed. You can also share this link:`
+                    : `Share this link with ${inviteResult.username} so they can choose a password:`}
+                </p>
+                <div className="flex space-x-2">
+                  <Input value={inviteResult.inviteUrl} readOnly onFocus={(e) => e.target.select()} />
+                  <Button variant="outline" onClick={handleCopyInviteUrl}>
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                </div>
+                <p className="text-xs text-gray-500">
+                  The link can be used once and is not shown again.
+                </p>
+                <div className="flex justify-end">
+                  <Button onClick={() => handleAddDialogChange(false)}>Done</Button>
+                </div>
+              </div>
+              ) : (
               <div className="space-y-4">
                 <div className="space-y-2">
                   <Label htmlFor="user-username">Username</Label>
@@ -506,7 +643,7 @@ export function UserManagementTable() {
                   />
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="user-area">Initial Area Assignment (optional)</Label>
+                  <Label htmlFor="user-area">Initial Area Assignment{manageAllUsers ? ' (optional)' : ''}</Label>
                   <Select 
                     value={addForm.areaId?.toString() || 'none'} 
                     onValueChange={(value) => setAddForm({...addForm, areaId: value === 'none' ? null : parseInt(value)})}
@@ -515,7 +652,7 @@ export function UserManagementTable() {
                       <SelectValue placeholder="Select area (optional)" />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="none">No Area</SelectItem>
+                      {manageAllUsers && <SelectItem value="none">No Area</SelectItem>}
                       {areas.filter(area => area.is_active).map((area) => (
                         <SelectItem key={area.id} value={area.id.toString()}>
                           {area.name} (ID: {area.erp_id})
@@ -527,26 +664,37 @@ export function UserManagementTable() {
                 <div className="flex justify-end space-x-2">
                   <Button
                     variant="outline"
-                    onClick={() => {
-                      setShowAddDialog(false);
-                      setAddForm({username: '', email: '', fullName: '', areaId: null});
-                    }}
+                    onClick={() => handleAddDialogChange(false)}
                     disabled={adding}
                   >
                     Cancel
                   </Button>
                   <Button onClick={handleAddUser} disabled={adding}>
-                    {adding ? 'Creating...' : 'Create User'}
+                    {adding ? 'Inviting...' : 'Send Invitation'}
                   </Button>
                 </div>
               </div>
+              )}
             </DialogContent>
             </Dialog>
           </div>
         </div>
       </CardHeader>
       <CardContent>
-        {users.length === 0 ? (
+        <div className="flex items-center space-x-2 mb-4">
+          <Label htmlFor="inactive-days" className="text-sm whitespace-nowrap">Inactive for at least</Label>
+          <Input
+            id="inactive-days"
+            type="number"
+            min={1}
+            value={inactiveDays}
+            onChange={(e) => handleInactiveDaysChange(e.target.value)}
+            placeholder="Any"
+            className="w-24"
+          />
+          <span className="text-sm text-gray-500">days</span>
+        </div>
+        {filteredUsers.length === 0 ? (
           <div className="text-center py-8 text-gray-500">
             <Users className="h-12 w-12 mx-auto mb-4 text-gray-400" />
             <p className="text-lg font-medium">No users found</p>
@@ -559,6 +707,7 @@ export function UserManagementTable() {
                   <TableHead>User</TableHead>
                   <TableHead>Role</TableHead>
                   <TableHead>Status</TableHead>
+                  <TableHead>Last Login</TableHead>
                   <TableHead>Area Assignments</TableHead>
                   <TableHead className="text-right">Actions</TableHead>
                 </TableRow>
@@ -573,22 +722,33 @@ export function UserManagementTable() {
                       </div>
                     </TableCell>
                     <TableCell>
-                      {editingUser === user.id ? (
-                        <Select value={editForm.role} onValueChange={(value) => setEditForm({...editForm, role: value})}>
-                          <SelectTrigger className="w-48">
-                            <SelectValue />
-                          </SelectTrigger>
-                          <SelectContent>
-                            {ROLES.map((role) => (
-                              <SelectItem key={role.value} value={role.value}>
-                                {role.label}
-                              </SelectItem>
-                            ))}
-                          </SelectContent>
-                        </Select>
+                      {editingUser === user.id && canAssignRoles ? (
+                        <div className="space-y-2">
+                          <Select value={editForm.role} onValueChange={(value) => setEditForm({...editForm, role: value})}>
+                            <SelectTrigger className="w-48">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {roles.map((role) => (
+                                <SelectItem key={role.name} value={role.name}>
+                                  {role.label}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          {editForm.role !== user.role && (
+                            <Input
+                              className="w-48"
+                              value={editForm.reason}
+                              onChange={(e) => setEditForm({...editForm, reason: e.target.value})}
+                              placeholder="Reason for role change"
+                              maxLength={500}
+                            />
+                          )}
+                        </div>
                       ) : (
                         <Badge className={getRoleBadgeColor(user.role)}>
-                          {ROLES.find(r => r.value === user.role)?.label || user.role}
+                          {getRoleLabel(user.role)}
                         </Badge>
                       )}
                     </TableCell>
@@ -597,6 +757,11 @@ export function UserManagementTable() {
                         {user.is_active ? "Active" : "Inactive"}
                       </Badge>
                     </TableCell>
+                    <TableCell className="text-sm">
+                      {user.last_login_at ? new Date(user.last_login_at).toLocaleString() : (
+                        <span className="text-gray-500">Never</span>
+                      )}
+                    </TableCell>
                     <TableCell>
                       {editingUser === user.id ? (
                         <Select 
@@ -648,7 +813,7 @@ export function UserManagementTable() {
                         <div className="flex justify-end space-x-2">
                           <Button
                             size="sm"
-                            onClick={() => handleSave(user.id)}
+                            onClick={() => handleSave(user)}
                             disabled={saving}
                           >
                             <Save className="h-4 w-4 mr-1" />
@@ -680,6 +845,10 @@ export function UserManagementTable() {
                               <MapPin className="h-4 w-4 mr-2" />
                               Manage Areas
                             </DropdownMenuItem>
+                            <DropdownMenuItem onClick={() => setHistoryUser(user)}>
+                              <History className="h-4 w-4 mr-2" />
+                              Sign-in History
+                            </DropdownMenuItem>
                             <DropdownMenuItem 
                               onClick={() => handleToggleUserStatus(user.id, user.is_active)}
                               className={user.is_active ? "text-red-600" : "text-green-600"}
@@ -707,12 +876,12 @@ export function UserManagementTable() {
           </div>
         )}
         
-        {users.length > 0 && (
+        {filteredUsers.length > 0 && (
           <Pagination
             currentPage={currentPage}
             totalPages={totalPages}
             pageSize={pageSize}
-            totalItems={users.length}
+            totalItems={filteredUsers.length}
             onPageChange={handlePageChange}
             onPageSizeChange={handlePageSizeChange}
             pageSizeOptions={[5, 10, 15]}
@@ -844,6 +1013,28 @@ export function UserManagementTable() {
           </div>
         </DialogContent>
       </Dialog>
+
+      <UserImportDialog
+        open={showImportDialog}
+        onClose={() => setShowImportDialog(false)}
+        onImported={() => {
+          fetchData(true);
+          setInvitationsVersion(version => version + 1);
+        }}
+        areaNames={areaNames}
+      />
+
+      <SignInHistoryDialog user={historyUser} onClose={() => setHistoryUser(null)} />
+
+      <CardContent className="border-t pt-6">
+        <PendingInvitations reloadKey={invitationsVersion} areaNames={areaNames} />
+      </CardContent>
+
+      {manageAllUsers && (
+        <CardContent className="border-t pt-6">
+          <ArchivedUsers reloadKey={archivedVersion} areaNames={areaNames} onRestored={() => fetchData(true)} />
+        </CardContent>
+      )}
     </Card>
   );
 }
\ No newline at end of file
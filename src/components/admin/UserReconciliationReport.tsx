@@ -0,0 +1,245 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { AlertCircle, CheckCircle, GitCompare, RefreshCw, Wrench } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import type { UserDriftItem, UserDriftKind, UserReconciliationRun } from '@/lib/supabase';
+
+const DRIFT_LABELS: Record<UserDriftKind, string> = {
+  clerk_only: 'Missing profile',
+  profile_only: 'Orphaned profile',
+  email_mismatch: 'Email differs',
+  name_mismatch: 'Name differs',
+  lock_mismatch: 'Lock state differs',
+};
+
+const FIX_LABELS: Record<UserDriftKind, string> = {
+  clerk_only: 'Create profile',
+  profile_only: 'Archive profile',
+  email_mismatch: 'Use Clerk email',
+  name_mismatch: 'Use Clerk name',
+  lock_mismatch: 'Apply status to Clerk',
+};
+
+export function UserReconciliationReport() {
+  const { toast } = useToast();
+  const [run, setRun] = useState<UserReconciliationRun | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [running, setRunning] = useState(false);
+  const [fixingKey, setFixingKey] = useState<string | null>(null);
+  const [showResolved, setShowResolved] = useState(false);
+
+  const fetchRun = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await fetch('/api/admin/user-reconciliation');
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to load reconciliation report');
+      }
+
+      setRun(result.data);
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching reconciliation report:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load reconciliation report');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchRun();
+  }, [fetchRun]);
+
+  const handleRun = async () => {
+    try {
+      setRunning(true);
+      const response = await fetch('/api/admin/user-reconciliation', { method: 'POST' });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to run reconciliation');
+      }
+
+      setRun(result.data);
+      toast({
+        title: "Success",
+        description: result.message,
+      });
+    } catch (err) {
+      console.error('Error running reconciliation:', err);
+      toast({
+        title: "Error",
+        description: err instanceof Error ? err.message : 'Failed to run reconciliation',
+        variant: "destructive",
+      });
+      // The failed run is stored with its error
+      fetchRun();
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const handleFix = async (item: UserDriftItem) => {
+    if (!run) return;
+
+    if (item.kind === 'profile_only' && !confirm(`Archive the profile of ${item.label}? Their personal data is cleared.`)) {
+      return;
+    }
+
+    try {
+      setFixingKey(item.key);
+      const response = await fetch('/api/admin/user-reconciliation/fix', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ runId: run.id, key: item.key }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to apply fix');
+      }
+
+      setRun({
+        ...run,
+        items: run.items.map(current => current.key === item.key ? result.data : current),
+      });
+      toast({
+        title: "Success",
+        description: `${result.message} for ${item.label}`,
+      });
+    } catch (err) {
+      console.error('Error applying reconciliation fix:', err);
+      toast({
+        title: "Error",
+        description: err instanceof Error ? err.message : 'Failed to apply fix',
+        variant: "destructive",
+      });
+    } finally {
+      setFixingKey(null);
+    }
+  };
+
+  const openItems = run?.items.filter(item => !item.resolvedAt) ?? [];
+  const visibleItems = showResolved ? run?.items ?? [] : openItems;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center">
+            <GitCompare className="h-5 w-5 mr-2" />
+            Clerk / Supabase Drift
+          </CardTitle>
+          <div className="flex items-center space-x-2">
+            {run && run.items.length > openItems.length && (
+              <Button variant="outline" size="sm" onClick={() => setShowResolved(!showResolved)}>
+                {showResolved ? 'Hide Resolved' : 'Show Resolved'}
+              </Button>
+            )}
+            <Button onClick={handleRun} disabled={running || loading}>
+              <RefreshCw className={`h-4 w-4 mr-2 ${running ? 'animate-spin' : ''}`} />
+              {running ? 'Comparing...' : 'Run Now'}
+            </Button>
+          </div>
+        </div>
+        {run && (
+          <p className="text-sm text-gray-500">
+            Run #{run.id} started {new Date(run.started_at).toLocaleString()}
+            {run.status === 'completed' && ` — ${run.clerk_user_count} Clerk users, ${run.profile_count} profiles, ${openItems.length} open differences`}
+            {run.status === 'running' && ' — still running'}
+          </p>
+        )}
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="space-y-2">
+            {[1, 2, 3].map((i) => (
+              <Skeleton key={i} className="h-10 w-full" />
+            ))}
+          </div>
+        ) : error ? (
+          <div className="flex items-center justify-center p-6 text-red-600">
+            <AlertCircle className="h-5 w-5 mr-2" />
+            <span>{error}</span>
+          </div>
+        ) : !run ? (
+          <p className="text-center p-6 text-gray-500">No reconciliation has been run yet.</p>
+        ) : run.status === 'failed' ? (
+          <div className="flex items-center justify-center p-6 text-red-600">
+            <AlertCircle className="h-5 w-5 mr-2" />
+            <span>The run failed: {run.error}</span>
+          </div>
+        ) : visibleItems.length === 0 ? (
+          <div className="text-center p-6 text-gray-500">
+            <CheckCircle className="h-12 w-12 mx-auto mb-4 text-green-500" />
+            <p className="text-lg font-medium">Clerk and Supabase users are in sync</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>User</TableHead>
+                  <TableHead>Difference</TableHead>
+                  <TableHead>Clerk</TableHead>
+                  <TableHead>Supabase</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visibleItems.map((item) => (
+                  <TableRow key={item.key}>
+                    <TableCell>
+                      <div className="flex flex-col">
+                        <span className="font-medium">{item.label}</span>
+                        <span className="text-xs text-gray-500">{item.clerkUserId || item.userProfileId}</span>
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="secondary">{DRIFT_LABELS[item.kind]}</Badge>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {item.kind === 'profile_only' ? <span className="text-gray-400">No user</span> : item.clerkValue || '-'}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {item.kind === 'clerk_only' ? <span className="text-gray-400">No profile</span> : item.profileValue || '-'}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {item.resolvedAt ? (
+                        <Badge className="bg-green-100 text-green-800">
+                          {item.resolution === 'stale' ? 'Already in sync' : 'Fixed'}
+                        </Badge>
+                      ) : (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleFix(item)}
+                          disabled={fixingKey !== null}
+                          className={item.kind === 'profile_only' ? 'text-red-600' : ''}
+                        >
+                          <Wrench className="h-4 w-4 mr-1" />
+                          {fixingKey === item.key ? 'Fixing...' : FIX_LABELS[item.kind]}
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,199 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { AlertCircle, Eye, RefreshCw, RotateCcw, Webhook } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import type { WebhookEventRecord, WebhookEventStatus } from '@/lib/supabase';
+
+const STATUS_STYLES: Record<WebhookEventStatus, string> = {
+  pending: 'bg-gray-100 text-gray-800',
+  processing: 'bg-blue-100 text-blue-800',
+  processed: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+};
+
+export function WebhookEventsTable() {
+  const { toast } = useToast();
+  const [events, setEvents] = useState<WebhookEventRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [statusFilter, setStatusFilter] = useState<'all' | WebhookEventStatus>('failed');
+  const [replayingId, setReplayingId] = useState<number | null>(null);
+  const [viewingEvent, setViewingEvent] = useState<WebhookEventRecord | null>(null);
+
+  const fetchEvents = useCallback(async () => {
+    try {
+      setLoading(true);
+      const query = statusFilter === 'all' ? '' : `?status=${statusFilter}`;
+      const response = await fetch(`/api/admin/webhook-events${query}`);
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to load webhook events');
+      }
+
+      setEvents(result.data);
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching webhook events:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load webhook events');
+    } finally {
+      setLoading(false);
+    }
+  }, [statusFilter]);
+
+  useEffect(() => {
+    fetchEvents();
+  }, [fetchEvents]);
+
+  const handleReplay = async (event: WebhookEventRecord) => {
+    try {
+      setReplayingId(event.id);
+      const response = await fetch('/api/admin/webhook-events', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ id: event.id }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to replay webhook event');
+      }
+
+      setEvents(events.map(current => current.id === event.id ? result.data : current));
+      toast({
+        title: result.data.status === 'processed' ? "Success" : "Error",
+        description: result.message,
+        variant: result.data.status === 'processed' ? "default" : "destructive",
+      });
+    } catch (err) {
+      console.error('Error replaying webhook event:', err);
+      toast({
+        title: "Error",
+        description: err instanceof Error ? err.message : 'Failed to replay webhook event',
+        variant: "destructive",
+      });
+    } finally {
+      setReplayingId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center">
+            <Webhook className="h-5 w-5 mr-2" />
+            Clerk Webhook Events
+          </CardTitle>
+          <div className="flex items-center space-x-2">
+            <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as 'all' | WebhookEventStatus)}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All events</SelectItem>
+                <SelectItem value="failed">Failed</SelectItem>
+                <SelectItem value="pending">Pending</SelectItem>
+                <SelectItem value="processing">Processing</SelectItem>
+                <SelectItem value="processed">Processed</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button variant="outline" size="sm" onClick={fetchEvents} disabled={loading}>
+              <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+              Refresh
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="space-y-2">
+            {[1, 2, 3].map((i) => (
+              <Skeleton key={i} className="h-10 w-full" />
+            ))}
+          </div>
+        ) : error ? (
+          <div className="flex items-center justify-center p-6 text-red-600">
+            <AlertCircle className="h-5 w-5 mr-2" />
+            <span>{error}</span>
+          </div>
+        ) : events.length === 0 ? (
+          <p className="text-center p-6 text-gray-500">No webhook events found.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Received</TableHead>
+                  <TableHead>Event</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Attempts</TableHead>
+                  <TableHead>Error</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {events.map((event) => (
+                  <TableRow key={event.id}>
+                    <TableCell className="text-sm">{new Date(event.received_at).toLocaleString()}</TableCell>
+                    <TableCell>
+                      <div className="flex flex-col">
+                        <span className="font-medium">{event.event_type}</span>
+                        <span className="text-xs text-gray-500">{event.svix_id}</span>
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <Badge className={STATUS_STYLES[event.status]}>{event.status}</Badge>
+                    </TableCell>
+                    <TableCell className="text-sm">{event.attempts}</TableCell>
+                    <TableCell className="text-xs text-red-600 max-w-xs">{event.last_error || ''}</TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end space-x-2">
+                        <Button size="sm" variant="outline" onClick={() => setViewingEvent(event)}>
+                          <Eye className="h-4 w-4 mr-1" />
+                          Payload
+                        </Button>
+                        {(event.status === 'failed' || event.status === 'pending') && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleReplay(event)}
+                            disabled={replayingId !== null}
+                          >
+                            <RotateCcw className="h-4 w-4 mr-1" />
+                            {replayingId === event.id ? 'Replaying...' : 'Replay'}
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={viewingEvent !== null} onOpenChange={(isOpen) => !isOpen && setViewingEvent(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>{viewingEvent?.event_type} ({viewingEvent?.svix_id})</DialogTitle>
+          </DialogHeader>
+          <pre className="max-h-96 overflow-auto rounded bg-gray-50 p-4 text-xs">
+            {JSON.stringify(viewingEvent?.payload, null, 2)}
+          </pre>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
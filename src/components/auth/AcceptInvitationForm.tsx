@@ -0,0 +1,168 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { AlertCircle, CheckCircle } from 'lucide-react';
+
+interface AcceptInvitationFormProps {
+  token: string;
+}
+
+interface InvitationDetails {
+  username: string;
+  email?: string | null;
+  fullName?: string | null;
+  expiresAt: string;
+}
+
+export function AcceptInvitationForm({ token }: AcceptInvitationFormProps) {
+  const [invitation, setInvitation] = useState<InvitationDetails | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [accepted, setAccepted] = useState(false);
+
+  useEffect(() => {
+    const fetchInvitation = async () => {
+      if (!token) {
+        setError('This invitation link is incomplete');
+        setLoading(false);
+        return;
+      }
+
+      try {
+        const response = await fetch(`/api/invitations?token=${encodeURIComponent(token)}`);
+        const result = await response.json();
+
+        if (!response.ok) {
+          throw new Error(result.error || 'Failed to load invitation');
+        }
+
+        setInvitation(result.data);
+        setError(null);
+      } catch (err) {
+        console.error('Error loading invitation:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load invitation');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchInvitation();
+  }, [token]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (password !== confirmPassword) {
+      setFormError('Passwords do not match');
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      setFormError(null);
+      const response = await fetch('/api/invitations', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ token, password }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to accept invitation');
+      }
+
+      setAccepted(true);
+    } catch (err) {
+      console.error('Error accepting invitation:', err);
+      setFormError(err instanceof Error ? err.message : 'Failed to accept invitation');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Card className="max-w-md w-full">
+      <CardHeader>
+        <CardTitle>Set Up Your Account</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="space-y-2">
+            {[1, 2, 3].map((i) => (
+              <Skeleton key={i} className="h-10 w-full" />
+            ))}
+          </div>
+        ) : error ? (
+          <div className="flex items-center text-red-600">
+            <AlertCircle className="h-5 w-5 mr-2 shrink-0" />
+            <span>{error}. Ask your administrator for a new invitation.</span>
+          </div>
+        ) : accepted ? (
+          <div className="space-y-4 text-center">
+            <CheckCircle className="h-12 w-12 text-green-500 mx-auto" />
+            <p className="text-gray-600">
+              Your account is ready. Sign in with the username <span className="font-medium">{invitation?.username}</span> and
+              the password you just chose.
+            </p>
+            <Button asChild className="w-full">
+              <Link href="/">Go to Sign In</Link>
+            </Button>
+          </div>
+        ) : invitation && (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <p className="text-sm text-gray-600">
+              {invitation.fullName ? `Welcome, ${invitation.fullName}. ` : ''}Choose a password for your account.
+              This link expires on {new Date(invitation.expiresAt).toLocaleString()}.
+            </p>
+            <div className="space-y-2">
+              <Label htmlFor="invite-username">Username</Label>
+              <Input id="invite-username" value={invitation.username} disabled />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="invite-password">Password</Label>
+              <Input
+                id="invite-password"
+                type="password"
+                autoComplete="new-password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                minLength={8}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="invite-confirm-password">Confirm Password</Label>
+              <Input
+                id="invite-confirm-password"
+                type="password"
+                autoComplete="new-password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                minLength={8}
+                required
+              />
+            </div>
+            {formError && (
+              <p className="text-sm text-red-600">{formError}</p>
+            )}
+            <Button type="submit" className="w-full" disabled={submitting}>
+              {submitting ? 'Creating Account...' : 'Create Account'}
+            </Button>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,58 +1,24 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { useUser } from '@clerk/nextjs';
 import { Card, CardContent } from '@/components/ui/card';
 import { Skeleton } from '@/components/ui/skeleton';
 import { AlertCircle, Lock } from 'lucide-react';
+import { usePermissions } from '@/hooks/usePermission';
+import { useRoles } from '@/hooks/useRoles';
+import { Permission, PERMISSIONS } from '@/lib/permissions';
 
-interface RoleGuardProps {
+interface PermissionGuardProps {
   children: React.ReactNode;
-  allowedRoles: string[];
+  /** Required permission; with several, any one of them is enough */
+  permission: Permission | Permission[];
 }
 
-interface UserProfile {
-  id: string;
-  clerk_user_id: string;
-  email: string;
-  full_name?: string;
-  role: string;
-  area_id?: number;
-}
-
-export function RoleGuard({ children, allowedRoles }: RoleGuardProps) {
-  const { user, isLoaded } = useUser();
-  const [userProfile, setUserProfile] = useState<UserProfile | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-
-  useEffect(() => {
-    const fetchUserProfile = async () => {
-      if (!isLoaded || !user) return;
-
-      try {
-        setLoading(true);
-        const response = await fetch('/api/auth/profile');
-        
-        if (!response.ok) {
-          throw new Error('Failed to fetch user profile');
-        }
-        
-        const result = await response.json();
-        setUserProfile(result.data);
-        setError(null);
-      } catch (err) {
-        console.error('Error fetching user profile:', err);
-        setError(err instanceof Error ? err.message : 'Failed to load profile');
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    fetchUserProfile();
-  }, [isLoaded, user]);
+export function PermissionGuard({ children, permission }: PermissionGuardProps) {
+  const { role, loading, error, can } = usePermissions();
+  const { getRoleLabel } = useRoles();
+  const required = Array.isArray(permission) ? permission : [permission];
 
-  if (!isLoaded || loading) {
+  if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
         <div className="text-center space-y-4">
@@ -83,7 +49,7 @@ export function RoleGuard({ children, allowedRoles }: RoleGuardProps) {
     );
   }
 
-  if (!userProfile || !allowedRoles.includes(userProfile.role)) {
+  if (!can(permission)) {
     return (
       <div className="min-h-screen flex items-center justify-center p-4">
         <Card className="max-w-md w-full">
@@ -91,10 +57,11 @@ export function RoleGuard({ children, allowedRoles }: RoleGuardProps) {
             <Lock className="h-12 w-12 text-gray-400 mb-4" />
             <h2 className="text-lg font-semibold text-gray-900 mb-2">Access Restricted</h2>
             <p className="text-gray-600 mb-4">
-              You don&apos;t have permission to access this page. This area is restricted to {allowedRoles.join(', ')} users.
+              You don&apos;t have permission to access this page. It requires the{' '}
+              {required.map(p => `${p} permission (${PERMISSIONS[p].toLowerCase()})`).join(' or the ')}.
             </p>
             <p className="text-sm text-gray-500 mb-4">
-              Your current role: <span className="font-medium">{userProfile?.role || 'Unknown'}</span>
+              Your current role: <span className="font-medium">{role ? getRoleLabel(role) : 'Unknown'}</span>
             </p>
             <button 
               onClick={() => window.history.back()}
@@ -5,6 +5,19 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
 import { AlertCircle, Package, Box } from 'lucide-react';
+import { areaQuery, useAreaSelection } from '@/components/layout/AreaSelectionProvider';
+
+interface AreaOverview {
+  areaId: number;
+  areaName: string;
+  rawMaterials: number;
+  rawStock: number;
+  finishedGoods: number;
+  finishedStock: number;
+  lowStockItems: number;
+  parentId: number | null;
+  depth: number;
+}
 
 interface OverviewData {
   totalRawMaterials: number;
@@ -12,13 +25,18 @@ interface OverviewData {
   totalRawStock: number;
   totalFinishedStock: number;
   lowStockItems: number;
+  lowStockRawMaterials: number;
+  lowStockFinishedGoods: number;
   userRole: string;
+  allAreas: boolean;
   userAreaId?: number;
+  areas: AreaOverview[];
 }
 
-function getStockStatus(count: number) {
-  if (count === 0) return { status: 'critical', color: 'bg-red-100 text-red-800' };
-  if (count < 50) return { status: 'low', color: 'bg-yellow-100 text-yellow-800' };
+// Status of a category from how many of its items are at or below their reorder point
+function getStockStatus(totalItems: number, lowStockItems: number) {
+  if (totalItems > 0 && lowStockItems === totalItems) return { status: 'critical', color: 'bg-red-100 text-red-800' };
+  if (lowStockItems > 0) return { status: `${lowStockItems} low`, color: 'bg-yellow-100 text-yellow-800' };
   return { status: 'good', color: 'bg-green-100 text-green-800' };
 }
 
@@ -26,30 +44,40 @@ export function InventoryOverview() {
   const [overviewData, setOverviewData] = useState<OverviewData | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const { selectedArea, selectedAreaId, loading: areasLoading } = useAreaSelection();
 
   useEffect(() => {
+    // Wait for the saved area selection, so the first request is for the right area
+    if (areasLoading) return;
+
+    // Aborted when the selection changes, so a slow response cannot replace newer data
+    const controller = new AbortController();
+
     const fetchOverview = async () => {
       try {
         setLoading(true);
-        const response = await fetch('/api/inventory/overview');
+        const response = await fetch(`/api/inventory/overview${areaQuery(selectedAreaId)}`, { signal: controller.signal });
         
         if (!response.ok) {
           throw new Error('Failed to fetch overview data');
         }
         
         const result = await response.json();
+        if (controller.signal.aborted) return;
         setOverviewData(result.data);
         setError(null);
       } catch (err) {
+        if (controller.signal.aborted) return;
         console.error('Error fetching overview:', err);
         setError(err instanceof Error ? err.message : 'Failed to load data');
       } finally {
-        setLoading(false);
+        if (!controller.signal.aborted) setLoading(false);
       }
     };
 
     fetchOverview();
-  }, []);
+    return () => controller.abort();
+  }, [selectedAreaId, areasLoading]);
 
   if (loading) {
     return (
@@ -92,8 +120,8 @@ export function InventoryOverview() {
     return null;
   }
 
-  const rawStockStatus = getStockStatus(overviewData.totalRawStock);
-  const finishedStockStatus = getStockStatus(overviewData.totalFinishedStock);
+  const rawStockStatus = getStockStatus(overviewData.totalRawMaterials, overviewData.lowStockRawMaterials);
+  const finishedStockStatus = getStockStatus(overviewData.totalFinishedGoods, overviewData.lowStockFinishedGoods);
 
   return (
     <Card>
@@ -101,7 +129,9 @@ export function InventoryOverview() {
         <CardTitle className="flex items-center justify-between">
           <span>Inventory Overview</span>
           <Badge variant="outline" className="text-xs">
-            {overviewData.userRole === 'superadmin' ? 'All Areas' : 'Your Area'}
+            {selectedArea
+              ? selectedArea.name
+              : overviewData.allAreas ? 'All Areas' : 'Your Areas'}
           </Badge>
         </CardTitle>
       </CardHeader>
@@ -151,7 +181,7 @@ export function InventoryOverview() {
             </div>
             <div className="space-y-1">
               <p className="text-2xl font-bold text-red-600">{overviewData.lowStockItems}</p>
-              <p className="text-sm text-gray-500">Items Below 50</p>
+              <p className="text-sm text-gray-500">Items At Reorder Point</p>
             </div>
             <div className="flex items-center justify-between">
               <span className="text-sm font-medium">Needs Attention</span>
@@ -161,6 +191,30 @@ export function InventoryOverview() {
             </div>
           </div>
         </div>
+
+        {/* Totals split by area when several areas are shown; parent areas include their sub-areas */}
+        {overviewData.areas.length > 1 && (
+          <div className="mt-6 border-t border-gray-100 pt-4">
+            <p className="text-sm font-medium text-gray-600 mb-2">By Area</p>
+            <div className="space-y-2">
+              {overviewData.areas.map((area) => (
+                <div key={area.areaId} className="grid grid-cols-4 gap-2 text-sm">
+                  <span
+                    className={`truncate ${area.depth === 0 ? 'font-medium' : 'text-gray-700'}`}
+                    style={{ paddingLeft: `${area.depth}rem` }}
+                  >
+                    {area.areaName}
+                  </span>
+                  <span className="text-gray-600">{area.rawMaterials} raw ({area.rawStock} units)</span>
+                  <span className="text-gray-600">{area.finishedGoods} finished ({area.finishedStock} units)</span>
+                  <span className={area.lowStockItems > 0 ? 'text-red-600' : 'text-gray-600'}>
+                    {area.lowStockItems} low
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
       </CardContent>
     </Card>
   );
@@ -5,7 +5,6 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Clock, AlertCircle, RefreshCw, Package } from 'lucide-react';
-import { useUser } from '@clerk/nextjs';
 
 interface ActivityItem {
   id: string;
@@ -46,69 +45,36 @@ function getRelativeTime(date: string) {
   return past.toLocaleDateString();
 }
 
+const ACTIVITY_WINDOW_DAYS = 7;
+
 export function RecentActivity() {
-  const { user } = useUser();
   const [activities, setActivities] = useState<ActivityItem[]>([]);
   const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
-    // Since we don't have a real activity tracking system yet,
-    // we'll generate some mock activities based on current user
-    const generateMockActivities = () => {
-      const currentUser = user ? `${user.firstName} ${user.lastName}` : 'System';
-      const mockActivities: ActivityItem[] = [
-        {
-          id: '1',
-          user: currentUser,
-          action: 'Viewed dashboard',
-          item: 'Inventory Overview',
-          timestamp: new Date().toISOString(),
-          type: 'sync'
-        },
-        {
-          id: '2',
-          user: 'System',
-          action: 'Low stock detected',
-          item: 'Copper Wire (5 units)',
-          timestamp: new Date(Date.now() - 4 * 60 * 60 * 1000).toISOString(), // 4 hours ago
-          type: 'alert'
-        },
-        {
-          id: '3',
-          user: 'Area Manager',
-          action: 'Stock level updated',
-          item: 'Steel Bars',
-          timestamp: new Date(Date.now() - 8 * 60 * 60 * 1000).toISOString(), // 8 hours ago
-          type: 'update'
-        },
-        {
-          id: '4',
-          user: 'System',
-          action: 'Reorder recommendation',
-          item: 'Plastic Granules',
-          timestamp: new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString(), // 1 day ago
-          type: 'reorder'
-        },
-        {
-          id: '5',
-          user: currentUser,
-          action: 'Profile synchronized',
-          item: 'User Profile',
-          timestamp: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000).toISOString(), // 2 days ago
-          type: 'sync'
+    const fetchActivities = async () => {
+      try {
+        const since = new Date(Date.now() - ACTIVITY_WINDOW_DAYS * 24 * 60 * 60 * 1000).toISOString();
+        const response = await fetch(`/api/activity?limit=10&since=${encodeURIComponent(since)}`);
+        const result = await response.json();
+
+        if (!response.ok) {
+          throw new Error(result.error || 'Failed to fetch activity');
         }
-      ];
-      
-      setActivities(mockActivities);
-      setLoading(false);
-    };
 
-    const timer = setTimeout(() => {
-      generateMockActivities();
-    }, 1000); // Simulate loading delay
+        setActivities(result.data || []);
+        setError(null);
+      } catch (err) {
+        console.error('Error fetching recent activity:', err);
+        setError(err instanceof Error ? err.message : 'Failed to fetch activity');
+      } finally {
+        setLoading(false);
+      }
+    };
 
-    return () => clearTimeout(timer);
-  }, [user]);
+    fetchActivities();
+  }, []);
 
   if (loading) {
     return (
@@ -140,13 +106,18 @@ export function RecentActivity() {
         <CardTitle className="flex items-center justify-between">
           <span>Recent Activity</span>
           <span className="text-xs font-normal text-gray-500">
-            Last 7 days
+            Last {ACTIVITY_WINDOW_DAYS} days
           </span>
         </CardTitle>
       </CardHeader>
       <CardContent>
         <div className="space-y-4">
-          {activities.length === 0 ? (
+          {error ? (
+            <div className="text-center py-6 text-red-600">
+              <AlertCircle className="h-8 w-8 mx-auto mb-2" />
+              <p>{error}</p>
+            </div>
+          ) : activities.length === 0 ? (
             <div className="text-center py-6 text-gray-500">
               <Clock className="h-8 w-8 mx-auto mb-2 text-gray-400" />
               <p>No recent activity</p>
@@ -1,9 +1,12 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { Package, Boxes, TrendingUp, AlertTriangle } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Skeleton } from '@/components/ui/skeleton';
+import { useFinishedGoods } from '@/hooks/useFinishedGoods';
+import { sumStockLevels, summarizeStockByArea } from '@/lib/stock-levels';
+import { areaQuery, useAreaSelection } from '@/components/layout/AreaSelectionProvider';
 
 interface StockCardProps {
   title: string;
@@ -15,9 +18,22 @@ interface StockCardProps {
     label: string;
     isPositive: boolean;
   };
+  breakdown?: {
+    label: string;
+    value: string;
+  }[];
   loading?: boolean;
 }
 
+interface AreaOverview {
+  areaId: number;
+  areaName: string;
+  rawMaterials: number;
+  rawStock: number;
+  lowStockItems: number;
+  depth: number;
+}
+
 interface OverviewData {
   totalRawMaterials: number;
   totalFinishedGoods: number;
@@ -26,9 +42,10 @@ interface OverviewData {
   lowStockItems: number;
   userRole: string;
   userAreaId?: number;
+  areas: AreaOverview[];
 }
 
-function StockCard({ title, value, subtitle, icon: Icon, trend, loading }: StockCardProps) {
+function StockCard({ title, value, subtitle, icon: Icon, trend, breakdown, loading }: StockCardProps) {
   if (loading) {
     return (
       <Card>
@@ -63,6 +80,16 @@ function StockCard({ title, value, subtitle, icon: Icon, trend, loading }: Stock
             {trend.value}% {trend.label}
           </div>
         )}
+        {breakdown && breakdown.length > 0 && (
+          <div className="mt-3 pt-2 border-t border-gray-100 space-y-1">
+            {breakdown.map((row) => (
+              <div key={row.label} className="flex items-center justify-between text-xs">
+                <span className="text-muted-foreground truncate">{row.label}</span>
+                <span className="font-medium">{row.value}</span>
+              </div>
+            ))}
+          </div>
+        )}
       </CardContent>
     </Card>
   );
@@ -72,45 +99,85 @@ export function StockCards() {
   const [overviewData, setOverviewData] = useState<OverviewData | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const { finishedGoods, stockLevels: allStockLevels } = useFinishedGoods();
+  const { selectedAreaId, selectedAreaIds, loading: areasLoading } = useAreaSelection();
+
+  // Real finished goods quantities from the iDempiere storage sync, for the selected area
+  const stockLevels = useMemo(
+    () => selectedAreaIds === null ? allStockLevels : allStockLevels.filter(level => selectedAreaIds.includes(level.area_id)),
+    [allStockLevels, selectedAreaIds]
+  );
+  const finishedStockTotals = useMemo(() => sumStockLevels(stockLevels), [stockLevels]);
+  const finishedStockByArea = useMemo(() => summarizeStockByArea(stockLevels), [stockLevels]);
+  const hasFinishedStock = stockLevels.length > 0;
 
   useEffect(() => {
+    // Wait for the saved area selection, so the first request is for the right area
+    if (areasLoading) return;
+
+    // Aborted when the selection changes, so a slow response cannot replace newer data
+    const controller = new AbortController();
+
     const fetchOverview = async () => {
       try {
         setLoading(true);
-        const response = await fetch('/api/inventory/overview');
+        const response = await fetch(`/api/inventory/overview${areaQuery(selectedAreaId)}`, { signal: controller.signal });
         
         if (!response.ok) {
           throw new Error('Failed to fetch overview data');
         }
         
         const result = await response.json();
+        if (controller.signal.aborted) return;
         setOverviewData(result.data);
         setError(null);
       } catch (err) {
+        if (controller.signal.aborted) return;
         console.error('Error fetching overview:', err);
         setError(err instanceof Error ? err.message : 'Failed to load data');
       } finally {
-        setLoading(false);
+        if (!controller.signal.aborted) setLoading(false);
       }
     };
 
     fetchOverview();
-  }, []);
+    return () => controller.abort();
+  }, [selectedAreaId, areasLoading]);
 
   // Calculate total stock value (mock calculation)
   const totalValue = overviewData 
     ? (overviewData.totalRawStock * 10) + (overviewData.totalFinishedStock * 25)
     : 0;
 
+  // Split totals by the top-level areas shown (their totals include sub-areas),
+  // or by the level below when a single region is shown
+  const overviewAreas = overviewData?.areas || [];
+  const topLevelAreas = overviewAreas.filter(area => area.depth === 0);
+  const breakdownAreas = topLevelAreas.length > 1 ? topLevelAreas : overviewAreas.filter(area => area.depth === 1);
+  const areaBreakdown = breakdownAreas.length > 1 ? breakdownAreas : [];
+
   const stockData = overviewData ? [
     {
       title: 'Total Raw Materials',
       value: overviewData.totalRawMaterials,
       subtitle: `${overviewData.totalRawStock} units in stock`,
       icon: Package,
-      trend: { value: 12, label: 'from last month', isPositive: true }
+      trend: { value: 12, label: 'from last month', isPositive: true },
+      breakdown: areaBreakdown.map(area => ({
+        label: area.areaName,
+        value: `${area.rawMaterials} (${area.rawStock.toLocaleString()} units)`,
+      })),
     },
-    {
+    hasFinishedStock ? {
+      title: 'Finished Goods',
+      value: finishedGoods.length,
+      subtitle: `${finishedStockTotals.qty_on_hand.toLocaleString()} on hand, ${finishedStockTotals.qty_available.toLocaleString()} available`,
+      icon: Boxes,
+      breakdown: finishedStockByArea.map(area => ({
+        label: area.area_name,
+        value: area.qty_on_hand.toLocaleString(),
+      })),
+    } : {
       title: 'Finished Goods',
       value: overviewData.totalFinishedGoods,
       subtitle: `${overviewData.totalFinishedStock} ready for shipment`,
@@ -122,7 +189,11 @@ export function StockCards() {
       value: overviewData.lowStockItems,
       subtitle: 'Need reordering',
       icon: AlertTriangle,
-      trend: { value: 5, label: 'from last week', isPositive: false }
+      trend: { value: 5, label: 'from last week', isPositive: false },
+      breakdown: areaBreakdown.map(area => ({
+        label: area.areaName,
+        value: area.lowStockItems.toLocaleString(),
+      })),
     },
     {
       title: 'Est. Total Value',
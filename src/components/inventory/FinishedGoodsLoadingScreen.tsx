@@ -21,6 +21,8 @@ interface FinishedGoodsLoadingScreenProps {
   error: string | null;
   onRetry?: () => void;
   onCancel?: () => void;
+  /** Heading shown above the progress, e.g. "Raw Materials" */
+  title?: string;
 }
 
 export function FinishedGoodsLoadingScreen({
@@ -28,7 +30,8 @@ export function FinishedGoodsLoadingScreen({
   progress,
   error,
   onRetry,
-  onCancel
+  onCancel,
+  title = 'Finished Goods'
 }: FinishedGoodsLoadingScreenProps) {
   const [dots, setDots] = useState('');
 
@@ -77,7 +80,7 @@ export function FinishedGoodsLoadingScreen({
               <div className="text-center space-y-2">
                 <div className="flex items-center justify-center space-x-2">
                   <Package className="h-6 w-6 text-primary" />
-                  <h2 className="text-lg font-semibold">Finished Goods</h2>
+                  <h2 className="text-lg font-semibold">{title}</h2>
                 </div>
                 <p className="text-sm text-muted-foreground">
                   {error ? 'Sync Failed' : 'Initializing data...'}
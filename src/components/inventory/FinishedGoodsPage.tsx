@@ -4,7 +4,7 @@
 
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { Search, Package, Loader2, RefreshCw, Filter, AlertCircle, ChevronDown } from 'lucide-react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
@@ -29,8 +29,10 @@ import {
 
 import { useFinishedGoods } from '@/hooks/useFinishedGoods';
 import { usePagination } from '@/hooks/usePagination';
-import { FinishedGood } from '@/lib/indexeddb';
+import { FinishedGood, FinishedGoodStockLevel } from '@/lib/indexeddb';
+import { groupStockByProduct, sumStockLevels, summarizeStockByArea } from '@/lib/stock-levels';
 import { FinishedGoodsLoadingScreen } from './FinishedGoodsLoadingScreen';
+import { useAreaSelection } from '@/components/layout/AreaSelectionProvider';
 
 interface FinishedGoodsPageProps {
   className?: string;
@@ -40,6 +42,7 @@ export function FinishedGoodsPage({ className }: FinishedGoodsPageProps) {
   const {
     finishedGoods,
     categories,
+    stockLevels: allStockLevels,
     loading,
     error,
     syncStatus,
@@ -57,6 +60,17 @@ export function FinishedGoodsPage({ className }: FinishedGoodsPageProps) {
   const [searchResults, setSearchResults] = useState<FinishedGood[]>([]);
   const [filteredData, setFilteredData] = useState<FinishedGood[]>([]);
 
+  // Stock in the area selected in the header, or in all of the user's areas
+  const { selectedAreaIds } = useAreaSelection();
+  const stockLevels = useMemo(
+    () => selectedAreaIds === null ? allStockLevels : allStockLevels.filter(level => selectedAreaIds.includes(level.area_id)),
+    [allStockLevels, selectedAreaIds]
+  );
+
+  const stockByProduct = useMemo(() => groupStockByProduct(stockLevels), [stockLevels]);
+  const stockTotals = useMemo(() => sumStockLevels(stockLevels), [stockLevels]);
+  const stockByArea = useMemo(() => summarizeStockByArea(stockLevels), [stockLevels]);
+
   // Calculate filtered data when base data or filters change
   useEffect(() => {
     let result: FinishedGood[] = [];
@@ -195,7 +209,7 @@ export function FinishedGoodsPage({ className }: FinishedGoodsPageProps) {
           <CardTitle className="text-lg">Data Status</CardTitle>
         </CardHeader>
         <CardContent>
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
             <div>
               <p className="text-sm text-muted-foreground">Total Products</p>
               <p className="text-2xl font-bold">{recordCount.toLocaleString()}</p>
@@ -204,6 +218,23 @@ export function FinishedGoodsPage({ className }: FinishedGoodsPageProps) {
               <p className="text-sm text-muted-foreground">Categories</p>
               <p className="text-2xl font-bold">{categories.length}</p>
             </div>
+            <div>
+              <p className="text-sm text-muted-foreground">Units On Hand</p>
+              <p className="text-2xl font-bold">{stockTotals.qty_on_hand.toLocaleString()}</p>
+              <p className="text-xs text-muted-foreground">
+                {stockTotals.qty_available.toLocaleString()} available · {stockTotals.qty_ordered.toLocaleString()} on order
+              </p>
+              {stockByArea.length > 1 && (
+                <div className="mt-2 space-y-1">
+                  {stockByArea.map((area) => (
+                    <div key={area.area_id} className="flex items-center justify-between text-xs">
+                      <span className="text-muted-foreground">{area.area_name}</span>
+                      <span className="font-medium">{area.qty_on_hand.toLocaleString()}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
             <div>
               <p className="text-sm text-muted-foreground">Last Sync</p>
               <p className="text-sm">{formatSyncTime(lastSyncTime)}</p>
@@ -333,7 +364,11 @@ export function FinishedGoodsPage({ className }: FinishedGoodsPageProps) {
       ) : (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
           {displayedProducts.map((product) => (
-            <ProductCard key={product.id} product={product} />
+            <ProductCard
+              key={product.id}
+              product={product}
+              stockLevels={stockByProduct.get(product.id) || []}
+            />
           ))}
         </div>
       )}
@@ -408,9 +443,13 @@ export function FinishedGoodsPage({ className }: FinishedGoodsPageProps) {
  */
 interface ProductCardProps {
   product: FinishedGood;
+  stockLevels: FinishedGoodStockLevel[];
 }
 
-function ProductCard({ product }: ProductCardProps) {
+function ProductCard({ product, stockLevels }: ProductCardProps) {
+  const totals = sumStockLevels(stockLevels);
+  const areaSummaries = summarizeStockByArea(stockLevels);
+
   return (
     <Card className="hover:shadow-md transition-shadow">
       <CardHeader className="pb-3">
@@ -442,6 +481,31 @@ function ProductCard({ product }: ProductCardProps) {
             <span className="text-muted-foreground">UOM:</span>
             <span>{product.smalluom} / {product.biguom}</span>
           </div>
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-muted-foreground">On Hand:</span>
+            <span className="font-medium">
+              {totals.qty_on_hand.toLocaleString()} {product.smalluom}
+            </span>
+          </div>
+          {(totals.qty_reserved > 0 || totals.qty_ordered > 0) && (
+            <div className="flex items-center justify-between text-xs text-muted-foreground">
+              <span>Reserved {totals.qty_reserved.toLocaleString()}</span>
+              <span>Ordered {totals.qty_ordered.toLocaleString()}</span>
+            </div>
+          )}
+          {areaSummaries.length > 0 && (
+            <div className="pt-2 border-t space-y-1">
+              {areaSummaries.map((area) => (
+                <div key={area.area_id} className="flex items-center justify-between text-xs">
+                  <span className="text-muted-foreground">{area.area_name}</span>
+                  <span>
+                    {area.qty_on_hand.toLocaleString()}
+                    <span className="text-muted-foreground"> ({area.qty_available.toLocaleString()} avail.)</span>
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
         </div>
       </CardContent>
     </Card>
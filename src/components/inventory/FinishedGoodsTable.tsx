@@ -5,8 +5,11 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
-import { AlertCircle, Box, Search } from 'lucide-react';
+import { AlertCircle, Box, Search, SlidersHorizontal } from 'lucide-react';
 import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { getStockStatus, STOCK_STATUS_BADGES, StockStatus } from '@/lib/stock-status';
+import { StockThresholdDialog } from './StockThresholdDialog';
 
 interface FinishedGood {
   id: number;
@@ -14,19 +17,17 @@ interface FinishedGood {
   erp_id: number;
   current_stock: number;
   unit: string;
-  area_id: number;
+  // Most urgent status across the user's areas, evaluated against stock_thresholds
+  stock_status?: StockStatus;
+  area_id: number | null;
+  product_code?: string | null;
+  category_name?: string | null;
+  // Null for products shared by every area (iDempiere organization *)
   master_areas: {
     id: number;
     name: string;
     erp_id: number;
-  };
-}
-
-function getStockStatus(stock: number) {
-  if (stock === 0) return { status: 'Out of Stock', color: 'bg-red-100 text-red-800' };
-  if (stock < 50) return { status: 'Low Stock', color: 'bg-yellow-100 text-yellow-800' };
-  if (stock < 100) return { status: 'Medium Stock', color: 'bg-blue-100 text-blue-800' };
-  return { status: 'Good Stock', color: 'bg-green-100 text-green-800' };
+  } | null;
 }
 
 export function FinishedGoodsTable() {
@@ -35,6 +36,9 @@ export function FinishedGoodsTable() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
+  const [thresholdItem, setThresholdItem] = useState<{ id: number; name: string; unit: string } | null>(null);
+  const [refreshKey, setRefreshKey] = useState(0);
+  const [lastSyncedAt, setLastSyncedAt] = useState<string | null>(null);
 
   useEffect(() => {
     const fetchFinishedGoods = async () => {
@@ -49,6 +53,7 @@ export function FinishedGoodsTable() {
         const result = await response.json();
         setFinishedGoods(result.data);
         setFilteredGoods(result.data);
+        setLastSyncedAt(result.lastSyncedAt || null);
         setError(null);
       } catch (err) {
         console.error('Error fetching finished goods:', err);
@@ -59,12 +64,13 @@ export function FinishedGoodsTable() {
     };
 
     fetchFinishedGoods();
-  }, []);
+  }, [refreshKey]);
 
   useEffect(() => {
     const filtered = finishedGoods.filter(good =>
       good.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      good.master_areas.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      (good.product_code || '').toLowerCase().includes(searchTerm.toLowerCase()) ||
+      (good.master_areas?.name || '').toLowerCase().includes(searchTerm.toLowerCase()) ||
       good.erp_id.toString().includes(searchTerm)
     );
     setFilteredGoods(filtered);
@@ -150,28 +156,50 @@ export function FinishedGoodsTable() {
                   <TableHead>Unit</TableHead>
                   <TableHead>Area</TableHead>
                   <TableHead>Status</TableHead>
+                  <TableHead className="w-12"></TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
                 {filteredGoods.map((good) => {
-                  const stockStatus = getStockStatus(good.current_stock);
+                  const stockStatus = STOCK_STATUS_BADGES[good.stock_status ?? getStockStatus(good.current_stock)];
                   return (
                     <TableRow key={good.id} className="hover:bg-gray-50">
-                      <TableCell className="font-medium">{good.name}</TableCell>
+                      <TableCell>
+                        <div className="flex flex-col">
+                          <span className="font-medium">{good.name}</span>
+                          {good.product_code && (
+                            <span className="text-xs text-gray-500">{good.product_code}</span>
+                          )}
+                        </div>
+                      </TableCell>
                       <TableCell>{good.erp_id}</TableCell>
                       <TableCell className="font-mono">{good.current_stock}</TableCell>
                       <TableCell>{good.unit}</TableCell>
                       <TableCell>
-                        <div className="flex flex-col">
-                          <span className="font-medium">{good.master_areas.name}</span>
-                          <span className="text-xs text-gray-500">ID: {good.master_areas.erp_id}</span>
-                        </div>
+                        {good.master_areas ? (
+                          <div className="flex flex-col">
+                            <span className="font-medium">{good.master_areas.name}</span>
+                            <span className="text-xs text-gray-500">ID: {good.master_areas.erp_id}</span>
+                          </div>
+                        ) : (
+                          <span className="text-gray-500">All areas</span>
+                        )}
                       </TableCell>
                       <TableCell>
                         <Badge className={stockStatus.color}>
-                          {stockStatus.status}
+                          {stockStatus.label}
                         </Badge>
                       </TableCell>
+                      <TableCell>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          title="Stock thresholds"
+                          onClick={() => setThresholdItem(good)}
+                        >
+                          <SlidersHorizontal className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
                     </TableRow>
                   );
                 })}
@@ -183,9 +211,20 @@ export function FinishedGoodsTable() {
         {filteredGoods.length > 0 && (
           <div className="mt-4 text-sm text-gray-500 text-center">
             Showing {filteredGoods.length} of {finishedGoods.length} goods
+            {lastSyncedAt && ` · Last synced from iDempiere ${new Date(lastSyncedAt).toLocaleString()}`}
           </div>
         )}
       </CardContent>
+
+      <StockThresholdDialog
+        itemType="finished_good"
+        item={thresholdItem}
+        onOpenChange={(open) => !open && setThresholdItem(null)}
+        onSaved={() => {
+          setThresholdItem(null);
+          setRefreshKey(key => key + 1);
+        }}
+      />
     </Card>
   );
 }
\ No newline at end of file
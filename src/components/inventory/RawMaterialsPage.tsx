@@ -0,0 +1,327 @@
+/**
+ * Live raw materials view backed by the iDempiere `vw_product_rm` cache
+ */
+
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import { Search, Boxes, Loader2, RefreshCw, Filter, AlertCircle } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from '@/components/ui/pagination';
+
+import { useRawMaterials } from '@/hooks/useRawMaterials';
+import { usePagination } from '@/hooks/usePagination';
+import { RawMaterialProduct } from '@/lib/raw-materials-db';
+import { groupStockByProduct, sumStockLevels, summarizeStockByArea } from '@/lib/stock-levels';
+import { FinishedGoodsLoadingScreen } from './FinishedGoodsLoadingScreen';
+
+export function RawMaterialsPage() {
+  const {
+    rawMaterials,
+    categories,
+    stockLevels,
+    loading,
+    error,
+    syncStatus,
+    lastSyncTime,
+    recordCount,
+    syncProgress,
+    syncData,
+    searchMaterials,
+    refreshData,
+  } = useRawMaterials();
+
+  const [searchTerm, setSearchTerm] = useState('');
+  const [selectedCategory, setSelectedCategory] = useState<number | null>(null);
+  const [searchResults, setSearchResults] = useState<RawMaterialProduct[]>([]);
+  const [filteredData, setFilteredData] = useState<RawMaterialProduct[]>([]);
+
+  const stockByProduct = useMemo(() => groupStockByProduct(stockLevels), [stockLevels]);
+  const stockTotals = useMemo(() => sumStockLevels(stockLevels), [stockLevels]);
+
+  useEffect(() => {
+    if (searchTerm) {
+      setFilteredData(searchResults);
+    } else if (selectedCategory) {
+      setFilteredData(rawMaterials.filter(material => material.catname_value === selectedCategory));
+    } else {
+      setFilteredData(rawMaterials);
+    }
+  }, [rawMaterials, searchResults, selectedCategory, searchTerm]);
+
+  const {
+    currentPage,
+    totalPages,
+    paginatedData,
+    totalItems,
+    startIndex,
+    endIndex,
+    goToPage,
+    goToNextPage,
+    goToPreviousPage,
+    hasNextPage,
+    hasPreviousPage,
+    getPageNumbers,
+  } = usePagination({
+    data: filteredData,
+    itemsPerPage: 20,
+    initialPage: 1,
+  });
+
+  const handleSearch = async (term: string) => {
+    setSearchTerm(term);
+    goToPage(1);
+    if (term.trim()) {
+      setSearchResults(await searchMaterials(term));
+    } else {
+      setSearchResults([]);
+    }
+  };
+
+  const handleCategorySelect = (categoryId: number | null) => {
+    setSelectedCategory(categoryId);
+    setSearchTerm('');
+    setSearchResults([]);
+    goToPage(1);
+  };
+
+  return (
+    <>
+      <FinishedGoodsLoadingScreen
+        title="Raw Materials"
+        isVisible={syncStatus === 'syncing'}
+        progress={syncProgress}
+        error={null}
+      />
+
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Raw Materials</h1>
+            <p className="text-gray-600">Live raw material inventory from iDempiere</p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={refreshData} disabled={loading}>
+              <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+              Refresh
+            </Button>
+            <Button size="sm" onClick={syncData} disabled={syncStatus === 'syncing'}>
+              {syncStatus === 'syncing' ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Boxes className="h-4 w-4 mr-2" />
+              )}
+              Sync Data
+            </Button>
+          </div>
+        </div>
+
+        {/* Sync Status */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Data Status</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <div>
+                <p className="text-sm text-muted-foreground">Total Materials</p>
+                <p className="text-2xl font-bold">{recordCount.toLocaleString()}</p>
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">Categories</p>
+                <p className="text-2xl font-bold">{categories.length}</p>
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">Units On Hand</p>
+                <p className="text-2xl font-bold">{stockTotals.qty_on_hand.toLocaleString()}</p>
+                <p className="text-xs text-muted-foreground">
+                  {stockTotals.qty_available.toLocaleString()} available · {stockTotals.qty_ordered.toLocaleString()} on order
+                </p>
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">Last Sync</p>
+                <p className="text-sm">{lastSyncTime ? new Date(lastSyncTime).toLocaleString() : 'Never'}</p>
+                <Badge
+                  variant={
+                    syncStatus === 'success' ? 'default' :
+                    syncStatus === 'error' ? 'destructive' :
+                    syncStatus === 'syncing' ? 'secondary' : 'outline'
+                  }
+                >
+                  {syncStatus === 'syncing' ? 'Syncing...' :
+                   syncStatus === 'success' ? 'Up to date' :
+                   syncStatus === 'error' ? 'Sync failed' : 'Not synced'}
+                </Badge>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Error Display */}
+        {error && (
+          <Card className="border-destructive">
+            <CardContent className="pt-6">
+              <div className="flex items-center gap-2 text-destructive">
+                <AlertCircle className="h-4 w-4" />
+                <span>{error}</span>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Search and Filters */}
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex flex-col sm:flex-row gap-4">
+              <div className="relative flex-1">
+                <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+                <Input
+                  placeholder="Search materials by name or code..."
+                  value={searchTerm}
+                  onChange={(e) => handleSearch(e.target.value)}
+                  className="pl-8"
+                />
+              </div>
+              <div className="flex items-center gap-2">
+                <Filter className="h-4 w-4 text-muted-foreground" />
+                <select
+                  value={selectedCategory || ''}
+                  onChange={(e) => handleCategorySelect(e.target.value ? parseInt(e.target.value) : null)}
+                  className="px-3 py-2 border rounded-md bg-background min-w-[200px]"
+                >
+                  <option value="">All Categories</option>
+                  {categories.map((category) => (
+                    <option key={category.id} value={category.id}>
+                      {category.name} ({category.product_count})
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Materials Table */}
+        <Card>
+          <CardContent className="pt-6">
+            {loading ? (
+              <div className="flex items-center justify-center py-12">
+                <Loader2 className="h-8 w-8 animate-spin" />
+                <span className="ml-2">Loading raw materials...</span>
+              </div>
+            ) : paginatedData.length === 0 ? (
+              <div className="text-center py-12 text-gray-500">
+                <Boxes className="h-12 w-12 mx-auto mb-4 text-gray-400" />
+                <p className="text-lg font-medium">No raw materials found</p>
+                <p className="text-sm">
+                  {searchTerm || selectedCategory
+                    ? 'Try adjusting your search or filter criteria.'
+                    : 'Click "Sync Data" to fetch raw materials from iDempiere.'}
+                </p>
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Material</TableHead>
+                      <TableHead>Category</TableHead>
+                      <TableHead>UOM</TableHead>
+                      <TableHead className="text-right">On Hand</TableHead>
+                      <TableHead className="text-right">Available</TableHead>
+                      <TableHead>By Area</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {paginatedData.map((material) => {
+                      const levels = stockByProduct.get(material.id) || [];
+                      const totals = sumStockLevels(levels);
+                      return (
+                        <TableRow key={material.id} className="hover:bg-gray-50">
+                          <TableCell>
+                            <div className="flex flex-col">
+                              <span className="font-medium">{material.product_name}</span>
+                              <span className="text-xs text-gray-500">{material.product_code}</span>
+                            </div>
+                          </TableCell>
+                          <TableCell>{material.catname}</TableCell>
+                          <TableCell>{material.smalluom}</TableCell>
+                          <TableCell className="text-right font-mono">{totals.qty_on_hand.toLocaleString()}</TableCell>
+                          <TableCell className="text-right font-mono">{totals.qty_available.toLocaleString()}</TableCell>
+                          <TableCell>
+                            <div className="flex flex-col text-xs">
+                              {summarizeStockByArea(levels).map(area => (
+                                <span key={area.area_id}>
+                                  <span className="text-muted-foreground">{area.area_name}:</span> {area.qty_on_hand.toLocaleString()}
+                                </span>
+                              ))}
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Pagination */}
+        {totalItems > 0 && (
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+            <div className="text-sm text-muted-foreground">
+              Showing {startIndex + 1}-{endIndex} of {totalItems.toLocaleString()} materials
+            </div>
+            {totalPages > 1 && (
+              <Pagination className="sm:justify-end sm:w-auto sm:mx-0">
+                <PaginationContent>
+                  <PaginationItem>
+                    <PaginationPrevious
+                      onClick={goToPreviousPage}
+                      className={!hasPreviousPage ? 'pointer-events-none opacity-50' : 'cursor-pointer'}
+                    />
+                  </PaginationItem>
+                  {getPageNumbers().map((page, index) => (
+                    <PaginationItem key={index}>
+                      {page === -1 ? (
+                        <PaginationEllipsis />
+                      ) : (
+                        <PaginationLink
+                          isActive={page === currentPage}
+                          onClick={() => goToPage(page)}
+                          className="cursor-pointer"
+                        >
+                          {page}
+                        </PaginationLink>
+                      )}
+                    </PaginationItem>
+                  ))}
+                  <PaginationItem>
+                    <PaginationNext
+                      onClick={goToNextPage}
+                      className={!hasNextPage ? 'pointer-events-none opacity-50' : 'cursor-pointer'}
+                    />
+                  </PaginationItem>
+                </PaginationContent>
+              </Pagination>
+            )}
+          </div>
+        )}
+      </div>
+    </>
+  );
+}
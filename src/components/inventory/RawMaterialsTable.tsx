@@ -1,12 +1,16 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
-import { AlertCircle, Package, Search } from 'lucide-react';
+import { AlertCircle, Package, Search, SlidersHorizontal } from 'lucide-react';
 import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { getStockStatus, STOCK_STATUS_BADGES, StockStatus } from '@/lib/stock-status';
+import { StockThresholdDialog } from './StockThresholdDialog';
+import { areaQuery, useAreaSelection } from '@/components/layout/AreaSelectionProvider';
 
 interface RawMaterial {
   id: number;
@@ -14,6 +18,8 @@ interface RawMaterial {
   erp_id: number;
   current_stock: number;
   unit: string;
+  // Most urgent status across the user's areas, evaluated against stock_thresholds
+  stock_status?: StockStatus;
   area_id: number;
   master_areas: {
     id: number;
@@ -22,44 +28,49 @@ interface RawMaterial {
   };
 }
 
-function getStockStatus(stock: number) {
-  if (stock === 0) return { status: 'Out of Stock', color: 'bg-red-100 text-red-800' };
-  if (stock < 50) return { status: 'Low Stock', color: 'bg-yellow-100 text-yellow-800' };
-  if (stock < 100) return { status: 'Medium Stock', color: 'bg-blue-100 text-blue-800' };
-  return { status: 'Good Stock', color: 'bg-green-100 text-green-800' };
-}
-
 export function RawMaterialsTable() {
   const [rawMaterials, setRawMaterials] = useState<RawMaterial[]>([]);
   const [filteredMaterials, setFilteredMaterials] = useState<RawMaterial[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
+  const [thresholdItem, setThresholdItem] = useState<{ id: number; name: string; unit: string } | null>(null);
+  const [refreshKey, setRefreshKey] = useState(0);
+  const { selectedAreaId, loading: areasLoading } = useAreaSelection();
 
   useEffect(() => {
+    // Wait for the saved area selection, so the first request is for the right area
+    if (areasLoading) return;
+
+    // Aborted on a refresh or a new selection, so a slow response cannot replace newer data
+    const controller = new AbortController();
+
     const fetchRawMaterials = async () => {
       try {
         setLoading(true);
-        const response = await fetch('/api/inventory/raw-materials');
+        const response = await fetch(`/api/inventory/raw-materials${areaQuery(selectedAreaId)}`, { signal: controller.signal });
         
         if (!response.ok) {
           throw new Error('Failed to fetch raw materials');
         }
         
         const result = await response.json();
+        if (controller.signal.aborted) return;
         setRawMaterials(result.data);
         setFilteredMaterials(result.data);
         setError(null);
       } catch (err) {
+        if (controller.signal.aborted) return;
         console.error('Error fetching raw materials:', err);
         setError(err instanceof Error ? err.message : 'Failed to load data');
       } finally {
-        setLoading(false);
+        if (!controller.signal.aborted) setLoading(false);
       }
     };
 
     fetchRawMaterials();
-  }, []);
+    return () => controller.abort();
+  }, [refreshKey, selectedAreaId, areasLoading]);
 
   useEffect(() => {
     const filtered = rawMaterials.filter(material =>
@@ -70,6 +81,18 @@ export function RawMaterialsTable() {
     setFilteredMaterials(filtered);
   }, [searchTerm, rawMaterials]);
 
+  // Item count and stock per area, shown when the list spans several areas
+  const areaTotals = useMemo(() => {
+    const totals = new Map<number, { name: string; items: number; stock: number }>();
+    for (const material of filteredMaterials) {
+      const total = totals.get(material.area_id) || { name: material.master_areas.name, items: 0, stock: 0 };
+      total.items += 1;
+      total.stock += material.current_stock || 0;
+      totals.set(material.area_id, total);
+    }
+    return Array.from(totals.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }, [filteredMaterials]);
+
   if (loading) {
     return (
       <Card>
@@ -131,6 +154,15 @@ export function RawMaterialsTable() {
         </div>
       </CardHeader>
       <CardContent>
+        {areaTotals.length > 1 && (
+          <div className="flex flex-wrap gap-2 mb-4">
+            {areaTotals.map((area) => (
+              <Badge key={area.name} variant="outline" className="text-xs">
+                {area.name}: {area.items} items, {area.stock.toLocaleString()} in stock
+              </Badge>
+            ))}
+          </div>
+        )}
         {filteredMaterials.length === 0 ? (
           <div className="text-center py-8 text-gray-500">
             <Package className="h-12 w-12 mx-auto mb-4 text-gray-400" />
@@ -150,11 +182,12 @@ export function RawMaterialsTable() {
                   <TableHead>Unit</TableHead>
                   <TableHead>Area</TableHead>
                   <TableHead>Status</TableHead>
+                  <TableHead className="w-12"></TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
                 {filteredMaterials.map((material) => {
-                  const stockStatus = getStockStatus(material.current_stock);
+                  const stockStatus = STOCK_STATUS_BADGES[material.stock_status ?? getStockStatus(material.current_stock)];
                   return (
                     <TableRow key={material.id} className="hover:bg-gray-50">
                       <TableCell className="font-medium">{material.name}</TableCell>
@@ -169,9 +202,19 @@ export function RawMaterialsTable() {
                       </TableCell>
                       <TableCell>
                         <Badge className={stockStatus.color}>
-                          {stockStatus.status}
+                          {stockStatus.label}
                         </Badge>
                       </TableCell>
+                      <TableCell>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          title="Stock thresholds"
+                          onClick={() => setThresholdItem(material)}
+                        >
+                          <SlidersHorizontal className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
                     </TableRow>
                   );
                 })}
@@ -186,6 +229,16 @@ export function RawMaterialsTable() {
           </div>
         )}
       </CardContent>
+
+      <StockThresholdDialog
+        itemType="raw_material"
+        item={thresholdItem}
+        onOpenChange={(open) => !open && setThresholdItem(null)}
+        onSaved={() => {
+          setThresholdItem(null);
+          setRefreshKey(key => key + 1);
+        }}
+      />
     </Card>
   );
 }
\ No newline at end of file
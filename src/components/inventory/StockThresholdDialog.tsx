@@ -0,0 +1,210 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { AlertCircle } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import type { StockItemType, StockThreshold } from '@/lib/supabase';
+import { validateThresholdLevels } from '@/lib/stock-status';
+
+interface ThresholdArea {
+  id: number;
+  name: string;
+  can_edit: boolean;
+}
+
+interface ThresholdForm {
+  min_stock: string;
+  reorder_point: string;
+  max_stock: string;
+}
+
+interface StockThresholdDialogProps {
+  itemType: StockItemType;
+  item: { id: number; name: string; unit: string } | null;
+  onOpenChange: (open: boolean) => void;
+  onSaved?: () => void;
+}
+
+const EMPTY_FORM: ThresholdForm = { min_stock: '', reorder_point: '', max_stock: '' };
+
+export function StockThresholdDialog({ itemType, item, onOpenChange, onSaved }: StockThresholdDialogProps) {
+  const { toast } = useToast();
+  const [areas, setAreas] = useState<ThresholdArea[]>([]);
+  const [forms, setForms] = useState<Record<number, ThresholdForm>>({});
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [savingAreaId, setSavingAreaId] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (!item) return;
+
+    const fetchThresholds = async () => {
+      try {
+        setLoading(true);
+        const response = await fetch(`/api/inventory/thresholds?item_type=${itemType}&item_id=${item.id}`);
+        const result = await response.json();
+
+        if (!response.ok) {
+          throw new Error(result.error || 'Failed to fetch thresholds');
+        }
+
+        const thresholdsByArea = new Map<number, StockThreshold>(
+          (result.data as StockThreshold[]).map(threshold => [threshold.area_id, threshold])
+        );
+        setAreas(result.areas);
+        setForms(Object.fromEntries((result.areas as ThresholdArea[]).map(area => {
+          const threshold = thresholdsByArea.get(area.id);
+          return [area.id, threshold ? {
+            min_stock: String(threshold.min_stock),
+            reorder_point: String(threshold.reorder_point),
+            max_stock: threshold.max_stock != null ? String(threshold.max_stock) : '',
+          } : EMPTY_FORM];
+        })));
+        setError(null);
+      } catch (err) {
+        console.error('Error fetching stock thresholds:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load thresholds');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchThresholds();
+  }, [itemType, item]);
+
+  const updateForm = (areaId: number, field: keyof ThresholdForm, value: string) => {
+    setForms({ ...forms, [areaId]: { ...forms[areaId], [field]: value } });
+  };
+
+  const handleSave = async (areaId: number) => {
+    if (!item) return;
+
+    const form = forms[areaId];
+    const levels = {
+      min_stock: parseInt(form.min_stock, 10),
+      reorder_point: parseInt(form.reorder_point, 10),
+      max_stock: form.max_stock ? parseInt(form.max_stock, 10) : null,
+    };
+
+    const validationError = validateThresholdLevels(levels);
+    if (validationError) {
+      toast({
+        title: "Error",
+        description: validationError,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      setSavingAreaId(areaId);
+      const response = await fetch('/api/inventory/thresholds', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ item_type: itemType, item_id: item.id, area_id: areaId, ...levels }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to save threshold');
+      }
+
+      toast({
+        title: "Success",
+        description: "Threshold saved successfully",
+      });
+      onSaved?.();
+    } catch (err) {
+      console.error('Error saving stock threshold:', err);
+      toast({
+        title: "Error",
+        description: err instanceof Error ? err.message : 'Failed to save threshold',
+        variant: "destructive",
+      });
+    } finally {
+      setSavingAreaId(null);
+    }
+  };
+
+  return (
+    <Dialog open={item !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Stock Thresholds · {item?.name}</DialogTitle>
+        </DialogHeader>
+        {loading ? (
+          <div className="space-y-2">
+            {[1, 2].map((i) => (
+              <Skeleton key={i} className="h-16 w-full" />
+            ))}
+          </div>
+        ) : error ? (
+          <div className="flex items-center justify-center p-6 text-red-600">
+            <AlertCircle className="h-5 w-5 mr-2" />
+            <span>{error}</span>
+          </div>
+        ) : areas.length === 0 ? (
+          <p className="text-sm text-gray-500">No active areas available.</p>
+        ) : (
+          <div className="space-y-4">
+            {areas.map((area) => (
+              <div key={area.id} className="space-y-2 pb-4 border-b border-gray-100 last:border-b-0">
+                <p className="font-medium">{area.name}</p>
+                <div className="grid grid-cols-3 gap-2">
+                  <div className="space-y-1">
+                    <Label htmlFor={`min-${area.id}`}>Safety stock ({item?.unit})</Label>
+                    <Input
+                      id={`min-${area.id}`}
+                      type="number"
+                      min={0}
+                      value={forms[area.id]?.min_stock ?? ''}
+                      onChange={(e) => updateForm(area.id, 'min_stock', e.target.value)}
+                      disabled={!area.can_edit}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor={`reorder-${area.id}`}>Reorder point</Label>
+                    <Input
+                      id={`reorder-${area.id}`}
+                      type="number"
+                      min={0}
+                      value={forms[area.id]?.reorder_point ?? ''}
+                      onChange={(e) => updateForm(area.id, 'reorder_point', e.target.value)}
+                      disabled={!area.can_edit}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor={`max-${area.id}`}>Max stock</Label>
+                    <Input
+                      id={`max-${area.id}`}
+                      type="number"
+                      min={1}
+                      placeholder="No limit"
+                      value={forms[area.id]?.max_stock ?? ''}
+                      onChange={(e) => updateForm(area.id, 'max_stock', e.target.value)}
+                      disabled={!area.can_edit}
+                    />
+                  </div>
+                </div>
+                {area.can_edit && (
+                  <div className="flex justify-end">
+                    <Button size="sm" onClick={() => handleSave(area.id)} disabled={savingAreaId === area.id}>
+                      {savingAreaId === area.id ? 'Saving...' : 'Save'}
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
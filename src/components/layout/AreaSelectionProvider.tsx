@@ -0,0 +1,118 @@
+'use client';
+
+import { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { useToast } from '@/hooks/use-toast';
+import { AreaType, collectDescendantIds, getChildrenByParent } from '@/lib/area-hierarchy';
+
+export interface SelectableArea {
+  id: number;
+  name: string;
+  erp_id: number;
+  parent_id: number | null;
+  area_type: AreaType;
+  /** Depth in the area tree; the list is in tree order */
+  depth: number;
+}
+
+interface AreaSelectionContextValue {
+  areas: SelectableArea[];
+  /** Selected area; null means all of the user's areas */
+  selectedAreaId: number | null;
+  selectedArea: SelectableArea | null;
+  /** Selected area and its sub-areas; null means all of the user's areas */
+  selectedAreaIds: number[] | null;
+  loading: boolean;
+  setSelectedAreaId: (areaId: number | null) => Promise<void>;
+}
+
+const AreaSelectionContext = createContext<AreaSelectionContextValue>({
+  areas: [],
+  selectedAreaId: null,
+  selectedArea: null,
+  selectedAreaIds: null,
+  loading: false,
+  setSelectedAreaId: async () => {},
+});
+
+/**
+ * Loads the areas the user can switch between and keeps the selection made in
+ * the header, persisted per user through `/api/auth/areas`
+ */
+export function AreaSelectionProvider({ children }: { children: React.ReactNode }) {
+  const [areas, setAreas] = useState<SelectableArea[]>([]);
+  const [selectedAreaId, setSelectedAreaIdState] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    const fetchAreas = async () => {
+      try {
+        const response = await fetch('/api/auth/areas');
+        if (!response.ok) return;
+
+        const result = await response.json();
+        setAreas(result.data?.areas || []);
+        setSelectedAreaIdState(result.data?.selectedAreaId ?? null);
+      } catch (err) {
+        console.error('Error fetching user areas:', err);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchAreas();
+  }, []);
+
+  const setSelectedAreaId = useCallback(async (areaId: number | null) => {
+    const previousAreaId = selectedAreaId;
+    setSelectedAreaIdState(areaId);
+
+    try {
+      const response = await fetch('/api/auth/areas', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ selectedAreaId: areaId }),
+      });
+
+      if (!response.ok) {
+        const result = await response.json();
+        throw new Error(result.error || 'Failed to save area selection');
+      }
+    } catch (err) {
+      console.error('Error saving area selection:', err);
+      setSelectedAreaIdState(previousAreaId);
+      toast({
+        title: 'Error',
+        description: err instanceof Error ? err.message : 'Failed to save area selection',
+        variant: 'destructive',
+      });
+    }
+  }, [selectedAreaId, toast]);
+
+  const selectedArea = areas.find(area => area.id === selectedAreaId) || null;
+  const selectedAreaIds = useMemo(
+    () => selectedAreaId === null ? null : collectDescendantIds(getChildrenByParent(areas), [selectedAreaId]),
+    [areas, selectedAreaId]
+  );
+
+  return (
+    <AreaSelectionContext.Provider
+      value={{ areas, selectedAreaId, selectedArea, selectedAreaIds, loading, setSelectedAreaId }}
+    >
+      {children}
+    </AreaSelectionContext.Provider>
+  );
+}
+
+export function useAreaSelection() {
+  return useContext(AreaSelectionContext);
+}
+
+/**
+ * `area_id` query string for the selected area, e.g. `?area_id=3`; empty for all areas
+ */
+export function areaQuery(areaId: number | null, prefix: '?' | '&' = '?'): string {
+  return areaId === null ? '' : `${prefix}area_id=${areaId}`;
+}
@@ -0,0 +1,45 @@
+'use client';
+
+import { MapPin } from 'lucide-react';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectSeparator,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useAreaSelection } from './AreaSelectionProvider';
+
+const ALL_AREAS_VALUE = 'all';
+
+export function AreaSwitcher() {
+  const { areas, selectedAreaId, loading, setSelectedAreaId } = useAreaSelection();
+
+  // Nothing to switch between with a single area
+  if (loading || areas.length < 2) {
+    return null;
+  }
+
+  return (
+    <Select
+      value={selectedAreaId === null ? ALL_AREAS_VALUE : String(selectedAreaId)}
+      onValueChange={(value) => setSelectedAreaId(value === ALL_AREAS_VALUE ? null : parseInt(value, 10))}
+    >
+      <SelectTrigger className="w-[180px]" aria-label="Select area">
+        <MapPin className="h-4 w-4 text-gray-500" />
+        <SelectValue placeholder="Select area" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ALL_AREAS_VALUE}>All my areas</SelectItem>
+        <SelectSeparator />
+        {areas.map(area => (
+          <SelectItem key={area.id} value={String(area.id)}>
+            {/* Indent sub-areas; selecting a region includes everything below it */}
+            <span style={{ paddingLeft: `${area.depth * 0.75}rem` }}>{area.name}</span>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -4,6 +4,7 @@ import { useState } from 'react';
 import { Header } from './Header';
 import { Sidebar } from './Sidebar';
 import { Footer } from './Footer';
+import { AreaSelectionProvider } from './AreaSelectionProvider';
 
 interface DashboardLayoutProps {
   children: React.ReactNode;
@@ -13,28 +14,30 @@ export function DashboardLayout({ children }: DashboardLayoutProps) {
   const [sidebarOpen, setSidebarOpen] = useState(false);
 
   return (
-    <div className="h-screen flex flex-col">
-      {/* Header */}
-      <Header onMenuClick={() => setSidebarOpen(true)} />
+    <AreaSelectionProvider>
+      <div className="h-screen flex flex-col">
+        {/* Header */}
+        <Header onMenuClick={() => setSidebarOpen(true)} />
       
-      {/* Main content area */}
-      <div className="flex-1 flex overflow-hidden">
-        {/* Sidebar */}
-        <Sidebar 
-          isOpen={sidebarOpen} 
-          onClose={() => setSidebarOpen(false)} 
-        />
+        {/* Main content area */}
+        <div className="flex-1 flex overflow-hidden">
+          {/* Sidebar */}
+          <Sidebar 
+            isOpen={sidebarOpen} 
+            onClose={() => setSidebarOpen(false)} 
+          />
         
-        {/* Main content */}
-        <main className="flex-1 overflow-auto">
-          <div className="p-4 md:p-6">
-            {children}
-          </div>
-        </main>
-      </div>
+          {/* Main content */}
+          <main className="flex-1 overflow-auto">
+            <div className="p-4 md:p-6">
+              {children}
+            </div>
+          </main>
+        </div>
       
-      {/* Footer */}
-      <Footer />
-    </div>
+        {/* Footer */}
+        <Footer />
+      </div>
+    </AreaSelectionProvider>
   );
 }
\ No newline at end of file
@@ -1,9 +1,11 @@
 'use client';
 
 import { UserButton, useUser } from '@clerk/nextjs';
-import { Menu, Bell, Search } from 'lucide-react';
+import { Menu, Search } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { NotificationBell } from './NotificationBell';
+import { AreaSwitcher } from './AreaSwitcher';
 
 interface HeaderProps {
   onMenuClick: () => void;
@@ -41,14 +43,10 @@ export function Header({ onMenuClick }: HeaderProps) {
           </div>
         </div>
 
-        {/* Right side - Notifications & User */}
+        {/* Right side - Area, Notifications & User */}
         <div className="flex items-center space-x-3">
-          <Button variant="ghost" size="sm" className="relative">
-            <Bell className="h-5 w-5" />
-            <span className="absolute -top-1 -right-1 h-4 w-4 bg-red-500 text-white text-xs rounded-full flex items-center justify-center">
-              3
-            </span>
-          </Button>
+          <AreaSwitcher />
+          <NotificationBell />
           
           <div className="flex items-center space-x-2">
             <div className="hidden sm:block text-right">
@@ -0,0 +1,131 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Bell, AlertCircle, CheckCheck } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import type { Notification } from '@/lib/supabase';
+
+// How often the unread count is refreshed while the page is open
+const POLL_INTERVAL_MS = 60 * 1000;
+
+const NOTIFICATION_COLORS: Record<Notification['type'], string> = {
+  out_of_stock: 'text-red-600',
+  low: 'text-orange-600',
+  reorder: 'text-yellow-600',
+};
+
+function getRelativeTime(date: string) {
+  const diffInMinutes = Math.floor((Date.now() - new Date(date).getTime()) / (1000 * 60));
+  const diffInHours = Math.floor(diffInMinutes / 60);
+
+  if (diffInMinutes < 1) return 'Just now';
+  if (diffInMinutes < 60) return `${diffInMinutes} minutes ago`;
+  if (diffInHours < 24) return `${diffInHours} hours ago`;
+  return new Date(date).toLocaleDateString();
+}
+
+export function NotificationBell() {
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+
+  const fetchNotifications = useCallback(async () => {
+    try {
+      const response = await fetch('/api/notifications?limit=10');
+      if (!response.ok) return;
+
+      const result = await response.json();
+      setNotifications(result.data || []);
+      setUnreadCount(result.unreadCount || 0);
+    } catch (err) {
+      console.error('Error fetching notifications:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchNotifications();
+    const interval = setInterval(fetchNotifications, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [fetchNotifications]);
+
+  const markAsRead = async (body: { ids: number[] } | { all: true }) => {
+    try {
+      const response = await fetch('/api/notifications', {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(body),
+      });
+
+      if (response.ok) {
+        await fetchNotifications();
+      }
+    } catch (err) {
+      console.error('Error marking notifications as read:', err);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="sm" className="relative">
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-1 -right-1 h-4 min-w-[1rem] px-1 bg-red-500 text-white text-xs rounded-full flex items-center justify-center">
+              {unreadCount > 99 ? '99+' : unreadCount}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80">
+        <DropdownMenuLabel className="flex items-center justify-between">
+          <span>Notifications</span>
+          {unreadCount > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-auto px-2 py-1 text-xs"
+              onClick={() => markAsRead({ all: true })}
+            >
+              <CheckCheck className="h-3 w-3 mr-1" />
+              Mark all as read
+            </Button>
+          )}
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {notifications.length === 0 ? (
+          <div className="py-6 text-center text-sm text-gray-500">No notifications</div>
+        ) : (
+          notifications.map((notification) => (
+            <DropdownMenuItem
+              key={notification.id}
+              className="flex items-start gap-2 py-2"
+              onSelect={(e) => {
+                e.preventDefault();
+                if (!notification.read_at) markAsRead({ ids: [notification.id] });
+              }}
+            >
+              <AlertCircle className={`h-4 w-4 mt-0.5 shrink-0 ${NOTIFICATION_COLORS[notification.type]}`} />
+              <div className="flex-1 min-w-0 space-y-0.5">
+                <p className={`text-sm ${notification.read_at ? 'text-gray-600' : 'font-medium text-gray-900'}`}>
+                  {notification.title}
+                </p>
+                <p className="text-xs text-gray-600 whitespace-normal">{notification.message}</p>
+                <p className="text-xs text-gray-400">{getRelativeTime(notification.created_at)}</p>
+              </div>
+              {!notification.read_at && <span className="h-2 w-2 mt-1.5 rounded-full bg-blue-500 shrink-0" />}
+            </DropdownMenuItem>
+          ))
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { useUser } from '@clerk/nextjs';
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
@@ -10,12 +10,17 @@ import {
   Boxes,
   Users,
   MapPin,
+  GitCompare,
+  Webhook,
   Settings,
   ChevronLeft,
   ChevronRight
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
+import { usePermissions } from '@/hooks/usePermission';
+import { useRoles } from '@/hooks/useRoles';
+import { Permission } from '@/lib/permissions';
 
 interface SidebarProps {
   isOpen: boolean;
@@ -26,11 +31,8 @@ interface MenuItem {
   name: string;
   href: string;
   icon: React.ComponentType<{ className?: string }>;
-  roles?: string[];
-}
-
-interface UserProfile {
-  role: string;
+  // Shown only to users with this permission (or any of these)
+  permission?: Permission | Permission[];
 }
 
 const menuItems: MenuItem[] = [
@@ -53,13 +55,25 @@ const menuItems: MenuItem[] = [
     name: 'User Management',
     href: '/admin/users',
     icon: Users,
-    roles: ['superadmin'],
+    permission: ['users.manage', 'users.manage_area'],
+  },
+  {
+    name: 'User Sync',
+    href: '/admin/user-sync',
+    icon: GitCompare,
+    permission: 'users.manage',
   },
   {
     name: 'Area Management',
     href: '/admin/areas',
     icon: MapPin,
-    roles: ['superadmin'],
+    permission: 'areas.manage',
+  },
+  {
+    name: 'Webhooks',
+    href: '/admin/webhooks',
+    icon: Webhook,
+    permission: 'jobs.run',
   },
   {
     name: 'Settings',
@@ -72,38 +86,10 @@ export function Sidebar({ isOpen, onClose }: SidebarProps) {
   const { user } = useUser();
   const pathname = usePathname();
   const [collapsed, setCollapsed] = useState(false);
-  const [userProfile, setUserProfile] = useState<UserProfile | null>(null);
-  const [profileLoading, setProfileLoading] = useState(true);
-
-  useEffect(() => {
-    const fetchUserProfile = async () => {
-      if (!user) return;
-      
-      try {
-        const response = await fetch('/api/auth/profile');
-        if (response.ok) {
-          const result = await response.json();
-          setUserProfile(result.data);
-        }
-      } catch (error) {
-        console.error('Error fetching user profile:', error);
-      } finally {
-        setProfileLoading(false);
-      }
-    };
-
-    fetchUserProfile();
-  }, [user]);
-
-  // Get user role - fallback to metadata or default
-  const userRole = userProfile?.role || 
-                   (user?.publicMetadata?.role as string) || 
-                   'area sales supervisor';
+  const { role, loading: permissionsLoading, can } = usePermissions();
+  const { getRoleLabel } = useRoles();
 
-  const filteredMenuItems = menuItems.filter(item => {
-    if (!item.roles) return true;
-    return item.roles.includes(userRole);
-  });
+  const filteredMenuItems = menuItems.filter(item => !item.permission || can(item.permission));
 
   return (
     <>
@@ -180,12 +166,7 @@ export function Sidebar({ isOpen, onClose }: SidebarProps) {
                     {user?.firstName} {user?.lastName}
                   </p>
                   <p className="text-xs text-gray-400 truncate">
-                    {profileLoading ? 'Loading...' : (
-                      userRole === 'superadmin' ? 'Super Admin' :
-                      userRole === 'area sales manager' ? 'Area Sales Manager' :
-                      userRole === 'area sales supervisor' ? 'Area Sales Supervisor' :
-                      userRole
-                    )}
+                    {permissionsLoading ? 'Loading...' : role ? getRoleLabel(role) : 'Unknown'}
                   </p>
                 </div>
               </div>
@@ -8,7 +8,7 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
-import { AlertCircle, User, Save } from 'lucide-react';
+import { AlertCircle, User, Save, Mail } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 
 interface UserProfile {
@@ -16,6 +16,7 @@ interface UserProfile {
   email: string;
   full_name?: string;
   role: string;
+  email_digest_enabled?: boolean;
   master_areas?: {
     name: string;
     erp_id: number;
@@ -28,6 +29,7 @@ export function ProfileSettings() {
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [fullName, setFullName] = useState('');
+  const [savingDigest, setSavingDigest] = useState(false);
   const { toast } = useToast();
 
   useEffect(() => {
@@ -74,6 +76,33 @@ export function ProfileSettings() {
     }
   };
 
+  const handleDigestToggle = async (enabled: boolean) => {
+    try {
+      setSavingDigest(true);
+      const response = await fetch('/api/auth/profile', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ emailDigestEnabled: enabled }),
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to update email preferences');
+      }
+
+      const result = await response.json();
+      setUserProfile(result.data);
+      toast({
+        title: "Success",
+        description: enabled ? "Daily digest enabled" : "Daily digest disabled",
+      });
+    } catch (err) {
+      console.error('Error updating email preferences:', err);
+      toast({ title: "Error", description: "Failed to update email preferences", variant: "destructive" });
+    } finally {
+      setSavingDigest(false);
+    }
+  };
+
   if (loading) {
     return (
       <Card>
@@ -135,6 +164,33 @@ export function ProfileSettings() {
           </div>
         </CardContent>
       </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Mail className="h-5 w-5 mr-2" />
+            Email Notifications
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="flex items-start space-x-3">
+            <input
+              id="email-digest"
+              type="checkbox"
+              className="mt-1 h-4 w-4"
+              checked={userProfile.email_digest_enabled ?? false}
+              onChange={(e) => handleDigestToggle(e.target.checked)}
+              disabled={savingDigest}
+            />
+            <div>
+              <Label htmlFor="email-digest">Daily digest</Label>
+              <p className="text-sm text-gray-600">
+                A daily email with low-stock and out-of-stock items in your areas and any failed iDempiere syncs.
+              </p>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
     </div>
   );
 }
\ No newline at end of file
@@ -2,18 +2,31 @@
  * React hook for managing finished goods data with IndexedDB
  */
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { useUser } from '@clerk/nextjs';
 import { 
   finishedGoodsDB, 
   FinishedGood, 
-  FinishedGoodCategory
+  FinishedGoodCategory,
+  FinishedGoodStockLevel
 } from '@/lib/indexeddb';
-import { fetchFinishedGoodsClient, IDempiereAPIError } from '@/lib/idempiere-api';
+import {
+  fetchFinishedGoodsClient,
+  fetchFinishedGoodsStockClient,
+  IDempiereAPIError,
+  IDempierePagedFetchError,
+  PagedFetchState,
+} from '@/lib/idempiere-api';
+import {
+  applyFinishedGoodsSync,
+  FinishedGoodsSyncResume,
+  planFinishedGoodsSync,
+} from '@/lib/finished-goods-sync';
 
 interface UseFinishedGoodsState {
   finishedGoods: FinishedGood[];
   categories: FinishedGoodCategory[];
+  stockLevels: FinishedGoodStockLevel[];
   loading: boolean;
   error: string | null;
   syncStatus: 'idle' | 'syncing' | 'success' | 'error';
@@ -41,6 +54,7 @@ export function useFinishedGoods(): UseFinishedGoodsState & UseFinishedGoodsActi
   const [state, setState] = useState<UseFinishedGoodsState>({
     finishedGoods: [],
     categories: [],
+    stockLevels: [],
     loading: false,
     error: null,
     syncStatus: 'idle',
@@ -53,6 +67,8 @@ export function useFinishedGoods(): UseFinishedGoodsState & UseFinishedGoodsActi
       percentage: 0,
     },
   });
+  // Plan and pages already fetched before a failed sync, so the next sync resumes from there
+  const resumeStateRef = useRef<FinishedGoodsSyncResume | null>(null);
 
   // Initialize IndexedDB and load data when user signs in
   useEffect(() => {
@@ -95,6 +111,7 @@ export function useFinishedGoods(): UseFinishedGoodsState & UseFinishedGoodsActi
         setState({
           finishedGoods: [],
           categories: [],
+          stockLevels: [],
           loading: false,
           error: null,
           syncStatus: 'idle',
@@ -112,9 +129,10 @@ export function useFinishedGoods(): UseFinishedGoodsState & UseFinishedGoodsActi
 
     const loadExistingData = async () => {
       try {
-        const [finishedGoods, categories, metadata] = await Promise.all([
+        const [finishedGoods, categories, stockLevels, metadata] = await Promise.all([
           finishedGoodsDB.getFinishedGoods(),
           finishedGoodsDB.getCategories(),
+          finishedGoodsDB.getStockLevels(),
           finishedGoodsDB.getSyncMetadata()
         ]);
 
@@ -123,6 +141,7 @@ export function useFinishedGoods(): UseFinishedGoodsState & UseFinishedGoodsActi
             ...prev,
             finishedGoods,
             categories,
+            stockLevels,
             lastSyncTime: metadata?.value || null,
             recordCount: metadata?.record_count || 0,
             syncStatus: finishedGoods.length > 0 ? 'success' : 'idle',
@@ -180,9 +199,11 @@ export function useFinishedGoods(): UseFinishedGoodsState & UseFinishedGoodsActi
   const clearData = useCallback(async () => {
     try {
       await finishedGoodsDB.clearAllData();
+      resumeStateRef.current = null;
       setState({
         finishedGoods: [],
         categories: [],
+        stockLevels: [],
         loading: false,
         error: null,
         syncStatus: 'idle',
@@ -208,9 +229,10 @@ export function useFinishedGoods(): UseFinishedGoodsState & UseFinishedGoodsActi
     try {
       setState(prev => ({ ...prev, loading: true, error: null }));
       
-      const [finishedGoods, categories, metadata] = await Promise.all([
+      const [finishedGoods, categories, stockLevels, metadata] = await Promise.all([
         finishedGoodsDB.getFinishedGoods(),
         finishedGoodsDB.getCategories(),
+        finishedGoodsDB.getStockLevels(),
         finishedGoodsDB.getSyncMetadata()
       ]);
 
@@ -218,6 +240,7 @@ export function useFinishedGoods(): UseFinishedGoodsState & UseFinishedGoodsActi
         ...prev,
         finishedGoods,
         categories,
+        stockLevels,
         lastSyncTime: metadata?.value || null,
         recordCount: metadata?.record_count || 0,
         loading: false,
@@ -271,38 +294,82 @@ export function useFinishedGoods(): UseFinishedGoodsState & UseFinishedGoodsActi
         syncProgress: {
           stage: 'fetching',
           message: 'Fetching data from iDempiere...',
-          percentage: 40,
+          percentage: 0,
+        }
+      }));
+
+      await finishedGoodsDB.init();
+
+      // Only fetch products changed since the last sync when the local cache allows it
+      const plan = resumeStateRef.current?.plan ?? await planFinishedGoodsSync();
+
+      // Fetch product master data page by page (0% - 75%)
+      let data;
+      try {
+        data = await fetchFinishedGoodsClient({
+          updatedSince: plan.updatedSince,
+          resumeFrom: resumeStateRef.current?.state,
+          onProgress: ({ page, pageCount, recordsFetched, totalRecords }) => {
+            setState(prev => ({
+              ...prev,
+              syncProgress: {
+                stage: 'fetching',
+                message: plan.mode === 'delta'
+                  ? `Fetching changes page ${page} of ${pageCount} (${recordsFetched} of ${totalRecords} updated products)...`
+                  : `Fetching page ${page} of ${pageCount} (${recordsFetched} of ${totalRecords} products)...`,
+                percentage: Math.round((page / Math.max(pageCount, 1)) * 75),
+              }
+            }));
+          },
+        });
+      } catch (fetchError) {
+        if (fetchError instanceof IDempierePagedFetchError) {
+          resumeStateRef.current = { plan, state: fetchError.state as PagedFetchState<FinishedGood> };
+        }
+        throw fetchError;
+      }
+      resumeStateRef.current = null;
+
+      setState(prev => ({
+        ...prev,
+        syncProgress: {
+          stage: 'fetching',
+          message: 'Fetching stock levels per area...',
+          percentage: 80,
         }
       }));
 
-      // Fetch data from API
-      const data = await fetchFinishedGoodsClient();
+      const stockData = await fetchFinishedGoodsStockClient();
 
       setState(prev => ({
         ...prev,
         syncProgress: {
           stage: 'storing',
-          message: `Storing ${data.records.length} products...`,
-          percentage: 60,
+          message: plan.mode === 'delta'
+            ? `Applying ${data.records.length} changed products...`
+            : `Storing ${data.records.length} products...`,
+          percentage: 90,
         }
       }));
 
       // Store in IndexedDB
-      await finishedGoodsDB.storeFinishedGoods(data);
+      const result = await applyFinishedGoodsSync(plan, data);
+      await finishedGoodsDB.storeStockLevels(stockData);
 
       setState(prev => ({
         ...prev,
         syncProgress: {
           stage: 'processing',
           message: 'Processing categories and metadata...',
-          percentage: 80,
+          percentage: 95,
         }
       }));
 
       // Update state with new data
-      const [finishedGoods, categories, metadata] = await Promise.all([
+      const [finishedGoods, categories, stockLevels, metadata] = await Promise.all([
         finishedGoodsDB.getFinishedGoods(),
         finishedGoodsDB.getCategories(),
+        finishedGoodsDB.getStockLevels(),
         finishedGoodsDB.getSyncMetadata()
       ]);
 
@@ -310,17 +377,20 @@ export function useFinishedGoods(): UseFinishedGoodsState & UseFinishedGoodsActi
         ...prev,
         finishedGoods,
         categories,
+        stockLevels,
         lastSyncTime: metadata?.value || null,
         recordCount: metadata?.record_count || 0,
         syncStatus: 'success',
         syncProgress: {
           stage: 'complete',
-          message: `Successfully synced ${data.records.length} products`,
+          message: result.mode === 'delta'
+            ? `Updated ${result.recordsFetched} changed products (${result.recordCount} total)`
+            : `Successfully synced ${result.recordCount} products`,
           percentage: 100,
         }
       }));
 
-      console.log(`Successfully synced ${data.records.length} finished goods`);
+      console.log(`Successfully ran ${result.mode} sync of finished goods: ${result.recordsFetched} fetched, ${result.recordsRemoved} removed`);
     } catch (error) {
       console.error('Error syncing finished goods:', error);
       
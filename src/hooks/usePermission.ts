@@ -0,0 +1,131 @@
+/**
+ * React hooks for the current user's permissions
+ * Every component on a page shares one request per signed-in user. The cached
+ * request is dropped when another user signs in, and by
+ * `invalidatePermissions` after a role change.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { useUser } from '@clerk/nextjs';
+import type { Permission } from '@/lib/permissions';
+
+interface PermissionsData {
+  role: string;
+  permissions: Permission[];
+}
+
+interface UsePermissionsReturn {
+  role: string | null;
+  permissions: Permission[];
+  loading: boolean;
+  error: string | null;
+  /** Whether the user has the permission, or any of the permissions */
+  can: (permission: Permission | Permission[]) => boolean;
+}
+
+const permissionRequests = new Map<string, Promise<PermissionsData>>();
+const invalidationListeners = new Set<() => void>();
+
+/**
+ * Drop the cached permissions and reload them in every mounted hook
+ */
+export function invalidatePermissions(): void {
+  permissionRequests.clear();
+  invalidationListeners.forEach(listener => listener());
+}
+
+function loadPermissions(clerkUserId: string): Promise<PermissionsData> {
+  // Permissions of a previous user must not outlive their session
+  for (const cachedUserId of permissionRequests.keys()) {
+    if (cachedUserId !== clerkUserId) permissionRequests.delete(cachedUserId);
+  }
+
+  let request = permissionRequests.get(clerkUserId);
+  if (!request) {
+    request = fetch('/api/auth/permissions')
+      .then(async (response) => {
+        const result = await response.json();
+        if (!response.ok) {
+          throw new Error(result.error || 'Failed to load permissions');
+        }
+        return result.data as PermissionsData;
+      })
+      .catch((error) => {
+        // Allow a later render to retry
+        permissionRequests.delete(clerkUserId);
+        throw error;
+      });
+    permissionRequests.set(clerkUserId, request);
+  }
+  return request;
+}
+
+export function usePermissions(): UsePermissionsReturn {
+  const { user, isLoaded } = useUser();
+  const clerkUserId = user?.id;
+  const [data, setData] = useState<PermissionsData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    const listener = () => setVersion(current => current + 1);
+    invalidationListeners.add(listener);
+    return () => {
+      invalidationListeners.delete(listener);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!isLoaded) return;
+    if (!clerkUserId) {
+      permissionRequests.clear();
+      setData(null);
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    loadPermissions(clerkUserId)
+      .then((result) => {
+        if (cancelled) return;
+        setData(result);
+        setError(null);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        console.error('Error fetching permissions:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load permissions');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isLoaded, clerkUserId, version]);
+
+  const can = useCallback(
+    (permission: Permission | Permission[]) =>
+      (Array.isArray(permission) ? permission : [permission]).some(p => data?.permissions.includes(p) ?? false),
+    [data]
+  );
+
+  return {
+    role: data?.role ?? null,
+    permissions: data?.permissions ?? [],
+    loading: !isLoaded || loading,
+    error,
+    can,
+  };
+}
+
+/**
+ * Whether the current user has a permission; `allowed` is false while loading
+ */
+export function usePermission(permission: Permission): { allowed: boolean; loading: boolean } {
+  const { can, loading } = usePermissions();
+  return { allowed: can(permission), loading };
+}
@@ -0,0 +1,293 @@
+/**
+ * React hook for managing raw materials data with IndexedDB
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useUser } from '@clerk/nextjs';
+import {
+  rawMaterialsDB,
+  RawMaterialProduct,
+  RawMaterialCategory,
+  RawMaterialStockLevel
+} from '@/lib/raw-materials-db';
+import {
+  fetchRawMaterialsClient,
+  fetchRawMaterialsStockClient,
+  IDempiereAPIError,
+  IDempierePagedFetchError,
+  PagedFetchState,
+} from '@/lib/idempiere-api';
+
+interface UseRawMaterialsState {
+  rawMaterials: RawMaterialProduct[];
+  categories: RawMaterialCategory[];
+  stockLevels: RawMaterialStockLevel[];
+  loading: boolean;
+  error: string | null;
+  syncStatus: 'idle' | 'syncing' | 'success' | 'error';
+  lastSyncTime: string | null;
+  recordCount: number;
+  syncProgress: {
+    stage: 'fetching' | 'storing' | 'processing' | 'complete' | null;
+    message: string;
+    percentage: number;
+  };
+}
+
+interface UseRawMaterialsActions {
+  syncData: () => Promise<void>;
+  searchMaterials: (searchTerm: string) => Promise<RawMaterialProduct[]>;
+  getMaterialsByCategory: (categoryId: number) => Promise<RawMaterialProduct[]>;
+  refreshData: () => Promise<void>;
+}
+
+const initialState: UseRawMaterialsState = {
+  rawMaterials: [],
+  categories: [],
+  stockLevels: [],
+  loading: false,
+  error: null,
+  syncStatus: 'idle',
+  lastSyncTime: null,
+  recordCount: 0,
+  syncProgress: {
+    stage: null,
+    message: '',
+    percentage: 0,
+  },
+};
+
+export function useRawMaterials(): UseRawMaterialsState & UseRawMaterialsActions {
+  const { isSignedIn, isLoaded } = useUser();
+
+  const [state, setState] = useState<UseRawMaterialsState>(initialState);
+  // Pages already fetched before a failed sync, so the next sync resumes from there
+  const resumeStateRef = useRef<PagedFetchState<RawMaterialProduct> | null>(null);
+
+  /**
+   * Load data from IndexedDB without syncing from server
+   */
+  const loadDataFromIndexedDB = useCallback(async () => {
+    try {
+      setState(prev => ({ ...prev, loading: true, error: null }));
+
+      const [rawMaterials, categories, stockLevels, metadata] = await Promise.all([
+        rawMaterialsDB.getRawMaterials(),
+        rawMaterialsDB.getCategories(),
+        rawMaterialsDB.getStockLevels(),
+        rawMaterialsDB.getSyncMetadata()
+      ]);
+
+      setState(prev => ({
+        ...prev,
+        rawMaterials,
+        categories,
+        stockLevels,
+        lastSyncTime: metadata?.value || null,
+        recordCount: metadata?.record_count || 0,
+        syncStatus: metadata ? 'success' : prev.syncStatus,
+        loading: false,
+      }));
+
+      return metadata;
+    } catch (error) {
+      console.error('[useRawMaterials] Error loading data from IndexedDB:', error);
+      setState(prev => ({
+        ...prev,
+        loading: false,
+        error: 'Failed to load data from local storage'
+      }));
+      return undefined;
+    }
+  }, []);
+
+  /**
+   * Sync data with progress tracking (external API)
+   */
+  const syncDataWithProgress = useCallback(async () => {
+    if (!isSignedIn) {
+      setState(prev => ({ ...prev, error: 'User not signed in' }));
+      return;
+    }
+
+    try {
+      setState(prev => ({
+        ...prev,
+        syncStatus: 'syncing',
+        error: null,
+        syncProgress: {
+          stage: 'fetching',
+          message: 'Fetching raw materials from iDempiere...',
+          percentage: 0,
+        }
+      }));
+
+      // Fetch product master data page by page (0% - 75%)
+      const data = await fetchRawMaterialsClient({
+        resumeFrom: resumeStateRef.current,
+        onProgress: ({ page, pageCount, recordsFetched, totalRecords }) => {
+          setState(prev => ({
+            ...prev,
+            syncProgress: {
+              stage: 'fetching',
+              message: `Fetching page ${page} of ${pageCount} (${recordsFetched} of ${totalRecords} materials)...`,
+              percentage: Math.round((page / Math.max(pageCount, 1)) * 75),
+            }
+          }));
+        },
+      });
+      resumeStateRef.current = null;
+
+      setState(prev => ({
+        ...prev,
+        syncProgress: {
+          stage: 'fetching',
+          message: 'Fetching stock levels per area...',
+          percentage: 80,
+        }
+      }));
+
+      const stockData = await fetchRawMaterialsStockClient();
+
+      setState(prev => ({
+        ...prev,
+        syncProgress: {
+          stage: 'storing',
+          message: `Storing ${data.records.length} materials...`,
+          percentage: 90,
+        }
+      }));
+
+      await rawMaterialsDB.storeRawMaterials(data);
+      await rawMaterialsDB.storeStockLevels(stockData);
+
+      setState(prev => ({
+        ...prev,
+        syncProgress: {
+          stage: 'processing',
+          message: 'Processing categories and metadata...',
+          percentage: 95,
+        }
+      }));
+
+      await loadDataFromIndexedDB();
+
+      setState(prev => ({
+        ...prev,
+        syncStatus: 'success',
+        syncProgress: {
+          stage: 'complete',
+          message: `Successfully synced ${data.records.length} raw materials`,
+          percentage: 100,
+        }
+      }));
+
+      console.log(`[useRawMaterials] Successfully synced ${data.records.length} raw materials`);
+    } catch (error) {
+      console.error('Error syncing raw materials:', error);
+
+      if (error instanceof IDempierePagedFetchError) {
+        resumeStateRef.current = error.state as PagedFetchState<RawMaterialProduct>;
+      }
+
+      let errorMessage = 'Failed to sync raw materials data';
+      if (error instanceof IDempiereAPIError) {
+        errorMessage = error.message;
+      } else if (error instanceof Error) {
+        errorMessage = error.message;
+      }
+
+      setState(prev => ({
+        ...prev,
+        syncStatus: 'error',
+        error: errorMessage,
+        syncProgress: {
+          stage: null,
+          message: '',
+          percentage: 0,
+        }
+      }));
+
+      throw error;
+    }
+  }, [isSignedIn, loadDataFromIndexedDB]);
+
+  // Load cached data when the user signs in, syncing automatically if the cache is empty
+  useEffect(() => {
+    let mounted = true;
+
+    const handleUserAuth = async () => {
+      if (isLoaded && isSignedIn && mounted) {
+        const metadata = await loadDataFromIndexedDB();
+        if (mounted && !metadata) {
+          syncDataWithProgress().catch(() => {
+            // Error state is already set in syncDataWithProgress
+          });
+        }
+      } else if (isLoaded && !isSignedIn && mounted) {
+        // Clear local state when user signs out (FinishedGoodsDataManager handles IndexedDB clearing)
+        resumeStateRef.current = null;
+        setState(initialState);
+      }
+    };
+
+    handleUserAuth();
+
+    return () => {
+      mounted = false;
+    };
+  }, [isSignedIn, isLoaded, loadDataFromIndexedDB, syncDataWithProgress]);
+
+  /**
+   * Search materials by name or code
+   */
+  const searchMaterials = useCallback(async (searchTerm: string): Promise<RawMaterialProduct[]> => {
+    try {
+      return await rawMaterialsDB.searchRawMaterials(searchTerm);
+    } catch (error) {
+      console.error('Error searching raw materials:', error);
+      setState(prev => ({ ...prev, error: 'Failed to search raw materials' }));
+      return [];
+    }
+  }, []);
+
+  /**
+   * Get materials by category
+   */
+  const getMaterialsByCategory = useCallback(async (categoryId: number): Promise<RawMaterialProduct[]> => {
+    try {
+      return await rawMaterialsDB.getRawMaterialsByCategory(categoryId);
+    } catch (error) {
+      console.error('Error getting raw materials by category:', error);
+      setState(prev => ({ ...prev, error: 'Failed to get raw materials by category' }));
+      return [];
+    }
+  }, []);
+
+  /**
+   * Refresh data by loading from IndexedDB
+   */
+  const refreshData = useCallback(async () => {
+    await loadDataFromIndexedDB();
+  }, [loadDataFromIndexedDB]);
+
+  /**
+   * Manual sync data (exposed for external use)
+   */
+  const syncData = useCallback(async () => {
+    try {
+      await syncDataWithProgress();
+    } catch (error) {
+      // Error is already handled in syncDataWithProgress
+      console.error('Raw materials sync failed:', error);
+    }
+  }, [syncDataWithProgress]);
+
+  return {
+    ...state,
+    syncData,
+    searchMaterials,
+    getMaterialsByCategory,
+    refreshData,
+  };
+}
@@ -0,0 +1,65 @@
+/**
+ * React hook for the roles defined in the `roles` table
+ * Every component on a page shares one request.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import type { Role } from '@/lib/supabase';
+
+interface UseRolesReturn {
+  roles: Role[];
+  loading: boolean;
+  /** Display label of a role; the role name until roles have loaded */
+  getRoleLabel: (role: string) => string;
+}
+
+let rolesRequest: Promise<Role[]> | null = null;
+
+function loadRoles(): Promise<Role[]> {
+  if (!rolesRequest) {
+    rolesRequest = fetch('/api/auth/roles')
+      .then(async (response) => {
+        const result = await response.json();
+        if (!response.ok) {
+          throw new Error(result.error || 'Failed to load roles');
+        }
+        return result.data as Role[];
+      })
+      .catch((error) => {
+        // Allow a later render to retry
+        rolesRequest = null;
+        throw error;
+      });
+  }
+  return rolesRequest;
+}
+
+export function useRoles(): UseRolesReturn {
+  const [roles, setRoles] = useState<Role[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadRoles()
+      .then((result) => {
+        if (!cancelled) setRoles(result);
+      })
+      .catch((err) => {
+        if (!cancelled) console.error('Error fetching roles:', err);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const getRoleLabel = useCallback(
+    (role: string) => roles.find(known => known.name === role)?.label ?? role,
+    [roles]
+  );
+
+  return { roles, loading, getRoleLabel };
+}
@@ -0,0 +1,75 @@
+/**
+ * Server-side recorder for the `activity_events` feed
+ */
+
+import { supabaseAdmin, ActivityType } from './supabase';
+
+export const ACTIVITY_TYPES: ActivityType[] = ['update', 'alert', 'reorder', 'sync'];
+
+export interface RecordActivityInput {
+  type: ActivityType;
+  action: string;
+  item: string;
+  /** Area the event belongs to; omit for events that concern every area */
+  areaId?: number | null;
+  /** Clerk user id of the actor; omit for system events */
+  actorClerkUserId?: string | null;
+  /** Display name; looked up from user_profiles when omitted */
+  actorName?: string;
+  metadata?: Record<string, unknown>;
+}
+
+async function resolveActorName(clerkUserId: string): Promise<string> {
+  const { data } = await supabaseAdmin
+    .from('user_profiles')
+    .select('full_name, email')
+    .eq('clerk_user_id', clerkUserId)
+    .maybeSingle();
+
+  return data?.full_name || data?.email || 'Unknown user';
+}
+
+/**
+ * Append an event to the activity feed. Failures are logged and swallowed so
+ * the feed can never break the operation being recorded.
+ */
+export async function recordActivity(input: RecordActivityInput): Promise<void> {
+  try {
+    const actorClerkUserId = input.actorClerkUserId && input.actorClerkUserId !== 'scheduler'
+      ? input.actorClerkUserId
+      : null;
+    const actorName = input.actorName
+      || (actorClerkUserId ? await resolveActorName(actorClerkUserId) : 'System');
+
+    const { error } = await supabaseAdmin
+      .from('activity_events')
+      .insert({
+        type: input.type,
+        action: input.action,
+        item: input.item,
+        area_id: input.areaId ?? null,
+        actor_clerk_user_id: actorClerkUserId,
+        actor_name: actorName,
+        metadata: input.metadata ?? null,
+      });
+
+    if (error) {
+      console.error('Error recording activity event:', error);
+    }
+  } catch (error) {
+    console.error('Error recording activity event:', error);
+  }
+}
+
+/**
+ * Display label for a user profile, used as the `item` of user-related events
+ */
+export async function describeUserProfile(userProfileId: string): Promise<string> {
+  const { data } = await supabaseAdmin
+    .from('user_profiles')
+    .select('full_name, email')
+    .eq('id', userProfileId)
+    .maybeSingle();
+
+  return data?.full_name || data?.email || 'Unknown user';
+}
@@ -0,0 +1,220 @@
+/**
+ * Area deactivation cascade with dry-run planning and rollback
+ * Deactivating an area removes every `user_area_mappings` row for it and
+ * deactivates (and locks in Clerk) active users whose primary area it is and
+ * who have no other active mapped area. The database part runs in one
+ * transaction (`deactivate_area` / `restore_area_deactivation`), which also
+ * stores an `area_deactivation_snapshots` row for rollback and queues the
+ * Clerk calls in `clerk_lock_outbox`. Queued calls are attempted right away;
+ * failures are left to the outbox worker.
+ */
+
+import {
+  supabaseAdmin,
+  AreaDeactivationSnapshot,
+  ClerkLockOutboxStatus,
+  DeactivationSnapshotMapping,
+  DeactivationSnapshotUser,
+} from './supabase';
+import { processClerkLockOutbox } from './clerk-lock-outbox';
+
+export interface AreaDeactivationPlan {
+  area: { id: number; name: string; is_active: boolean };
+  mappingsToRemove: DeactivationSnapshotMapping[];
+  usersToDeactivate: DeactivationSnapshotUser[];
+}
+
+/** Per-user outcome of the Clerk lock or unlock queued for a user */
+export interface UserClerkOutcome {
+  id: string;
+  email: string;
+  full_name?: string | null;
+  outboxId: number | null;
+  /** `pending` means the Clerk call failed and will be retried by the outbox worker */
+  status: ClerkLockOutboxStatus;
+  error: string | null;
+}
+
+export interface AreaDeactivationResult {
+  area: AreaDeactivationPlan['area'];
+  snapshotId: number;
+  removedMappings: DeactivationSnapshotMapping[];
+  /** Deactivated users and their Clerk lock */
+  users: UserClerkOutcome[];
+}
+
+export interface AreaRestoreResult {
+  areaId: number;
+  mappingsRestored: number;
+  /** Mappings that already existed again or whose user has since been deleted */
+  mappingsSkipped: number;
+  /** Reactivated users and their Clerk unlock */
+  users: UserClerkOutcome[];
+}
+
+interface ClerkLockRequest {
+  userProfileId: string;
+  outboxId: number;
+}
+
+export class AreaDeactivationError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'AreaDeactivationError';
+  }
+}
+
+function toAreaDeactivationError(error: { code?: string; message: string }, context: string): Error {
+  // SQLSTATEs raised by the database functions
+  if (error.code === 'P0002') return new AreaDeactivationError(error.message, 404);
+  if (error.code === '55000') return new AreaDeactivationError(error.message, 409);
+  return new Error(`${context}: ${error.message}`);
+}
+
+async function resolveProfileId(clerkUserId: string): Promise<string | null> {
+  const { data } = await supabaseAdmin
+    .from('user_profiles')
+    .select('id')
+    .eq('clerk_user_id', clerkUserId)
+    .maybeSingle();
+
+  return data?.id ?? null;
+}
+
+/**
+ * Send the Clerk calls queued by a transaction and report them per user. The
+ * database changes are already committed, so send failures never throw.
+ */
+async function sendQueuedClerkLocks(
+  requests: ClerkLockRequest[],
+  users: DeactivationSnapshotUser[]
+): Promise<UserClerkOutcome[]> {
+  const outcomes = new Map<number, { status: ClerkLockOutboxStatus; error: string | null }>();
+
+  try {
+    for (const outcome of await processClerkLockOutbox({ ids: requests.map(request => request.outboxId) })) {
+      outcomes.set(outcome.outboxId, { status: outcome.status, error: outcome.error });
+    }
+  } catch (error) {
+    console.error('Error sending queued Clerk lock requests:', error);
+  }
+
+  const usersById = new Map(users.map(user => [user.id, user]));
+  return requests.map(request => {
+    const user = usersById.get(request.userProfileId);
+    const outcome = outcomes.get(request.outboxId);
+    return {
+      id: request.userProfileId,
+      email: user?.email ?? '',
+      full_name: user?.full_name ?? null,
+      outboxId: request.outboxId,
+      status: outcome?.status ?? 'pending',
+      error: outcome?.error ?? null,
+    };
+  });
+}
+
+/**
+ * Work out what deactivating an area would change, without changing anything.
+ * Returns null when the area does not exist.
+ */
+export async function planAreaDeactivation(areaId: number): Promise<AreaDeactivationPlan | null> {
+  const { data, error } = await supabaseAdmin.rpc('plan_area_deactivation', { p_area_id: areaId });
+
+  if (error) {
+    throw new Error(`Failed to plan area deactivation: ${error.message}`);
+  }
+
+  return (data as AreaDeactivationPlan | null) ?? null;
+}
+
+/**
+ * Deactivate an area in one transaction, then send the queued Clerk locks.
+ * The plan is recomputed under a row lock, so it reflects the data at the
+ * time of deactivation rather than that of an earlier dry run.
+ */
+export async function executeAreaDeactivation(
+  areaId: number,
+  actorClerkUserId: string
+): Promise<AreaDeactivationResult> {
+  const { data, error } = await supabaseAdmin.rpc('deactivate_area', {
+    p_area_id: areaId,
+    p_actor_id: await resolveProfileId(actorClerkUserId),
+  });
+
+  if (error) {
+    throw toAreaDeactivationError(error, 'Failed to deactivate area');
+  }
+
+  const result = data as AreaDeactivationPlan & { snapshotId: number; lockRequests: ClerkLockRequest[] };
+
+  return {
+    area: { ...result.area, is_active: false },
+    snapshotId: result.snapshotId,
+    removedMappings: result.mappingsToRemove,
+    users: await sendQueuedClerkLocks(result.lockRequests, result.usersToDeactivate),
+  };
+}
+
+/**
+ * Deactivation snapshots, newest first
+ */
+export async function listAreaDeactivations(options: {
+  areaId?: number;
+  restorableOnly?: boolean;
+} = {}): Promise<AreaDeactivationSnapshot[]> {
+  let query = supabaseAdmin
+    .from('area_deactivation_snapshots')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(100);
+
+  if (options.areaId !== undefined) {
+    query = query.eq('area_id', options.areaId);
+  }
+  if (options.restorableOnly) {
+    query = query.is('restored_at', null);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    throw new Error(`Failed to load deactivation snapshots: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+/**
+ * Roll back a deactivation in one transaction: reactivate the area, recreate
+ * the removed mappings and reactivate users that are still inactive, then
+ * send the queued Clerk unlocks. Only the latest snapshot of an area that is
+ * still inactive can be restored.
+ */
+export async function restoreAreaDeactivation(
+  snapshotId: number,
+  actorClerkUserId: string
+): Promise<AreaRestoreResult> {
+  const { data, error } = await supabaseAdmin.rpc('restore_area_deactivation', {
+    p_snapshot_id: snapshotId,
+    p_actor_id: await resolveProfileId(actorClerkUserId),
+  });
+
+  if (error) {
+    throw toAreaDeactivationError(error, 'Failed to roll back area deactivation');
+  }
+
+  const result = data as {
+    areaId: number;
+    mappingsRestored: number;
+    mappingsSkipped: number;
+    deactivatedUsers: DeactivationSnapshotUser[];
+    unlockRequests: ClerkLockRequest[];
+  };
+
+  return {
+    areaId: result.areaId,
+    mappingsRestored: result.mappingsRestored,
+    mappingsSkipped: result.mappingsSkipped,
+    users: await sendQueuedClerkLocks(result.unlockRequests, result.deactivatedUsers),
+  };
+}
@@ -0,0 +1,116 @@
+/**
+ * Helpers for the `master_areas` parent/child hierarchy
+ * (region -> sales area -> warehouse). Safe to use on the client.
+ */
+
+export const AREA_TYPES = ['region', 'area', 'warehouse'] as const;
+export type AreaType = typeof AREA_TYPES[number];
+
+export const AREA_TYPE_LABELS: Record<AreaType, string> = {
+  region: 'Region',
+  area: 'Sales Area',
+  warehouse: 'Warehouse',
+};
+
+export interface AreaHierarchyNode {
+  id: number;
+  parent_id?: number | null;
+}
+
+/**
+ * Child ids by parent id
+ */
+export function getChildrenByParent(areas: AreaHierarchyNode[]): Map<number, number[]> {
+  const children = new Map<number, number[]>();
+  for (const area of areas) {
+    if (area.parent_id == null) continue;
+    if (!children.has(area.parent_id)) children.set(area.parent_id, []);
+    children.get(area.parent_id)!.push(area.id);
+  }
+  return children;
+}
+
+/**
+ * The given areas and all of their descendants, without duplicates
+ */
+export function collectDescendantIds(childrenByParent: Map<number, number[]>, rootIds: number[]): number[] {
+  const collected = new Set<number>();
+  const stack = [...rootIds];
+
+  while (stack.length > 0) {
+    const areaId = stack.pop()!;
+    if (collected.has(areaId)) continue;
+    collected.add(areaId);
+    stack.push(...(childrenByParent.get(areaId) || []));
+  }
+
+  return Array.from(collected);
+}
+
+/**
+ * Ancestors of an area, nearest first
+ */
+export function getAncestorIds(areas: AreaHierarchyNode[], areaId: number): number[] {
+  const parents = new Map(areas.map(area => [area.id, area.parent_id ?? null]));
+  const ancestors: number[] = [];
+  let parentId = parents.get(areaId) ?? null;
+
+  while (parentId !== null && parentId !== areaId && !ancestors.includes(parentId)) {
+    ancestors.push(parentId);
+    parentId = parents.get(parentId) ?? null;
+  }
+
+  return ancestors;
+}
+
+/**
+ * Whether an area is `rootId` itself or one of its descendants
+ */
+export function isWithinArea(areas: AreaHierarchyNode[], areaId: number, rootId: number): boolean {
+  return areaId === rootId || getAncestorIds(areas, areaId).includes(rootId);
+}
+
+/**
+ * Whether moving `areaId` under `parentId` would make it its own ancestor
+ */
+export function wouldCreateCycle(areas: AreaHierarchyNode[], areaId: number, parentId: number | null): boolean {
+  if (parentId === null) return false;
+  return parentId === areaId || getAncestorIds(areas, parentId).includes(areaId);
+}
+
+/**
+ * Areas in depth-first tree order with their depth; siblings keep their input
+ * order. Areas whose parent is missing from the list are shown as roots.
+ */
+export function sortAreasAsTree<T extends AreaHierarchyNode>(areas: T[]): (T & { depth: number })[] {
+  const ids = new Set(areas.map(area => area.id));
+  const childrenByParent = new Map<number | null, T[]>();
+
+  for (const area of areas) {
+    const parentId = area.parent_id != null && ids.has(area.parent_id) ? area.parent_id : null;
+    if (!childrenByParent.has(parentId)) childrenByParent.set(parentId, []);
+    childrenByParent.get(parentId)!.push(area);
+  }
+
+  const sorted: (T & { depth: number })[] = [];
+  const visited = new Set<number>();
+  const visit = (area: T, depth: number) => {
+    if (visited.has(area.id)) return;
+    visited.add(area.id);
+    sorted.push({ ...area, depth });
+    for (const child of childrenByParent.get(area.id) || []) {
+      visit(child, depth + 1);
+    }
+  };
+
+  for (const root of childrenByParent.get(null) || []) {
+    visit(root, 0);
+  }
+
+  // Areas only reachable through a cycle
+  for (const area of areas) {
+    visit(area, 0);
+  }
+
+  return sorted;
+}
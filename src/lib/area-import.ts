@@ -0,0 +1,216 @@
+/**
+ * Import of `master_areas` from iDempiere organizations and warehouses
+ * Organizations map to areas by `erp_id = AD_Org_ID`; warehouses map to
+ * warehouse areas by `erp_warehouse_id = M_Warehouse_ID` and are placed under
+ * the area of their organization.
+ */
+
+import { supabaseAdmin } from './supabase';
+import {
+  fetchOrganizationsFromIDempiere,
+  fetchWarehousesFromIDempiere,
+  IDempiereOrganization,
+  IDempiereWarehouse,
+} from './idempiere-api';
+
+export type ErpAreaSource = 'organization' | 'warehouse';
+export type AreaImportChangeType = 'new' | 'renamed' | 'missing';
+
+export interface AreaImportChange {
+  /** Stable key used to select changes to apply, e.g. `organization:1000001` */
+  key: string;
+  type: AreaImportChangeType;
+  source: ErpAreaSource;
+  erpId: number;
+  /** Name in iDempiere; null for areas missing from iDempiere */
+  erpName: string | null;
+  /** Existing area, when there is one */
+  areaId: number | null;
+  areaName: string | null;
+  /** Organization of a warehouse (AD_Org_ID) */
+  parentErpId: number | null;
+}
+
+export interface AreaImportDiff {
+  changes: AreaImportChange[];
+  unchanged: number;
+}
+
+export interface AreaImportResult {
+  created: number;
+  renamed: number;
+  failed: { key: string; error: string }[];
+}
+
+interface ImportableArea {
+  id: number;
+  name: string;
+  erp_id: number | null;
+  erp_warehouse_id: number | null;
+  is_active: boolean;
+}
+
+export function areaImportKey(source: ErpAreaSource, erpId: number): string {
+  return `${source}:${erpId}`;
+}
+
+/**
+ * Compare active iDempiere organizations and warehouses with `master_areas`.
+ * Areas linked to a record that is gone or inactive in iDempiere are reported
+ * as missing; they are never changed by an import.
+ */
+export function diffErpAreas(
+  organizations: IDempiereOrganization[],
+  warehouses: IDempiereWarehouse[],
+  areas: ImportableArea[]
+): AreaImportDiff {
+  const changes: AreaImportChange[] = [];
+  let unchanged = 0;
+
+  const areasByErpId = new Map(areas.filter(area => area.erp_id != null).map(area => [area.erp_id!, area]));
+  const areasByWarehouseId = new Map(
+    areas.filter(area => area.erp_warehouse_id != null).map(area => [area.erp_warehouse_id!, area])
+  );
+
+  // Organization 0 is iDempiere's "*" (all organizations) and never an area
+  const erpRecords = [
+    ...organizations
+      .filter(org => org.IsActive && org.id !== 0)
+      .map(org => ({ source: 'organization' as const, erpId: org.id, name: org.Name, parentErpId: null })),
+    ...warehouses
+      .filter(warehouse => warehouse.IsActive)
+      .map(warehouse => ({
+        source: 'warehouse' as const,
+        erpId: warehouse.id,
+        name: warehouse.Name,
+        parentErpId: warehouse.AD_Org_ID?.id ?? null,
+      })),
+  ];
+
+  const seen = new Set<string>();
+  for (const record of erpRecords) {
+    const key = areaImportKey(record.source, record.erpId);
+    seen.add(key);
+
+    const area = record.source === 'organization'
+      ? areasByErpId.get(record.erpId)
+      : areasByWarehouseId.get(record.erpId);
+
+    if (!area) {
+      changes.push({ key, type: 'new', ...record, erpName: record.name, areaId: null, areaName: null });
+    } else if (area.name.trim() !== record.name.trim()) {
+      changes.push({ key, type: 'renamed', ...record, erpName: record.name, areaId: area.id, areaName: area.name });
+    } else {
+      unchanged += 1;
+    }
+  }
+
+  for (const area of areas) {
+    if (!area.is_active) continue;
+
+    const links: [ErpAreaSource, number | null][] = [['organization', area.erp_id], ['warehouse', area.erp_warehouse_id]];
+    for (const [source, erpId] of links) {
+      if (erpId == null || seen.has(areaImportKey(source, erpId))) continue;
+      changes.push({
+        key: areaImportKey(source, erpId),
+        type: 'missing',
+        source,
+        erpId,
+        erpName: null,
+        areaId: area.id,
+        areaName: area.name,
+        parentErpId: null,
+      });
+    }
+  }
+
+  return { changes, unchanged };
+}
+
+async function loadImportableAreas(): Promise<ImportableArea[]> {
+  const { data, error } = await supabaseAdmin
+    .from('master_areas')
+    .select('id, name, erp_id, erp_warehouse_id, is_active');
+
+  if (error) {
+    throw new Error(`Failed to load areas: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+/**
+ * Fetch organizations and warehouses from iDempiere and diff them against `master_areas`
+ */
+export async function getAreaImportDiff(): Promise<AreaImportDiff> {
+  const [organizations, warehouses, areas] = await Promise.all([
+    fetchOrganizationsFromIDempiere(),
+    fetchWarehousesFromIDempiere(),
+    loadImportableAreas(),
+  ]);
+
+  return diffErpAreas(organizations.records, warehouses.records, areas);
+}
+
+/**
+ * Apply the selected new and renamed changes of a fresh diff. Organizations
+ * are created before warehouses so a warehouse can be placed under an
+ * organization imported in the same run. Each change is applied on its own;
+ * failures are collected rather than aborting the import.
+ */
+export async function applyAreaImport(keys: string[]): Promise<AreaImportResult> {
+  const selected = new Set(keys);
+  const { changes } = await getAreaImportDiff();
+  const result: AreaImportResult = { created: 0, renamed: 0, failed: [] };
+
+  const toApply = changes
+    .filter(change => selected.has(change.key) && change.type !== 'missing')
+    .sort((a, b) => (a.source === b.source ? 0 : a.source === 'organization' ? -1 : 1));
+
+  // Keys that are no longer pending (already applied elsewhere, or missing)
+  for (const key of selected) {
+    if (!toApply.some(change => change.key === key)) {
+      result.failed.push({ key, error: 'Change is no longer pending' });
+    }
+  }
+
+  for (const change of toApply) {
+    try {
+      if (change.type === 'renamed') {
+        const { error } = await supabaseAdmin
+          .from('master_areas')
+          .update({ name: change.erpName })
+          .eq('id', change.areaId!);
+
+        if (error) throw new Error(error.message);
+        result.renamed += 1;
+        continue;
+      }
+
+      let parentId: number | null = null;
+      if (change.source === 'warehouse' && change.parentErpId !== null) {
+        const { data: parent, error: parentError } = await supabaseAdmin
+          .from('master_areas')
+          .select('id')
+          .eq('erp_id', change.parentErpId)
+          .maybeSingle();
+
+        if (parentError) throw new Error(parentError.message);
+        parentId = parent?.id ?? null;
+      }
+
+      const { error } = await supabaseAdmin
+        .from('master_areas')
+        .insert(change.source === 'organization'
+          ? { name: change.erpName, erp_id: change.erpId, area_type: 'area', is_active: true }
+          : { name: change.erpName, erp_warehouse_id: change.erpId, parent_id: parentId, area_type: 'warehouse', is_active: true });
+
+      if (error) throw new Error(error.message);
+      result.created += 1;
+    } catch (error) {
+      result.failed.push({ key: change.key, error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  }
+
+  return result;
+}
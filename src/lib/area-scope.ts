@@ -0,0 +1,147 @@
+/**
+ * Shared resolver for the areas a user may see
+ * A user's scope is their primary `user_profiles.area_id` plus their
+ * `user_area_mappings` and the descendants of those areas, limited to active
+ * `master_areas`. An inactive area also cuts off its subtree. Users with
+ * `areas.view_all` see every area. Anything else (inactive users, no areas, lookup failures)
+ * resolves to an empty scope so callers fail closed.
+ */
+
+import { supabaseAdmin } from './supabase';
+import { AreaHierarchyNode, collectDescendantIds, getChildrenByParent } from './area-hierarchy';
+import { getRolePermissions } from './authorization';
+import { Permission } from './permissions';
+
+export interface AreaScope {
+  userProfileId: string;
+  role: string;
+  /** Primary area, null when unset or inactive */
+  primaryAreaId: number | null;
+  /** areas.view_all */
+  allAreas: boolean;
+  /** Accessible areas; null means every area */
+  areaIds: number[] | null;
+  /** Active child area ids by parent, used to narrow to a subtree */
+  childAreaIds: Map<number, number[]>;
+  /** Permissions of the user's role; empty for inactive users */
+  permissions: Permission[];
+}
+
+export class AreaScopeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AreaScopeError';
+  }
+}
+
+/**
+ * Every active area with its parent
+ */
+export async function loadActiveAreaHierarchy(): Promise<AreaHierarchyNode[]> {
+  const { data, error } = await supabaseAdmin
+    .from('master_areas')
+    .select('id, parent_id')
+    .eq('is_active', true);
+
+  if (error) {
+    throw new AreaScopeError(`Failed to load areas: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+/**
+ * Resolve the area scope of a Clerk user; returns null when they have no profile
+ */
+export async function resolveAreaScope(clerkUserId: string): Promise<AreaScope | null> {
+  const { data: userProfile, error: userError } = await supabaseAdmin
+    .from('user_profiles')
+    .select('id, role, area_id, is_active')
+    .eq('clerk_user_id', clerkUserId)
+    .maybeSingle();
+
+  if (userError) {
+    throw new AreaScopeError(`Failed to load user profile: ${userError.message}`);
+  }
+
+  if (!userProfile) {
+    return null;
+  }
+
+  // Only active areas are walked, so an inactive area hides its subtree
+  const [activeAreas, permissions] = await Promise.all([
+    loadActiveAreaHierarchy(),
+    getRolePermissions(userProfile.role),
+  ]);
+  const activeAreaIds = new Set(activeAreas.map(area => area.id));
+  const childAreaIds = getChildrenByParent(activeAreas);
+
+  const base = { userProfileId: userProfile.id, role: userProfile.role, childAreaIds, permissions };
+
+  if (userProfile.is_active === false) {
+    return { ...base, primaryAreaId: null, allAreas: false, areaIds: [], permissions: [] };
+  }
+
+  if (permissions.includes('areas.view_all')) {
+    return { ...base, primaryAreaId: userProfile.area_id ?? null, allAreas: true, areaIds: null };
+  }
+
+  const { data: mappings, error: mappingsError } = await supabaseAdmin
+    .from('user_area_mappings')
+    .select('area_id')
+    .eq('user_profile_id', userProfile.id);
+
+  if (mappingsError) {
+    throw new AreaScopeError(`Failed to load user area mappings: ${mappingsError.message}`);
+  }
+
+  const grantedIds = [
+    ...(userProfile.area_id ? [userProfile.area_id] : []),
+    ...(mappings || []).map(mapping => mapping.area_id as number),
+  ].filter(areaId => activeAreaIds.has(areaId));
+
+  const areaIds = collectDescendantIds(childAreaIds, grantedIds).sort((a, b) => a - b);
+
+  return {
+    ...base,
+    primaryAreaId: userProfile.area_id && areaIds.includes(userProfile.area_id) ? userProfile.area_id : null,
+    allAreas: false,
+    areaIds,
+  };
+}
+
+export function scopeHasPermission(scope: AreaScope, permission: Permission): boolean {
+  return scope.permissions.includes(permission);
+}
+
+export function canAccessArea(scope: AreaScope, areaId: number): boolean {
+  return scope.areaIds === null || scope.areaIds.includes(areaId);
+}
+
+/**
+ * Parse an `area_id` query parameter; null when absent, false when it is not a
+ * positive integer
+ */
+export function parseAreaIdParam(value: string | null): number | null | false {
+  if (!value) return null;
+  const areaId = Number(value);
+  return Number.isInteger(areaId) && areaId > 0 ? areaId : false;
+}
+
+/**
+ * Narrow a scope to one requested area and its descendants; returns false when
+ * the area is outside the scope
+ */
+export function narrowAreaScope(scope: AreaScope, areaId: number | null): number[] | null | false {
+  if (areaId === null) return scope.areaIds;
+  return canAccessArea(scope, areaId) ? collectDescendantIds(scope.childAreaIds, [areaId]) : false;
+}
+
+/**
+ * PostgREST `or` filter for rows in the scope or shared by every area (`area_id` null)
+ */
+export function areaOrSharedFilter(areaIds: number[]): string {
+  return areaIds.length > 0
+    ? `area_id.in.(${areaIds.join(',')}),area_id.is.null`
+    : 'area_id.is.null';
+}
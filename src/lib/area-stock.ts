@@ -0,0 +1,55 @@
+/**
+ * Server-side loading of iDempiere stock quantities per master area
+ * Shared by the finished goods and raw materials stock routes.
+ */
+
+import { supabaseAdmin, StockItemType } from './supabase';
+import { AreaScope, canAccessArea } from './area-scope';
+import { fetchFinishedGoodsStockFromIDempiere, fetchRawMaterialsStockFromIDempiere } from './idempiere-api';
+import { FinishedGoodStockLevel, FinishedGoodsStockResponse } from './indexeddb';
+import { joinStockRecordsToAreas } from './stock-levels';
+
+const STOCK_FETCHERS: Record<StockItemType, () => Promise<FinishedGoodsStockResponse>> = {
+  finished_good: fetchFinishedGoodsStockFromIDempiere,
+  raw_material: fetchRawMaterialsStockFromIDempiere,
+};
+
+export interface AreaStockLevels {
+  levels: FinishedGoodStockLevel[];
+  /** Records whose warehouse and organization match no master area */
+  unmatchedRecords: number;
+  /** Records of warehouses whose area is deactivated; left out of `levels` */
+  inactiveAreaRecords: number;
+}
+
+/**
+ * Fetch per-warehouse stock from iDempiere, join it to master areas and keep the
+ * levels the user may see. Records are joined against every area so stock in a
+ * deactivated warehouse area is dropped rather than counted under its
+ * organization's area.
+ */
+export async function loadAreaStockLevels(itemType: StockItemType, scope: AreaScope): Promise<AreaStockLevels> {
+  const [stockData, areasResult] = await Promise.all([
+    STOCK_FETCHERS[itemType](),
+    supabaseAdmin
+      .from('master_areas')
+      .select('id, name, erp_id, erp_warehouse_id, is_active'),
+  ]);
+
+  if (areasResult.error) {
+    throw new Error(`Failed to fetch areas: ${areasResult.error.message}`);
+  }
+
+  const areas = areasResult.data || [];
+  const activeAreaIds = new Set(areas.filter(area => area.is_active).map(area => area.id as number));
+  const { levels, unmatchedRecords } = joinStockRecordsToAreas(stockData.records, areas);
+
+  const activeLevels = levels.filter(level => activeAreaIds.has(level.area_id));
+
+  return {
+    // Apply area filtering based on the user's area scope
+    levels: activeLevels.filter(level => canAccessArea(scope, level.area_id)),
+    unmatchedRecords,
+    inactiveAreaRecords: levels.length - activeLevels.length,
+  };
+}
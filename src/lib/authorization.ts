@@ -0,0 +1,109 @@
+/**
+ * Server-side permission checks
+ * Roles and their permissions are read from `roles` and `role_permissions` and
+ * cached briefly, so a change in the database applies within a minute without
+ * a redeploy. Inactive users and unknown roles have no permissions.
+ */
+
+import { supabaseAdmin, Role } from './supabase';
+import { isPermission, Permission } from './permissions';
+
+const CACHE_TTL_MS = 60 * 1000;
+
+let rolePermissionsCache: { loadedAt: number; byRole: Map<string, Permission[]> } | null = null;
+let rolesCache: { loadedAt: number; roles: Role[] } | null = null;
+
+export interface UserPermissions {
+  userProfileId: string;
+  role: string;
+  permissions: Permission[];
+}
+
+async function loadRolePermissions(): Promise<Map<string, Permission[]>> {
+  if (rolePermissionsCache && Date.now() - rolePermissionsCache.loadedAt < CACHE_TTL_MS) {
+    return rolePermissionsCache.byRole;
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('role_permissions')
+    .select('role, permission');
+
+  if (error) {
+    throw new Error(`Failed to load role permissions: ${error.message}`);
+  }
+
+  const byRole = new Map<string, Permission[]>();
+  for (const row of data || []) {
+    // Keys the code does not know about yet are ignored
+    if (!isPermission(row.permission)) continue;
+    byRole.set(row.role, [...(byRole.get(row.role) || []), row.permission]);
+  }
+
+  rolePermissionsCache = { loadedAt: Date.now(), byRole };
+  return byRole;
+}
+
+/**
+ * Every role, by label
+ */
+export async function getRoles(): Promise<Role[]> {
+  if (rolesCache && Date.now() - rolesCache.loadedAt < CACHE_TTL_MS) {
+    return rolesCache.roles;
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('roles')
+    .select('name, label')
+    .order('label');
+
+  if (error) {
+    throw new Error(`Failed to load roles: ${error.message}`);
+  }
+
+  rolesCache = { loadedAt: Date.now(), roles: data || [] };
+  return rolesCache.roles;
+}
+
+export async function isRole(value: unknown): Promise<boolean> {
+  return typeof value === 'string' && (await getRoles()).some(role => role.name === value);
+}
+
+/**
+ * Permissions granted to a role
+ */
+export async function getRolePermissions(role: string): Promise<Permission[]> {
+  return (await loadRolePermissions()).get(role) || [];
+}
+
+/**
+ * Role and permissions of a Clerk user; returns null when they have no profile
+ */
+export async function getUserPermissions(clerkUserId: string): Promise<UserPermissions | null> {
+  const { data: userProfile, error } = await supabaseAdmin
+    .from('user_profiles')
+    .select('id, role, is_active')
+    .eq('clerk_user_id', clerkUserId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load user profile: ${error.message}`);
+  }
+
+  if (!userProfile) {
+    return null;
+  }
+
+  return {
+    userProfileId: userProfile.id,
+    role: userProfile.role,
+    permissions: userProfile.is_active === false ? [] : await getRolePermissions(userProfile.role),
+  };
+}
+
+/**
+ * Whether a Clerk user has a permission
+ */
+export async function hasPermission(clerkUserId: string, permission: Permission): Promise<boolean> {
+  const userPermissions = await getUserPermissions(clerkUserId);
+  return userPermissions?.permissions.includes(permission) ?? false;
+}
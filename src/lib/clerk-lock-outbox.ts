@@ -0,0 +1,149 @@
+/**
+ * Worker for the `clerk_lock_outbox` table
+ * Database functions queue Clerk lock/unlock requests in the same transaction
+ * as the change that needs them; this module sends them and retries failures
+ * with exponential backoff. Entries are claimed before they are sent, so
+ * overlapping runs never send the same entry, and only a user's newest entry
+ * is sent, after any older one in flight has finished: the order of a user's
+ * lock and unlock calls matches the order they were queued in.
+ */
+
+import { supabaseAdmin, ClerkLockAction, ClerkLockOutboxEntry, ClerkLockOutboxStatus } from './supabase';
+
+/** Attempts before an entry is given up on and marked failed */
+export const CLERK_LOCK_MAX_ATTEMPTS = 8;
+
+const RETRY_BASE_DELAY_MS = 60 * 1000;
+const RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+
+/** A claimed entry not finished within this interval is assumed abandoned */
+const CLAIM_STALE_AFTER = '5 minutes';
+
+export interface ClerkLockOutcome {
+  outboxId: number;
+  userProfileId: string | null;
+  clerkUserId: string;
+  action: ClerkLockAction;
+  /** `pending` means the attempt failed and will be retried */
+  status: ClerkLockOutboxStatus;
+  attempts: number;
+  error: string | null;
+}
+
+/**
+ * Lock or unlock a user in Clerk; throws with Clerk's error message on failure
+ */
+export async function setClerkUserLock(clerkUserId: string, action: ClerkLockAction): Promise<void> {
+  const clerkResponse = await fetch(`https://api.clerk.dev/v1/users/${clerkUserId}/${action}`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${process.env.CLERK_SECRET_KEY}`,
+      'Content-Type': 'application/json',
+    },
+  });
+
+  if (!clerkResponse.ok) {
+    const clerkError = await clerkResponse.json().catch(() => null);
+    const message = clerkError?.errors?.[0]?.message || `Clerk responded with ${clerkResponse.status}`;
+    throw new Error(message);
+  }
+}
+
+/**
+ * Delay before the next attempt: one minute, doubling per attempt, capped at an hour
+ */
+export function retryDelayMs(attempts: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_DELAY_MS);
+}
+
+async function sendEntry(entry: ClerkLockOutboxEntry): Promise<ClerkLockOutcome> {
+  const attempts = entry.attempts + 1;
+  let status: ClerkLockOutboxStatus = 'done';
+  let lastError: string | null = null;
+
+  try {
+    await setClerkUserLock(entry.clerk_user_id, entry.action);
+  } catch (error) {
+    lastError = error instanceof Error ? error.message : 'Unknown error';
+    status = attempts >= CLERK_LOCK_MAX_ATTEMPTS ? 'failed' : 'pending';
+    console.error(`Clerk ${entry.action} failed for ${entry.clerk_user_id} (attempt ${attempts}):`, lastError);
+  }
+
+  const now = Date.now();
+  const { error: updateError } = await supabaseAdmin
+    .from('clerk_lock_outbox')
+    .update({
+      status,
+      attempts,
+      last_error: lastError,
+      next_attempt_at: new Date(now + (status === 'pending' ? retryDelayMs(attempts) : 0)).toISOString(),
+      processed_at: status === 'pending' ? null : new Date(now).toISOString(),
+    })
+    .eq('id', entry.id)
+    .eq('status', 'processing');
+
+  if (updateError) {
+    console.error(`Error updating Clerk lock outbox entry ${entry.id}:`, updateError);
+  }
+
+  return {
+    outboxId: entry.id,
+    userProfileId: entry.user_profile_id ?? null,
+    clerkUserId: entry.clerk_user_id,
+    action: entry.action,
+    status,
+    attempts,
+    error: lastError,
+  };
+}
+
+/**
+ * Claim and send pending outbox entries. With `ids`, those entries are sent
+ * right away regardless of their backoff; otherwise entries that are due are
+ * sent, oldest first. Entries superseded by a newer one for the same user, or
+ * waiting for an older one still in flight, are left out.
+ */
+export async function processClerkLockOutbox(options: { ids?: number[]; limit?: number } = {}): Promise<ClerkLockOutcome[]> {
+  if (options.ids && options.ids.length === 0) {
+    return [];
+  }
+
+  const { data, error } = await supabaseAdmin.rpc('claim_clerk_lock_outbox', {
+    p_ids: options.ids ?? null,
+    p_limit: options.ids ? options.ids.length : options.limit ?? 50,
+    p_stale_after: CLAIM_STALE_AFTER,
+  });
+  if (error) {
+    throw new Error(`Failed to claim Clerk lock outbox entries: ${error.message}`);
+  }
+
+  // Sequential, in queue order, so a user's lock and unlock never race
+  const outcomes: ClerkLockOutcome[] = [];
+  for (const entry of (data || []) as ClerkLockOutboxEntry[]) {
+    outcomes.push(await sendEntry(entry));
+  }
+
+  return outcomes;
+}
+
+/**
+ * Outbox entries, newest first
+ */
+export async function listClerkLockOutbox(status?: ClerkLockOutboxStatus): Promise<ClerkLockOutboxEntry[]> {
+  let query = supabaseAdmin
+    .from('clerk_lock_outbox')
+    .select('*')
+    .order('id', { ascending: false })
+    .limit(100);
+
+  if (status) {
+    query = query.eq('status', status);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    throw new Error(`Failed to load Clerk lock outbox: ${error.message}`);
+  }
+
+  return data || [];
+}
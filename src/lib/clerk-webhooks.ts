@@ -0,0 +1,283 @@
+/**
+ * Logged, idempotent processing of Clerk webhook events
+ * Each verified delivery is stored in `webhook_events` by its svix id before
+ * it is acted on. Redeliveries of a processed event are acknowledged without
+ * running it again, and failed events keep their payload so they can be
+ * replayed from the admin screen.
+ */
+
+import type { WebhookEvent } from '@clerk/nextjs/server';
+import { supabaseAdmin, WebhookEventRecord, WebhookEventStatus } from './supabase';
+import { recordSignInEvent } from './sign-in-history';
+import { archiveUserProfile } from './user-archive';
+
+// A claim this old is assumed to belong to a crashed request
+const CLAIM_STALE_AFTER = '5 minutes';
+
+export class WebhookEventError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'WebhookEventError';
+  }
+}
+
+interface ClerkUserData {
+  id: string;
+  email_addresses?: { id: string; email_address: string }[];
+  primary_email_address_id?: string | null;
+  first_name?: string | null;
+  last_name?: string | null;
+  locked?: boolean;
+  updated_at?: number;
+}
+
+function extractEmail(data: ClerkUserData): string | null {
+  const primary = data.email_addresses?.find(address => address.id === data.primary_email_address_id);
+  return (primary || data.email_addresses?.[0])?.email_address || null;
+}
+
+function profileFields(data: ClerkUserData) {
+  const fullName = `${data.first_name || ''} ${data.last_name || ''}`.trim();
+  return {
+    email: extractEmail(data),
+    full_name: fullName || null,
+    updated_at: new Date().toISOString(),
+  };
+}
+
+/**
+ * Keep the profile's email and name current and record a lock or unlock when
+ * Clerk's lock state changed since the previous event. Events older than the
+ * last one applied (late deliveries and replays) are ignored.
+ */
+async function handleUserUpdated(data: ClerkUserData, webhookEventId: number): Promise<void> {
+  const fields = profileFields(data);
+  const locked = data.locked ?? false;
+
+  const { data: result, error } = await supabaseAdmin.rpc('apply_clerk_user_update', {
+    p_clerk_user_id: data.id,
+    p_email: fields.email,
+    p_full_name: fields.full_name,
+    p_locked: locked,
+    p_updated_at: data.updated_at ? new Date(data.updated_at).toISOString() : null,
+  });
+
+  if (error) {
+    throw new Error(`Failed to update user profile: ${error.message}`);
+  }
+
+  const update = result as { applied: boolean; previous_locked?: boolean | null };
+  if (!update.applied) {
+    return;
+  }
+
+  // An unknown previous state only counts when the user is now locked
+  if ((update.previous_locked ?? false) !== locked) {
+    await recordSignInEvent({
+      clerkUserId: data.id,
+      eventType: locked ? 'user.locked' : 'user.unlocked',
+      occurredAt: data.updated_at ? new Date(data.updated_at) : new Date(),
+      webhookEventId,
+    });
+  }
+}
+
+async function handleEvent(event: WebhookEvent, webhookEventId: number): Promise<void> {
+  switch (event.type) {
+    case 'user.created': {
+      const { data: archived, error: archivedError } = await supabaseAdmin
+        .from('user_profiles')
+        .select('id')
+        .eq('clerk_user_id', event.data.id)
+        .not('deleted_at', 'is', null)
+        .maybeSingle();
+
+      if (archivedError) {
+        throw new Error(`Failed to load user profile: ${archivedError.message}`);
+      }
+
+      // Clerk never reuses a user id, so this is a late or replayed event; archived
+      // profiles are only restored by an admin (/api/admin/users/archived)
+      if (archived) {
+        return;
+      }
+
+      // Upsert: a redelivery, or a profile already created by an invitation or
+      // import, only gets its email and name refreshed; role, area and status stay
+      const { error } = await supabaseAdmin
+        .from('user_profiles')
+        .upsert({
+          clerk_user_id: event.data.id,
+          ...profileFields(event.data),
+          clerk_locked: event.data.locked ?? false,
+        }, { onConflict: 'clerk_user_id' });
+
+      if (error) {
+        throw new Error(`Failed to upsert user profile: ${error.message}`);
+      }
+      return;
+    }
+    case 'user.updated':
+      await handleUserUpdated(event.data, webhookEventId);
+      return;
+    case 'user.deleted':
+      // Archived, not deleted, so area history and authored rows stay attached
+      if (event.data.id) {
+        await archiveUserProfile(event.data.id);
+      }
+      return;
+    case 'session.created':
+    case 'session.ended':
+    case 'session.removed':
+    case 'session.revoked': {
+      const activity = event.data.latest_activity;
+      const device = [activity?.browser_name, activity?.device_type].filter(Boolean).join(' on ');
+      const location = [activity?.city, activity?.country].filter(Boolean).join(', ');
+
+      await recordSignInEvent({
+        clerkUserId: event.data.user_id,
+        eventType: event.type,
+        sessionId: event.data.id,
+        ipAddress: activity?.ip_address,
+        device: device || null,
+        location: location || null,
+        occurredAt: new Date(event.type === 'session.created' ? event.data.created_at : event.data.updated_at),
+        webhookEventId,
+      });
+      return;
+    }
+    default:
+      // Other event types are logged but need no action
+      return;
+  }
+}
+
+/**
+ * Store a verified delivery; a redelivery returns the existing row unchanged
+ */
+export async function recordWebhookEvent(svixId: string, event: WebhookEvent): Promise<WebhookEventRecord> {
+  const { error: insertError } = await supabaseAdmin
+    .from('webhook_events')
+    .upsert({
+      svix_id: svixId,
+      event_type: event.type,
+      payload: event,
+    }, { onConflict: 'svix_id', ignoreDuplicates: true });
+
+  if (insertError) {
+    throw new Error(`Failed to record webhook event: ${insertError.message}`);
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('webhook_events')
+    .select('*')
+    .eq('svix_id', svixId)
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to load webhook event: ${error.message}`);
+  }
+
+  return data as WebhookEventRecord;
+}
+
+/**
+ * Run a stored event and record the outcome. Returns null when the event is
+ * already processed or another request is processing it.
+ */
+export async function processWebhookEvent(id: number): Promise<WebhookEventRecord | null> {
+  const { data: claimed, error: claimError } = await supabaseAdmin
+    .rpc('claim_webhook_event', { p_id: id, p_stale_after: CLAIM_STALE_AFTER });
+
+  if (claimError) {
+    throw new Error(`Failed to claim webhook event: ${claimError.message}`);
+  }
+
+  const event = (claimed as WebhookEventRecord[] | null)?.[0];
+  if (!event) {
+    return null;
+  }
+
+  let status: WebhookEventStatus = 'processed';
+  let lastError: string | null = null;
+
+  try {
+    await handleEvent(event.payload as unknown as WebhookEvent, event.id);
+  } catch (error) {
+    status = 'failed';
+    lastError = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`Clerk webhook ${event.event_type} (${event.svix_id}) failed:`, lastError);
+  }
+
+  // Events arriving after the user was archived must not keep their personal data
+  const { error: scrubError } = await supabaseAdmin.rpc('scrub_archived_webhook_event', { p_id: id });
+  if (scrubError) {
+    console.error(`Failed to scrub webhook event ${id}:`, scrubError);
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('webhook_events')
+    .update({
+      status,
+      last_error: lastError,
+      processed_at: status === 'processed' ? new Date().toISOString() : null,
+    })
+    .eq('id', id)
+    .select('*')
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to update webhook event: ${error.message}`);
+  }
+
+  return data as WebhookEventRecord;
+}
+
+/**
+ * Replay an event from the admin screen; only pending and failed events can be replayed
+ */
+export async function replayWebhookEvent(id: number): Promise<WebhookEventRecord> {
+  const { data: existing, error } = await supabaseAdmin
+    .from('webhook_events')
+    .select('status')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load webhook event: ${error.message}`);
+  }
+  if (!existing) {
+    throw new WebhookEventError('Webhook event not found', 404);
+  }
+  if (existing.status === 'processed') {
+    throw new WebhookEventError('Webhook event has already been processed', 409);
+  }
+
+  const event = await processWebhookEvent(id);
+  if (!event) {
+    throw new WebhookEventError('Webhook event is being processed', 409);
+  }
+  return event;
+}
+
+/**
+ * Logged events, newest first
+ */
+export async function listWebhookEvents(status?: WebhookEventStatus): Promise<WebhookEventRecord[]> {
+  let query = supabaseAdmin
+    .from('webhook_events')
+    .select('*')
+    .order('received_at', { ascending: false })
+    .limit(100);
+
+  if (status) {
+    query = query.eq('status', status);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    throw new Error(`Failed to load webhook events: ${error.message}`);
+  }
+
+  return (data || []) as WebhookEventRecord[];
+}
@@ -0,0 +1,83 @@
+/**
+ * Minimal RFC 4180 CSV reading and writing, shared by server and client code
+ */
+
+export type CsvValue = string | number | boolean | null | undefined;
+
+/**
+ * Parse CSV text into rows of fields; handles quoted fields, escaped quotes,
+ * embedded newlines and CRLF line endings. Blank lines are skipped.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0].trim() !== '') {
+      rows.push(row);
+    }
+    row = [];
+    field = '';
+  };
+
+  // Strip a UTF-8 byte order mark left by spreadsheet exports
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+}
+
+/**
+ * Quote a value for CSV. Text that a spreadsheet would run as a formula
+ * (starting with =, +, -, @, tab or CR) is prefixed with an apostrophe.
+ */
+function formatCsvValue(value: CsvValue): string {
+  let text = value === null || value === undefined ? '' : String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Remove the apostrophe `toCsv` puts before formula-like text, so an exported
+ * file imports with its original values
+ */
+export function stripFormulaPrefix(text: string): string {
+  return /^'[=+\-@\t\r]/.test(text) ? text.slice(1) : text;
+}
+
+export function toCsv(rows: CsvValue[][]): string {
+  return rows.map(row => row.map(formatCsvValue).join(',')).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,281 @@
+/**
+ * Daily email digest of low-stock items, out-of-stock items and failed
+ * iDempiere syncs for users who opted in from their profile settings
+ */
+
+import { supabaseAdmin, ErpSyncRun, StockAlertStatus, StockItemType } from './supabase';
+import { STOCK_ITEM_TABLES } from './stock-ledger';
+import { getMailTransport, MailMessage, MailTransport } from './mail';
+import { collectDescendantIds, getChildrenByParent } from './area-hierarchy';
+import { getRolePermissions } from './authorization';
+
+// Slightly under a day so a daily cron with some jitter still sends once per day
+const MIN_HOURS_BETWEEN_DIGESTS = 20;
+const FAILED_SYNC_LOOKBACK_HOURS = 24;
+const SELECT_PAGE_SIZE = 1000;
+
+export interface DigestItem {
+  item_type: StockItemType;
+  name: string;
+  unit: string;
+  area_name: string;
+  balance: number;
+  status: StockAlertStatus;
+}
+
+export interface DigestContent {
+  lowStock: DigestItem[];
+  outOfStock: DigestItem[];
+  failedSyncs: Pick<ErpSyncRun, 'entity' | 'started_at' | 'error_message'>[];
+}
+
+export interface DigestRunResult {
+  considered: number;
+  sent: number;
+  skipped: number;
+  failed: number;
+  transport: string;
+}
+
+interface DigestRecipient {
+  id: string;
+  email: string;
+  full_name?: string | null;
+  role: string;
+  area_id: number | null;
+  email_digest_last_sent_at: string | null;
+}
+
+interface OpenAlert {
+  item_type: StockItemType;
+  item_id: number;
+  area_id: number;
+  status: StockAlertStatus;
+  balance: number;
+}
+
+async function loadOpenAlerts(): Promise<OpenAlert[]> {
+  const alerts: OpenAlert[] = [];
+
+  for (let from = 0; ; from += SELECT_PAGE_SIZE) {
+    const { data, error } = await supabaseAdmin
+      .from('stock_alerts')
+      .select('item_type, item_id, area_id, status, balance')
+      .order('item_type')
+      .order('item_id')
+      .order('area_id')
+      .range(from, from + SELECT_PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to read stock alerts: ${error.message}`);
+    }
+
+    alerts.push(...((data || []) as OpenAlert[]));
+
+    if (!data || data.length < SELECT_PAGE_SIZE) {
+      return alerts;
+    }
+  }
+}
+
+async function loadItemNames(alerts: OpenAlert[]): Promise<Map<string, { name: string; unit: string }>> {
+  const names = new Map<string, { name: string; unit: string }>();
+
+  for (const itemType of Object.keys(STOCK_ITEM_TABLES) as StockItemType[]) {
+    const ids = Array.from(new Set(alerts.filter(alert => alert.item_type === itemType).map(alert => alert.item_id)));
+
+    for (let i = 0; i < ids.length; i += SELECT_PAGE_SIZE) {
+      const { data, error } = await supabaseAdmin
+        .from(STOCK_ITEM_TABLES[itemType])
+        .select('id, name, unit')
+        .in('id', ids.slice(i, i + SELECT_PAGE_SIZE));
+
+      if (error) {
+        throw new Error(`Failed to load item names: ${error.message}`);
+      }
+
+      for (const item of data || []) {
+        names.set(`${itemType}:${item.id}`, { name: item.name, unit: item.unit });
+      }
+    }
+  }
+
+  return names;
+}
+
+/**
+ * Render a digest as a plain text and HTML email; null when there is nothing to report
+ */
+export function buildDigestMessage(recipient: { email: string; full_name?: string | null }, content: DigestContent): MailMessage | null {
+  const { lowStock, outOfStock, failedSyncs } = content;
+  if (lowStock.length === 0 && outOfStock.length === 0 && failedSyncs.length === 0) {
+    return null;
+  }
+
+  const formatItem = (item: DigestItem) => `${item.name} (${item.area_name}): ${item.balance} ${item.unit}`;
+  const sections: { title: string; lines: string[] }[] = [
+    { title: `Out of stock (${outOfStock.length})`, lines: outOfStock.map(formatItem) },
+    { title: `Low stock (${lowStock.length})`, lines: lowStock.map(formatItem) },
+    {
+      title: `Failed iDempiere syncs (${failedSyncs.length})`,
+      lines: failedSyncs.map(run =>
+        `${run.entity} at ${new Date(run.started_at).toLocaleString()}: ${run.error_message || 'Unknown error'}`
+      ),
+    },
+  ].filter(section => section.lines.length > 0);
+
+  const greeting = `Hello ${recipient.full_name || recipient.email},`;
+  const text = [
+    greeting,
+    '',
+    'Here is your daily inventory summary.',
+    ...sections.flatMap(section => ['', section.title, ...section.lines.map(line => `- ${line}`)]),
+  ].join('\n');
+
+  const escapeHtml = (value: string) =>
+    value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  const html = [
+    `<p>${escapeHtml(greeting)}</p>`,
+    '<p>Here is your daily inventory summary.</p>',
+    ...sections.map(section =>
+      `<h3>${escapeHtml(section.title)}</h3><ul>${section.lines.map(line => `<li>${escapeHtml(line)}</li>`).join('')}</ul>`
+    ),
+  ].join('\n');
+
+  const counts = [
+    outOfStock.length > 0 ? `${outOfStock.length} out of stock` : null,
+    lowStock.length > 0 ? `${lowStock.length} low` : null,
+    failedSyncs.length > 0 ? `${failedSyncs.length} failed sync${failedSyncs.length > 1 ? 's' : ''}` : null,
+  ].filter(Boolean).join(', ');
+
+  return { to: recipient.email, subject: `Inventory digest: ${counts}`, text, html };
+}
+
+/**
+ * Send the digest to every opted-in active user with an email that has not
+ * received one in the last day. Users with nothing to report are skipped, as
+ * are users whose digest a concurrent run has already claimed.
+ */
+export async function sendDailyDigests(transport: MailTransport = getMailTransport()): Promise<DigestRunResult> {
+  const now = new Date();
+  const sentBefore = new Date(now.getTime() - MIN_HOURS_BETWEEN_DIGESTS * 60 * 60 * 1000).toISOString();
+  const syncsSince = new Date(now.getTime() - FAILED_SYNC_LOOKBACK_HOURS * 60 * 60 * 1000).toISOString();
+
+  const { data: recipients, error: recipientsError } = await supabaseAdmin
+    .from('user_profiles')
+    .select('id, email, full_name, role, area_id, email_digest_last_sent_at')
+    .eq('email_digest_enabled', true)
+    .eq('is_active', true)
+    .not('email', 'is', null)
+    .or(`email_digest_last_sent_at.is.null,email_digest_last_sent_at.lt.${sentBefore}`);
+
+  if (recipientsError) {
+    throw new Error(`Failed to load digest recipients: ${recipientsError.message}`);
+  }
+
+  const result: DigestRunResult = { considered: 0, sent: 0, skipped: 0, failed: 0, transport: transport.name };
+  const users = (recipients || []) as DigestRecipient[];
+  if (users.length === 0) {
+    return result;
+  }
+
+  const [mappingsResult, areasResult, failedSyncsResult, alerts] = await Promise.all([
+    supabaseAdmin.from('user_area_mappings').select('user_profile_id, area_id').in('user_profile_id', users.map(user => user.id)),
+    supabaseAdmin.from('master_areas').select('id, name, parent_id').eq('is_active', true),
+    supabaseAdmin
+      .from('erp_sync_runs')
+      .select('entity, started_at, error_message')
+      .eq('status', 'failed')
+      .gte('started_at', syncsSince)
+      .order('started_at', { ascending: false }),
+    loadOpenAlerts(),
+  ]);
+
+  const queryError = mappingsResult.error || areasResult.error || failedSyncsResult.error;
+  if (queryError) {
+    throw new Error(`Failed to load digest data: ${queryError.message}`);
+  }
+
+  const areaNames = new Map((areasResult.data || []).map(area => [area.id, area.name]));
+  const childAreaIds = getChildrenByParent(areasResult.data || []);
+  const itemNames = await loadItemNames(alerts);
+
+  for (const user of users) {
+    result.considered += 1;
+
+    // areas.view_all gets every area; everyone else their primary and mapped active areas and their sub-areas
+    const areaIds = new Set<number>(
+      (await getRolePermissions(user.role)).includes('areas.view_all')
+        ? areaNames.keys()
+        : collectDescendantIds(childAreaIds, [
+            ...(user.area_id ? [user.area_id] : []),
+            ...(mappingsResult.data || []).filter(mapping => mapping.user_profile_id === user.id).map(mapping => mapping.area_id),
+          ].filter(areaId => areaNames.has(areaId)))
+    );
+
+    const items: DigestItem[] = alerts
+      .filter(alert => areaIds.has(alert.area_id))
+      .map(alert => {
+        const item = itemNames.get(`${alert.item_type}:${alert.item_id}`);
+        return {
+          item_type: alert.item_type,
+          name: item?.name || `Item ${alert.item_id}`,
+          unit: item?.unit || 'units',
+          area_name: areaNames.get(alert.area_id) || `Area ${alert.area_id}`,
+          balance: alert.balance,
+          status: alert.status,
+        };
+      });
+
+    const message = buildDigestMessage(user, {
+      outOfStock: items.filter(item => item.status === 'out_of_stock'),
+      lowStock: items.filter(item => item.status !== 'out_of_stock'),
+      failedSyncs: failedSyncsResult.data || [],
+    });
+
+    if (!message) {
+      result.skipped += 1;
+      continue;
+    }
+
+    // Claim the period before sending so an overlapping run skips this user
+    const { data: claimed, error: claimError } = await supabaseAdmin
+      .from('user_profiles')
+      .update({ email_digest_last_sent_at: now.toISOString() })
+      .eq('id', user.id)
+      .or(`email_digest_last_sent_at.is.null,email_digest_last_sent_at.lt.${sentBefore}`)
+      .select('id')
+      .maybeSingle();
+
+    if (claimError) {
+      console.error('Error claiming digest delivery:', claimError);
+      result.failed += 1;
+      continue;
+    }
+    if (!claimed) {
+      result.skipped += 1;
+      continue;
+    }
+
+    try {
+      await transport.send(message);
+      result.sent += 1;
+    } catch (error) {
+      console.error(`Error sending digest to ${user.email}:`, error);
+      result.failed += 1;
+
+      // Release the claim so the next run retries this user
+      const { error: releaseError } = await supabaseAdmin
+        .from('user_profiles')
+        .update({ email_digest_last_sent_at: user.email_digest_last_sent_at })
+        .eq('id', user.id)
+        .eq('email_digest_last_sent_at', now.toISOString());
+
+      if (releaseError) {
+        console.error('Error releasing digest claim:', releaseError);
+      }
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,441 @@
+/**
+ * Server-side persistence of iDempiere finished goods into Supabase
+ * The `finished_goods` table becomes the source of truth for the inventory
+ * routes and for the browser IndexedDB cache.
+ */
+
+import { supabaseAdmin, ErpSyncRun } from './supabase';
+import {
+  fetchFinishedGoodsFromIDempiere,
+  fetchFinishedGoodsStockFromIDempiere,
+  IDempiereAPIError,
+  IDempierePageOptions,
+} from './idempiere-api';
+import { FinishedGood, FinishedGoodsResponse } from './indexeddb';
+import { joinStockRecordsToAreas } from './stock-levels';
+import { getStockBalancesByItemType, NewStockMovement, recordStockMovements } from './stock-ledger';
+import { areaOrSharedFilter } from './area-scope';
+
+export const FINISHED_GOODS_SYNC_ENTITY = 'finished_goods';
+
+/** A run still marked `running` after this long is assumed to have crashed */
+const STALE_RUN_MS = 15 * 60 * 1000;
+
+const UPSERT_CHUNK_SIZE = 500;
+const SELECT_PAGE_SIZE = 1000;
+
+interface FinishedGoodRow {
+  erp_id: number;
+  name: string;
+  product_code: string | null;
+  category_erp_id: number | null;
+  category_name: string | null;
+  parent1: string | null;
+  parent2: string | null;
+  small_uom: string | null;
+  big_uom: string | null;
+  unit: string;
+  weight: number | null;
+  area_id: number | null;
+  is_active: boolean;
+  erp_updated_at: string | null;
+}
+
+type ComparableColumn = keyof FinishedGoodRow;
+
+const COMPARED_COLUMNS: ComparableColumn[] = [
+  'name', 'product_code', 'category_erp_id', 'category_name', 'parent1', 'parent2',
+  'small_uom', 'big_uom', 'unit', 'weight', 'area_id', 'is_active',
+];
+
+export class SyncInProgressError extends Error {
+  constructor(public run: ErpSyncRun) {
+    super(`A ${run.entity} sync has been running since ${run.started_at}`);
+    this.name = 'SyncInProgressError';
+  }
+}
+
+/**
+ * Latest successful run for an entity, or null if the job has never completed
+ */
+export async function getLastSuccessfulSyncRun(entity: string): Promise<ErpSyncRun | null> {
+  const { data, error } = await supabaseAdmin
+    .from('erp_sync_runs')
+    .select('*')
+    .eq('entity', entity)
+    .eq('status', 'success')
+    .order('finished_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching last sync run:', error);
+    return null;
+  }
+
+  return data as ErpSyncRun | null;
+}
+
+function sameValue(column: ComparableColumn, a: unknown, b: unknown): boolean {
+  if (column === 'weight') {
+    return Number(a ?? 0) === Number(b ?? 0);
+  }
+  return (a ?? null) === (b ?? null);
+}
+
+function sameTimestamp(a: string | null | undefined, b: string | null | undefined): boolean {
+  if (!a || !b) return !a && !b;
+  return new Date(a).getTime() === new Date(b).getTime();
+}
+
+/**
+ * Load the existing ERP columns of every finished good, page by page
+ * (PostgREST caps a single select at 1000 rows)
+ */
+async function loadExistingRows(): Promise<Map<number, FinishedGoodRow>> {
+  const rows = new Map<number, FinishedGoodRow>();
+
+  for (let from = 0; ; from += SELECT_PAGE_SIZE) {
+    const { data, error } = await supabaseAdmin
+      .from('finished_goods')
+      .select(`erp_id, erp_updated_at, ${COMPARED_COLUMNS.join(', ')}`)
+      .order('erp_id')
+      .range(from, from + SELECT_PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to load existing finished goods: ${error.message}`);
+    }
+
+    for (const row of (data || []) as unknown as FinishedGoodRow[]) {
+      rows.set(row.erp_id, row);
+    }
+
+    if (!data || data.length < SELECT_PAGE_SIZE) {
+      return rows;
+    }
+  }
+}
+
+/**
+ * Map erp_id to finished_goods.id for every row, page by page
+ */
+async function loadFinishedGoodIds(): Promise<Map<number, number>> {
+  const ids = new Map<number, number>();
+
+  for (let from = 0; ; from += SELECT_PAGE_SIZE) {
+    const { data, error } = await supabaseAdmin
+      .from('finished_goods')
+      .select('id, erp_id')
+      .order('erp_id')
+      .range(from, from + SELECT_PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to load finished good ids: ${error.message}`);
+    }
+
+    for (const row of data || []) {
+      ids.set(row.erp_id, row.id);
+    }
+
+    if (!data || data.length < SELECT_PAGE_SIZE) {
+      return ids;
+    }
+  }
+}
+
+/**
+ * Ids of finished goods that came from iDempiere (`erp_payload` set), page by page
+ */
+async function loadSyncedFinishedGoodIds(): Promise<Set<number>> {
+  const ids = new Set<number>();
+
+  for (let from = 0; ; from += SELECT_PAGE_SIZE) {
+    const { data, error } = await supabaseAdmin
+      .from('finished_goods')
+      .select('id')
+      .not('erp_payload', 'is', null)
+      .order('id')
+      .range(from, from + SELECT_PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to load synced finished goods: ${error.message}`);
+    }
+
+    for (const row of data || []) {
+      ids.add(row.id);
+    }
+
+    if (!data || data.length < SELECT_PAGE_SIZE) {
+      return ids;
+    }
+  }
+}
+
+function toRow(record: FinishedGood, areaIdByErpId: Map<number, number>): FinishedGoodRow {
+  return {
+    erp_id: record.id,
+    name: record.product_name,
+    product_code: record.product_code || null,
+    category_erp_id: record.M_Product_Category_ID?.id ?? null,
+    category_name: record.catname || null,
+    parent1: record.parent1 || null,
+    parent2: record.parent2 || null,
+    small_uom: record.smalluom || null,
+    big_uom: record.biguom || null,
+    unit: record.smalluom || 'pieces',
+    weight: record.Weight ?? null,
+    // Organization * (id 0) or an unregistered org means the product is shared by all areas
+    area_id: areaIdByErpId.get(record.AD_Org_ID?.id) ?? null,
+    is_active: record.IsActive !== false,
+    erp_updated_at: record.Updated ?? null,
+  };
+}
+
+/**
+ * Fetch every finished good and its storage quantities from iDempiere and
+ * upsert them into `finished_goods` keyed on erp_id. Unchanged rows are left
+ * alone so `updated_at` only moves when something really changed; products
+ * that disappeared from the view are marked inactive. Stock differences per
+ * area of products that came from iDempiere are posted as `erp_sync` ledger
+ * movements. Each run is recorded in
+ * `erp_sync_runs`.
+ */
+export async function persistFinishedGoodsFromIDempiere(triggeredBy: string): Promise<ErpSyncRun> {
+  const { data: runningRun } = await supabaseAdmin
+    .from('erp_sync_runs')
+    .select('*')
+    .eq('entity', FINISHED_GOODS_SYNC_ENTITY)
+    .eq('status', 'running')
+    .gte('started_at', new Date(Date.now() - STALE_RUN_MS).toISOString())
+    .limit(1)
+    .maybeSingle();
+
+  if (runningRun) {
+    throw new SyncInProgressError(runningRun as ErpSyncRun);
+  }
+
+  const { data: run, error: runError } = await supabaseAdmin
+    .from('erp_sync_runs')
+    .insert({ entity: FINISHED_GOODS_SYNC_ENTITY, status: 'running', triggered_by: triggeredBy })
+    .select()
+    .single();
+
+  if (runError || !run) {
+    throw new Error(`Failed to record sync run: ${runError?.message || 'no row returned'}`);
+  }
+
+  const finishRun = async (updates: Partial<ErpSyncRun>): Promise<ErpSyncRun> => {
+    const { data, error } = await supabaseAdmin
+      .from('erp_sync_runs')
+      .update({ ...updates, finished_at: new Date().toISOString() })
+      .eq('id', run.id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating sync run:', error);
+      return { ...run, ...updates } as ErpSyncRun;
+    }
+    return data as ErpSyncRun;
+  };
+
+  try {
+    const [productData, stockData, areasResult, existingRows] = await Promise.all([
+      fetchFinishedGoodsFromIDempiere(),
+      fetchFinishedGoodsStockFromIDempiere(),
+      supabaseAdmin.from('master_areas').select('id, name, erp_id, erp_warehouse_id'),
+      loadExistingRows(),
+    ]);
+
+    if (areasResult.error) {
+      throw new Error(`Failed to fetch areas: ${areasResult.error.message}`);
+    }
+
+    const areaIdByErpId = new Map(
+      (areasResult.data || []).map(area => [area.erp_id as number, area.id as number])
+    );
+
+    const changedRows: (FinishedGoodRow & { erp_payload: FinishedGood })[] = [];
+    const fetchedErpIds = new Set<number>();
+
+    for (const record of productData.records) {
+      fetchedErpIds.add(record.id);
+      const row = toRow(record, areaIdByErpId);
+      const existing = existingRows.get(record.id);
+
+      const unchanged = existing
+        && COMPARED_COLUMNS.every(column => sameValue(column, row[column], existing[column]))
+        && sameTimestamp(row.erp_updated_at, existing.erp_updated_at);
+
+      if (!unchanged) {
+        changedRows.push({ ...row, erp_payload: record });
+      }
+    }
+
+    for (let i = 0; i < changedRows.length; i += UPSERT_CHUNK_SIZE) {
+      const { error } = await supabaseAdmin
+        .from('finished_goods')
+        .upsert(changedRows.slice(i, i + UPSERT_CHUNK_SIZE), { onConflict: 'erp_id' });
+
+      if (error) {
+        throw new Error(`Failed to upsert finished goods: ${error.message}`);
+      }
+    }
+
+    // Products no longer returned by iDempiere are kept for history but deactivated
+    const missingErpIds = Array.from(existingRows.values())
+      .filter(row => row.is_active !== false && !fetchedErpIds.has(row.erp_id))
+      .map(row => row.erp_id);
+
+    for (let i = 0; i < missingErpIds.length; i += UPSERT_CHUNK_SIZE) {
+      const { error } = await supabaseAdmin
+        .from('finished_goods')
+        .update({ is_active: false })
+        .in('erp_id', missingErpIds.slice(i, i + UPSERT_CHUNK_SIZE));
+
+      if (error) {
+        throw new Error(`Failed to deactivate finished goods: ${error.message}`);
+      }
+    }
+
+    const deactivated = missingErpIds.length
+      + changedRows.filter(row => !row.is_active && existingRows.get(row.erp_id)?.is_active !== false).length;
+
+    // Bring the ledger balance of each product in each area in line with iDempiere
+    const [finishedGoodIds, syncedItemIds, balances] = await Promise.all([
+      loadFinishedGoodIds(),
+      loadSyncedFinishedGoodIds(),
+      getStockBalancesByItemType('finished_good'),
+    ]);
+    for (const erpId of fetchedErpIds) {
+      const itemId = finishedGoodIds.get(erpId);
+      if (itemId !== undefined) syncedItemIds.add(itemId);
+    }
+
+    const targets = new Map<string, number>();
+    const { levels } = joinStockRecordsToAreas(stockData.records, areasResult.data || []);
+    for (const level of levels) {
+      const itemId = finishedGoodIds.get(level.product_id);
+      if (itemId === undefined) continue;
+      const key = `${itemId}:${level.area_id}`;
+      targets.set(key, (targets.get(key) ?? 0) + level.qty_on_hand);
+    }
+
+    const movements: NewStockMovement[] = [];
+    for (const key of new Set([...targets.keys(), ...balances.keys()])) {
+      const [itemId, areaId] = key.split(':').map(Number);
+      // Products never synced from iDempiere keep their opening balances
+      if (!syncedItemIds.has(itemId)) continue;
+
+      const delta = Math.round(targets.get(key) ?? 0) - (balances.get(key) ?? 0);
+      if (delta === 0) continue;
+
+      movements.push({
+        item_type: 'finished_good',
+        item_id: itemId,
+        area_id: areaId,
+        quantity_delta: delta,
+        movement_type: 'erp_sync',
+        reference_document: `erp-sync-run-${run.id}`,
+        created_by: triggeredBy,
+      });
+    }
+
+    await recordStockMovements(movements);
+
+    console.log(`Finished goods sync run ${run.id}: ${productData.records.length} fetched, ${changedRows.length} upserted, ${deactivated} deactivated, ${movements.length} stock movements`);
+
+    return await finishRun({
+      status: 'success',
+      records_fetched: productData.records.length,
+      records_upserted: changedRows.length,
+      records_deactivated: deactivated,
+    });
+  } catch (error) {
+    console.error(`Finished goods sync run ${run.id} failed:`, error);
+    await finishRun({
+      status: 'failed',
+      error_message: error instanceof Error ? error.message : 'Unknown error',
+    });
+    throw error;
+  }
+}
+
+/**
+ * Active finished goods in the given areas and those shared by all areas
+ * (every active one when `areaIds` is null), by name, read page by page
+ */
+export async function loadActiveFinishedGoods<T>(columns: string, areaIds: number[] | null): Promise<T[]> {
+  const rows: T[] = [];
+
+  for (let from = 0; ; from += SELECT_PAGE_SIZE) {
+    let query = supabaseAdmin
+      .from('finished_goods')
+      .select(columns)
+      .eq('is_active', true);
+
+    if (areaIds) {
+      query = query.or(areaOrSharedFilter(areaIds));
+    }
+
+    const { data, error } = await query
+      .order('name')
+      .order('id')
+      .range(from, from + SELECT_PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to load finished goods: ${error.message}`);
+    }
+
+    rows.push(...((data || []) as unknown as T[]));
+
+    if (!data || data.length < SELECT_PAGE_SIZE) {
+      return rows;
+    }
+  }
+}
+
+/**
+ * Serve one page of persisted finished goods in the iDempiere list format,
+ * so the browser cache can page and delta-sync against Supabase.
+ * With `updatedSince`, deactivated rows are included (IsActive = false) so
+ * the client can drop them.
+ */
+export async function fetchFinishedGoodsPageFromSupabase(
+  options: IDempierePageOptions & { updatedSince?: string | null }
+): Promise<FinishedGoodsResponse> {
+  const { skip, top, updatedSince } = options;
+
+  let query = supabaseAdmin
+    .from('finished_goods')
+    .select('erp_id, erp_payload, is_active, updated_at', { count: 'exact' })
+    .not('erp_payload', 'is', null);
+
+  query = updatedSince
+    ? query.gt('updated_at', updatedSince)
+    : query.eq('is_active', true);
+
+  const { data, error, count } = await query
+    .order('erp_id')
+    .range(skip, skip + top - 1);
+
+  if (error) {
+    throw new IDempiereAPIError(`Failed to read finished goods from database: ${error.message}`, 500);
+  }
+
+  const records: FinishedGood[] = (data || []).map(row => ({
+    ...(row.erp_payload as FinishedGood),
+    IsActive: row.is_active !== false,
+    Updated: row.updated_at,
+  }));
+  const rowCount = count ?? records.length;
+
+  return {
+    'page-count': Math.max(Math.ceil(rowCount / top), 1),
+    'records-size': top,
+    'skip-records': skip,
+    'row-count': rowCount,
+    'array-count': records.length,
+    records,
+  };
+}
@@ -0,0 +1,90 @@
+/**
+ * Full vs. delta sync planning for the local finished goods cache
+ */
+
+import { finishedGoodsDB, FinishedGood, FinishedGoodsResponse } from './indexeddb';
+import { PagedFetchState } from './idempiere-api';
+
+/** Beyond this gap a delta could miss too much (e.g. purged rows), so resync fully */
+const MAX_DELTA_GAP_MS = 7 * 24 * 60 * 60 * 1000;
+
+/** Re-fetch a small window before the last sync to absorb clock skew */
+const DELTA_OVERLAP_MS = 5 * 60 * 1000;
+
+export interface FinishedGoodsSyncPlan {
+  mode: 'full' | 'delta';
+  /** Lower bound for `Updated` in delta mode, null for a full sync */
+  updatedSince: string | null;
+  /** Recorded as the new `last_sync` once the sync is applied */
+  startedAt: string;
+}
+
+/**
+ * Plan and pages fetched so far, kept by callers to resume a failed sync
+ */
+export interface FinishedGoodsSyncResume {
+  plan: FinishedGoodsSyncPlan;
+  state: PagedFetchState<FinishedGood>;
+}
+
+export interface FinishedGoodsSyncResult {
+  mode: 'full' | 'delta';
+  recordsFetched: number;
+  recordsRemoved: number;
+  recordCount: number;
+}
+
+/**
+ * Decide between a full and a delta sync based on the stored metadata
+ */
+export async function planFinishedGoodsSync(): Promise<FinishedGoodsSyncPlan> {
+  const startedAt = new Date().toISOString();
+  const metadata = await finishedGoodsDB.getSyncMetadata();
+
+  if (!metadata?.value || !metadata.record_count) {
+    return { mode: 'full', updatedSince: null, startedAt };
+  }
+
+  // Data written by an older schema may lack fields a delta would not refill
+  if (metadata.schema_version !== finishedGoodsDB.schemaVersion) {
+    return { mode: 'full', updatedSince: null, startedAt };
+  }
+
+  const lastSync = new Date(metadata.value).getTime();
+  if (isNaN(lastSync) || Date.now() - lastSync > MAX_DELTA_GAP_MS) {
+    return { mode: 'full', updatedSince: null, startedAt };
+  }
+
+  return {
+    mode: 'delta',
+    updatedSince: new Date(lastSync - DELTA_OVERLAP_MS).toISOString(),
+    startedAt,
+  };
+}
+
+/**
+ * Write fetched records to IndexedDB according to the plan's mode
+ */
+export async function applyFinishedGoodsSync(
+  plan: FinishedGoodsSyncPlan,
+  data: FinishedGoodsResponse
+): Promise<FinishedGoodsSyncResult> {
+  if (plan.mode === 'delta') {
+    const result = await finishedGoodsDB.applyFinishedGoodsDelta(data.records, plan.startedAt);
+    return {
+      mode: 'delta',
+      recordsFetched: data.records.length,
+      recordsRemoved: result.removed,
+      recordCount: result.record_count,
+    };
+  }
+
+  await finishedGoodsDB.storeFinishedGoods(data, plan.startedAt);
+  const recordCount = data.records.filter(record => record.IsActive !== false).length;
+  return {
+    mode: 'full',
+    recordsFetched: data.records.length,
+    recordsRemoved: 0,
+    recordCount,
+  };
+}
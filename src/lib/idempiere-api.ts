@@ -2,7 +2,39 @@
  * API utilities for fetching finished goods data from iDempiere
  */
 
-import { FinishedGoodsResponse } from './indexeddb';
+import {
+  FinishedGood,
+  FinishedGoodsResponse,
+  FinishedGoodStockLevel,
+  FinishedGoodStockRecord,
+  FinishedGoodsStockResponse,
+  IDempiereListResponse,
+  IDempiereReference,
+} from './indexeddb';
+import {
+  RawMaterialProduct,
+  RawMaterialsResponse,
+  RawMaterialStockLevel,
+  RawMaterialStockRecord,
+  RawMaterialsStockResponse,
+} from './raw-materials-db';
+
+/** `AD_Org` record from the iDempiere REST API */
+export interface IDempiereOrganization {
+  id: number;
+  Name: string;
+  Value: string;
+  IsActive: boolean;
+}
+
+/** `M_Warehouse` record from the iDempiere REST API */
+export interface IDempiereWarehouse {
+  id: number;
+  Name: string;
+  Value: string;
+  IsActive: boolean;
+  AD_Org_ID: IDempiereReference;
+}
 
 export interface IDempiereErrorResponse {
   message?: string;
@@ -22,9 +54,178 @@ export class IDempiereAPIError extends Error {
 }
 
 /**
- * Fetch finished goods data from iDempiere API
+ * Default `$top` page size; iDempiere REST caps pages at 100 records unless
+ * REST_MAX_RECORDS_SIZE is raised on the server
+ */
+export const IDEMPIERE_PAGE_SIZE = 100;
+
+const MAX_PAGE_RETRIES = 3;
+const RETRY_BASE_DELAY_MS = 500;
+
+export interface IDempierePageOptions {
+  skip: number;
+  top: number;
+}
+
+export interface FinishedGoodsFetchOptions extends PagedFetchOptions<FinishedGood> {
+  /** Only return products changed after this ISO timestamp (delta sync) */
+  updatedSince?: string | null;
+}
+
+export interface PagedFetchProgress {
+  page: number;
+  pageCount: number;
+  recordsFetched: number;
+  totalRecords: number;
+}
+
+/**
+ * Accumulated state of a paged fetch; passed back in as `resumeFrom`
+ * to continue after the last successfully fetched page
+ */
+export interface PagedFetchState<T> {
+  records: T[];
+  nextSkip: number;
+  pagesFetched: number;
+  pageCount: number | null;
+  totalRecords: number | null;
+}
+
+export interface PagedFetchOptions<T> {
+  pageSize?: number;
+  maxRetries?: number;
+  onProgress?: (progress: PagedFetchProgress) => void;
+  resumeFrom?: PagedFetchState<T> | null;
+}
+
+export class IDempierePagedFetchError<T> extends IDempiereAPIError {
+  constructor(
+    message: string,
+    public state: PagedFetchState<T>,
+    status?: number
+  ) {
+    super(message, status);
+    this.name = 'IDempierePagedFetchError';
+  }
+}
+
+function isRetryableError(error: unknown): boolean {
+  if (error instanceof IDempiereAPIError && error.status) {
+    // Client errors (bad token, bad query) will not succeed on retry
+    return error.status >= 500 || error.status === 408 || error.status === 429;
+  }
+  return true;
+}
+
+async function withRetry<T>(operation: () => Promise<T>, maxRetries: number): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (attempt >= maxRetries || !isRetryableError(error)) {
+        throw error;
+      }
+
+      const delay = RETRY_BASE_DELAY_MS * 2 ** attempt;
+      console.warn(`iDempiere page request failed, retrying in ${delay}ms (attempt ${attempt + 1}/${maxRetries})`);
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+}
+
+/**
+ * Follow `$skip`/`$top` paging until the reported `page-count` is used up.
+ * Each page is retried with exponential backoff; if a page still fails, the
+ * thrown IDempierePagedFetchError carries the state needed to resume.
+ */
+export async function fetchAllPages<T>(
+  fetchPage: (options: IDempierePageOptions) => Promise<IDempiereListResponse<T>>,
+  options: PagedFetchOptions<T> = {}
+): Promise<IDempiereListResponse<T>> {
+  const pageSize = options.pageSize ?? IDEMPIERE_PAGE_SIZE;
+  const maxRetries = options.maxRetries ?? MAX_PAGE_RETRIES;
+
+  const state: PagedFetchState<T> = options.resumeFrom
+    ? { ...options.resumeFrom, records: [...options.resumeFrom.records] }
+    : { records: [], nextSkip: 0, pagesFetched: 0, pageCount: null, totalRecords: null };
+
+  while (state.pageCount === null || state.pagesFetched < state.pageCount) {
+    let page: IDempiereListResponse<T>;
+
+    try {
+      page = await withRetry(() => fetchPage({ skip: state.nextSkip, top: pageSize }), maxRetries);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      throw new IDempierePagedFetchError(
+        `Failed on page ${state.pagesFetched + 1}${state.pageCount ? ` of ${state.pageCount}` : ''}: ${message}`,
+        state,
+        error instanceof IDempiereAPIError ? error.status : undefined
+      );
+    }
+
+    state.pageCount = page['page-count'] ?? 1;
+    state.totalRecords = page['row-count'] ?? state.records.length + page.records.length;
+    state.records.push(...page.records);
+    state.pagesFetched += 1;
+    state.nextSkip += page.records.length;
+
+    options.onProgress?.({
+      page: state.pagesFetched,
+      pageCount: state.pageCount,
+      recordsFetched: state.records.length,
+      totalRecords: state.totalRecords,
+    });
+
+    // Guard against servers that report more pages than they return
+    if (page.records.length === 0) {
+      break;
+    }
+  }
+
+  return {
+    'page-count': state.pageCount ?? 0,
+    'records-size': state.records.length,
+    'skip-records': 0,
+    'row-count': state.totalRecords ?? state.records.length,
+    'array-count': state.records.length,
+    records: state.records,
+  };
+}
+
+/**
+ * iDempiere reads `Updated` literals in the server's timezone, which may be up to
+ * 14 hours off UTC; moving the cursor back a day keeps a delta from skipping rows.
+ * Re-fetched rows are upserted again, so the overlap is harmless.
+ */
+const UPDATED_FILTER_OVERLAP_MS = 24 * 60 * 60 * 1000;
+
+/** Stable order for finished goods so `$skip` paging neither repeats nor skips rows */
+const FINISHED_GOODS_ORDER_BY = 'Updated,M_Product_ID';
+
+/**
+ * Build an OData `$filter` for records changed after the given timestamp.
+ * iDempiere compares against `yyyy-MM-dd HH:mm:ss` literals.
  */
-export async function fetchFinishedGoodsFromIDempiere(): Promise<FinishedGoodsResponse> {
+export function buildUpdatedSinceFilter(updatedSince: string): string {
+  const date = new Date(updatedSince);
+  if (isNaN(date.getTime())) {
+    throw new IDempiereAPIError(`Invalid updatedSince timestamp: ${updatedSince}`, 400);
+  }
+
+  const timestamp = new Date(date.getTime() - UPDATED_FILTER_OVERLAP_MS).toISOString().replace('T', ' ').substring(0, 19);
+  return `Updated gt '${timestamp}'`;
+}
+
+/**
+ * Fetch one page of an iDempiere model/view through the REST API
+ */
+async function fetchIDempiereModelPage<T>(
+  model: string,
+  label: string,
+  { skip, top }: IDempierePageOptions,
+  filter?: string,
+  orderBy?: string
+): Promise<IDempiereListResponse<T>> {
   const idempiereUrl = process.env.NEXT_IDEMPIERE_URL;
   const token = process.env.IDEMPIERE_TOKEN;
 
@@ -35,7 +236,13 @@ export async function fetchFinishedGoodsFromIDempiere(): Promise<FinishedGoodsRe
     );
   }
 
-  const apiUrl = `${idempiereUrl}/api/v1/models/vw_product_fg`;
+  let apiUrl = `${idempiereUrl}/api/v1/models/${model}?$top=${top}&$skip=${skip}`;
+  if (filter) {
+    apiUrl += `&$filter=${encodeURIComponent(filter)}`;
+  }
+  if (orderBy) {
+    apiUrl += `&$orderby=${encodeURIComponent(orderBy)}`;
+  }
 
   try {
     const response = await fetch(apiUrl, {
@@ -60,13 +267,13 @@ export async function fetchFinishedGoodsFromIDempiere(): Promise<FinishedGoodsRe
       }
 
       throw new IDempiereAPIError(
-        `Failed to fetch finished goods from iDempiere: ${errorMessage}`,
+        `Failed to fetch ${label} from iDempiere: ${errorMessage}`,
         response.status,
         response
       );
     }
 
-    const data: FinishedGoodsResponse = await response.json();
+    const data: IDempiereListResponse<T> = await response.json();
 
     // Validate the response structure
     if (!data || typeof data !== 'object') {
@@ -78,7 +285,7 @@ export async function fetchFinishedGoodsFromIDempiere(): Promise<FinishedGoodsRe
     }
 
     // Log successful fetch for debugging
-    console.log(`Successfully fetched ${data.records.length} finished goods from iDempiere`);
+    console.log(`Successfully fetched ${data.records.length} ${label} from iDempiere (skip ${skip})`);
 
     return data;
   } catch (error) {
@@ -99,17 +306,78 @@ export async function fetchFinishedGoodsFromIDempiere(): Promise<FinishedGoodsRe
       throw new IDempiereAPIError(`Unexpected error fetching from iDempiere: ${error.message}`);
     }
 
-    throw new IDempiereAPIError('Unknown error occurred while fetching finished goods');
+    throw new IDempiereAPIError(`Unknown error occurred while fetching ${label}`);
   }
 }
 
 /**
- * Client-side fetch function for finished goods
- * This will be called from React components
+ * Fetch a single page of finished goods from iDempiere API
+ */
+export async function fetchFinishedGoodsPageFromIDempiere(
+  options: IDempierePageOptions & { updatedSince?: string | null }
+): Promise<FinishedGoodsResponse> {
+  const { updatedSince, ...pageOptions } = options;
+  const filter = updatedSince ? buildUpdatedSinceFilter(updatedSince) : undefined;
+  const data = await fetchIDempiereModelPage<FinishedGood>(
+    'vw_product_fg',
+    'finished goods',
+    pageOptions,
+    filter,
+    FINISHED_GOODS_ORDER_BY
+  );
+
+  // Deltas and the persisted table rely on IsActive to drop deactivated products;
+  // without it they would silently stay listed
+  const unflagged = data.records.find(record => typeof record.IsActive !== 'boolean');
+  if (unflagged) {
+    throw new IDempiereAPIError(
+      `Finished good ${unflagged.id} from vw_product_fg has no IsActive field; the view must expose it so deactivated products can be removed`,
+      502
+    );
+  }
+
+  return data;
+}
+
+/**
+ * Fetch all finished goods data from iDempiere API, page by page
+ */
+export async function fetchFinishedGoodsFromIDempiere(
+  options: FinishedGoodsFetchOptions = {}
+): Promise<FinishedGoodsResponse> {
+  const { updatedSince, ...pagedOptions } = options;
+  return fetchAllPages(
+    pageOptions => fetchFinishedGoodsPageFromIDempiere({ ...pageOptions, updatedSince }),
+    pagedOptions
+  );
+}
+
+/**
+ * Fetch finished goods storage quantities (on hand, reserved, ordered)
+ * per warehouse from iDempiere API
+ */
+export async function fetchFinishedGoodsStockFromIDempiere(): Promise<FinishedGoodsStockResponse> {
+  return fetchAllPages(pageOptions =>
+    fetchIDempiereModelPage<FinishedGoodStockRecord>('vw_product_fg_storage', 'finished goods stock', pageOptions)
+  );
+}
+
+/**
+ * Client-side fetch of a single page through one of the sync routes
  */
-export async function fetchFinishedGoodsClient(): Promise<FinishedGoodsResponse> {
+async function fetchSyncPageClient<T>(
+  route: string,
+  label: string,
+  { skip, top }: IDempierePageOptions,
+  updatedSince?: string | null
+): Promise<IDempiereListResponse<T>> {
   try {
-    const response = await fetch('/api/finished-goods/sync', {
+    let url = `${route}?skip=${skip}&top=${top}`;
+    if (updatedSince) {
+      url += `&updatedSince=${encodeURIComponent(updatedSince)}`;
+    }
+
+    const response = await fetch(url, {
       method: 'GET',
       headers: {
         'Content-Type': 'application/json',
@@ -127,12 +395,12 @@ export async function fetchFinishedGoodsClient(): Promise<FinishedGoodsResponse>
       }
 
       throw new IDempiereAPIError(
-        `Failed to fetch finished goods: ${errorMessage}`,
+        `Failed to fetch ${label}: ${errorMessage}`,
         response.status
       );
     }
 
-    const data: FinishedGoodsResponse = await response.json();
+    const data: IDempiereListResponse<T> = await response.json();
     return data;
   } catch (error) {
     if (error instanceof IDempiereAPIError) {
@@ -143,10 +411,137 @@ export async function fetchFinishedGoodsClient(): Promise<FinishedGoodsResponse>
       throw new IDempiereAPIError(`Client fetch error: ${error.message}`);
     }
 
-    throw new IDempiereAPIError('Unknown error occurred while fetching finished goods');
+    throw new IDempiereAPIError(`Unknown error occurred while fetching ${label}`);
+  }
+}
+
+/**
+ * Client-side fetch function for finished goods
+ * This will be called from React components. Pages are requested one at a
+ * time so callers can report real progress and resume after a failed page.
+ */
+export async function fetchFinishedGoodsClient(
+  options: FinishedGoodsFetchOptions = {}
+): Promise<FinishedGoodsResponse> {
+  const { updatedSince, ...pagedOptions } = options;
+  return fetchAllPages(
+    pageOptions => fetchSyncPageClient<FinishedGood>('/api/finished-goods/sync', 'finished goods', pageOptions, updatedSince),
+    pagedOptions
+  );
+}
+
+/**
+ * Client-side fetch of per-area stock levels from one of the stock routes
+ */
+async function fetchStockLevelsClient<T>(route: string, label: string): Promise<T[]> {
+  try {
+    const response = await fetch(route, {
+      method: 'GET',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+
+    if (!response.ok) {
+      let errorMessage = `HTTP error! status: ${response.status}`;
+      
+      try {
+        const errorData = await response.json();
+        errorMessage = errorData.error || errorMessage;
+      } catch {
+        // If we can't parse the error response, use the default message
+      }
+
+      throw new IDempiereAPIError(
+        `Failed to fetch ${label}: ${errorMessage}`,
+        response.status
+      );
+    }
+
+    const result: { data: T[] } = await response.json();
+    return result.data;
+  } catch (error) {
+    if (error instanceof IDempiereAPIError) {
+      throw error;
+    }
+
+    if (error instanceof Error) {
+      throw new IDempiereAPIError(`Client fetch error: ${error.message}`);
+    }
+
+    throw new IDempiereAPIError(`Unknown error occurred while fetching ${label}`);
   }
 }
 
+/**
+ * Client-side fetch function for per-area finished goods stock levels
+ */
+export async function fetchFinishedGoodsStockClient(): Promise<FinishedGoodStockLevel[]> {
+  return fetchStockLevelsClient<FinishedGoodStockLevel>('/api/finished-goods/stock', 'finished goods stock');
+}
+
+/**
+ * Fetch a single page of raw materials from iDempiere API
+ */
+export async function fetchRawMaterialsPageFromIDempiere(options: IDempierePageOptions): Promise<RawMaterialsResponse> {
+  return fetchIDempiereModelPage<RawMaterialProduct>('vw_product_rm', 'raw materials', options);
+}
+
+/**
+ * Fetch all raw materials data from iDempiere API, page by page
+ */
+export async function fetchRawMaterialsFromIDempiere(
+  options: PagedFetchOptions<RawMaterialProduct> = {}
+): Promise<RawMaterialsResponse> {
+  return fetchAllPages(fetchRawMaterialsPageFromIDempiere, options);
+}
+
+/**
+ * Fetch raw material storage quantities per warehouse from iDempiere API
+ */
+export async function fetchRawMaterialsStockFromIDempiere(): Promise<RawMaterialsStockResponse> {
+  return fetchAllPages(pageOptions =>
+    fetchIDempiereModelPage<RawMaterialStockRecord>('vw_product_rm_storage', 'raw materials stock', pageOptions)
+  );
+}
+
+/**
+ * Client-side fetch function for raw materials, one page at a time
+ */
+export async function fetchRawMaterialsClient(
+  options: PagedFetchOptions<RawMaterialProduct> = {}
+): Promise<RawMaterialsResponse> {
+  return fetchAllPages(
+    pageOptions => fetchSyncPageClient<RawMaterialProduct>('/api/raw-materials/sync', 'raw materials', pageOptions),
+    options
+  );
+}
+
+/**
+ * Client-side fetch function for per-area raw material stock levels
+ */
+export async function fetchRawMaterialsStockClient(): Promise<RawMaterialStockLevel[]> {
+  return fetchStockLevelsClient<RawMaterialStockLevel>('/api/raw-materials/stock', 'raw materials stock');
+}
+
+/**
+ * Fetch all organizations from iDempiere API, page by page
+ */
+export async function fetchOrganizationsFromIDempiere(): Promise<IDempiereListResponse<IDempiereOrganization>> {
+  return fetchAllPages(pageOptions =>
+    fetchIDempiereModelPage<IDempiereOrganization>('ad_org', 'organizations', pageOptions)
+  );
+}
+
+/**
+ * Fetch all warehouses from iDempiere API, page by page
+ */
+export async function fetchWarehousesFromIDempiere(): Promise<IDempiereListResponse<IDempiereWarehouse>> {
+  return fetchAllPages(pageOptions =>
+    fetchIDempiereModelPage<IDempiereWarehouse>('m_warehouse', 'warehouses', pageOptions)
+  );
+}
+
 /**
  * Utility function to test iDempiere API connectivity
  */
@@ -154,7 +549,7 @@ export async function testIDempiereConnection(): Promise<{ success: boolean; mes
   const startTime = Date.now();
   
   try {
-    await fetchFinishedGoodsFromIDempiere();
+    await fetchFinishedGoodsPageFromIDempiere({ skip: 0, top: 1 });
     const latency = Date.now() - startTime;
     
     return {
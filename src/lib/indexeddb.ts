@@ -3,28 +3,20 @@
  * Based on MDN documentation: https://developer.mozilla.org/en-US/docs/Web/API/IndexedDB_API/Using_IndexedDB
  */
 
+export interface IDempiereReference {
+  propertyLabel: string;
+  id: number;
+  identifier: string;
+  'model-name': string;
+}
+
 export interface FinishedGood {
   id: number;
-  AD_Client_ID: {
-    propertyLabel: string;
-    id: number;
-    identifier: string;
-    'model-name': string;
-  };
-  AD_Org_ID: {
-    propertyLabel: string;
-    id: number;
-    identifier: string;
-    'model-name': string;
-  };
+  AD_Client_ID: IDempiereReference;
+  AD_Org_ID: IDempiereReference;
   product_code: string;
   product_name: string;
-  M_Product_Category_ID: {
-    propertyLabel: string;
-    id: number;
-    identifier: string;
-    'model-name': string;
-  };
+  M_Product_Category_ID: IDempiereReference;
   catname: string;
   parent1: string;
   parent2: string;
@@ -34,16 +26,57 @@ export interface FinishedGood {
   catname_value: number;
   parent1_value: number;
   parent2_value: number;
+  /** Present when the view exposes it; inactive rows are removed during delta sync */
+  IsActive?: boolean;
+  /** Last change timestamp in iDempiere, used for `$filter=Updated gt ...` */
+  Updated?: string;
   'model-name': string;
 }
 
-export interface FinishedGoodsResponse {
+export interface IDempiereListResponse<T> {
   'page-count': number;
   'records-size': number;
   'skip-records': number;
   'row-count': number;
   'array-count': number;
-  records: FinishedGood[];
+  records: T[];
+}
+
+export type FinishedGoodsResponse = IDempiereListResponse<FinishedGood>;
+
+/**
+ * Raw storage record from the iDempiere `vw_product_fg_storage` view
+ * (one row per product per warehouse)
+ */
+export interface FinishedGoodStockRecord {
+  id: number;
+  AD_Org_ID: IDempiereReference;
+  M_Product_ID: IDempiereReference;
+  M_Warehouse_ID: IDempiereReference;
+  QtyOnHand: number;
+  QtyReserved: number;
+  QtyOrdered: number;
+  'model-name': string;
+}
+
+export type FinishedGoodsStockResponse = IDempiereListResponse<FinishedGoodStockRecord>;
+
+/**
+ * Stock quantities for one product in one warehouse, joined to the
+ * `master_areas` row whose `erp_id` matches the warehouse organization
+ */
+export interface FinishedGoodStockLevel {
+  id: string;
+  product_id: number;
+  warehouse_id: number;
+  warehouse_name: string;
+  area_id: number;
+  area_name: string;
+  area_erp_id: number;
+  qty_on_hand: number;
+  qty_reserved: number;
+  qty_ordered: number;
+  qty_available: number;
 }
 
 export interface FinishedGoodCategory {
@@ -56,9 +89,23 @@ export interface FinishedGoodCategory {
   product_count: number;
 }
 
+export interface SyncMetadata {
+  key: 'last_sync';
+  value: string;
+  record_count: number;
+  schema_version?: number;
+  sync_mode?: 'full' | 'delta';
+}
+
+export interface DeltaApplyResult {
+  upserted: number;
+  removed: number;
+  record_count: number;
+}
+
 class FinishedGoodsDB {
   private dbName = 'FinishedGoodsDB';
-  private version = 1;
+  private version = 2;
   private db: IDBDatabase | null = null;
 
   /**
@@ -98,14 +145,29 @@ class FinishedGoodsDB {
         if (!db.objectStoreNames.contains('metadata')) {
           db.createObjectStore('metadata', { keyPath: 'key' });
         }
+
+        // Create stock_levels object store (per product, per warehouse/area quantities)
+        if (!db.objectStoreNames.contains('stock_levels')) {
+          const stockLevelsStore = db.createObjectStore('stock_levels', { keyPath: 'id' });
+          stockLevelsStore.createIndex('product_id', 'product_id', { unique: false });
+          stockLevelsStore.createIndex('area_id', 'area_id', { unique: false });
+        }
       };
     });
   }
 
+  /**
+   * Schema version of the local store; a delta sync is only valid against
+   * data written under the same version
+   */
+  get schemaVersion(): number {
+    return this.version;
+  }
+
   /**
    * Store finished goods data in IndexedDB
    */
-  async storeFinishedGoods(data: FinishedGoodsResponse): Promise<void> {
+  async storeFinishedGoods(data: FinishedGoodsResponse, syncedAt: string = new Date().toISOString()): Promise<void> {
     if (!this.db) {
       await this.init();
     }
@@ -119,23 +181,27 @@ class FinishedGoodsDB {
     await this.clearStore(finishedGoodsStore);
     await this.clearStore(categoriesStore);
 
-    // Store finished goods
-    for (const record of data.records) {
+    // Store finished goods (inactive products are not kept locally)
+    const activeRecords = data.records.filter(record => record.IsActive !== false);
+    for (const record of activeRecords) {
       finishedGoodsStore.add(record);
     }
 
     // Extract and store categories
-    const categories = this.extractCategories(data.records);
+    const categories = this.extractCategories(activeRecords);
     for (const category of categories) {
       categoriesStore.add(category);
     }
 
     // Store metadata
-    metadataStore.put({
+    const metadata: SyncMetadata = {
       key: 'last_sync',
-      value: new Date().toISOString(),
-      record_count: data.records.length
-    });
+      value: syncedAt,
+      record_count: activeRecords.length,
+      schema_version: this.version,
+      sync_mode: 'full'
+    };
+    metadataStore.put(metadata);
 
     return new Promise((resolve, reject) => {
       transaction.oncomplete = () => resolve();
@@ -198,6 +264,127 @@ class FinishedGoodsDB {
     });
   }
 
+  /**
+   * Apply changed records from a delta sync: upsert active products,
+   * remove deactivated ones and rebuild categories from the result
+   */
+  async applyFinishedGoodsDelta(records: FinishedGood[], syncedAt: string = new Date().toISOString()): Promise<DeltaApplyResult> {
+    if (!this.db) {
+      await this.init();
+    }
+
+    const transaction = this.db!.transaction(['finished_goods', 'categories', 'metadata'], 'readwrite');
+    const finishedGoodsStore = transaction.objectStore('finished_goods');
+    const categoriesStore = transaction.objectStore('categories');
+    const metadataStore = transaction.objectStore('metadata');
+
+    let upserted = 0;
+    let removed = 0;
+
+    for (const record of records) {
+      if (record.IsActive === false) {
+        finishedGoodsStore.delete(record.id);
+        removed += 1;
+      } else {
+        finishedGoodsStore.put(record);
+        upserted += 1;
+      }
+    }
+
+    // Rebuild categories from the full set of products after the changes
+    const allRecords = await new Promise<FinishedGood[]>((resolve, reject) => {
+      const request = finishedGoodsStore.getAll();
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(new Error('Failed to read finished goods after delta'));
+    });
+
+    await this.clearStore(categoriesStore);
+    for (const category of this.extractCategories(allRecords)) {
+      categoriesStore.add(category);
+    }
+
+    const metadata: SyncMetadata = {
+      key: 'last_sync',
+      value: syncedAt,
+      record_count: allRecords.length,
+      schema_version: this.version,
+      sync_mode: 'delta'
+    };
+    metadataStore.put(metadata);
+
+    return new Promise((resolve, reject) => {
+      transaction.oncomplete = () => resolve({ upserted, removed, record_count: allRecords.length });
+      transaction.onerror = () => reject(new Error('Failed to apply finished goods delta'));
+    });
+  }
+
+  /**
+   * Store per-area stock levels in IndexedDB (replaces existing levels)
+   */
+  async storeStockLevels(levels: FinishedGoodStockLevel[]): Promise<void> {
+    if (!this.db) {
+      await this.init();
+    }
+
+    const transaction = this.db!.transaction(['stock_levels', 'metadata'], 'readwrite');
+    const stockLevelsStore = transaction.objectStore('stock_levels');
+    const metadataStore = transaction.objectStore('metadata');
+
+    await this.clearStore(stockLevelsStore);
+
+    for (const level of levels) {
+      stockLevelsStore.add(level);
+    }
+
+    metadataStore.put({
+      key: 'last_stock_sync',
+      value: new Date().toISOString(),
+      record_count: levels.length
+    });
+
+    return new Promise((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(new Error('Failed to store stock levels'));
+    });
+  }
+
+  /**
+   * Get all stock levels from IndexedDB
+   */
+  async getStockLevels(): Promise<FinishedGoodStockLevel[]> {
+    if (!this.db) {
+      await this.init();
+    }
+
+    const transaction = this.db!.transaction(['stock_levels'], 'readonly');
+    const store = transaction.objectStore('stock_levels');
+    const request = store.getAll();
+
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(new Error('Failed to retrieve stock levels'));
+    });
+  }
+
+  /**
+   * Get stock levels for a single product across all areas
+   */
+  async getStockLevelsByProduct(productId: number): Promise<FinishedGoodStockLevel[]> {
+    if (!this.db) {
+      await this.init();
+    }
+
+    const transaction = this.db!.transaction(['stock_levels'], 'readonly');
+    const store = transaction.objectStore('stock_levels');
+    const index = store.index('product_id');
+    const request = index.getAll(productId);
+
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(new Error('Failed to retrieve stock levels by product'));
+    });
+  }
+
   /**
    * Search finished goods by product name or code
    */
@@ -214,7 +401,7 @@ class FinishedGoodsDB {
   /**
    * Get sync metadata
    */
-  async getSyncMetadata(): Promise<{ key: 'last_sync'; value: string; record_count: number } | undefined> {
+  async getSyncMetadata(): Promise<SyncMetadata | undefined> {
     if (!this.db) {
       await this.init();
     }
@@ -224,27 +411,64 @@ class FinishedGoodsDB {
     const request = store.get('last_sync');
 
     return new Promise((resolve, reject) => {
-      request.onsuccess = () => resolve(request.result as { key: 'last_sync'; value: string; record_count: number } | undefined);
+      request.onsuccess = () => resolve(request.result as SyncMetadata | undefined);
       request.onerror = () => reject(new Error('Failed to retrieve sync metadata'));
     });
   }
 
   /**
-   * Clear all data (called on logout)
+   * Get the Clerk user ID whose session filled the cache
+   */
+  async getCacheOwner(): Promise<string | undefined> {
+    if (!this.db) {
+      await this.init();
+    }
+
+    const transaction = this.db!.transaction(['metadata'], 'readonly');
+    const store = transaction.objectStore('metadata');
+    const request = store.get('cache_owner');
+
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result?.value as string | undefined);
+      request.onerror = () => reject(new Error('Failed to retrieve cache owner'));
+    });
+  }
+
+  /**
+   * Record the Clerk user ID whose session fills the cache
+   */
+  async setCacheOwner(userId: string): Promise<void> {
+    if (!this.db) {
+      await this.init();
+    }
+
+    const transaction = this.db!.transaction(['metadata'], 'readwrite');
+    transaction.objectStore('metadata').put({ key: 'cache_owner', value: userId });
+
+    return new Promise((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(new Error('Failed to store cache owner'));
+    });
+  }
+
+  /**
+   * Clear all data (called when a different user signs in)
    */
   async clearAllData(): Promise<void> {
     if (!this.db) {
       await this.init();
     }
 
-    const transaction = this.db!.transaction(['finished_goods', 'categories', 'metadata'], 'readwrite');
+    const transaction = this.db!.transaction(['finished_goods', 'categories', 'stock_levels', 'metadata'], 'readwrite');
     const finishedGoodsStore = transaction.objectStore('finished_goods');
     const categoriesStore = transaction.objectStore('categories');
+    const stockLevelsStore = transaction.objectStore('stock_levels');
     const metadataStore = transaction.objectStore('metadata');
 
     await Promise.all([
       this.clearStore(finishedGoodsStore),
       this.clearStore(categoriesStore),
+      this.clearStore(stockLevelsStore),
       this.clearStore(metadataStore)
     ]);
 
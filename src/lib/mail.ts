@@ -0,0 +1,105 @@
+/**
+ * Pluggable outgoing mail transport
+ * `MAIL_TRANSPORT=smtp` sends through SMTP_* settings; `file` writes each
+ * message to MAIL_FILE_DIR; anything else logs messages to the console.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import nodemailer from 'nodemailer';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  readonly name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+export class MailConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MailConfigError';
+  }
+}
+
+function getMailFrom(): string {
+  return process.env.MAIL_FROM || 'Inventory Dashboard <no-reply@localhost>';
+}
+
+export class SmtpMailTransport implements MailTransport {
+  readonly name = 'smtp';
+  private transporter: nodemailer.Transporter;
+
+  constructor() {
+    const host = process.env.SMTP_HOST;
+    if (!host) {
+      throw new MailConfigError('SMTP_HOST is required when MAIL_TRANSPORT=smtp');
+    }
+
+    const port = parseInt(process.env.SMTP_PORT || '587', 10);
+    this.transporter = nodemailer.createTransport({
+      host,
+      port,
+      secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+      auth: process.env.SMTP_USER
+        ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+        : undefined,
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({ from: getMailFrom(), ...message });
+  }
+}
+
+/**
+ * Local development transport: writes messages to `directory` as text files,
+ * or logs them when no directory is given
+ */
+export class FileMailTransport implements MailTransport {
+  readonly name: string;
+
+  constructor(private directory?: string) {
+    this.name = directory ? 'file' : 'console';
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    const content = [
+      `From: ${getMailFrom()}`,
+      `To: ${message.to}`,
+      `Subject: ${message.subject}`,
+      `Date: ${new Date().toUTCString()}`,
+      '',
+      message.text,
+    ].join('\n');
+
+    if (!this.directory) {
+      console.log(`[mail] ${content}\n`);
+      return;
+    }
+
+    await fs.mkdir(this.directory, { recursive: true });
+    const safeRecipient = message.to.replace(/[^a-zA-Z0-9@._-]/g, '_');
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${safeRecipient}.eml`;
+    await fs.writeFile(path.join(this.directory, fileName), content, 'utf8');
+  }
+}
+
+/**
+ * Transport selected by `MAIL_TRANSPORT`
+ */
+export function getMailTransport(): MailTransport {
+  switch (process.env.MAIL_TRANSPORT) {
+    case 'smtp':
+      return new SmtpMailTransport();
+    case 'file':
+      return new FileMailTransport(process.env.MAIL_FILE_DIR || path.join(process.cwd(), '.mail'));
+    default:
+      return new FileMailTransport();
+  }
+}
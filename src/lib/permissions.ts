@@ -0,0 +1,25 @@
+/**
+ * Permission registry shared by server and client code
+ * Roles live in the `roles` table and which role has which permission in
+ * `role_permissions`; code only ever asks whether the current user has a
+ * permission key. Keep the keys here in sync with the `permissions` table.
+ */
+
+export const PERMISSIONS = {
+  'inventory.view': 'View inventory, stock levels and movements in own areas',
+  'inventory.adjust': 'Record stock movements in own areas',
+  'inventory.sync': 'Run iDempiere syncs',
+  'thresholds.manage': 'Edit stock thresholds in own areas',
+  'users.manage': 'Manage users and their area assignments',
+  'users.manage_area': 'Manage area sales supervisors in own areas',
+  'roles.assign': 'Change user roles',
+  'areas.manage': 'Manage areas, imports and deactivations',
+  'areas.view_all': 'See every area, not only assigned ones',
+  'jobs.run': 'Run scheduled jobs on demand',
+} as const;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export function isPermission(value: string): value is Permission {
+  return Object.prototype.hasOwnProperty.call(PERMISSIONS, value);
+}
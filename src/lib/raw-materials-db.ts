@@ -0,0 +1,332 @@
+/**
+ * IndexedDB utility for storing raw materials data
+ * Mirrors FinishedGoodsDB for records from the iDempiere `vw_product_rm` view
+ */
+
+import {
+  FinishedGoodCategory,
+  FinishedGoodStockLevel,
+  FinishedGoodStockRecord,
+  IDempiereListResponse,
+  IDempiereReference,
+  SyncMetadata,
+} from './indexeddb';
+
+export interface RawMaterialProduct {
+  id: number;
+  AD_Client_ID: IDempiereReference;
+  AD_Org_ID: IDempiereReference;
+  product_code: string;
+  product_name: string;
+  M_Product_Category_ID: IDempiereReference;
+  catname: string;
+  parent1: string;
+  parent2: string;
+  smalluom: string;
+  biguom: string;
+  Weight: number;
+  catname_value: number;
+  parent1_value: number;
+  parent2_value: number;
+  IsActive?: boolean;
+  Updated?: string;
+  'model-name': string;
+}
+
+export type RawMaterialsResponse = IDempiereListResponse<RawMaterialProduct>;
+
+/** Storage rows from `vw_product_rm_storage` share the finished goods layout */
+export type RawMaterialStockRecord = FinishedGoodStockRecord;
+
+export type RawMaterialsStockResponse = IDempiereListResponse<RawMaterialStockRecord>;
+
+export type RawMaterialStockLevel = FinishedGoodStockLevel;
+
+export type RawMaterialCategory = FinishedGoodCategory;
+
+class RawMaterialsDB {
+  private dbName = 'RawMaterialsDB';
+  private version = 1;
+  private db: IDBDatabase | null = null;
+
+  /**
+   * Initialize IndexedDB database
+   */
+  async init(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const request = indexedDB.open(this.dbName, this.version);
+
+      request.onerror = () => {
+        reject(new Error('Failed to open database'));
+      };
+
+      request.onsuccess = () => {
+        this.db = request.result;
+        resolve();
+      };
+
+      request.onupgradeneeded = (event) => {
+        const db = (event.target as IDBOpenDBRequest).result;
+
+        if (!db.objectStoreNames.contains('raw_materials')) {
+          const rawMaterialsStore = db.createObjectStore('raw_materials', { keyPath: 'id' });
+          rawMaterialsStore.createIndex('product_code', 'product_code', { unique: false });
+          rawMaterialsStore.createIndex('catname_value', 'catname_value', { unique: false });
+        }
+
+        if (!db.objectStoreNames.contains('categories')) {
+          const categoriesStore = db.createObjectStore('categories', { keyPath: 'id' });
+          categoriesStore.createIndex('name', 'name', { unique: false });
+        }
+
+        if (!db.objectStoreNames.contains('metadata')) {
+          db.createObjectStore('metadata', { keyPath: 'key' });
+        }
+
+        if (!db.objectStoreNames.contains('stock_levels')) {
+          const stockLevelsStore = db.createObjectStore('stock_levels', { keyPath: 'id' });
+          stockLevelsStore.createIndex('product_id', 'product_id', { unique: false });
+          stockLevelsStore.createIndex('area_id', 'area_id', { unique: false });
+        }
+      };
+    });
+  }
+
+  /**
+   * Store raw materials data in IndexedDB (replaces existing data)
+   */
+  async storeRawMaterials(data: RawMaterialsResponse): Promise<void> {
+    if (!this.db) {
+      await this.init();
+    }
+
+    const transaction = this.db!.transaction(['raw_materials', 'categories', 'metadata'], 'readwrite');
+    const rawMaterialsStore = transaction.objectStore('raw_materials');
+    const categoriesStore = transaction.objectStore('categories');
+    const metadataStore = transaction.objectStore('metadata');
+
+    await Promise.all([
+      this.clearStore(rawMaterialsStore),
+      this.clearStore(categoriesStore)
+    ]);
+
+    const activeRecords = data.records.filter(record => record.IsActive !== false);
+    for (const record of activeRecords) {
+      rawMaterialsStore.add(record);
+    }
+
+    for (const category of this.extractCategories(activeRecords)) {
+      categoriesStore.add(category);
+    }
+
+    const metadata: SyncMetadata = {
+      key: 'last_sync',
+      value: new Date().toISOString(),
+      record_count: activeRecords.length,
+      schema_version: this.version,
+      sync_mode: 'full'
+    };
+    metadataStore.put(metadata);
+
+    return new Promise((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(new Error('Failed to store raw materials'));
+    });
+  }
+
+  /**
+   * Store per-area stock levels in IndexedDB (replaces existing levels)
+   */
+  async storeStockLevels(levels: RawMaterialStockLevel[]): Promise<void> {
+    if (!this.db) {
+      await this.init();
+    }
+
+    const transaction = this.db!.transaction(['stock_levels', 'metadata'], 'readwrite');
+    const stockLevelsStore = transaction.objectStore('stock_levels');
+    const metadataStore = transaction.objectStore('metadata');
+
+    await this.clearStore(stockLevelsStore);
+
+    for (const level of levels) {
+      stockLevelsStore.add(level);
+    }
+
+    metadataStore.put({
+      key: 'last_stock_sync',
+      value: new Date().toISOString(),
+      record_count: levels.length
+    });
+
+    return new Promise((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(new Error('Failed to store stock levels'));
+    });
+  }
+
+  /**
+   * Get all raw materials from IndexedDB
+   */
+  async getRawMaterials(): Promise<RawMaterialProduct[]> {
+    return this.getAll<RawMaterialProduct>('raw_materials', 'Failed to retrieve raw materials');
+  }
+
+  /**
+   * Get raw materials by category
+   */
+  async getRawMaterialsByCategory(categoryValue: number): Promise<RawMaterialProduct[]> {
+    if (!this.db) {
+      await this.init();
+    }
+
+    const transaction = this.db!.transaction(['raw_materials'], 'readonly');
+    const index = transaction.objectStore('raw_materials').index('catname_value');
+    const request = index.getAll(categoryValue);
+
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(new Error('Failed to retrieve raw materials by category'));
+    });
+  }
+
+  /**
+   * Get all categories from IndexedDB
+   */
+  async getCategories(): Promise<RawMaterialCategory[]> {
+    return this.getAll<RawMaterialCategory>('categories', 'Failed to retrieve categories');
+  }
+
+  /**
+   * Get all stock levels from IndexedDB
+   */
+  async getStockLevels(): Promise<RawMaterialStockLevel[]> {
+    return this.getAll<RawMaterialStockLevel>('stock_levels', 'Failed to retrieve stock levels');
+  }
+
+  /**
+   * Search raw materials by product name or code
+   */
+  async searchRawMaterials(searchTerm: string): Promise<RawMaterialProduct[]> {
+    const allMaterials = await this.getRawMaterials();
+    const lowerSearchTerm = searchTerm.toLowerCase();
+
+    return allMaterials.filter(material =>
+      material.product_name.toLowerCase().includes(lowerSearchTerm) ||
+      material.product_code.toLowerCase().includes(lowerSearchTerm)
+    );
+  }
+
+  /**
+   * Get sync metadata
+   */
+  async getSyncMetadata(): Promise<SyncMetadata | undefined> {
+    if (!this.db) {
+      await this.init();
+    }
+
+    const transaction = this.db!.transaction(['metadata'], 'readonly');
+    const request = transaction.objectStore('metadata').get('last_sync');
+
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result as SyncMetadata | undefined);
+      request.onerror = () => reject(new Error('Failed to retrieve sync metadata'));
+    });
+  }
+
+  /**
+   * Clear all data (called on logout)
+   */
+  async clearAllData(): Promise<void> {
+    if (!this.db) {
+      await this.init();
+    }
+
+    const transaction = this.db!.transaction(['raw_materials', 'categories', 'stock_levels', 'metadata'], 'readwrite');
+
+    await Promise.all([
+      this.clearStore(transaction.objectStore('raw_materials')),
+      this.clearStore(transaction.objectStore('categories')),
+      this.clearStore(transaction.objectStore('stock_levels')),
+      this.clearStore(transaction.objectStore('metadata'))
+    ]);
+
+    return new Promise((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(new Error('Failed to clear data'));
+    });
+  }
+
+  /**
+   * Close database connection
+   */
+  close(): void {
+    if (this.db) {
+      this.db.close();
+      this.db = null;
+    }
+  }
+
+  /**
+   * Delete the entire database
+   */
+  async deleteDatabase(): Promise<void> {
+    this.close();
+
+    return new Promise((resolve, reject) => {
+      const deleteRequest = indexedDB.deleteDatabase(this.dbName);
+      deleteRequest.onsuccess = () => resolve();
+      deleteRequest.onerror = () => reject(new Error('Failed to delete database'));
+    });
+  }
+
+  // Private helper methods
+
+  private async getAll<T>(storeName: string, errorMessage: string): Promise<T[]> {
+    if (!this.db) {
+      await this.init();
+    }
+
+    const transaction = this.db!.transaction([storeName], 'readonly');
+    const request = transaction.objectStore(storeName).getAll();
+
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(new Error(errorMessage));
+    });
+  }
+
+  private clearStore(store: IDBObjectStore): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const request = store.clear();
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(new Error('Failed to clear store'));
+    });
+  }
+
+  private extractCategories(records: RawMaterialProduct[]): RawMaterialCategory[] {
+    const categoryMap = new Map<number, RawMaterialCategory>();
+
+    records.forEach(record => {
+      const categoryId = record.catname_value;
+
+      if (!categoryMap.has(categoryId)) {
+        categoryMap.set(categoryId, {
+          id: categoryId,
+          name: record.catname,
+          parent1: record.parent1,
+          parent2: record.parent2,
+          parent1_value: record.parent1_value,
+          parent2_value: record.parent2_value,
+          product_count: 0
+        });
+      }
+
+      categoryMap.get(categoryId)!.product_count += 1;
+    });
+
+    return Array.from(categoryMap.values());
+  }
+}
+
+// Singleton instance
+export const rawMaterialsDB = new RawMaterialsDB();
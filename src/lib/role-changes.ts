@@ -0,0 +1,67 @@
+/**
+ * Audited role changes
+ * Every change goes through the `change_user_role` database function, which
+ * refuses to demote the last active superadmin and records who changed which
+ * role, from what, to what and why in `role_changes`.
+ */
+
+import { supabaseAdmin, RoleChange } from './supabase';
+
+export interface ChangeUserRoleInput {
+  userProfileId: string;
+  newRole: string;
+  reason: string;
+  /** Profile of the user making the change; null for a bootstrap without a profile */
+  actorProfileId: string | null;
+  /** Made with ROLE_BOOTSTRAP_TOKEN; only allowed while there is no active superadmin */
+  bootstrap?: boolean;
+}
+
+export class RoleChangeError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'RoleChangeError';
+  }
+}
+
+export async function changeUserRole(input: ChangeUserRoleInput): Promise<RoleChange> {
+  const { data, error } = await supabaseAdmin.rpc('change_user_role', {
+    p_user_profile_id: input.userProfileId,
+    p_new_role: input.newRole,
+    p_reason: input.reason,
+    p_actor_id: input.actorProfileId,
+    p_bootstrap: input.bootstrap ?? false,
+  });
+
+  if (error) {
+    // SQLSTATEs raised by change_user_role
+    if (error.code === 'P0002') throw new RoleChangeError(error.message, 404);
+    if (error.code === '55000') throw new RoleChangeError(error.message, 409);
+    if (error.code === '42501') throw new RoleChangeError(error.message, 403);
+    throw new Error(`Failed to change user role: ${error.message}`);
+  }
+
+  return data as RoleChange;
+}
+
+/**
+ * Role change history, newest first
+ */
+export async function listRoleChanges(userProfileId?: string): Promise<RoleChange[]> {
+  let query = supabaseAdmin
+    .from('role_changes')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(100);
+
+  if (userProfileId) {
+    query = query.eq('user_profile_id', userProfileId);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    throw new Error(`Failed to load role changes: ${error.message}`);
+  }
+
+  return data || [];
+}
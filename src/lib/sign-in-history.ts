@@ -0,0 +1,89 @@
+/**
+ * Sign-in history and last login, recorded from Clerk session and lock events
+ */
+
+import { supabaseAdmin, SignInEventType, UserSignInEvent } from './supabase';
+
+export interface SignInEventInput {
+  clerkUserId: string;
+  eventType: SignInEventType;
+  sessionId?: string | null;
+  ipAddress?: string | null;
+  device?: string | null;
+  location?: string | null;
+  occurredAt: Date;
+  /** Webhook event the row comes from; a replay of it records nothing new */
+  webhookEventId: number;
+}
+
+/**
+ * Append to the sign-in history; a new session also moves the user's last
+ * login forward (never back, as Clerk does not guarantee delivery order).
+ * Nothing is recorded for archived users, whose history has been scrubbed.
+ */
+export async function recordSignInEvent(input: SignInEventInput): Promise<void> {
+  const { data: profile, error: profileError } = await supabaseAdmin
+    .from('user_profiles')
+    .select('id, deleted_at')
+    .eq('clerk_user_id', input.clerkUserId)
+    .maybeSingle();
+
+  if (profileError) {
+    throw new Error(`Failed to load user profile: ${profileError.message}`);
+  }
+
+  // Clerk sends session.ended/removed after user.deleted
+  if (profile?.deleted_at) {
+    return;
+  }
+
+  const occurredAt = input.occurredAt.toISOString();
+
+  const { error } = await supabaseAdmin
+    .from('user_sign_in_events')
+    .upsert({
+      user_profile_id: profile?.id ?? null,
+      clerk_user_id: input.clerkUserId,
+      event_type: input.eventType,
+      session_id: input.sessionId ?? null,
+      ip_address: input.ipAddress ?? null,
+      device: input.device ?? null,
+      location: input.location ?? null,
+      occurred_at: occurredAt,
+      webhook_event_id: input.webhookEventId,
+    }, { onConflict: 'webhook_event_id', ignoreDuplicates: true });
+
+  if (error) {
+    throw new Error(`Failed to record sign-in event: ${error.message}`);
+  }
+
+  if (input.eventType === 'session.created' && profile) {
+    const { error: loginError } = await supabaseAdmin
+      .from('user_profiles')
+      .update({ last_login_at: occurredAt })
+      .eq('id', profile.id)
+      .or(`last_login_at.is.null,last_login_at.lt."${occurredAt}"`);
+
+    if (loginError) {
+      throw new Error(`Failed to update last login: ${loginError.message}`);
+    }
+  }
+}
+
+/**
+ * A user's sign-in history, newest first
+ */
+export async function listSignInEvents(userProfileId: string, limit = 50): Promise<UserSignInEvent[]> {
+  const { data, error } = await supabaseAdmin
+    .from('user_sign_in_events')
+    .select('*')
+    .eq('user_profile_id', userProfileId)
+    .order('occurred_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Failed to load sign-in history: ${error.message}`);
+  }
+
+  return (data || []) as UserSignInEvent[];
+}
@@ -0,0 +1,286 @@
+/**
+ * Server-side low-stock alert engine
+ * Compares ledger balances with `stock_thresholds` after each stock change and
+ * notifies the users of the affected area when an item drops to a more urgent
+ * status. Open alerts are kept in `stock_alerts` so a drop notifies once.
+ */
+
+import { supabaseAdmin, StockAlertStatus, StockItemType } from './supabase';
+import { getStockBalancesByItemType, STOCK_ITEM_TABLES } from './stock-ledger';
+import { getStockThresholds } from './stock-thresholds';
+import { getStockStatus, isLowStockStatus, worstStockStatus } from './stock-status';
+import { recordActivity } from './activity';
+import { loadActiveAreaHierarchy } from './area-scope';
+import { getAncestorIds } from './area-hierarchy';
+
+const SELECT_PAGE_SIZE = 1000;
+const WRITE_CHUNK_SIZE = 500;
+
+const ALERT_TITLES: Record<StockAlertStatus, string> = {
+  out_of_stock: 'Out of stock',
+  low: 'Below safety stock',
+  reorder: 'Reorder point reached',
+};
+
+interface StockAlertRow {
+  item_type: StockItemType;
+  item_id: number;
+  area_id: number;
+  status: StockAlertStatus;
+  balance: number;
+}
+
+export interface StockAlertRunResult {
+  evaluated: number;
+  raised: number;
+  resolved: number;
+  notificationsCreated: number;
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+async function loadOpenAlerts(itemType: StockItemType): Promise<Map<string, StockAlertRow>> {
+  const alerts = new Map<string, StockAlertRow>();
+
+  for (let from = 0; ; from += SELECT_PAGE_SIZE) {
+    const { data, error } = await supabaseAdmin
+      .from('stock_alerts')
+      .select('item_type, item_id, area_id, status, balance')
+      .eq('item_type', itemType)
+      .order('item_id')
+      .order('area_id')
+      .range(from, from + SELECT_PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to read stock alerts: ${error.message}`);
+    }
+
+    for (const row of (data || []) as StockAlertRow[]) {
+      alerts.set(`${row.item_id}:${row.area_id}`, row);
+    }
+
+    if (!data || data.length < SELECT_PAGE_SIZE) {
+      return alerts;
+    }
+  }
+}
+
+/**
+ * Active user profile ids per area, through `user_profiles.area_id` and
+ * `user_area_mappings` on the area or any of its active ancestors.
+ * Inactive areas get no recipients.
+ */
+export async function getAreaRecipients(areaIds: number[]): Promise<Map<number, Set<string>>> {
+  const recipients = new Map<number, Set<string>>(areaIds.map(areaId => [areaId, new Set<string>()]));
+
+  // Users granted a region also look after the areas below it
+  const activeAreas = await loadActiveAreaHierarchy();
+  const activeAreaIds = new Set(activeAreas.map(area => area.id));
+  const coveredAreas = new Map<number, number[]>();
+  for (const areaId of areaIds) {
+    if (!activeAreaIds.has(areaId)) continue;
+    const grantingIds = [areaId, ...getAncestorIds(activeAreas, areaId).filter(id => activeAreaIds.has(id))];
+    for (const grantingId of grantingIds) {
+      if (!coveredAreas.has(grantingId)) coveredAreas.set(grantingId, []);
+      coveredAreas.get(grantingId)!.push(areaId);
+    }
+  }
+  const grantingAreaIds = Array.from(coveredAreas.keys());
+  if (grantingAreaIds.length === 0) {
+    return recipients;
+  }
+
+  const [profilesResult, mappingsResult] = await Promise.all([
+    supabaseAdmin
+      .from('user_profiles')
+      .select('id, area_id')
+      .eq('is_active', true)
+      .in('area_id', grantingAreaIds),
+    supabaseAdmin
+      .from('user_area_mappings')
+      .select('area_id, user_profiles!inner(id, is_active)')
+      .in('area_id', grantingAreaIds)
+      .eq('user_profiles.is_active', true),
+  ]);
+
+  if (profilesResult.error || mappingsResult.error) {
+    throw new Error(`Failed to resolve area users: ${(profilesResult.error || mappingsResult.error)!.message}`);
+  }
+
+  const addRecipient = (grantingId: number, userProfileId: string) => {
+    for (const areaId of coveredAreas.get(grantingId) || []) {
+      recipients.get(areaId)?.add(userProfileId);
+    }
+  };
+
+  for (const profile of profilesResult.data || []) {
+    addRecipient(profile.area_id, profile.id);
+  }
+
+  for (const mapping of mappingsResult.data || []) {
+    const profile = mapping.user_profiles as unknown as { id: string };
+    addRecipient(mapping.area_id, profile.id);
+  }
+
+  return recipients;
+}
+
+/**
+ * Evaluate thresholds of one item type, optionally limited to some items,
+ * raising notifications for new or worsened alerts and clearing recovered ones
+ */
+export async function evaluateLowStockAlerts(
+  itemType: StockItemType,
+  itemIds?: number[]
+): Promise<StockAlertRunResult> {
+  const inScope = (itemId: number) => !itemIds || itemIds.includes(itemId);
+
+  const [thresholds, balances, openAlerts] = await Promise.all([
+    getStockThresholds(itemType),
+    getStockBalancesByItemType(itemType),
+    loadOpenAlerts(itemType),
+  ]);
+
+  const current = new Map<string, StockAlertRow>();
+  let evaluated = 0;
+
+  for (const [key, threshold] of thresholds) {
+    if (!inScope(threshold.item_id)) continue;
+    evaluated += 1;
+
+    const balance = balances.get(key) ?? 0;
+    const status = getStockStatus(balance, threshold);
+    if (isLowStockStatus(status)) {
+      current.set(key, {
+        item_type: itemType,
+        item_id: threshold.item_id,
+        area_id: threshold.area_id,
+        status: status as StockAlertStatus,
+        balance,
+      });
+    }
+  }
+
+  // Notify when an item enters a low status or moves to a more urgent one
+  const raised = Array.from(current.entries())
+    .filter(([key, alert]) => {
+      const open = openAlerts.get(key);
+      return !open || (open.status !== alert.status && worstStockStatus([open.status, alert.status]) === alert.status);
+    })
+    .map(([, alert]) => alert);
+
+  const resolved = Array.from(openAlerts.entries())
+    .filter(([key, alert]) => inScope(alert.item_id) && !current.has(key))
+    .map(([, alert]) => alert);
+
+  for (const rows of chunk(Array.from(current.values()), WRITE_CHUNK_SIZE)) {
+    const { error } = await supabaseAdmin
+      .from('stock_alerts')
+      .upsert(rows, { onConflict: 'item_type,item_id,area_id', ignoreDuplicates: false });
+
+    if (error) {
+      throw new Error(`Failed to store stock alerts: ${error.message}`);
+    }
+  }
+
+  for (const alert of resolved) {
+    const { error } = await supabaseAdmin
+      .from('stock_alerts')
+      .delete()
+      .eq('item_type', itemType)
+      .eq('item_id', alert.item_id)
+      .eq('area_id', alert.area_id);
+
+    if (error) {
+      throw new Error(`Failed to clear stock alert: ${error.message}`);
+    }
+  }
+
+  const notificationsCreated = raised.length > 0 ? await notifyAlerts(itemType, raised, thresholds) : 0;
+
+  return { evaluated, raised: raised.length, resolved: resolved.length, notificationsCreated };
+}
+
+async function notifyAlerts(
+  itemType: StockItemType,
+  alerts: StockAlertRow[],
+  thresholds: Awaited<ReturnType<typeof getStockThresholds>>
+): Promise<number> {
+  const areaIds = Array.from(new Set(alerts.map(alert => alert.area_id)));
+  const itemIds = Array.from(new Set(alerts.map(alert => alert.item_id)));
+
+  const items = new Map<number, { name: string; unit: string }>();
+  for (const ids of chunk(itemIds, WRITE_CHUNK_SIZE)) {
+    const { data, error } = await supabaseAdmin
+      .from(STOCK_ITEM_TABLES[itemType])
+      .select('id, name, unit')
+      .in('id', ids);
+
+    if (error) {
+      throw new Error(`Failed to load alerted items: ${error.message}`);
+    }
+    for (const item of data || []) {
+      items.set(item.id, item);
+    }
+  }
+
+  const [{ data: areas, error: areasError }, recipients] = await Promise.all([
+    supabaseAdmin.from('master_areas').select('id, name').in('id', areaIds),
+    getAreaRecipients(areaIds),
+  ]);
+
+  if (areasError) {
+    throw new Error(`Failed to load alerted areas: ${areasError.message}`);
+  }
+
+  const areaNames = new Map((areas || []).map(area => [area.id, area.name]));
+
+  const notifications = alerts.flatMap(alert => {
+    const item = items.get(alert.item_id);
+    const threshold = thresholds.get(`${alert.item_id}:${alert.area_id}`);
+    const message = `${item?.name || `Item ${alert.item_id}`} in ${areaNames.get(alert.area_id) || `area ${alert.area_id}`}: `
+      + `${alert.balance} ${item?.unit || 'units'} on hand (reorder point ${threshold?.reorder_point ?? '-'})`;
+
+    return Array.from(recipients.get(alert.area_id) || []).map(userProfileId => ({
+      user_profile_id: userProfileId,
+      type: alert.status,
+      title: ALERT_TITLES[alert.status],
+      message,
+      item_type: itemType,
+      item_id: alert.item_id,
+      area_id: alert.area_id,
+      metadata: { balance: alert.balance, min_stock: threshold?.min_stock, reorder_point: threshold?.reorder_point },
+    }));
+  });
+
+  for (const rows of chunk(notifications, WRITE_CHUNK_SIZE)) {
+    const { error } = await supabaseAdmin.from('notifications').insert(rows);
+
+    if (error) {
+      throw new Error(`Failed to create notifications: ${error.message}`);
+    }
+  }
+
+  // One feed entry per area keeps a large first run readable
+  for (const areaId of areaIds) {
+    const areaAlerts = alerts.filter(alert => alert.area_id === areaId);
+    const first = items.get(areaAlerts[0].item_id);
+
+    await recordActivity({
+      type: 'alert',
+      action: areaAlerts.length === 1 ? ALERT_TITLES[areaAlerts[0].status] : 'Low stock detected',
+      item: areaAlerts.length === 1
+        ? `${first?.name || `Item ${areaAlerts[0].item_id}`} (${areaAlerts[0].balance} ${first?.unit || 'units'})`
+        : `${areaAlerts.length} items`,
+      areaId,
+    });
+  }
+
+  return notifications.length;
+}
@@ -0,0 +1,102 @@
+/**
+ * Server-side helpers for the append-only `stock_movements` ledger
+ * `current_stock` on raw_materials/finished_goods is maintained by a database
+ * trigger from these rows, so stock must only change through the ledger.
+ */
+
+import { supabaseAdmin, StockItemType, StockMovement, StockMovementType } from './supabase';
+
+export const STOCK_ITEM_TYPES: StockItemType[] = ['raw_material', 'finished_good'];
+
+/** Movement types users may post; `erp_sync` is reserved for the iDempiere sync job */
+export const USER_MOVEMENT_TYPES: StockMovementType[] = ['receipt', 'issue', 'transfer', 'adjustment'];
+
+export const STOCK_ITEM_TABLES: Record<StockItemType, 'raw_materials' | 'finished_goods'> = {
+  raw_material: 'raw_materials',
+  finished_good: 'finished_goods',
+};
+
+const INSERT_CHUNK_SIZE = 500;
+const SELECT_PAGE_SIZE = 1000;
+
+export type NewStockMovement = Omit<StockMovement, 'id' | 'created_at' | 'balance_after'>;
+
+export class StockMovementError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'StockMovementError';
+  }
+}
+
+export function isStockItemType(value: unknown): value is StockItemType {
+  return typeof value === 'string' && (STOCK_ITEM_TYPES as string[]).includes(value);
+}
+
+/**
+ * Ledger balances of every item of a type, keyed by `${item_id}:${area_id}`
+ */
+export async function getStockBalancesByItemType(itemType: StockItemType): Promise<Map<string, number>> {
+  const balances = new Map<string, number>();
+
+  for (let from = 0; ; from += SELECT_PAGE_SIZE) {
+    const { data, error } = await supabaseAdmin
+      .from('stock_balances')
+      .select('item_id, area_id, balance')
+      .eq('item_type', itemType)
+      .order('item_id')
+      .order('area_id')
+      .range(from, from + SELECT_PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to read stock balances: ${error.message}`);
+    }
+
+    for (const row of data || []) {
+      balances.set(`${row.item_id}:${row.area_id}`, row.balance);
+    }
+
+    if (!data || data.length < SELECT_PAGE_SIZE) {
+      return balances;
+    }
+  }
+}
+
+/**
+ * Append movements to the ledger. Rows are inserted in a single statement
+ * per chunk, so both legs of a transfer are written atomically.
+ */
+export async function recordStockMovements(movements: NewStockMovement[]): Promise<StockMovement[]> {
+  const inserted: StockMovement[] = [];
+
+  for (let i = 0; i < movements.length; i += INSERT_CHUNK_SIZE) {
+    const { data, error } = await supabaseAdmin
+      .from('stock_movements')
+      .insert(movements.slice(i, i + INSERT_CHUNK_SIZE))
+      .select();
+
+    if (error) {
+      throw new Error(`Failed to record stock movements: ${error.message}`);
+    }
+
+    inserted.push(...((data || []) as StockMovement[]));
+  }
+
+  return inserted;
+}
+
+/**
+ * Post user movements through `post_stock_movements`, which checks the balance
+ * of every outgoing item and area under a lock and inserts all movements in the
+ * same transaction. Throws a 409 StockMovementError when stock would go negative.
+ */
+export async function postStockMovements(movements: NewStockMovement[]): Promise<StockMovement[]> {
+  const { data, error } = await supabaseAdmin.rpc('post_stock_movements', { p_movements: movements });
+
+  if (error) {
+    // SQLSTATE raised by post_stock_movements for an overdraw
+    if (error.code === '55000') throw new StockMovementError(error.message, 409);
+    throw new Error(`Failed to record stock movements: ${error.message}`);
+  }
+
+  return (data || []) as StockMovement[];
+}
@@ -0,0 +1,140 @@
+/**
+ * Helpers for aggregating finished goods and raw material stock levels
+ */
+
+import { FinishedGoodStockLevel, FinishedGoodStockRecord } from './indexeddb';
+
+export interface StockTotals {
+  qty_on_hand: number;
+  qty_reserved: number;
+  qty_ordered: number;
+  qty_available: number;
+}
+
+export interface AreaStockSummary extends StockTotals {
+  area_id: number;
+  area_name: string;
+  product_count: number;
+}
+
+export interface StockJoinArea {
+  id: number;
+  name: string;
+  erp_id: number | null;
+  erp_warehouse_id?: number | null;
+}
+
+/**
+ * Join iDempiere storage records to master areas: to the area imported from
+ * the record's warehouse (M_Warehouse_ID = erp_warehouse_id) when there is one,
+ * otherwise through the warehouse organization (AD_Org_ID = erp_id). Records
+ * with no matching area are counted and skipped.
+ */
+export function joinStockRecordsToAreas(
+  records: FinishedGoodStockRecord[],
+  areas: StockJoinArea[]
+): { levels: FinishedGoodStockLevel[]; unmatchedRecords: number } {
+  const areasByErpId = new Map(areas.filter(area => area.erp_id != null).map(area => [area.erp_id, area]));
+  const areasByWarehouseId = new Map(
+    areas.filter(area => area.erp_warehouse_id != null).map(area => [area.erp_warehouse_id, area])
+  );
+  const levels: FinishedGoodStockLevel[] = [];
+  let unmatchedRecords = 0;
+
+  for (const record of records) {
+    const area = areasByWarehouseId.get(record.M_Warehouse_ID?.id) ?? areasByErpId.get(record.AD_Org_ID?.id);
+
+    if (!area) {
+      unmatchedRecords += 1;
+      continue;
+    }
+
+    const qtyOnHand = Number(record.QtyOnHand) || 0;
+    const qtyReserved = Number(record.QtyReserved) || 0;
+    const qtyOrdered = Number(record.QtyOrdered) || 0;
+
+    levels.push({
+      id: `${record.M_Product_ID.id}-${record.M_Warehouse_ID.id}`,
+      product_id: record.M_Product_ID.id,
+      warehouse_id: record.M_Warehouse_ID.id,
+      warehouse_name: record.M_Warehouse_ID.identifier,
+      area_id: area.id,
+      area_name: area.name,
+      area_erp_id: area.erp_id ?? record.AD_Org_ID.id,
+      qty_on_hand: qtyOnHand,
+      qty_reserved: qtyReserved,
+      qty_ordered: qtyOrdered,
+      qty_available: qtyOnHand - qtyReserved,
+    });
+  }
+
+  return { levels, unmatchedRecords };
+}
+
+/**
+ * Sum quantities across a set of stock levels
+ */
+export function sumStockLevels(levels: FinishedGoodStockLevel[]): StockTotals {
+  return levels.reduce<StockTotals>(
+    (totals, level) => ({
+      qty_on_hand: totals.qty_on_hand + level.qty_on_hand,
+      qty_reserved: totals.qty_reserved + level.qty_reserved,
+      qty_ordered: totals.qty_ordered + level.qty_ordered,
+      qty_available: totals.qty_available + level.qty_available,
+    }),
+    { qty_on_hand: 0, qty_reserved: 0, qty_ordered: 0, qty_available: 0 }
+  );
+}
+
+/**
+ * Group stock levels by area, summing warehouses that belong to the same area
+ */
+export function summarizeStockByArea(levels: FinishedGoodStockLevel[]): AreaStockSummary[] {
+  const areaMap = new Map<number, { summary: AreaStockSummary; products: Set<number> }>();
+
+  levels.forEach(level => {
+    if (!areaMap.has(level.area_id)) {
+      areaMap.set(level.area_id, {
+        summary: {
+          area_id: level.area_id,
+          area_name: level.area_name,
+          product_count: 0,
+          qty_on_hand: 0,
+          qty_reserved: 0,
+          qty_ordered: 0,
+          qty_available: 0,
+        },
+        products: new Set<number>(),
+      });
+    }
+
+    const entry = areaMap.get(level.area_id)!;
+    entry.summary.qty_on_hand += level.qty_on_hand;
+    entry.summary.qty_reserved += level.qty_reserved;
+    entry.summary.qty_ordered += level.qty_ordered;
+    entry.summary.qty_available += level.qty_available;
+    entry.products.add(level.product_id);
+  });
+
+  return Array.from(areaMap.values())
+    .map(({ summary, products }) => ({ ...summary, product_count: products.size }))
+    .sort((a, b) => a.area_name.localeCompare(b.area_name));
+}
+
+/**
+ * Index stock levels by product id for quick lookup in product lists
+ */
+export function groupStockByProduct(levels: FinishedGoodStockLevel[]): Map<number, FinishedGoodStockLevel[]> {
+  const productMap = new Map<number, FinishedGoodStockLevel[]>();
+
+  levels.forEach(level => {
+    const existing = productMap.get(level.product_id);
+    if (existing) {
+      existing.push(level);
+    } else {
+      productMap.set(level.product_id, [level]);
+    }
+  });
+
+  return productMap;
+}
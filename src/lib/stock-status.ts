@@ -0,0 +1,68 @@
+/**
+ * Stock status evaluation against per-item, per-area thresholds
+ * Safe to import from client components.
+ */
+
+export type StockStatus = 'out_of_stock' | 'low' | 'reorder' | 'ok' | 'overstock' | 'unconfigured';
+
+export interface StockThresholdLevels {
+  min_stock: number;
+  reorder_point: number;
+  max_stock?: number | null;
+}
+
+export const STOCK_STATUS_BADGES: Record<StockStatus, { label: string; color: string }> = {
+  out_of_stock: { label: 'Out of Stock', color: 'bg-red-100 text-red-800' },
+  low: { label: 'Low Stock', color: 'bg-orange-100 text-orange-800' },
+  reorder: { label: 'Reorder', color: 'bg-yellow-100 text-yellow-800' },
+  ok: { label: 'Good Stock', color: 'bg-green-100 text-green-800' },
+  overstock: { label: 'Overstock', color: 'bg-blue-100 text-blue-800' },
+  unconfigured: { label: 'No Threshold', color: 'bg-gray-100 text-gray-800' },
+};
+
+// Most urgent first; used to pick the status of an item stocked in several areas
+const STATUS_SEVERITY: StockStatus[] = ['out_of_stock', 'low', 'reorder', 'overstock', 'ok', 'unconfigured'];
+
+/**
+ * Status of a stock quantity; without a threshold only an empty stock is flagged
+ */
+export function getStockStatus(stock: number, threshold?: StockThresholdLevels | null): StockStatus {
+  if (stock <= 0) return 'out_of_stock';
+  if (!threshold) return 'unconfigured';
+  if (stock < threshold.min_stock) return 'low';
+  if (stock <= threshold.reorder_point) return 'reorder';
+  if (threshold.max_stock != null && stock > threshold.max_stock) return 'overstock';
+  return 'ok';
+}
+
+/**
+ * Whether a status counts towards the low stock metric
+ */
+export function isLowStockStatus(status: StockStatus): boolean {
+  return status === 'out_of_stock' || status === 'low' || status === 'reorder';
+}
+
+export function worstStockStatus(statuses: StockStatus[]): StockStatus {
+  return statuses.reduce<StockStatus>(
+    (worst, status) => STATUS_SEVERITY.indexOf(status) < STATUS_SEVERITY.indexOf(worst) ? status : worst,
+    'unconfigured'
+  );
+}
+
+/**
+ * Validate threshold levels submitted by a user; returns an error message or null
+ */
+export function validateThresholdLevels(levels: Partial<StockThresholdLevels>): string | null {
+  const { min_stock, reorder_point, max_stock } = levels;
+
+  if (!Number.isInteger(min_stock) || (min_stock as number) < 0) {
+    return 'min_stock must be a non-negative integer';
+  }
+  if (!Number.isInteger(reorder_point) || (reorder_point as number) < (min_stock as number)) {
+    return 'reorder_point must be an integer no lower than min_stock';
+  }
+  if (max_stock != null && (!Number.isInteger(max_stock) || max_stock <= (reorder_point as number))) {
+    return 'max_stock must be an integer greater than reorder_point';
+  }
+  return null;
+}
@@ -0,0 +1,130 @@
+/**
+ * Server-side helpers for per-item, per-area `stock_thresholds`
+ * Items are evaluated against their ledger balance in each area.
+ */
+
+import { supabaseAdmin, StockItemType, StockThreshold } from './supabase';
+import { getStockBalancesByItemType } from './stock-ledger';
+import { AreaScope, canAccessArea, scopeHasPermission } from './area-scope';
+import { getStockStatus, StockStatus, worstStockStatus } from './stock-status';
+
+const SELECT_PAGE_SIZE = 1000;
+
+export interface AreaStockStatus {
+  area_id: number;
+  balance: number;
+  status: StockStatus;
+  threshold: StockThreshold | null;
+}
+
+export interface ItemStockStatus {
+  status: StockStatus;
+  areas: AreaStockStatus[];
+}
+
+/**
+ * Thresholds of every item of a type, keyed by `${item_id}:${area_id}`
+ * Pass `areaIds` to restrict the result to those areas.
+ */
+export async function getStockThresholds(
+  itemType: StockItemType,
+  areaIds: number[] | null = null
+): Promise<Map<string, StockThreshold>> {
+  const thresholds = new Map<string, StockThreshold>();
+
+  for (let from = 0; ; from += SELECT_PAGE_SIZE) {
+    let query = supabaseAdmin
+      .from('stock_thresholds')
+      .select('*')
+      .eq('item_type', itemType);
+
+    if (areaIds) query = query.in('area_id', areaIds);
+
+    const { data, error } = await query
+      .order('id')
+      .range(from, from + SELECT_PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to read stock thresholds: ${error.message}`);
+    }
+
+    for (const row of (data || []) as StockThreshold[]) {
+      thresholds.set(`${row.item_id}:${row.area_id}`, row);
+    }
+
+    if (!data || data.length < SELECT_PAGE_SIZE) {
+      return thresholds;
+    }
+  }
+}
+
+/**
+ * Evaluate the stock status of items in the areas they are stocked or
+ * configured in, limited to `areaIds` unless it is null. An item's own area in
+ * `areaIds` is always evaluated; other areas without a balance or threshold
+ * for the item are not, so they cannot mark it out of stock. The item status
+ * is the most urgent of its area statuses; items with no area data fall back
+ * to their `current_stock`.
+ */
+export async function evaluateStockStatuses(
+  itemType: StockItemType,
+  items: { id: number; current_stock: number; area_id?: number | null }[],
+  areaIds: number[] | null
+): Promise<Map<number, ItemStockStatus>> {
+  const [balances, thresholds] = await Promise.all([
+    getStockBalancesByItemType(itemType),
+    getStockThresholds(itemType, areaIds),
+  ]);
+
+  const scopeAreaIds = areaIds ? new Set(areaIds) : null;
+
+  // Areas per item, from the ledger and from configured thresholds
+  const itemAreas = new Map<number, Set<number>>();
+  const addItemArea = (itemId: number, areaId: number) => {
+    if (scopeAreaIds && !scopeAreaIds.has(areaId)) return;
+    if (!itemAreas.has(itemId)) itemAreas.set(itemId, new Set());
+    itemAreas.get(itemId)!.add(areaId);
+  };
+
+  for (const key of [...balances.keys(), ...thresholds.keys()]) {
+    const [itemId, areaId] = key.split(':').map(Number);
+    addItemArea(itemId, areaId);
+  }
+  if (scopeAreaIds) {
+    for (const item of items) {
+      if (item.area_id != null) addItemArea(item.id, item.area_id);
+    }
+  }
+
+  const statuses = new Map<number, ItemStockStatus>();
+
+  for (const item of items) {
+    const areas = Array.from(itemAreas.get(item.id) || []).sort((a, b) => a - b);
+
+    if (areas.length === 0) {
+      statuses.set(item.id, { status: getStockStatus(item.current_stock || 0), areas: [] });
+      continue;
+    }
+
+    const areaStatuses = areas.map(areaId => {
+      const balance = balances.get(`${item.id}:${areaId}`) ?? 0;
+      const threshold = thresholds.get(`${item.id}:${areaId}`) ?? null;
+      return { area_id: areaId, balance, status: getStockStatus(balance, threshold), threshold };
+    });
+
+    statuses.set(item.id, {
+      status: worstStockStatus(areaStatuses.map(area => area.status)),
+      areas: areaStatuses,
+    });
+  }
+
+  return statuses;
+}
+
+/**
+ * Whether a user may edit thresholds in an area: `thresholds.manage` within
+ * the areas of their scope
+ */
+export function canEditStockThresholds(scope: AreaScope, areaId: number): boolean {
+  return scopeHasPermission(scope, 'thresholds.manage') && canAccessArea(scope, areaId);
+}
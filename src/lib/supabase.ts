@@ -23,8 +23,18 @@ export interface UserProfile {
   clerk_user_id: string;
   email: string;
   full_name?: string;
-  role: 'superadmin' | 'area sales manager' | 'area sales supervisor';
+  /** A `roles.name` */
+  role: string;
   area_id?: number;
+  email_digest_enabled?: boolean;
+  email_digest_last_sent_at?: string | null;
+  selected_area_id?: number | null;
+  last_login_at?: string | null;
+  clerk_locked?: boolean | null;
+  clerk_updated_at?: string | null;
+  deleted_at?: string | null;
+  archived_is_active?: boolean | null;
+  deactivated_by_snapshot_id?: number | null;
   created_at: string;
   updated_at: string;
 }
@@ -32,7 +42,12 @@ export interface UserProfile {
 export interface MasterArea {
   id: number;
   name: string;
-  erp_id: number;
+  /** iDempiere AD_Org_ID; null for areas linked to a warehouse only */
+  erp_id: number | null;
+  /** iDempiere M_Warehouse_ID for areas imported from warehouses */
+  erp_warehouse_id?: number | null;
+  parent_id?: number | null;
+  area_type?: 'region' | 'area' | 'warehouse';
   created_at: string;
   updated_at: string;
 }
@@ -54,7 +69,244 @@ export interface FinishedGoods {
   erp_id: number;
   current_stock: number;
   unit: string;
+  area_id: number | null;
+  product_code?: string;
+  category_erp_id?: number;
+  category_name?: string;
+  parent1?: string;
+  parent2?: string;
+  small_uom?: string;
+  big_uom?: string;
+  weight?: number;
+  is_active?: boolean;
+  erp_updated_at?: string;
+  erp_payload?: Record<string, unknown>;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ErpSyncRun {
+  id: number;
+  entity: string;
+  status: 'running' | 'success' | 'failed';
+  triggered_by?: string;
+  records_fetched: number;
+  records_upserted: number;
+  records_deactivated: number;
+  error_message?: string;
+  started_at: string;
+  finished_at?: string;
+}
+export type StockItemType = 'raw_material' | 'finished_good';
+
+export type StockMovementType = 'receipt' | 'issue' | 'transfer' | 'adjustment' | 'erp_sync';
+
+export interface StockMovement {
+  id: number;
+  item_type: StockItemType;
+  item_id: number;
   area_id: number;
+  quantity_delta: number;
+  movement_type: StockMovementType;
+  reference_document?: string;
+  transfer_id?: string;
+  notes?: string;
+  created_by?: string;
+  created_at: string;
+  /** Running balance of the item in the area, from `stock_movements_with_balance` */
+  balance_after?: number;
+}
+
+export interface StockThreshold {
+  id: number;
+  item_type: StockItemType;
+  item_id: number;
+  area_id: number;
+  /** Safety stock; below this the item is low */
+  min_stock: number;
+  /** At or below this the item should be reordered */
+  reorder_point: number;
+  max_stock?: number | null;
+  updated_by?: string;
   created_at: string;
   updated_at: string;
-}
\ No newline at end of file
+}
+
+export type StockAlertStatus = 'out_of_stock' | 'low' | 'reorder';
+
+export interface Notification {
+  id: number;
+  user_profile_id: string;
+  type: StockAlertStatus;
+  title: string;
+  message: string;
+  item_type?: StockItemType | null;
+  item_id?: number | null;
+  area_id?: number | null;
+  metadata?: Record<string, unknown>;
+  read_at?: string | null;
+  created_at: string;
+}
+
+export type ActivityType = 'update' | 'alert' | 'reorder' | 'sync';
+
+export interface ActivityEvent {
+  id: number;
+  type: ActivityType;
+  action: string;
+  item: string;
+  area_id?: number | null;
+  actor_clerk_user_id?: string;
+  actor_name: string;
+  metadata?: Record<string, unknown>;
+  created_at: string;
+}
+
+export interface DeactivationSnapshotMapping {
+  id: number;
+  user_profile_id: string;
+  area_id: number;
+  created_at: string;
+  email: string;
+  full_name?: string | null;
+}
+
+export interface DeactivationSnapshotUser {
+  id: string;
+  clerk_user_id: string;
+  email: string;
+  full_name?: string | null;
+}
+
+export interface AreaDeactivationSnapshot {
+  id: number;
+  area_id: number;
+  removed_mappings: DeactivationSnapshotMapping[];
+  deactivated_users: DeactivationSnapshotUser[];
+  created_by?: string | null;
+  created_at: string;
+  restored_by?: string | null;
+  restored_at?: string | null;
+}
+
+export type ClerkLockAction = 'lock' | 'unlock';
+
+export type ClerkLockOutboxStatus = 'pending' | 'processing' | 'done' | 'failed' | 'superseded';
+
+export interface ClerkLockOutboxEntry {
+  id: number;
+  user_profile_id?: string | null;
+  clerk_user_id: string;
+  action: ClerkLockAction;
+  status: ClerkLockOutboxStatus;
+  attempts: number;
+  last_error?: string | null;
+  next_attempt_at: string;
+  claimed_at?: string | null;
+  snapshot_id?: number | null;
+  created_at: string;
+  processed_at?: string | null;
+}
+
+export interface Role {
+  name: string;
+  label: string;
+}
+
+export interface RoleChange {
+  id: number;
+  user_profile_id?: string | null;
+  user_email?: string | null;
+  from_role: string;
+  to_role: string;
+  reason: string;
+  changed_by?: string | null;
+  via_bootstrap: boolean;
+  created_at: string;
+}
+
+export type UserInvitationStatus = 'pending' | 'accepted' | 'revoked';
+
+export interface UserInvitation {
+  id: number;
+  username: string;
+  email?: string | null;
+  full_name?: string | null;
+  area_id?: number | null;
+  status: UserInvitationStatus;
+  invited_by?: string | null;
+  expires_at: string;
+  accepted_at?: string | null;
+  clerk_user_id?: string | null;
+  revoked_by?: string | null;
+  revoked_at?: string | null;
+  created_at: string;
+}
+
+export type UserDriftKind = 'clerk_only' | 'profile_only' | 'email_mismatch' | 'name_mismatch' | 'lock_mismatch';
+
+export interface UserDriftItem {
+  /** `<kind>:<clerk user id or profile id>`, unique within a run */
+  key: string;
+  kind: UserDriftKind;
+  clerkUserId: string | null;
+  userProfileId: string | null;
+  /** Username, email or name, for display */
+  label: string;
+  clerkValue: string | null;
+  profileValue: string | null;
+  resolution?: 'fixed' | 'stale' | null;
+  resolvedAt?: string | null;
+  resolvedBy?: string | null;
+}
+
+export type UserReconciliationStatus = 'running' | 'completed' | 'failed';
+
+export interface UserReconciliationRun {
+  id: number;
+  status: UserReconciliationStatus;
+  clerk_user_count?: number | null;
+  profile_count?: number | null;
+  items: UserDriftItem[];
+  error?: string | null;
+  triggered_by?: string | null;
+  started_at: string;
+  finished_at?: string | null;
+}
+
+export type WebhookEventStatus = 'pending' | 'processing' | 'processed' | 'failed';
+
+export interface WebhookEventRecord {
+  id: number;
+  svix_id: string;
+  event_type: string;
+  payload: Record<string, unknown>;
+  status: WebhookEventStatus;
+  attempts: number;
+  last_error?: string | null;
+  received_at: string;
+  last_attempt_at?: string | null;
+  processed_at?: string | null;
+}
+
+export type SignInEventType =
+  | 'session.created'
+  | 'session.ended'
+  | 'session.removed'
+  | 'session.revoked'
+  | 'user.locked'
+  | 'user.unlocked';
+
+export interface UserSignInEvent {
+  id: number;
+  user_profile_id?: string | null;
+  clerk_user_id: string;
+  event_type: SignInEventType;
+  session_id?: string | null;
+  ip_address?: string | null;
+  device?: string | null;
+  location?: string | null;
+  occurred_at: string;
+  webhook_event_id?: number | null;
+  created_at: string;
+}
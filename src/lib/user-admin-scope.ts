@@ -0,0 +1,106 @@
+/**
+ * Which users an admin may manage
+ * `users.manage` covers every user, area and role. `users.manage_area` covers
+ * area sales supervisors whose areas (primary and mapped) all lie within the
+ * actor's own area scope, and only lets the actor assign those areas.
+ */
+
+import { supabaseAdmin } from './supabase';
+import { AreaScope, canAccessArea, resolveAreaScope, scopeHasPermission } from './area-scope';
+import { getRoles } from './authorization';
+
+export interface UserAdminScope {
+  actor: AreaScope;
+  /** users.manage; false means limited to users.manage_area */
+  global: boolean;
+}
+
+/** Roles an area-scoped admin may see and manage */
+export const AREA_MANAGED_ROLES = ['area sales supervisor'];
+
+/**
+ * Resolve the user admin scope of a Clerk user; returns null when they may not
+ * manage users at all
+ */
+export async function resolveUserAdminScope(clerkUserId: string): Promise<UserAdminScope | null> {
+  const actor = await resolveAreaScope(clerkUserId);
+  if (!actor) return null;
+
+  if (scopeHasPermission(actor, 'users.manage')) {
+    return { actor, global: true };
+  }
+  if (scopeHasPermission(actor, 'users.manage_area')) {
+    return { actor, global: false };
+  }
+  return null;
+}
+
+export async function manageableRoles(scope: UserAdminScope): Promise<string[]> {
+  return scope.global ? (await getRoles()).map(role => role.name) : AREA_MANAGED_ROLES;
+}
+
+export function canAssignArea(scope: UserAdminScope, areaId: number): boolean {
+  return scope.global || canAccessArea(scope.actor, areaId);
+}
+
+/**
+ * Primary and mapped area ids of each user
+ */
+export async function loadUserAreaIds(
+  users: { id: string; area_id?: number | null }[]
+): Promise<Map<string, number[]>> {
+  const byUser = new Map<string, number[]>(
+    users.map(user => [user.id, user.area_id ? [user.area_id] : []])
+  );
+  if (users.length === 0) return byUser;
+
+  const { data, error } = await supabaseAdmin
+    .from('user_area_mappings')
+    .select('user_profile_id, area_id')
+    .in('user_profile_id', users.map(user => user.id));
+
+  if (error) {
+    throw new Error(`Failed to load user area mappings: ${error.message}`);
+  }
+
+  for (const mapping of data || []) {
+    const areaIds = byUser.get(mapping.user_profile_id);
+    if (areaIds && !areaIds.includes(mapping.area_id)) {
+      areaIds.push(mapping.area_id);
+    }
+  }
+
+  return byUser;
+}
+
+/**
+ * Whether a user with these areas is in the scope; area-scoped admins need the
+ * user to have at least one area and every area within their own
+ */
+export function isUserInScope(scope: UserAdminScope, user: { role: string; areaIds: number[] }): boolean {
+  if (scope.global) return true;
+  if (!AREA_MANAGED_ROLES.includes(user.role)) return false;
+  return user.areaIds.length > 0 && user.areaIds.every(areaId => canAccessArea(scope.actor, areaId));
+}
+
+/**
+ * Whether the admin may manage a user profile; false when it does not exist
+ * or is archived
+ */
+export async function canManageUser(scope: UserAdminScope, userProfileId: string): Promise<boolean> {
+  const { data: user, error } = await supabaseAdmin
+    .from('user_profiles')
+    .select('id, role, area_id')
+    .eq('id', userProfileId)
+    .is('deleted_at', null)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load user profile: ${error.message}`);
+  }
+  if (!user) return false;
+  if (scope.global) return true;
+
+  const areaIds = (await loadUserAreaIds([user])).get(user.id) || [];
+  return isUserInScope(scope, { role: user.role, areaIds });
+}
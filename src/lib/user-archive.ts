@@ -0,0 +1,156 @@
+/**
+ * Archival of users deleted in Clerk
+ * Profiles are never hard-deleted: `archive_user_profile` marks them with
+ * `deleted_at`, clears their personal data and keeps their id, role and
+ * areas, so area history and authored rows stay attached. An admin can
+ * restore an archived profile once its owner has a Clerk account again; it
+ * comes back as active or inactive as it was when archived.
+ */
+
+import { supabaseAdmin, UserProfile } from './supabase';
+
+export class UserArchiveError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'UserArchiveError';
+  }
+}
+
+export interface ArchivedUser {
+  id: string;
+  clerk_user_id: string;
+  role: string;
+  area_id?: number | null;
+  deleted_at: string;
+  created_at: string;
+}
+
+interface ClerkUser {
+  id: string;
+  username: string | null;
+  first_name: string | null;
+  last_name: string | null;
+  email_addresses: { id: string; email_address: string }[];
+  primary_email_address_id: string | null;
+}
+
+async function clerkRequest(path: string): Promise<Response> {
+  return fetch(`https://api.clerk.dev/v1${path}`, {
+    headers: {
+      'Authorization': `Bearer ${process.env.CLERK_SECRET_KEY}`,
+      'Content-Type': 'application/json',
+    },
+  });
+}
+
+async function findClerkUser(lookup: { clerkUserId: string } | { username: string }): Promise<ClerkUser | null> {
+  if ('clerkUserId' in lookup) {
+    const response = await clerkRequest(`/users/${encodeURIComponent(lookup.clerkUserId)}`);
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new Error(`Failed to load Clerk user: ${response.status}`);
+    }
+    return response.json();
+  }
+
+  const params = new URLSearchParams({ username: lookup.username, limit: '1' });
+  const response = await clerkRequest(`/users?${params}`);
+  if (!response.ok) {
+    throw new Error(`Failed to look up Clerk user: ${response.status}`);
+  }
+  const [user] = (await response.json()) as ClerkUser[];
+  return user ?? null;
+}
+
+/**
+ * Archive the profile of a deleted Clerk user; returns its id, or null when
+ * there is nothing to archive
+ */
+export async function archiveUserProfile(clerkUserId: string): Promise<string | null> {
+  const { data, error } = await supabaseAdmin.rpc('archive_user_profile', { p_clerk_user_id: clerkUserId });
+
+  if (error) {
+    throw new Error(`Failed to archive user profile: ${error.message}`);
+  }
+
+  return (data as string | null) ?? null;
+}
+
+/**
+ * Restore an archived profile for a Clerk account: the account with `username`
+ * when given, otherwise the profile's own Clerk user if it exists again.
+ * Email and name are taken from Clerk, since the archive no longer has them.
+ * A profile with any role but the default one needs an actor with
+ * `roles.assign`, and its restore is recorded as a role change.
+ */
+export async function restoreUserProfile(
+  userProfileId: string,
+  actor: { userProfileId: string; canAssignRoles: boolean },
+  username?: string
+): Promise<UserProfile> {
+  const { data: profile, error: profileError } = await supabaseAdmin
+    .from('user_profiles')
+    .select('clerk_user_id, deleted_at')
+    .eq('id', userProfileId)
+    .maybeSingle();
+
+  if (profileError) {
+    throw new Error(`Failed to load user profile: ${profileError.message}`);
+  }
+  if (!profile) {
+    throw new UserArchiveError('User not found', 404);
+  }
+  if (!profile.deleted_at) {
+    throw new UserArchiveError('User is not archived', 409);
+  }
+
+  const clerkUser = await findClerkUser(username ? { username } : { clerkUserId: profile.clerk_user_id });
+  if (!clerkUser) {
+    throw new UserArchiveError(
+      username
+        ? `No Clerk user with username ${username}`
+        : 'The Clerk account no longer exists; give the username of the new account',
+      username ? 404 : 409
+    );
+  }
+
+  const primaryEmail = clerkUser.email_addresses?.find(address => address.id === clerkUser.primary_email_address_id);
+  const fullName = `${clerkUser.first_name || ''} ${clerkUser.last_name || ''}`.trim();
+
+  const { data, error } = await supabaseAdmin.rpc('restore_user_profile', {
+    p_user_profile_id: userProfileId,
+    p_clerk_user_id: clerkUser.id,
+    p_email: (primaryEmail || clerkUser.email_addresses?.[0])?.email_address || null,
+    p_full_name: fullName || null,
+    p_actor_id: actor.userProfileId,
+    p_can_assign_roles: actor.canAssignRoles,
+  });
+
+  if (error) {
+    // SQLSTATEs raised by restore_user_profile
+    if (error.code === 'P0002') throw new UserArchiveError(error.message, 404);
+    if (error.code === '55000') throw new UserArchiveError(error.message, 409);
+    if (error.code === '42501') throw new UserArchiveError(error.message, 403);
+    throw new Error(`Failed to restore user profile: ${error.message}`);
+  }
+
+  return data as UserProfile;
+}
+
+/**
+ * Archived users, most recently deleted first
+ */
+export async function listArchivedUsers(): Promise<ArchivedUser[]> {
+  const { data, error } = await supabaseAdmin
+    .from('user_profiles')
+    .select('id, clerk_user_id, role, area_id, deleted_at, created_at')
+    .not('deleted_at', 'is', null)
+    .order('deleted_at', { ascending: false })
+    .limit(100);
+
+  if (error) {
+    throw new Error(`Failed to load archived users: ${error.message}`);
+  }
+
+  return (data || []) as ArchivedUser[];
+}
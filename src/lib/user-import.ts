@@ -0,0 +1,448 @@
+/**
+ * CSV import and export of users and their areas
+ * Areas are referenced by `erp_id`, or `W<erp_warehouse_id>` for warehouse
+ * areas without one, so an export can be edited and imported again. Imported
+ * accounts are created without a password; each user gets a single-use
+ * invitation to choose one.
+ */
+
+import { supabaseAdmin } from './supabase';
+import { parseCsv, stripFormulaPrefix, toCsv } from './csv';
+import { scopeHasPermission } from './area-scope';
+import { getRoles } from './authorization';
+import {
+  AREA_MANAGED_ROLES,
+  canAssignArea,
+  isUserInScope,
+  loadUserAreaIds,
+  manageableRoles,
+  UserAdminScope,
+} from './user-admin-scope';
+import { changeUserRole } from './role-changes';
+import { createInvitation, getInvitationUrl, sendInvitationEmail } from './user-invitations';
+
+export const USER_CSV_COLUMNS = [
+  'username',
+  'email',
+  'full_name',
+  'role',
+  'primary_area_erp_id',
+  'mapped_area_erp_ids',
+] as const;
+
+// Separates the area references in `mapped_area_erp_ids`
+const MAPPED_AREA_SEPARATOR = ';';
+
+export const MAX_IMPORT_ROWS = 500;
+
+const DEFAULT_ROLE = 'area sales supervisor';
+
+// Clerk accepts up to 100 filter values per request
+const CLERK_LOOKUP_BATCH = 100;
+
+export class UserImportError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'UserImportError';
+  }
+}
+
+export interface UserImportRow {
+  /** Line in the CSV file, counting the header as line 1 */
+  line: number;
+  username: string;
+  email: string | null;
+  fullName: string | null;
+  role: string;
+  primaryAreaId: number | null;
+  mappedAreaIds: number[];
+  errors: string[];
+}
+
+export interface UserImportOutcome {
+  line: number;
+  username: string;
+  status: 'created' | 'failed';
+  userProfileId: string | null;
+  inviteUrl: string | null;
+  emailSent: boolean;
+  error: string | null;
+}
+
+interface AreaRef {
+  id: number;
+  name: string;
+  erp_id: number | null;
+  erp_warehouse_id: number | null;
+  is_active: boolean;
+}
+
+function areaReference(area: AreaRef): string {
+  return area.erp_id !== null ? String(area.erp_id) : `W${area.erp_warehouse_id}`;
+}
+
+async function loadAreaRefs(): Promise<AreaRef[]> {
+  const { data, error } = await supabaseAdmin
+    .from('master_areas')
+    .select('id, name, erp_id, erp_warehouse_id, is_active');
+
+  if (error) {
+    throw new Error(`Failed to load areas: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+async function clerkRequest(path: string, init?: RequestInit): Promise<Response> {
+  return fetch(`https://api.clerk.dev/v1${path}`, {
+    ...init,
+    headers: {
+      'Authorization': `Bearer ${process.env.CLERK_SECRET_KEY}`,
+      'Content-Type': 'application/json',
+    },
+  });
+}
+
+/**
+ * Clerk users matching any of the filter values, fetched in batches
+ */
+async function findClerkUsers(
+  filter: 'username' | 'user_id',
+  values: string[]
+): Promise<{ id: string; username: string | null }[]> {
+  const users: { id: string; username: string | null }[] = [];
+
+  for (let i = 0; i < values.length; i += CLERK_LOOKUP_BATCH) {
+    const params = new URLSearchParams({ limit: String(CLERK_LOOKUP_BATCH) });
+    for (const value of values.slice(i, i + CLERK_LOOKUP_BATCH)) {
+      params.append(filter, value);
+    }
+
+    const response = await clerkRequest(`/users?${params}`);
+    if (!response.ok) {
+      throw new Error(`Failed to look up Clerk users: ${response.status}`);
+    }
+    users.push(...await response.json());
+  }
+
+  return users;
+}
+
+/**
+ * Parse and validate a user CSV; every row is returned with its errors so the
+ * whole file can be previewed
+ */
+export async function previewUserImport(csv: string, scope: UserAdminScope): Promise<UserImportRow[]> {
+  const [header, ...records] = parseCsv(csv);
+  const columns = (header || []).map(column => column.trim().toLowerCase());
+
+  const missing = USER_CSV_COLUMNS.filter(column => !columns.includes(column));
+  if (missing.length > 0) {
+    throw new UserImportError(`Missing CSV columns: ${missing.join(', ')}`, 400);
+  }
+  if (records.length === 0) {
+    throw new UserImportError('The CSV file has no rows', 400);
+  }
+  if (records.length > MAX_IMPORT_ROWS) {
+    throw new UserImportError(`At most ${MAX_IMPORT_ROWS} users can be imported at once`, 400);
+  }
+
+  const areas = await loadAreaRefs();
+  const areasByRef = new Map(areas.map(area => [areaReference(area).toUpperCase(), area]));
+  const canAssignRoles = scopeHasPermission(scope.actor, 'roles.assign');
+  const [roles, allowedRoles] = await Promise.all([getRoles(), manageableRoles(scope)]);
+
+  const resolveArea = (ref: string, errors: string[]): number | null => {
+    const area = areasByRef.get(ref.toUpperCase());
+    if (!area) {
+      errors.push(`Unknown area ${ref}`);
+    } else if (!area.is_active) {
+      errors.push(`Area ${ref} (${area.name}) is inactive`);
+    } else if (!canAssignArea(scope, area.id)) {
+      errors.push(`Area ${ref} (${area.name}) is outside your scope`);
+    } else {
+      return area.id;
+    }
+    return null;
+  };
+
+  const rows: UserImportRow[] = records.map((record, index) => {
+    const value = (column: typeof USER_CSV_COLUMNS[number]) =>
+      stripFormulaPrefix(record[columns.indexOf(column)] ?? '').trim();
+    const errors: string[] = [];
+
+    const username = value('username');
+    if (!username) {
+      errors.push('Username is required');
+    }
+
+    const email = value('email') || null;
+    if (email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+      errors.push('Invalid email address');
+    }
+
+    const role = value('role') || DEFAULT_ROLE;
+    if (!roles.some(known => known.name === role)) {
+      errors.push(`Unknown role ${role}`);
+    } else if (!allowedRoles.includes(role) || (role !== DEFAULT_ROLE && !canAssignRoles)) {
+      errors.push(`You cannot assign the ${role} role`);
+    }
+
+    const primaryRef = value('primary_area_erp_id');
+    const primaryAreaId = primaryRef ? resolveArea(primaryRef, errors) : null;
+
+    const mappedAreaIds: number[] = [];
+    for (const ref of value('mapped_area_erp_ids').split(MAPPED_AREA_SEPARATOR).map(part => part.trim())) {
+      if (!ref) continue;
+      const areaId = resolveArea(ref, errors);
+      if (areaId !== null && areaId !== primaryAreaId && !mappedAreaIds.includes(areaId)) {
+        mappedAreaIds.push(areaId);
+      }
+    }
+
+    if (!scope.global && !primaryRef && mappedAreaIds.length === 0) {
+      errors.push('At least one area is required');
+    }
+
+    return {
+      line: index + 2,
+      username,
+      email,
+      fullName: value('full_name') || null,
+      role,
+      primaryAreaId,
+      mappedAreaIds,
+      errors,
+    };
+  });
+
+  // Duplicates within the file
+  const seenUsernames = new Map<string, number>();
+  const seenEmails = new Map<string, number>();
+  for (const row of rows) {
+    const usernameKey = row.username.toLowerCase();
+    if (usernameKey && seenUsernames.has(usernameKey)) {
+      row.errors.push(`Duplicate username (also on line ${seenUsernames.get(usernameKey)})`);
+    } else if (usernameKey) {
+      seenUsernames.set(usernameKey, row.line);
+    }
+
+    const emailKey = row.email?.toLowerCase();
+    if (emailKey && seenEmails.has(emailKey)) {
+      row.errors.push(`Duplicate email (also on line ${seenEmails.get(emailKey)})`);
+    } else if (emailKey) {
+      seenEmails.set(emailKey, row.line);
+    }
+  }
+
+  // Usernames already taken in Clerk or by a pending invitation
+  const usernames = [...new Set(rows.map(row => row.username).filter(Boolean))];
+  const existing = new Set(
+    (await findClerkUsers('username', usernames)).map(user => user.username?.toLowerCase())
+  );
+
+  // Usernames are unique case-insensitively, which `.in()` cannot express, so
+  // every open invitation is compared in lower case
+  const { data: invitations, error: invitationsError } = await supabaseAdmin
+    .from('user_invitations')
+    .select('username')
+    .eq('status', 'pending')
+    .gt('expires_at', new Date().toISOString());
+
+  if (invitationsError) {
+    throw new Error(`Failed to load invitations: ${invitationsError.message}`);
+  }
+  const invited = new Set((invitations || []).map(invitation => invitation.username.toLowerCase()));
+
+  for (const row of rows) {
+    const key = row.username.toLowerCase();
+    if (existing.has(key)) {
+      row.errors.push('Username already exists');
+    } else if (invited.has(key)) {
+      row.errors.push('Username already has a pending invitation');
+    }
+  }
+
+  return rows;
+}
+
+async function deleteClerkUser(clerkUserId: string): Promise<void> {
+  try {
+    await clerkRequest(`/users/${clerkUserId}`, { method: 'DELETE' });
+  } catch (cleanupError) {
+    console.error('Failed to cleanup Clerk user after import error:', cleanupError);
+  }
+}
+
+async function importRow(
+  row: UserImportRow,
+  scope: UserAdminScope,
+  origin: string
+): Promise<UserImportOutcome> {
+  const outcome: UserImportOutcome = {
+    line: row.line,
+    username: row.username,
+    status: 'failed',
+    userProfileId: null,
+    inviteUrl: null,
+    emailSent: false,
+    error: null,
+  };
+  const fullName = row.fullName || '';
+
+  const clerkResponse = await clerkRequest('/users', {
+    method: 'POST',
+    body: JSON.stringify({
+      username: row.username,
+      first_name: fullName.split(' ')[0] || '',
+      last_name: fullName.split(' ').slice(1).join(' ') || '',
+      skip_password_requirement: true,
+      ...(row.email ? { email_address: [row.email] } : {}),
+    }),
+  });
+
+  if (!clerkResponse.ok) {
+    const clerkError = await clerkResponse.json().catch(() => null);
+    outcome.error = `Failed to create user in Clerk: ${clerkError?.errors?.[0]?.message || 'Unknown error'}`;
+    return outcome;
+  }
+
+  const clerkUser = await clerkResponse.json();
+  let userProfileId: string | null = null;
+
+  try {
+    // The user.created webhook may have created the profile already
+    const { data: profile, error: profileError } = await supabaseAdmin
+      .from('user_profiles')
+      .upsert({
+        clerk_user_id: clerkUser.id,
+        email: row.email,
+        full_name: row.fullName,
+        role: DEFAULT_ROLE,
+        area_id: row.primaryAreaId,
+        is_active: true,
+      }, { onConflict: 'clerk_user_id' })
+      .select('id')
+      .single();
+
+    if (profileError) {
+      throw new Error(`Failed to create user profile: ${profileError.message}`);
+    }
+    userProfileId = profile.id as string;
+
+    if (row.mappedAreaIds.length > 0) {
+      const { error: mappingsError } = await supabaseAdmin
+        .from('user_area_mappings')
+        .insert(row.mappedAreaIds.map(areaId => ({ user_profile_id: userProfileId, area_id: areaId })));
+
+      if (mappingsError) {
+        throw new Error(`Failed to create area mappings: ${mappingsError.message}`);
+      }
+    }
+
+    // Other roles go through the audited role change
+    if (row.role !== DEFAULT_ROLE) {
+      await changeUserRole({
+        userProfileId,
+        newRole: row.role,
+        reason: 'Bulk user import',
+        actorProfileId: scope.actor.userProfileId,
+      });
+    }
+
+    const { invitation, token } = await createInvitation({
+      username: row.username,
+      email: row.email,
+      fullName: row.fullName,
+      areaId: row.primaryAreaId,
+      invitedBy: scope.actor.userProfileId,
+      clerkUserId: clerkUser.id,
+    });
+    outcome.inviteUrl = getInvitationUrl(origin, token);
+
+    try {
+      outcome.emailSent = await sendInvitationEmail(invitation, outcome.inviteUrl);
+    } catch (mailError) {
+      console.error('Error sending invitation email:', mailError);
+    }
+  } catch (error) {
+    // Mappings cascade with the profile
+    if (userProfileId) {
+      await supabaseAdmin.from('user_profiles').delete().eq('id', userProfileId);
+    }
+    await deleteClerkUser(clerkUser.id);
+    outcome.inviteUrl = null;
+    outcome.error = error instanceof Error ? error.message : 'Unknown error';
+    return outcome;
+  }
+
+  return { ...outcome, status: 'created', userProfileId };
+}
+
+/**
+ * Create the accounts of validated rows, one after another; a failed row is
+ * rolled back and does not stop the rest
+ */
+export async function runUserImport(
+  rows: UserImportRow[],
+  scope: UserAdminScope,
+  origin: string
+): Promise<UserImportOutcome[]> {
+  if (rows.some(row => row.errors.length > 0)) {
+    throw new UserImportError('Fix the rows with errors before importing', 422);
+  }
+
+  const outcomes: UserImportOutcome[] = [];
+  for (const row of rows) {
+    outcomes.push(await importRow(row, scope, origin));
+  }
+  return outcomes;
+}
+
+/**
+ * CSV of the users the admin may manage, in the import format
+ */
+export async function exportUsersCsv(scope: UserAdminScope): Promise<string> {
+  let query = supabaseAdmin
+    .from('user_profiles')
+    .select('id, clerk_user_id, email, full_name, role, area_id')
+    .is('deleted_at', null)
+    .order('created_at', { ascending: true });
+
+  if (!scope.global) {
+    query = query.in('role', AREA_MANAGED_ROLES);
+  }
+
+  const { data: users, error } = await query;
+  if (error) {
+    throw new Error(`Failed to load users: ${error.message}`);
+  }
+
+  const areaIdsByUser = await loadUserAreaIds(users || []);
+  const visible = (users || []).filter(user =>
+    isUserInScope(scope, { role: user.role, areaIds: areaIdsByUser.get(user.id) || [] })
+  );
+
+  const areas = await loadAreaRefs();
+  const refsById = new Map(areas.map(area => [area.id, areaReference(area)]));
+  const usernames = new Map(
+    (await findClerkUsers('user_id', visible.map(user => user.clerk_user_id)))
+      .map(clerkUser => [clerkUser.id, clerkUser.username])
+  );
+
+  return toCsv([
+    [...USER_CSV_COLUMNS],
+    ...visible.map(user => [
+      usernames.get(user.clerk_user_id) ?? '',
+      user.email,
+      user.full_name,
+      user.role,
+      user.area_id ? refsById.get(user.area_id) : '',
+      (areaIdsByUser.get(user.id) || [])
+        .filter(areaId => areaId !== user.area_id)
+        .map(areaId => refsById.get(areaId))
+        .filter(Boolean)
+        .join(MAPPED_AREA_SEPARATOR),
+    ]),
+  ]);
+}
@@ -0,0 +1,391 @@
+/**
+ * Invitation-based onboarding
+ * An admin invites a username; the invitee opens `/invite?token=...` and sets
+ * their own password, which creates the Clerk account and the user profile.
+ * Bulk imports create the account up front and invite the user to set the
+ * password of that existing account instead.
+ * Tokens are single-use, expire after INVITATION_TTL_DAYS and are stored only
+ * as a SHA-256 hash.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { supabaseAdmin, UserInvitation, UserInvitationStatus } from './supabase';
+import { getMailTransport } from './mail';
+
+export const INVITATION_TTL_DAYS = 7;
+
+// Never includes token_hash
+const INVITATION_COLUMNS = `
+  id,
+  username,
+  email,
+  full_name,
+  area_id,
+  status,
+  invited_by,
+  expires_at,
+  accepted_at,
+  clerk_user_id,
+  revoked_by,
+  revoked_at,
+  created_at
+`;
+
+export class InvitationError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'InvitationError';
+  }
+}
+
+export interface CreateInvitationInput {
+  username: string;
+  email?: string | null;
+  fullName?: string | null;
+  areaId?: number | null;
+  invitedBy: string | null;
+  /** Existing password-less Clerk account the invitee sets the password of */
+  clerkUserId?: string | null;
+}
+
+function hashInvitationToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+export function getInvitationUrl(origin: string, token: string): string {
+  return `${origin}/invite?token=${encodeURIComponent(token)}`;
+}
+
+async function clerkUsernameExists(username: string): Promise<boolean> {
+  const response = await fetch(
+    `https://api.clerk.dev/v1/users?username=${encodeURIComponent(username)}`,
+    { headers: { 'Authorization': `Bearer ${process.env.CLERK_SECRET_KEY}` } }
+  );
+
+  if (!response.ok) {
+    throw new Error(`Failed to look up Clerk users: ${response.status}`);
+  }
+
+  const users = await response.json();
+  return Array.isArray(users) && users.length > 0;
+}
+
+/**
+ * Create a pending invitation; the returned token is not stored and cannot be
+ * recovered later
+ */
+export async function createInvitation(
+  input: CreateInvitationInput
+): Promise<{ invitation: UserInvitation; token: string }> {
+  const username = input.username.trim();
+
+  if (!input.clerkUserId && await clerkUsernameExists(username)) {
+    throw new InvitationError('A user with this username already exists', 409);
+  }
+
+  // An expired invitation must not block a new one for the same username
+  const { error: expireError } = await supabaseAdmin
+    .from('user_invitations')
+    .update({ status: 'revoked', revoked_at: new Date().toISOString() })
+    .ilike('username', username.replace(/[\\%_]/g, '\\$&'))
+    .eq('status', 'pending')
+    .lte('expires_at', new Date().toISOString());
+
+  if (expireError) {
+    throw new Error(`Failed to close expired invitations: ${expireError.message}`);
+  }
+
+  const token = randomBytes(32).toString('base64url');
+  const expiresAt = new Date(Date.now() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+  const { data, error } = await supabaseAdmin
+    .from('user_invitations')
+    .insert({
+      token_hash: hashInvitationToken(token),
+      username,
+      email: input.email?.trim() || null,
+      full_name: input.fullName?.trim() || null,
+      area_id: input.areaId ?? null,
+      invited_by: input.invitedBy,
+      expires_at: expiresAt.toISOString(),
+      clerk_user_id: input.clerkUserId ?? null,
+    })
+    .select(INVITATION_COLUMNS)
+    .single();
+
+  if (error) {
+    if (error.code === '23505') {
+      throw new InvitationError('This username already has a pending invitation', 409);
+    }
+    throw new Error(`Failed to create invitation: ${error.message}`);
+  }
+
+  return { invitation: data as UserInvitation, token };
+}
+
+/**
+ * Invitations, newest first
+ */
+export async function listInvitations(status?: UserInvitationStatus): Promise<UserInvitation[]> {
+  let query = supabaseAdmin
+    .from('user_invitations')
+    .select(INVITATION_COLUMNS)
+    .order('created_at', { ascending: false })
+    .limit(100);
+
+  if (status) {
+    query = query.eq('status', status);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    throw new Error(`Failed to load invitations: ${error.message}`);
+  }
+
+  return (data || []) as UserInvitation[];
+}
+
+export async function getInvitation(id: number): Promise<UserInvitation | null> {
+  const { data, error } = await supabaseAdmin
+    .from('user_invitations')
+    .select(INVITATION_COLUMNS)
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load invitation: ${error.message}`);
+  }
+
+  return data as UserInvitation | null;
+}
+
+export async function revokeInvitation(id: number, revokedBy: string | null): Promise<UserInvitation> {
+  const { data, error } = await supabaseAdmin
+    .from('user_invitations')
+    .update({ status: 'revoked', revoked_by: revokedBy, revoked_at: new Date().toISOString() })
+    .eq('id', id)
+    .eq('status', 'pending')
+    .select(INVITATION_COLUMNS)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to revoke invitation: ${error.message}`);
+  }
+  if (!data) {
+    throw new InvitationError('Invitation is no longer pending', 409);
+  }
+
+  return data as UserInvitation;
+}
+
+/**
+ * Pending, unexpired invitation for a token; null when the token is unknown,
+ * used, revoked or expired
+ */
+export async function findOpenInvitation(token: string): Promise<UserInvitation | null> {
+  const { data, error } = await supabaseAdmin
+    .from('user_invitations')
+    .select(INVITATION_COLUMNS)
+    .eq('token_hash', hashInvitationToken(token))
+    .eq('status', 'pending')
+    .gt('expires_at', new Date().toISOString())
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load invitation: ${error.message}`);
+  }
+
+  return data as UserInvitation | null;
+}
+
+/**
+ * Set the password of an account created up front by a bulk import
+ */
+async function acceptPreprovisionedInvitation(
+  invitation: UserInvitation & { clerk_user_id: string },
+  password: string
+): Promise<{ invitation: UserInvitation; userProfileId: string }> {
+  const { data: profile, error: profileError } = await supabaseAdmin
+    .from('user_profiles')
+    .select('id')
+    .eq('clerk_user_id', invitation.clerk_user_id)
+    .maybeSingle();
+
+  if (profileError) {
+    await reopenInvitation(invitation.id);
+    throw new Error(`Failed to load user profile: ${profileError.message}`);
+  }
+  if (!profile) {
+    throw new InvitationError('The account for this invitation no longer exists', 410);
+  }
+
+  try {
+    const clerkResponse = await fetch(`https://api.clerk.dev/v1/users/${invitation.clerk_user_id}`, {
+      method: 'PATCH',
+      headers: {
+        'Authorization': `Bearer ${process.env.CLERK_SECRET_KEY}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ password }),
+    });
+
+    if (!clerkResponse.ok) {
+      const clerkError = await clerkResponse.json().catch(() => null);
+      console.error('Clerk password update error:', clerkError);
+      const clerkMessage = clerkError?.errors?.[0]?.long_message || clerkError?.errors?.[0]?.message;
+      throw new InvitationError(clerkMessage || 'Failed to set password', 400);
+    }
+  } catch (error) {
+    // Network failures must not leave the token claimed either
+    await reopenInvitation(invitation.id);
+    throw error;
+  }
+
+  return { invitation, userProfileId: profile.id };
+}
+
+async function reopenInvitation(id: number): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('user_invitations')
+    .update({ status: 'pending', accepted_at: null })
+    .eq('id', id)
+    // Only undo our own claim, never a revocation made in the meantime
+    .eq('status', 'accepted');
+
+  if (error) {
+    console.error('Failed to reopen invitation after a failed acceptance:', error);
+  }
+}
+
+/**
+ * Accept an invitation with the invitee's chosen password
+ * The invitation is claimed first so a token can only be used once; it is
+ * reopened when the Clerk account or the profile cannot be created.
+ */
+export async function acceptInvitation(
+  token: string,
+  password: string
+): Promise<{ invitation: UserInvitation; userProfileId: string }> {
+  const { data: claimed, error: claimError } = await supabaseAdmin
+    .from('user_invitations')
+    .update({ status: 'accepted', accepted_at: new Date().toISOString() })
+    .eq('token_hash', hashInvitationToken(token))
+    .eq('status', 'pending')
+    .gt('expires_at', new Date().toISOString())
+    .select(INVITATION_COLUMNS)
+    .maybeSingle();
+
+  if (claimError) {
+    throw new Error(`Failed to claim invitation: ${claimError.message}`);
+  }
+  if (!claimed) {
+    throw new InvitationError('This invitation is invalid, has expired or was already used', 410);
+  }
+
+  const invitation = claimed as UserInvitation;
+  if (invitation.clerk_user_id) {
+    return acceptPreprovisionedInvitation({ ...invitation, clerk_user_id: invitation.clerk_user_id }, password);
+  }
+
+  const fullName = invitation.full_name || '';
+
+  let clerkUser: { id: string };
+  try {
+    const clerkResponse = await fetch('https://api.clerk.dev/v1/users', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${process.env.CLERK_SECRET_KEY}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        username: invitation.username,
+        password,
+        first_name: fullName.split(' ')[0] || '',
+        last_name: fullName.split(' ').slice(1).join(' ') || '',
+        ...(invitation.email ? { email_address: [invitation.email] } : {}),
+      }),
+    });
+
+    if (!clerkResponse.ok) {
+      const clerkError = await clerkResponse.json().catch(() => null);
+      console.error('Clerk user creation error:', clerkError);
+      // Password policy and similar errors are the invitee's to fix
+      const clerkMessage = clerkError?.errors?.[0]?.long_message || clerkError?.errors?.[0]?.message;
+      throw new InvitationError(clerkMessage || 'Failed to create account', 400);
+    }
+
+    clerkUser = await clerkResponse.json();
+  } catch (error) {
+    // Covers rejections, network errors and an unreadable response alike
+    await reopenInvitation(invitation.id);
+    throw error;
+  }
+
+  // The user.created webhook may have created the profile already
+  const { data: profile, error: profileError } = await supabaseAdmin
+    .from('user_profiles')
+    .upsert({
+      clerk_user_id: clerkUser.id,
+      email: invitation.email || null,
+      full_name: invitation.full_name || null,
+      role: 'area sales supervisor',
+      area_id: invitation.area_id ?? null,
+      is_active: true,
+    }, { onConflict: 'clerk_user_id' })
+    .select('id')
+    .single();
+
+  if (profileError) {
+    console.error('Error creating user profile:', profileError);
+
+    // Keep Clerk and Supabase consistent and let the invitee retry
+    try {
+      await fetch(`https://api.clerk.dev/v1/users/${clerkUser.id}`, {
+        method: 'DELETE',
+        headers: {
+          'Authorization': `Bearer ${process.env.CLERK_SECRET_KEY}`,
+        },
+      });
+    } catch (cleanupError) {
+      console.error('Failed to cleanup Clerk user after Supabase error:', cleanupError);
+    }
+    await reopenInvitation(invitation.id);
+    throw new Error('Failed to create user profile');
+  }
+
+  const { error: linkError } = await supabaseAdmin
+    .from('user_invitations')
+    .update({ clerk_user_id: clerkUser.id })
+    .eq('id', invitation.id);
+
+  if (linkError) {
+    console.error('Error linking invitation to Clerk user:', linkError);
+  }
+
+  return { invitation: { ...invitation, clerk_user_id: clerkUser.id }, userProfileId: profile.id };
+}
+
+/**
+ * Email the invite link; does nothing when the invitation has no email
+ */
+export async function sendInvitationEmail(invitation: UserInvitation, url: string): Promise<boolean> {
+  if (!invitation.email) return false;
+
+  const expires = new Date(invitation.expires_at).toUTCString();
+  await getMailTransport().send({
+    to: invitation.email,
+    subject: 'You have been invited to the Inventory Dashboard',
+    text: [
+      `Hello${invitation.full_name ? ` ${invitation.full_name}` : ''},`,
+      '',
+      `You have been invited to the Inventory Dashboard with the username "${invitation.username}".`,
+      'Open the link below to choose your password:',
+      '',
+      url,
+      '',
+      `The link can be used once and expires on ${expires}.`,
+    ].join('\n'),
+  });
+
+  return true;
+}
@@ -0,0 +1,408 @@
+/**
+ * Reconciliation of Clerk users with `user_profiles`
+ * A run pages through every Clerk user, compares them with the profiles and
+ * stores the drift it finds in `user_reconciliation_runs`. Clerk is treated
+ * as the source of identity (email, name) and the profile as the source of
+ * account status (`is_active`), matching how the webhook and the user admin
+ * screens already write them.
+ */
+
+import { supabaseAdmin, UserDriftItem, UserDriftKind, UserReconciliationRun } from './supabase';
+import { processClerkLockOutbox } from './clerk-lock-outbox';
+import { recordActivity } from './activity';
+import { archiveUserProfile } from './user-archive';
+
+// Largest page the Clerk user list allows
+const CLERK_PAGE_SIZE = 500;
+
+// Supabase returns at most 1000 rows per request
+const PROFILE_PAGE_SIZE = 1000;
+
+const DEFAULT_ROLE = 'area sales supervisor';
+
+export class ReconciliationError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'ReconciliationError';
+  }
+}
+
+interface ClerkUser {
+  id: string;
+  username: string | null;
+  first_name: string | null;
+  last_name: string | null;
+  email_addresses: { id: string; email_address: string }[];
+  primary_email_address_id: string | null;
+  locked: boolean;
+}
+
+interface ProfileRow {
+  id: string;
+  clerk_user_id: string;
+  email: string | null;
+  full_name: string | null;
+  is_active: boolean | null;
+}
+
+async function clerkRequest(path: string, init?: RequestInit): Promise<Response> {
+  return fetch(`https://api.clerk.dev/v1${path}`, {
+    ...init,
+    headers: {
+      'Authorization': `Bearer ${process.env.CLERK_SECRET_KEY}`,
+      'Content-Type': 'application/json',
+    },
+  });
+}
+
+async function listAllClerkUsers(): Promise<ClerkUser[]> {
+  const users: ClerkUser[] = [];
+
+  for (let offset = 0; ; offset += CLERK_PAGE_SIZE) {
+    const params = new URLSearchParams({
+      limit: String(CLERK_PAGE_SIZE),
+      offset: String(offset),
+      order_by: '+created_at',
+    });
+    const response = await clerkRequest(`/users?${params}`);
+    if (!response.ok) {
+      throw new Error(`Failed to list Clerk users: ${response.status}`);
+    }
+
+    const page: ClerkUser[] = await response.json();
+    users.push(...page);
+    if (page.length < CLERK_PAGE_SIZE) {
+      return users;
+    }
+  }
+}
+
+async function getClerkUser(clerkUserId: string): Promise<ClerkUser | null> {
+  const response = await clerkRequest(`/users/${encodeURIComponent(clerkUserId)}`);
+  if (response.status === 404) {
+    return null;
+  }
+  if (!response.ok) {
+    throw new Error(`Failed to load Clerk user: ${response.status}`);
+  }
+  return response.json();
+}
+
+async function listAllProfiles(): Promise<ProfileRow[]> {
+  const profiles: ProfileRow[] = [];
+
+  for (let from = 0; ; from += PROFILE_PAGE_SIZE) {
+    const { data, error } = await supabaseAdmin
+      .from('user_profiles')
+      .select('id, clerk_user_id, email, full_name, is_active')
+      // Archived profiles belong to deleted Clerk users by design
+      .is('deleted_at', null)
+      .order('id')
+      .range(from, from + PROFILE_PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to load user profiles: ${error.message}`);
+    }
+
+    profiles.push(...(data || []));
+    if (!data || data.length < PROFILE_PAGE_SIZE) {
+      return profiles;
+    }
+  }
+}
+
+async function getProfile(field: 'id' | 'clerk_user_id', value: string): Promise<ProfileRow | null> {
+  const { data, error } = await supabaseAdmin
+    .from('user_profiles')
+    .select('id, clerk_user_id, email, full_name, is_active')
+    .eq(field, value)
+    .is('deleted_at', null)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load user profile: ${error.message}`);
+  }
+  return data;
+}
+
+/** Clerk users with a lock or unlock still queued are converging, not drifted */
+async function loadPendingLockUserIds(): Promise<Set<string>> {
+  const { data, error } = await supabaseAdmin
+    .from('clerk_lock_outbox')
+    .select('clerk_user_id')
+    .in('status', ['pending', 'processing']);
+
+  if (error) {
+    throw new Error(`Failed to load Clerk lock outbox: ${error.message}`);
+  }
+  return new Set((data || []).map(entry => entry.clerk_user_id));
+}
+
+function clerkEmail(user: ClerkUser): string | null {
+  const primary = user.email_addresses?.find(address => address.id === user.primary_email_address_id);
+  return (primary || user.email_addresses?.[0])?.email_address || null;
+}
+
+function clerkFullName(user: ClerkUser): string | null {
+  return `${user.first_name || ''} ${user.last_name || ''}`.trim() || null;
+}
+
+function normalizeName(name: string | null | undefined): string {
+  return (name || '').trim().replace(/\s+/g, ' ');
+}
+
+function driftItem(
+  kind: UserDriftKind,
+  clerkUser: ClerkUser | null,
+  profile: ProfileRow | null,
+  clerkValue: string | null,
+  profileValue: string | null
+): UserDriftItem {
+  const clerkUserId = clerkUser?.id ?? profile?.clerk_user_id ?? null;
+  return {
+    key: `${kind}:${clerkUserId ?? profile?.id}`,
+    kind,
+    clerkUserId,
+    userProfileId: profile?.id ?? null,
+    label: clerkUser?.username || profile?.full_name || profile?.email || clerkUser?.id || profile?.id || '',
+    clerkValue,
+    profileValue,
+  };
+}
+
+/**
+ * Drift between one Clerk user and its profile; either side may be missing
+ */
+function compareUser(
+  clerkUser: ClerkUser | null,
+  profile: ProfileRow | null,
+  lockPending: boolean
+): UserDriftItem[] {
+  if (clerkUser && !profile) {
+    return [driftItem('clerk_only', clerkUser, null, clerkUser.username || clerkEmail(clerkUser), null)];
+  }
+  if (!clerkUser && profile) {
+    return [driftItem('profile_only', null, profile, null, profile.email)];
+  }
+  if (!clerkUser || !profile) {
+    return [];
+  }
+
+  const items: UserDriftItem[] = [];
+
+  const email = clerkEmail(clerkUser);
+  if ((email || '').toLowerCase() !== (profile.email || '').toLowerCase()) {
+    items.push(driftItem('email_mismatch', clerkUser, profile, email, profile.email));
+  }
+
+  const fullName = clerkFullName(clerkUser);
+  if (normalizeName(fullName) !== normalizeName(profile.full_name)) {
+    items.push(driftItem('name_mismatch', clerkUser, profile, fullName, profile.full_name));
+  }
+
+  const isActive = profile.is_active !== false;
+  if (!lockPending && clerkUser.locked === isActive) {
+    items.push(driftItem(
+      'lock_mismatch',
+      clerkUser,
+      profile,
+      clerkUser.locked ? 'locked' : 'unlocked',
+      isActive ? 'active' : 'inactive'
+    ));
+  }
+
+  return items;
+}
+
+/**
+ * Compare every Clerk user with every profile and store the drift as a new
+ * run. A failure is recorded on the run before it is rethrown.
+ */
+export async function runUserReconciliation(triggeredBy: string): Promise<UserReconciliationRun> {
+  const { data: run, error: insertError } = await supabaseAdmin
+    .from('user_reconciliation_runs')
+    .insert({ triggered_by: triggeredBy })
+    .select('*')
+    .single();
+
+  if (insertError || !run) {
+    throw new Error(`Failed to start reconciliation run: ${insertError?.message}`);
+  }
+
+  try {
+    const [clerkUsers, profiles, pendingLocks] = await Promise.all([
+      listAllClerkUsers(),
+      listAllProfiles(),
+      loadPendingLockUserIds(),
+    ]);
+
+    const profilesByClerkId = new Map(profiles.map(profile => [profile.clerk_user_id, profile]));
+    const clerkIds = new Set(clerkUsers.map(user => user.id));
+
+    const items: UserDriftItem[] = [
+      ...clerkUsers.flatMap(user =>
+        compareUser(user, profilesByClerkId.get(user.id) ?? null, pendingLocks.has(user.id))
+      ),
+      ...profiles
+        .filter(profile => !clerkIds.has(profile.clerk_user_id))
+        .flatMap(profile => compareUser(null, profile, false)),
+    ];
+
+    const { data, error } = await supabaseAdmin
+      .from('user_reconciliation_runs')
+      .update({
+        status: 'completed',
+        clerk_user_count: clerkUsers.length,
+        profile_count: profiles.length,
+        items,
+        finished_at: new Date().toISOString(),
+      })
+      .eq('id', run.id)
+      .select('*')
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to store reconciliation run: ${error.message}`);
+    }
+
+    return data as UserReconciliationRun;
+  } catch (error) {
+    await supabaseAdmin
+      .from('user_reconciliation_runs')
+      .update({
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Unknown error',
+        finished_at: new Date().toISOString(),
+      })
+      .eq('id', run.id);
+    throw error;
+  }
+}
+
+/**
+ * A run by id, or the latest run when no id is given
+ */
+export async function getReconciliationRun(runId?: number): Promise<UserReconciliationRun | null> {
+  let query = supabaseAdmin
+    .from('user_reconciliation_runs')
+    .select('*');
+
+  query = runId
+    ? query.eq('id', runId)
+    : query.order('started_at', { ascending: false }).limit(1);
+
+  const { data, error } = await query.maybeSingle();
+  if (error) {
+    throw new Error(`Failed to load reconciliation run: ${error.message}`);
+  }
+  return data as UserReconciliationRun | null;
+}
+
+async function applyFix(item: UserDriftItem, clerkUser: ClerkUser | null, profile: ProfileRow | null): Promise<string> {
+  switch (item.kind) {
+    case 'clerk_only': {
+      const { error } = await supabaseAdmin
+        .from('user_profiles')
+        .insert({
+          clerk_user_id: clerkUser!.id,
+          email: clerkEmail(clerkUser!),
+          full_name: clerkFullName(clerkUser!),
+          role: DEFAULT_ROLE,
+        });
+      if (error) throw new Error(`Failed to create user profile: ${error.message}`);
+      return 'Created missing user profile';
+    }
+    case 'profile_only':
+      // Same as the user.deleted webhook would have done
+      await archiveUserProfile(profile!.clerk_user_id);
+      return 'Archived orphaned user profile';
+    case 'email_mismatch':
+    case 'name_mismatch': {
+      const update = item.kind === 'email_mismatch'
+        ? { email: clerkEmail(clerkUser!) }
+        : { full_name: clerkFullName(clerkUser!) };
+      const { error } = await supabaseAdmin
+        .from('user_profiles')
+        .update({ ...update, updated_at: new Date().toISOString() })
+        .eq('id', profile!.id);
+      if (error) throw new Error(`Failed to update user profile: ${error.message}`);
+      return item.kind === 'email_mismatch' ? 'Copied email from Clerk' : 'Copied name from Clerk';
+    }
+    case 'lock_mismatch': {
+      const action = profile!.is_active !== false ? 'unlock' : 'lock';
+      const { data: outboxId, error } = await supabaseAdmin.rpc('enqueue_clerk_lock', {
+        p_user_profile_id: profile!.id,
+        p_clerk_user_id: clerkUser!.id,
+        p_action: action,
+        p_snapshot_id: null,
+      });
+      if (error) throw new Error(`Failed to queue Clerk ${action}: ${error.message}`);
+
+      const [outcome] = await processClerkLockOutbox({ ids: [outboxId as number] });
+      if (outcome?.status !== 'done') {
+        throw new ReconciliationError(
+          `Clerk ${action} failed, it will be retried by the outbox: ${outcome?.error || 'Unknown error'}`,
+          502
+        );
+      }
+      return action === 'lock' ? 'Locked user in Clerk' : 'Unlocked user in Clerk';
+    }
+  }
+}
+
+/**
+ * Apply the one-click fix for a drift item of a run. The item is checked
+ * again against current data first; drift that has already gone away is
+ * marked stale instead of fixed.
+ */
+export async function fixDriftItem(
+  runId: number,
+  key: string,
+  actor: { clerkUserId: string; userProfileId: string | null }
+): Promise<{ item: UserDriftItem; message: string }> {
+  const run = await getReconciliationRun(runId);
+  if (!run) {
+    throw new ReconciliationError('Reconciliation run not found', 404);
+  }
+
+  const item = run.items.find(candidate => candidate.key === key);
+  if (!item) {
+    throw new ReconciliationError('Drift item not found', 404);
+  }
+  if (item.resolvedAt) {
+    throw new ReconciliationError('Drift item is already resolved', 409);
+  }
+
+  const profile = item.userProfileId
+    ? await getProfile('id', item.userProfileId)
+    : item.clerkUserId ? await getProfile('clerk_user_id', item.clerkUserId) : null;
+  const clerkUserId = item.clerkUserId ?? profile?.clerk_user_id;
+  const clerkUser = clerkUserId ? await getClerkUser(clerkUserId) : null;
+
+  const stillDrifted = compareUser(clerkUser, profile, false).some(current => current.kind === item.kind);
+  const message = stillDrifted ? await applyFix(item, clerkUser, profile) : 'Drift had already been resolved';
+
+  const { data: items, error } = await supabaseAdmin.rpc('resolve_reconciliation_item', {
+    p_run_id: runId,
+    p_key: key,
+    p_resolution: stillDrifted ? 'fixed' : 'stale',
+    p_resolved_by: actor.userProfileId,
+  });
+
+  if (error) {
+    throw new Error(`Failed to mark drift item resolved: ${error.message}`);
+  }
+
+  if (stillDrifted) {
+    await recordActivity({
+      type: 'update',
+      action: message,
+      item: item.label,
+      actorClerkUserId: actor.clerkUserId,
+      metadata: { runId, kind: item.kind, clerkValue: item.clerkValue, profileValue: item.profileValue },
+    });
+  }
+
+  const resolved = (items as UserDriftItem[]).find(candidate => candidate.key === key) ?? item;
+  return { item: resolved, message };
+}
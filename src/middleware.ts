@@ -5,7 +5,9 @@ const isPublicRoute = createRouteMatcher([
   '/sign-in(.*)', 
   '/sign-up(.*)', 
   '/',
-  '/api/webhooks/clerk'
+  '/api/webhooks/clerk',
+  '/invite(.*)',
+  '/api/invitations(.*)'
 ]);
 
 const isAdminRoute = createRouteMatcher(['/admin(.*)']);